@@ -7,6 +7,8 @@ import {
 } from 'lucide-react';
 import { useAuth } from '../hooks/useAuth';
 import { isAdmin, canViewAnalytics } from '../types/user';
+import { EscrowService } from '../services/escrowService';
+import { EscrowRevenueSummary, fromMinorUnits } from '../types/escrow';
 
 interface AnalyticsData {
   overview: {
@@ -48,6 +50,18 @@ interface AnalyticsData {
   }[];
 }
 
+const toRevenueMetrics = (ledger: EscrowRevenueSummary): AnalyticsData['revenueMetrics'] => ({
+  totalRevenue: fromMinorUnits(ledger.totalReleased),
+  monthlyRecurring: fromMinorUnits(ledger.releasedLast30Days),
+  averageOrderValue: ledger.requestsWithReleases > 0
+    ? fromMinorUnits(Math.round(ledger.totalReleased / ledger.requestsWithReleases))
+    : 0,
+  // Share of funded milestones that have been paid out to designers
+  conversionRate: ledger.fundedMilestones > 0
+    ? Math.round((ledger.releasedMilestones / ledger.fundedMilestones) * 1000) / 10
+    : 0
+});
+
 const Analytics: React.FC = () => {
   const { userProfile } = useAuth();
   const [analyticsData, setAnalyticsData] = useState<AnalyticsData | null>(null);
@@ -79,10 +93,10 @@ const Analytics: React.FC = () => {
         successRate: 94.2
       },
       revenueMetrics: {
-        totalRevenue: 485000,
-        monthlyRecurring: 45000,
-        averageOrderValue: 8500,
-        conversionRate: 3.8
+        totalRevenue: 0,
+        monthlyRecurring: 0,
+        averageOrderValue: 0,
+        conversionRate: 0
       },
       geographicData: [
         { country: 'United States', users: 1245, revenue: 285000 },
@@ -99,10 +113,26 @@ const Analytics: React.FC = () => {
       }))
     };
 
-    setTimeout(() => {
-      setAnalyticsData(mockData);
-      setLoading(false);
-    }, 1000);
+    const loadRevenue = async () => {
+      setLoading(true);
+      try {
+        // Revenue comes from the escrow ledger; released funds count as earned revenue
+        const ledger = await EscrowService.getRevenueSummary();
+        const revenueMetrics = toRevenueMetrics(ledger);
+        setAnalyticsData({
+          ...mockData,
+          overview: { ...mockData.overview, totalRevenue: revenueMetrics.totalRevenue },
+          revenueMetrics
+        });
+      } catch (error) {
+        console.error('❌ Error loading revenue from escrow ledger:', error);
+        setAnalyticsData(mockData);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    loadRevenue();
   }, [selectedPeriod]);
 
   // Check permissions
@@ -7,6 +7,7 @@ import Dashboard from './Dashboard';
 import ProjectsPortfolio from './ProjectsPortfolio';
 import ClientsDesigners from './ClientsDesigners';
 import MyRequests from './MyRequests';
+import Orders from './Orders';
 import Messages from './Messages';
 import UsersManagement from './UsersManagement';
 import VerificationManagement from './VerificationManagement';
@@ -48,6 +49,7 @@ const AppRouter: React.FC = () => {
         <Route path="/projects" element={<ProjectsPortfolio />} />
         <Route path="/clients" element={<ClientsDesigners />} />
         <Route path="/requests" element={<MyRequests />} />
+        <Route path="/orders" element={<Orders />} />
         <Route path="/messages" element={<Messages />} />
         <Route path="/users" element={<UsersManagement />} />
         <Route path="/verifications" element={<VerificationManagement />} />
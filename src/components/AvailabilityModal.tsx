@@ -0,0 +1,286 @@
+/**
+ * Availability Modal Component
+ *
+ * Lets a verified designer publish weekly working hours, block out
+ * time off and cap how many projects they take on at once.
+ */
+
+import React, { useEffect, useState } from 'react';
+import { Calendar, X, RefreshCw, Save, Plus, Trash2 } from 'lucide-react';
+import { useAuth } from '../hooks/useAuth';
+import { AvailabilityService } from '../services/availabilityService';
+import { DesignerDirectoryService } from '../services/designerDirectoryService';
+import {
+  AvailabilitySettings,
+  WeeklySchedule,
+  MAX_CONCURRENT_PROJECTS_LIMIT,
+  WEEKDAYS,
+  WEEKDAY_LABELS,
+  computeAvailability,
+  defaultWeeklySchedule
+} from '../types/availability';
+import { AVAILABILITY_LABELS } from '../types/designerDirectory';
+
+interface AvailabilityModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+const AvailabilityModal: React.FC<AvailabilityModalProps> = ({ isOpen, onClose }) => {
+  const { user } = useAuth();
+  const [settings, setSettings] = useState<AvailabilitySettings | null>(null);
+  const [schedule, setSchedule] = useState<WeeklySchedule>(defaultWeeklySchedule());
+  const [maxConcurrentProjects, setMaxConcurrentProjects] = useState(0);
+  const [timeOffForm, setTimeOffForm] = useState({ start: '', end: '', reason: '' });
+  const [errors, setErrors] = useState<string[]>([]);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    if (!isOpen || !user) return;
+
+    AvailabilityService.getAvailability(user.uid)
+      .then(data => {
+        setSettings(data);
+        setSchedule(data.schedule);
+        setMaxConcurrentProjects(data.maxConcurrentProjects);
+      })
+      .catch(error => setErrors([error instanceof Error ? error.message : 'Failed to load availability']));
+  }, [isOpen, user]);
+
+  // Every change is reflected in the directory right away
+  const reload = async () => {
+    if (!user) return;
+    const data = await AvailabilityService.getAvailability(user.uid);
+    setSettings(data);
+    await DesignerDirectoryService.refreshAvailability(user.uid).catch(error => {
+      console.warn('⚠️ Directory availability could not be updated:', error);
+    });
+  };
+
+  const handleSaveSchedule = async () => {
+    if (!user) return;
+
+    const validationErrors = AvailabilityService.validateSchedule(schedule, maxConcurrentProjects);
+    if (validationErrors.length > 0) {
+      setErrors(validationErrors);
+      return;
+    }
+
+    setIsSaving(true);
+    setErrors([]);
+    try {
+      await AvailabilityService.updateSchedule(user.uid, schedule, maxConcurrentProjects);
+      await reload();
+    } catch (error) {
+      setErrors([error instanceof Error ? error.message : 'Failed to save schedule']);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleAddTimeOff = async () => {
+    if (!user) return;
+
+    setIsSaving(true);
+    setErrors([]);
+    try {
+      await AvailabilityService.addTimeOff(user.uid, {
+        start: new Date(`${timeOffForm.start}T00:00:00`),
+        end: new Date(`${timeOffForm.end}T23:59:59`),
+        reason: timeOffForm.reason
+      });
+      setTimeOffForm({ start: '', end: '', reason: '' });
+      await reload();
+    } catch (error) {
+      setErrors([error instanceof Error ? error.message : 'Failed to add time off']);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleRemoveTimeOff = async (blockId: string) => {
+    if (!user) return;
+
+    setIsSaving(true);
+    setErrors([]);
+    try {
+      await AvailabilityService.removeTimeOff(user.uid, blockId);
+      await reload();
+    } catch (error) {
+      setErrors([error instanceof Error ? error.message : 'Failed to remove time off']);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  if (!isOpen) return null;
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+      <div className="bg-white rounded-xl w-full max-w-2xl max-h-[90vh] overflow-y-auto shadow-2xl">
+        <div className="sticky top-0 bg-white border-b border-gray-200 px-6 py-4 rounded-t-xl">
+          <div className="flex justify-between items-center">
+            <div>
+              <h2 className="text-xl font-bold text-gray-900 flex items-center">
+                <Calendar className="w-6 h-6 mr-2 text-green-600" />
+                Availability
+              </h2>
+              {settings && (
+                <p className="text-sm text-gray-600 mt-1">
+                  Currently shown as <span className="font-medium">{AVAILABILITY_LABELS[computeAvailability(settings)]}</span>
+                  {' • '}{settings.activeProjects}/{settings.maxConcurrentProjects} active projects
+                </p>
+              )}
+            </div>
+            <button
+              onClick={onClose}
+              className="text-gray-400 hover:text-gray-600 transition-colors"
+              aria-label="Close modal"
+            >
+              <X className="w-6 h-6" />
+            </button>
+          </div>
+        </div>
+
+        <div className="p-6 space-y-6">
+          {errors.length > 0 && (
+            <div className="bg-red-50 border border-red-200 rounded-lg p-4">
+              <ul className="list-disc list-inside text-sm text-red-700 space-y-1">
+                {errors.map(error => <li key={error}>{error}</li>)}
+              </ul>
+            </div>
+          )}
+
+          {/* Weekly Schedule */}
+          <div>
+            <h3 className="text-sm font-medium text-gray-700 mb-3">Working Hours</h3>
+            <div className="space-y-2">
+              {WEEKDAYS.map(day => (
+                <div key={day} className="flex items-center space-x-3">
+                  <label className="flex items-center w-32 text-sm text-gray-700">
+                    <input
+                      type="checkbox"
+                      checked={schedule[day].enabled}
+                      onChange={(e) => setSchedule(prev => ({ ...prev, [day]: { ...prev[day], enabled: e.target.checked } }))}
+                      className="mr-2 rounded border-gray-300 text-green-600 focus:ring-green-500"
+                    />
+                    {WEEKDAY_LABELS[day]}
+                  </label>
+                  <input
+                    type="time"
+                    value={schedule[day].start}
+                    disabled={!schedule[day].enabled}
+                    onChange={(e) => setSchedule(prev => ({ ...prev, [day]: { ...prev[day], start: e.target.value } }))}
+                    className="px-2 py-1 border border-gray-300 rounded-lg text-sm disabled:bg-gray-50 disabled:text-gray-400"
+                    aria-label={`${WEEKDAY_LABELS[day]} start`}
+                  />
+                  <span className="text-gray-400">–</span>
+                  <input
+                    type="time"
+                    value={schedule[day].end}
+                    disabled={!schedule[day].enabled}
+                    onChange={(e) => setSchedule(prev => ({ ...prev, [day]: { ...prev[day], end: e.target.value } }))}
+                    className="px-2 py-1 border border-gray-300 rounded-lg text-sm disabled:bg-gray-50 disabled:text-gray-400"
+                    aria-label={`${WEEKDAY_LABELS[day]} end`}
+                  />
+                </div>
+              ))}
+            </div>
+          </div>
+
+          <div>
+            <label htmlFor="maxConcurrentProjects" className="block text-sm font-medium text-gray-700 mb-2">
+              Maximum concurrent projects
+            </label>
+            <input
+              id="maxConcurrentProjects"
+              type="number"
+              min={1}
+              max={MAX_CONCURRENT_PROJECTS_LIMIT}
+              value={maxConcurrentProjects || ''}
+              onChange={(e) => setMaxConcurrentProjects(Number(e.target.value))}
+              className="w-32 px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-green-500 focus:border-transparent"
+            />
+            <p className="mt-1 text-xs text-gray-500">You won't receive new work while this many projects are in progress.</p>
+          </div>
+
+          <div className="flex justify-end">
+            <button
+              type="button"
+              onClick={handleSaveSchedule}
+              disabled={isSaving}
+              className="px-6 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors flex items-center"
+            >
+              {isSaving ? <RefreshCw className="w-4 h-4 mr-2 animate-spin" /> : <Save className="w-4 h-4 mr-2" />}
+              Save Schedule
+            </button>
+          </div>
+
+          {/* Time Off */}
+          <div className="pt-4 border-t border-gray-200">
+            <h3 className="text-sm font-medium text-gray-700 mb-3">Time Off</h3>
+            {settings && settings.timeOff.length > 0 ? (
+              <ul className="space-y-2 mb-4">
+                {settings.timeOff.map(block => (
+                  <li key={block.id} className="flex items-center justify-between bg-gray-50 rounded-lg px-3 py-2 text-sm">
+                    <span className="text-gray-700">
+                      {block.start.toLocaleDateString()} – {block.end.toLocaleDateString()}
+                      {block.reason && <span className="text-gray-500"> • {block.reason}</span>}
+                    </span>
+                    <button
+                      onClick={() => handleRemoveTimeOff(block.id)}
+                      disabled={isSaving}
+                      className="text-gray-400 hover:text-red-500 disabled:opacity-50 transition-colors"
+                      aria-label="Remove time off"
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            ) : (
+              <p className="text-sm text-gray-500 mb-4">No time off scheduled.</p>
+            )}
+
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+              <input
+                type="date"
+                value={timeOffForm.start}
+                onChange={(e) => setTimeOffForm(prev => ({ ...prev, start: e.target.value }))}
+                className="px-3 py-2 border border-gray-300 rounded-lg text-sm"
+                aria-label="Time off start"
+              />
+              <input
+                type="date"
+                value={timeOffForm.end}
+                onChange={(e) => setTimeOffForm(prev => ({ ...prev, end: e.target.value }))}
+                className="px-3 py-2 border border-gray-300 rounded-lg text-sm"
+                aria-label="Time off end"
+              />
+              <input
+                type="text"
+                value={timeOffForm.reason}
+                onChange={(e) => setTimeOffForm(prev => ({ ...prev, reason: e.target.value }))}
+                className="px-3 py-2 border border-gray-300 rounded-lg text-sm"
+                placeholder="Reason (optional)"
+              />
+            </div>
+            <div className="flex justify-end mt-3">
+              <button
+                type="button"
+                onClick={handleAddTimeOff}
+                disabled={isSaving || !timeOffForm.start || !timeOffForm.end}
+                className="px-4 py-2 text-gray-700 bg-white border border-gray-300 rounded-lg hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed transition-colors flex items-center"
+              >
+                <Plus className="w-4 h-4 mr-2" />
+                Add Time Off
+              </button>
+            </div>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default AvailabilityModal;
@@ -7,29 +7,21 @@ import {
 } from 'lucide-react';
 import { useAuth } from '../hooks/useAuth';
 import { isDesigner, isServiceRequester, isVerifiedDesigner } from '../types/user';
-
-interface Designer {
-  id: string;
-  name: string;
-  title: string;
-  specialization: string[];
-  location: string;
-  rating: number;
-  reviewCount: number;
-  projectCount: number;
-  experience: string;
-  hourlyRate: number;
-  availability: 'available' | 'busy' | 'unavailable';
-  profileImage: string;
-  portfolio: string[];
-  skills: string[];
-  description: string;
-  responseTime: string;
-  completionRate: number;
-  isVerified: boolean;
-  isFeatured: boolean;
-  lastActive: string;
-}
+import { DesignerDirectoryService, DesignerDirectoryPage } from '../services/designerDirectoryService';
+import {
+  DesignerDirectoryEntry,
+  DesignerDirectoryFilters,
+  DesignerAvailability,
+  DirectorySort,
+  ExperienceBand,
+  PriceBand,
+  AVAILABILITY_LABELS,
+  DESIGNER_SOFTWARE,
+  DESIGNER_SPECIALIZATIONS,
+  EXPERIENCE_BAND_LABELS,
+  PRICE_BAND_LABELS,
+  SORT_LABELS
+} from '../types/designerDirectory';
 
 interface Client {
   id: string;
@@ -52,88 +44,81 @@ interface Client {
 const ClientsDesigners: React.FC = () => {
   const { userProfile } = useAuth();
   const [activeTab, setActiveTab] = useState<'designers' | 'clients'>('designers');
-  const [designers, setDesigners] = useState<Designer[]>([]);
+  const [designers, setDesigners] = useState<DesignerDirectoryEntry[]>([]);
   const [clients, setClients] = useState<Client[]>([]);
   const [viewMode, setViewMode] = useState<'grid' | 'list'>('grid');
   const [searchTerm, setSearchTerm] = useState('');
   const [selectedSpecialization, setSelectedSpecialization] = useState('all');
-  const [selectedLocation, setSelectedLocation] = useState('all');
+  const [selectedExperience, setSelectedExperience] = useState('all');
+  const [selectedSoftware, setSelectedSoftware] = useState('all');
   const [selectedAvailability, setSelectedAvailability] = useState('all');
   const [priceRange, setPriceRange] = useState('all');
   const [showFilters, setShowFilters] = useState(false);
-  const [sortBy, setSortBy] = useState('rating');
+  const [sortBy, setSortBy] = useState<DirectorySort>('rating');
+  const [cursor, setCursor] = useState<DesignerDirectoryPage['cursor']>(null);
+  const [hasMore, setHasMore] = useState(false);
+  const [loadingDesigners, setLoadingDesigners] = useState(true);
+  const [loadingMore, setLoadingMore] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const directoryFilters: DesignerDirectoryFilters = {
+    specialization: selectedSpecialization !== 'all' ? selectedSpecialization : undefined,
+    experienceBand: selectedExperience !== 'all' ? selectedExperience as ExperienceBand : undefined,
+    software: selectedSoftware !== 'all' ? selectedSoftware : undefined,
+    availability: selectedAvailability !== 'all' ? selectedAvailability as DesignerAvailability : undefined,
+    priceBand: priceRange !== 'all' ? priceRange as PriceBand : undefined
+  };
+  const filtersKey = JSON.stringify(directoryFilters);
 
-  // Mock data for designers
+  // Filters and sorting run server-side, so any change starts again from the first page
   useEffect(() => {
-    const mockDesigners: Designer[] = [
-      {
-        id: '1',
-        name: 'Sarah Johnson',
-        title: 'Senior Architect',
-        specialization: ['Residential', 'Sustainable Design'],
-        location: 'Los Angeles, CA',
-        rating: 4.9,
-        reviewCount: 127,
-        projectCount: 89,
-        experience: '8+ years',
-        hourlyRate: 150,
-        availability: 'available',
-        profileImage: '/api/placeholder/100/100',
-        portfolio: ['/api/placeholder/300/200', '/api/placeholder/300/200'],
-        skills: ['AutoCAD', 'Revit', 'SketchUp', 'Sustainable Design'],
-        description: 'Passionate architect specializing in sustainable residential design with 8+ years of experience.',
-        responseTime: '< 2 hours',
-        completionRate: 98,
-        isVerified: true,
-        isFeatured: true,
-        lastActive: '2 hours ago'
-      },
-      {
-        id: '2',
-        name: 'Michael Chen',
-        title: 'Commercial Designer',
-        specialization: ['Commercial', 'Office Design'],
-        location: 'New York, NY',
-        rating: 4.8,
-        reviewCount: 94,
-        projectCount: 67,
-        experience: '6+ years',
-        hourlyRate: 120,
-        availability: 'busy',
-        profileImage: '/api/placeholder/100/100',
-        portfolio: ['/api/placeholder/300/200'],
-        skills: ['3ds Max', 'V-Ray', 'Photoshop', 'Commercial Design'],
-        description: 'Expert in commercial and office space design with focus on modern workplace solutions.',
-        responseTime: '< 4 hours',
-        completionRate: 95,
-        isVerified: true,
-        isFeatured: false,
-        lastActive: '1 day ago'
-      },
-      {
-        id: '3',
-        name: 'Emily Rodriguez',
-        title: 'Interior Architect',
-        specialization: ['Interior Design', 'Hospitality'],
-        location: 'Miami, FL',
-        rating: 4.7,
-        reviewCount: 156,
-        projectCount: 112,
-        experience: '10+ years',
-        hourlyRate: 180,
-        availability: 'available',
-        profileImage: '/api/placeholder/100/100',
-        portfolio: ['/api/placeholder/300/200', '/api/placeholder/300/200'],
-        skills: ['Interior Design', 'Hospitality Design', 'Luxury Spaces'],
-        description: 'Luxury interior architect with extensive experience in hospitality and high-end residential projects.',
-        responseTime: '< 1 hour',
-        completionRate: 99,
-        isVerified: true,
-        isFeatured: true,
-        lastActive: '30 minutes ago'
+    let cancelled = false;
+
+    const loadDesigners = async () => {
+      setLoadingDesigners(true);
+      setError(null);
+
+      try {
+        const page = await DesignerDirectoryService.getDesigners(JSON.parse(filtersKey), sortBy);
+        if (cancelled) return;
+        setDesigners(page.entries);
+        setCursor(page.cursor);
+        setHasMore(page.hasMore);
+      } catch (err) {
+        if (!cancelled) {
+          setError(err instanceof Error ? err.message : 'Failed to load designers');
+        }
+      } finally {
+        if (!cancelled) {
+          setLoadingDesigners(false);
+        }
       }
-    ];
+    };
+
+    loadDesigners();
+    return () => {
+      cancelled = true;
+    };
+  }, [filtersKey, sortBy]);
+
+  const handleLoadMore = async () => {
+    if (!cursor || loadingMore) return;
+
+    setLoadingMore(true);
+    try {
+      const page = await DesignerDirectoryService.getDesigners(directoryFilters, sortBy, cursor);
+      setDesigners(prev => [...prev, ...page.entries]);
+      setCursor(page.cursor);
+      setHasMore(page.hasMore);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load more designers');
+    } finally {
+      setLoadingMore(false);
+    }
+  };
 
+  // Mock data for clients
+  useEffect(() => {
     const mockClients: Client[] = [
       {
         id: '1',
@@ -171,14 +156,13 @@ const ClientsDesigners: React.FC = () => {
       }
     ];
 
-    setDesigners(mockDesigners);
     setClients(mockClients);
   }, []);
 
-  const specializations = ['all', 'Residential', 'Commercial', 'Interior Design', 'Sustainable Design', 'Hospitality', 'Industrial'];
-  const locations = ['all', 'Los Angeles, CA', 'New York, NY', 'Miami, FL', 'Chicago, IL', 'San Francisco, CA'];
-  const availabilities = ['all', 'available', 'busy', 'unavailable'];
-  const priceRanges = ['all', '0-100', '100-200', '200-300', '300+'];
+  const specializations = ['all', ...Object.keys(DESIGNER_SPECIALIZATIONS)];
+  const experienceBands = ['all', ...Object.keys(EXPERIENCE_BAND_LABELS)];
+  const availabilities = ['all', ...Object.keys(AVAILABILITY_LABELS)];
+  const priceRanges = ['all', ...Object.keys(PRICE_BAND_LABELS)];
 
   const getAvailabilityColor = (availability: string) => {
     switch (availability) {
@@ -198,20 +182,21 @@ const ClientsDesigners: React.FC = () => {
     }
   };
 
+  const getSpecializationLabel = (specialization: string) => {
+    return DESIGNER_SPECIALIZATIONS[specialization] || specialization;
+  };
+
+  const formatStartingPrice = (designer: DesignerDirectoryEntry) => {
+    return designer.startingPrice !== null ? `From $${designer.startingPrice.toLocaleString()}` : 'No packages yet';
+  };
+
+  // Free-text search narrows the loaded page; structured filters are applied by the query
   const filteredDesigners = designers.filter(designer => {
-    const matchesSearch = designer.name.toLowerCase().includes(searchTerm.toLowerCase()) ||
-                         designer.title.toLowerCase().includes(searchTerm.toLowerCase()) ||
-                         designer.specialization.some(spec => spec.toLowerCase().includes(searchTerm.toLowerCase()));
-    const matchesSpecialization = selectedSpecialization === 'all' || designer.specialization.includes(selectedSpecialization);
-    const matchesLocation = selectedLocation === 'all' || designer.location === selectedLocation;
-    const matchesAvailability = selectedAvailability === 'all' || designer.availability === selectedAvailability;
-    const matchesPrice = priceRange === 'all' || 
-      (priceRange === '0-100' && designer.hourlyRate <= 100) ||
-      (priceRange === '100-200' && designer.hourlyRate > 100 && designer.hourlyRate <= 200) ||
-      (priceRange === '200-300' && designer.hourlyRate > 200 && designer.hourlyRate <= 300) ||
-      (priceRange === '300+' && designer.hourlyRate > 300);
-    
-    return matchesSearch && matchesSpecialization && matchesLocation && matchesAvailability && matchesPrice;
+    const term = searchTerm.toLowerCase();
+    return designer.name.toLowerCase().includes(term) ||
+      getSpecializationLabel(designer.specialization).toLowerCase().includes(term) ||
+      designer.specializationDescription.toLowerCase().includes(term) ||
+      designer.software.some(tool => tool.toLowerCase().includes(term));
   });
 
   return (
@@ -309,6 +294,19 @@ const ClientsDesigners: React.FC = () => {
                 <ChevronDown className={`w-4 h-4 transition-transform duration-200 ${showFilters ? 'rotate-180' : ''}`} />
               </button>
 
+              {/* Sort */}
+              {activeTab === 'designers' && (
+                <select
+                  value={sortBy}
+                  onChange={(e) => setSortBy(e.target.value as DirectorySort)}
+                  className="px-3 py-2 border border-gray-300 rounded-lg text-sm text-gray-700 focus:ring-2 focus:ring-purple-500 focus:border-transparent"
+                >
+                  {(Object.keys(SORT_LABELS) as DirectorySort[]).map(option => (
+                    <option key={option} value={option}>{SORT_LABELS[option]}</option>
+                  ))}
+                </select>
+              )}
+
               {/* View Mode */}
               <div className="flex items-center bg-gray-100 rounded-lg p-1">
                 <button
@@ -338,7 +336,7 @@ const ClientsDesigners: React.FC = () => {
           {/* Expanded Filters */}
           {showFilters && activeTab === 'designers' && (
             <div className="mt-6 pt-6 border-t border-gray-200">
-              <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4">
+              <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-5 gap-4">
                 {/* Specialization Filter */}
                 <div>
                   <label className="block text-sm font-medium text-gray-700 mb-2">Specialization</label>
@@ -349,28 +347,43 @@ const ClientsDesigners: React.FC = () => {
                   >
                     {specializations.map(spec => (
                       <option key={spec} value={spec}>
-                        {spec === 'all' ? 'All Specializations' : spec}
+                        {spec === 'all' ? 'All Specializations' : getSpecializationLabel(spec)}
                       </option>
                     ))}
                   </select>
                 </div>
 
-                {/* Location Filter */}
+                {/* Experience Filter */}
                 <div>
-                  <label className="block text-sm font-medium text-gray-700 mb-2">Location</label>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">Experience</label>
                   <select
-                    value={selectedLocation}
-                    onChange={(e) => setSelectedLocation(e.target.value)}
+                    value={selectedExperience}
+                    onChange={(e) => setSelectedExperience(e.target.value)}
                     className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-purple-500 focus:border-transparent"
                   >
-                    {locations.map(location => (
-                      <option key={location} value={location}>
-                        {location === 'all' ? 'All Locations' : location}
+                    {experienceBands.map(band => (
+                      <option key={band} value={band}>
+                        {band === 'all' ? 'Any Experience' : EXPERIENCE_BAND_LABELS[band as ExperienceBand]}
                       </option>
                     ))}
                   </select>
                 </div>
 
+                {/* Software Filter */}
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">Software</label>
+                  <select
+                    value={selectedSoftware}
+                    onChange={(e) => setSelectedSoftware(e.target.value)}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-purple-500 focus:border-transparent"
+                  >
+                    <option value="all">Any Software</option>
+                    {DESIGNER_SOFTWARE.map(software => (
+                      <option key={software} value={software}>{software}</option>
+                    ))}
+                  </select>
+                </div>
+
                 {/* Availability Filter */}
                 <div>
                   <label className="block text-sm font-medium text-gray-700 mb-2">Availability</label>
@@ -381,7 +394,7 @@ const ClientsDesigners: React.FC = () => {
                   >
                     {availabilities.map(availability => (
                       <option key={availability} value={availability}>
-                        {availability === 'all' ? 'All Availability' : availability.charAt(0).toUpperCase() + availability.slice(1)}
+                        {availability === 'all' ? 'All Availability' : AVAILABILITY_LABELS[availability as DesignerAvailability]}
                       </option>
                     ))}
                   </select>
@@ -389,7 +402,7 @@ const ClientsDesigners: React.FC = () => {
 
                 {/* Price Range Filter */}
                 <div>
-                  <label className="block text-sm font-medium text-gray-700 mb-2">Hourly Rate</label>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">Starting Price</label>
                   <select
                     value={priceRange}
                     onChange={(e) => setPriceRange(e.target.value)}
@@ -397,7 +410,7 @@ const ClientsDesigners: React.FC = () => {
                   >
                     {priceRanges.map(range => (
                       <option key={range} value={range}>
-                        {range === 'all' ? 'All Rates' : range === '300+' ? '$300+/hr' : `$${range}/hr`}
+                        {range === 'all' ? 'All Prices' : PRICE_BAND_LABELS[range as PriceBand]}
                       </option>
                     ))}
                   </select>
@@ -410,34 +423,36 @@ const ClientsDesigners: React.FC = () => {
         {/* Content */}
         {activeTab === 'designers' ? (
           /* Designers Grid/List */
-          viewMode === 'grid' ? (
+          loadingDesigners ? (
+            <div className="text-center py-12">
+              <div className="w-16 h-16 border-4 border-purple-600 border-t-transparent rounded-full animate-spin mx-auto mb-4"></div>
+              <p className="text-gray-600">Loading designers...</p>
+            </div>
+          ) : error ? (
+            <div className="bg-red-50 border border-red-200 rounded-xl p-4 text-red-700">{error}</div>
+          ) : viewMode === 'grid' ? (
             <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-8">
               {filteredDesigners.map((designer) => (
                 <div key={designer.id} className="bg-white rounded-2xl shadow-sm border border-gray-200 overflow-hidden hover:shadow-lg transition-all duration-300 transform hover:scale-105 group">
                   {/* Designer Header */}
                   <div className="relative p-6 pb-4">
-                    {designer.isFeatured && (
-                      <div className="absolute top-4 right-4 bg-gradient-to-r from-yellow-400 to-orange-500 text-white px-3 py-1 rounded-full text-xs font-medium flex items-center space-x-1">
-                        <Star className="w-3 h-3" />
-                        <span>Featured</span>
-                      </div>
-                    )}
-                    
                     <div className="flex items-start space-x-4">
                       <div className="relative">
-                        <div className="w-16 h-16 bg-gradient-to-br from-gray-100 to-gray-200 rounded-full flex-shrink-0"></div>
-                        {designer.isVerified && (
-                          <div className="absolute -bottom-1 -right-1 w-6 h-6 bg-blue-500 rounded-full flex items-center justify-center">
-                            <CheckCircle className="w-4 h-4 text-white" />
-                          </div>
+                        {designer.avatar ? (
+                          <img src={designer.avatar} alt={designer.name} className="w-16 h-16 rounded-full object-cover flex-shrink-0" />
+                        ) : (
+                          <div className="w-16 h-16 bg-gradient-to-br from-gray-100 to-gray-200 rounded-full flex-shrink-0"></div>
                         )}
+                        <div className="absolute -bottom-1 -right-1 w-6 h-6 bg-blue-500 rounded-full flex items-center justify-center">
+                          <CheckCircle className="w-4 h-4 text-white" />
+                        </div>
                       </div>
                       
                       <div className="flex-1 min-w-0">
                         <h3 className="text-lg font-semibold text-gray-900 group-hover:text-purple-600 transition-colors duration-200">
                           {designer.name}
                         </h3>
-                        <p className="text-sm text-gray-600 mb-2">{designer.title}</p>
+                        <p className="text-sm text-gray-600 mb-2">{getSpecializationLabel(designer.specialization)}</p>
                         <div className="flex items-center space-x-2">
                           <div className="flex items-center">
                             {[...Array(5)].map((_, i) => (
@@ -445,7 +460,7 @@ const ClientsDesigners: React.FC = () => {
                             ))}
                           </div>
                           <span className="text-sm text-gray-600">
-                            {designer.rating} ({designer.reviewCount})
+                            {designer.rating.toFixed(1)} ({designer.reviewCount})
                           </span>
                         </div>
                       </div>
@@ -457,38 +472,37 @@ const ClientsDesigners: React.FC = () => {
                     <div className="flex items-center justify-between mb-3">
                       <span className={`inline-flex items-center px-2.5 py-1 rounded-full text-xs font-medium ${getAvailabilityColor(designer.availability)}`}>
                         {getAvailabilityIcon(designer.availability)}
-                        <span className="ml-1">{designer.availability.charAt(0).toUpperCase() + designer.availability.slice(1)}</span>
+                        <span className="ml-1">{AVAILABILITY_LABELS[designer.availability]}</span>
                       </span>
-                      <span className="text-lg font-bold text-gray-900">${designer.hourlyRate}/hr</span>
+                      <span className="text-lg font-bold text-gray-900">{formatStartingPrice(designer)}</span>
                     </div>
 
                     <div className="space-y-2 mb-4">
                       <div className="flex items-center text-sm text-gray-600">
-                        <MapPin className="w-4 h-4 mr-2" />
-                        <span>{designer.location}</span>
+                        <Award className="w-4 h-4 mr-2" />
+                        <span>{designer.experienceBand ? `${EXPERIENCE_BAND_LABELS[designer.experienceBand]} experience` : 'Experience not stated'}</span>
                       </div>
                       <div className="flex items-center text-sm text-gray-600">
                         <Briefcase className="w-4 h-4 mr-2" />
-                        <span>{designer.projectCount} projects completed</span>
-                      </div>
-                      <div className="flex items-center text-sm text-gray-600">
-                        <Clock className="w-4 h-4 mr-2" />
-                        <span>Responds in {designer.responseTime}</span>
+                        <span>
+                          {designer.completedProjects} projects completed
+                          {designer.completionRate !== null && ` • ${designer.completionRate}% completion rate`}
+                        </span>
                       </div>
                     </div>
 
-                    <p className="text-sm text-gray-600 mb-4 line-clamp-2">{designer.description}</p>
+                    <p className="text-sm text-gray-600 mb-4 line-clamp-2">{designer.specializationDescription}</p>
 
-                    {/* Specializations */}
+                    {/* Software */}
                     <div className="flex flex-wrap gap-2 mb-4">
-                      {designer.specialization.slice(0, 2).map((spec, index) => (
-                        <span key={index} className="inline-flex items-center px-2 py-1 rounded-md text-xs font-medium bg-purple-50 text-purple-700">
-                          {spec}
+                      {designer.software.slice(0, 3).map((tool) => (
+                        <span key={tool} className="inline-flex items-center px-2 py-1 rounded-md text-xs font-medium bg-purple-50 text-purple-700">
+                          {tool}
                         </span>
                       ))}
-                      {designer.specialization.length > 2 && (
+                      {designer.software.length > 3 && (
                         <span className="inline-flex items-center px-2 py-1 rounded-md text-xs font-medium bg-gray-100 text-gray-600">
-                          +{designer.specialization.length - 2} more
+                          +{designer.software.length - 3} more
                         </span>
                       )}
                     </div>
@@ -515,42 +529,40 @@ const ClientsDesigners: React.FC = () => {
                   <div className="flex items-center space-x-6">
                     {/* Designer Avatar */}
                     <div className="relative">
-                      <div className="w-20 h-20 bg-gradient-to-br from-gray-100 to-gray-200 rounded-full flex-shrink-0"></div>
-                      {designer.isVerified && (
-                        <div className="absolute -bottom-1 -right-1 w-6 h-6 bg-blue-500 rounded-full flex items-center justify-center">
-                          <CheckCircle className="w-4 h-4 text-white" />
-                        </div>
+                      {designer.avatar ? (
+                        <img src={designer.avatar} alt={designer.name} className="w-20 h-20 rounded-full object-cover flex-shrink-0" />
+                      ) : (
+                        <div className="w-20 h-20 bg-gradient-to-br from-gray-100 to-gray-200 rounded-full flex-shrink-0"></div>
                       )}
+                      <div className="absolute -bottom-1 -right-1 w-6 h-6 bg-blue-500 rounded-full flex items-center justify-center">
+                        <CheckCircle className="w-4 h-4 text-white" />
+                      </div>
                     </div>
 
                     {/* Designer Info */}
                     <div className="flex-1 min-w-0">
                       <div className="flex items-start justify-between">
                         <div className="flex-1">
-                          <div className="flex items-center space-x-2 mb-1">
-                            <h3 className="text-lg font-semibold text-gray-900">{designer.name}</h3>
-                            {designer.isFeatured && (
-                              <span className="bg-gradient-to-r from-yellow-400 to-orange-500 text-white px-2 py-0.5 rounded-full text-xs font-medium flex items-center space-x-1">
-                                <Star className="w-3 h-3" />
-                                <span>Featured</span>
-                              </span>
-                            )}
-                          </div>
-                          <p className="text-gray-600 text-sm mb-2">{designer.title}</p>
+                          <h3 className="text-lg font-semibold text-gray-900 mb-1">{designer.name}</h3>
+                          <p className="text-gray-600 text-sm mb-2">{getSpecializationLabel(designer.specialization)}</p>
+                          
                           <div className="flex items-center space-x-4 text-sm text-gray-500 mb-2">
                             <span className="flex items-center">
-                              <MapPin className="w-4 h-4 mr-1" />
-                              {designer.location}
+                              <Award className="w-4 h-4 mr-1" />
+                              {designer.experienceBand ? EXPERIENCE_BAND_LABELS[designer.experienceBand] : 'Experience not stated'}
                             </span>
                             <span className="flex items-center">
                               <Briefcase className="w-4 h-4 mr-1" />
-                              {designer.projectCount} projects
-                            </span>
-                            <span className="flex items-center">
-                              <Clock className="w-4 h-4 mr-1" />
-                              {designer.responseTime}
+                              {designer.completedProjects} projects
                             </span>
+                            {designer.completionRate !== null && (
+                              <span className="flex items-center">
+                                <CheckCircle className="w-4 h-4 mr-1" />
+                                {designer.completionRate}% completion
+                              </span>
+                            )}
                           </div>
+
                           <div className="flex items-center space-x-2">
                             <div className="flex items-center">
                               {[...Array(5)].map((_, i) => (
@@ -558,7 +570,7 @@ const ClientsDesigners: React.FC = () => {
                               ))}
                             </div>
                             <span className="text-sm text-gray-600">
-                              {designer.rating} ({designer.reviewCount} reviews)
+                              {designer.rating.toFixed(1)} ({designer.reviewCount} reviews)
                             </span>
                           </div>
                         </div>
@@ -566,11 +578,11 @@ const ClientsDesigners: React.FC = () => {
                         {/* Status and Actions */}
                         <div className="flex items-center space-x-4">
                           <div className="text-right">
-                            <span className="text-lg font-bold text-gray-900">${designer.hourlyRate}/hr</span>
+                            <span className="text-lg font-bold text-gray-900">{formatStartingPrice(designer)}</span>
                             <div className="mt-1">
                               <span className={`inline-flex items-center px-2.5 py-1 rounded-full text-xs font-medium ${getAvailabilityColor(designer.availability)}`}>
                                 {getAvailabilityIcon(designer.availability)}
-                                <span className="ml-1">{designer.availability.charAt(0).toUpperCase() + designer.availability.slice(1)}</span>
+                                <span className="ml-1">{AVAILABILITY_LABELS[designer.availability]}</span>
                               </span>
                             </div>
                           </div>
@@ -683,8 +695,21 @@ const ClientsDesigners: React.FC = () => {
           </div>
         )}
 
+        {/* Load More */}
+        {activeTab === 'designers' && !loadingDesigners && !error && hasMore && (
+          <div className="text-center mt-8">
+            <button
+              onClick={handleLoadMore}
+              disabled={loadingMore}
+              className="px-6 py-3 bg-white border border-gray-300 rounded-xl text-gray-700 font-medium hover:bg-gray-50 disabled:opacity-50 transition-all duration-200"
+            >
+              {loadingMore ? 'Loading...' : 'Load more designers'}
+            </button>
+          </div>
+        )}
+
         {/* Empty State */}
-        {((activeTab === 'designers' && filteredDesigners.length === 0) ||
+        {((activeTab === 'designers' && !loadingDesigners && !error && filteredDesigners.length === 0) ||
           (activeTab === 'clients' && clients.length === 0)) && (
           <div className="text-center py-12">
             <div className="w-24 h-24 bg-gray-100 rounded-full flex items-center justify-center mx-auto mb-4">
@@ -694,7 +719,7 @@ const ClientsDesigners: React.FC = () => {
               No {activeTab} found
             </h3>
             <p className="text-gray-500 mb-6">
-              {searchTerm || (activeTab === 'designers' && (selectedSpecialization !== 'all' || selectedLocation !== 'all' || selectedAvailability !== 'all' || priceRange !== 'all'))
+              {searchTerm || (activeTab === 'designers' && (selectedSpecialization !== 'all' || selectedExperience !== 'all' || selectedSoftware !== 'all' || selectedAvailability !== 'all' || priceRange !== 'all'))
                 ? 'Try adjusting your search or filters'
                 : `No ${activeTab} available at the moment`
               }
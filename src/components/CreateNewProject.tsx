@@ -1,27 +1,48 @@
-import React, { useState, useRef, useCallback } from 'react';
+import React, { useState, useRef, useCallback, useEffect } from 'react';
 import {
   ArrowLeft, Upload, X, Plus, Calendar, Users, FileText, Tag,
   CheckCircle, AlertCircle, Clock, Image as ImageIcon, Trash2,
-  Save, Send, Eye, Star, Award, Shield
+  Save, Send, Eye, Star, Award, Shield, Cloud, CloudOff, RotateCcw
 } from 'lucide-react';
 import { useAuth } from '../hooks/useAuth';
 import { isVerifiedDesigner } from '../types/user';
 import { ProjectService, CreateProjectData } from '../services/projectService';
-
-interface ProjectFormData {
-  title: string;
-  deliveryTimeline: string;
-  deliverables: string;
-  meetingsCount: number;
-  revisionsCount: number;
-  customTags: string[];
+import { ProjectDraftService } from '../services/projectDraftService';
+import { MAX_SOURCE_IMAGE_SIZE } from '../types/image';
+import { validate, validatePartial, projectSchema } from '../utils/validation';
+import {
+  ProjectDraft,
+  ProjectDraftFields,
+  EMPTY_DRAFT_FIELDS,
+  DRAFT_AUTOSAVE_DELAY_MS,
+  getDraftTitle,
+  hasMissingImages,
+  isDraftEmpty
+} from '../types/projectDraft';
+
+interface ProjectFormData extends ProjectDraftFields {
   primaryImage: File | null;
   additionalImages: File[];
-  description: string;
-  price: number;
-  category: string;
 }
 
+type DraftSaveState = 'idle' | 'saving' | 'saved' | 'local' | 'error';
+
+const DRAFT_SAVE_LABELS: Record<Exclude<DraftSaveState, 'idle'>, string> = {
+  saving: 'Saving draft...',
+  saved: 'Draft saved',
+  local: 'Draft saved on this device',
+  error: 'Draft not saved'
+};
+
+const readAsDataURL = (file: File): Promise<string> => {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = (e) => resolve(e.target?.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(file);
+  });
+};
+
 interface CreateNewProjectProps {
   onClose: () => void;
   onProjectCreated?: (project: any) => void;
@@ -32,32 +53,151 @@ const CreateNewProject: React.FC<CreateNewProjectProps> = ({ onClose, onProjectC
   
   // Form state
   const [formData, setFormData] = useState<ProjectFormData>({
-    title: '',
-    deliveryTimeline: '',
-    deliverables: '',
-    meetingsCount: 1,
-    revisionsCount: 2,
-    customTags: [],
+    ...EMPTY_DRAFT_FIELDS,
     primaryImage: null,
-    additionalImages: [],
-    description: '',
-    price: 0,
-    category: ''
+    additionalImages: []
   });
 
   // UI state
   const [currentStep, setCurrentStep] = useState(1);
   const [isSubmitting, setIsSubmitting] = useState(false);
-  const [errors, setErrors] = useState<Record<string, string>>({});
+  const [errors, setErrors] = useState<Record<string, string | undefined>>({});
   const [dragActive, setDragActive] = useState(false);
   const [newTag, setNewTag] = useState('');
   const [previewImages, setPreviewImages] = useState<string[]>([]);
   const [primaryImagePreview, setPrimaryImagePreview] = useState<string>('');
 
+  // Draft state
+  const [drafts, setDrafts] = useState<ProjectDraft[]>([]);
+  const [showDraftPicker, setShowDraftPicker] = useState(false);
+  const [draftsLoaded, setDraftsLoaded] = useState(false);
+  const [draftSaveState, setDraftSaveState] = useState<DraftSaveState>('idle');
+  const [draftNotice, setDraftNotice] = useState('');
+  const draftIdRef = useRef<string | null>(null);
+  const pendingSaveRef = useRef<(() => void) | null>(null);
+
   // Refs
   const primaryImageRef = useRef<HTMLInputElement>(null);
   const additionalImagesRef = useRef<HTMLInputElement>(null);
 
+  // Offer saved drafts before starting a new project
+  useEffect(() => {
+    if (!user?.uid) return;
+
+    ProjectDraftService.getDrafts(user.uid)
+      .then(savedDrafts => {
+        setDrafts(savedDrafts);
+        setShowDraftPicker(savedDrafts.length > 0);
+      })
+      .catch(err => console.warn('⚠️ Could not load drafts:', err))
+      .finally(() => setDraftsLoaded(true));
+  }, [user?.uid]);
+
+  const buildDraft = useCallback((draftId: string): ProjectDraft => {
+    const { primaryImage, additionalImages, ...fields } = formData;
+    return {
+      id: draftId,
+      designerId: user?.uid || '',
+      fields,
+      currentStep,
+      status: 'editing',
+      hasPrimaryImage: primaryImage !== null,
+      additionalImageCount: additionalImages.length,
+      primaryImage,
+      additionalImages,
+      savedRemotely: false,
+      updatedAt: new Date()
+    };
+  }, [formData, currentStep, user?.uid]);
+
+  // Autosave once the designer has entered something, shortly after they pause
+  useEffect(() => {
+    if (!user?.uid || !draftsLoaded || showDraftPicker || isSubmitting) return;
+
+    const draft = buildDraft(draftIdRef.current || ProjectDraftService.newDraftId());
+    const imageCount = draft.additionalImageCount + (draft.hasPrimaryImage ? 1 : 0);
+    if (!draftIdRef.current && isDraftEmpty(draft.fields, imageCount)) return;
+
+    const save = () => {
+      // A discarded or superseded save must not recreate the draft
+      if (pendingSaveRef.current !== save) return;
+      pendingSaveRef.current = null;
+      draftIdRef.current = draft.id;
+
+      setDraftSaveState('saving');
+      ProjectDraftService.saveDraft(draft)
+        .then(saved => setDraftSaveState(saved.savedRemotely ? 'saved' : 'local'))
+        .catch(() => setDraftSaveState('error'));
+    };
+
+    pendingSaveRef.current = save;
+    const timer = setTimeout(save, DRAFT_AUTOSAVE_DELAY_MS);
+    return () => {
+      clearTimeout(timer);
+      if (pendingSaveRef.current === save) {
+        pendingSaveRef.current = null;
+      }
+    };
+  }, [buildDraft, user?.uid, draftsLoaded, showDraftPicker, isSubmitting]);
+
+  // Closing saves any edit still waiting for autosave
+  const handleClose = () => {
+    pendingSaveRef.current?.();
+    onClose();
+  };
+
+  const handleResumeDraft = async (draft: ProjectDraft) => {
+    draftIdRef.current = draft.id;
+    setFormData({ ...draft.fields, primaryImage: draft.primaryImage, additionalImages: draft.additionalImages });
+    setCurrentStep(draft.currentStep);
+    setDraftSaveState(draft.savedRemotely ? 'saved' : 'local');
+    setDraftNotice(hasMissingImages(draft) ? 'Images for this draft were selected on another device. Add them again before publishing.' : '');
+    setShowDraftPicker(false);
+
+    try {
+      setPrimaryImagePreview(draft.primaryImage ? await readAsDataURL(draft.primaryImage) : '');
+      setPreviewImages(await Promise.all(draft.additionalImages.map(readAsDataURL)));
+    } catch (err) {
+      console.warn('⚠️ Could not preview draft images:', err);
+    }
+  };
+
+  const handleDiscardDraft = async (draft: ProjectDraft) => {
+    if (!window.confirm(`Discard the draft "${getDraftTitle(draft)}"? This cannot be undone.`)) return;
+
+    try {
+      await ProjectDraftService.deleteDraft(draft.id);
+      const remaining = drafts.filter(d => d.id !== draft.id);
+      setDrafts(remaining);
+      setShowDraftPicker(remaining.length > 0);
+    } catch (err) {
+      setErrors({ submit: err instanceof Error ? err.message : 'Failed to discard draft' });
+    }
+  };
+
+  // Discards the draft being edited and starts over
+  const handleDiscardCurrentDraft = async () => {
+    const draftId = draftIdRef.current;
+    if (!draftId || !window.confirm('Discard this draft and start over? This cannot be undone.')) return;
+
+    pendingSaveRef.current = null;
+    draftIdRef.current = null;
+    setFormData({ ...EMPTY_DRAFT_FIELDS, primaryImage: null, additionalImages: [] });
+    setPrimaryImagePreview('');
+    setPreviewImages([]);
+    setCurrentStep(1);
+    setErrors({});
+    setDraftSaveState('idle');
+    setDraftNotice('');
+
+    try {
+      await ProjectDraftService.deleteDraft(draftId);
+      setDrafts(prev => prev.filter(d => d.id !== draftId));
+    } catch (err) {
+      setErrors({ submit: err instanceof Error ? err.message : 'Failed to discard draft' });
+    }
+  };
+
   // Categories for projects
   const categories = [
     'Residential Architecture',
@@ -72,42 +212,9 @@ const CreateNewProject: React.FC<CreateNewProjectProps> = ({ onClose, onProjectC
 
   // Form validation
   const validateForm = (): boolean => {
-    const newErrors: Record<string, string> = {};
-
-    if (!formData.title.trim()) {
-      newErrors.title = 'Project title is required';
-    }
-
-    if (!formData.category) {
-      newErrors.category = 'Please select a project category';
-    }
-
-    if (!formData.deliveryTimeline) {
-      newErrors.deliveryTimeline = 'Please specify delivery timeline';
-    }
-
-    if (!formData.deliverables.trim()) {
-      newErrors.deliverables = 'Please describe the deliverables';
-    }
-
-    if (!formData.description.trim()) {
-      newErrors.description = 'Project description is required';
-    }
-
-    if (formData.price <= 0) {
-      newErrors.price = 'Please set an appropriate price';
-    }
-
-    if (!formData.primaryImage) {
-      newErrors.primaryImage = 'Primary image is required';
-    }
-
-    if (formData.customTags.length === 0) {
-      newErrors.customTags = 'Please add at least one tag';
-    }
-
+    const { isValid, errors: newErrors } = validate(projectSchema, formData);
     setErrors(newErrors);
-    return Object.keys(newErrors).length === 0;
+    return isValid;
   };
 
   // Handle input changes
@@ -127,8 +234,9 @@ const CreateNewProject: React.FC<CreateNewProjectProps> = ({ onClose, onProjectC
 
   // Handle primary image upload
   const handlePrimaryImageUpload = (file: File) => {
-    if (file.size > 10 * 1024 * 1024) {
-      setErrors(prev => ({ ...prev, primaryImage: 'File size must be less than 10MB' }));
+    const imageError = validatePartial(projectSchema, { primaryImage: file }).errors.primaryImage;
+    if (imageError) {
+      setErrors(prev => ({ ...prev, primaryImage: imageError }));
       return;
     }
 
@@ -148,7 +256,7 @@ const CreateNewProject: React.FC<CreateNewProjectProps> = ({ onClose, onProjectC
     const newPreviews: string[] = [];
 
     Array.from(files).forEach(file => {
-      if (file.size <= 10 * 1024 * 1024) {
+      if (validatePartial(projectSchema, { additionalImages: [file] }).isValid) {
         validFiles.push(file);
         const reader = new FileReader();
         reader.onload = (e) => {
@@ -233,6 +341,11 @@ const CreateNewProject: React.FC<CreateNewProjectProps> = ({ onClose, onProjectC
     setIsSubmitting(true);
 
     try {
+      // Publishing waits until the server accepts the draft
+      const draft = buildDraft(draftIdRef.current || ProjectDraftService.newDraftId());
+      draftIdRef.current = draft.id;
+      await ProjectDraftService.validateForPublishing(draft);
+
       console.log('🚀 Creating project with ProjectService...');
       
       // Prepare project data for the service
@@ -255,6 +368,9 @@ const CreateNewProject: React.FC<CreateNewProjectProps> = ({ onClose, onProjectC
       
       console.log('✅ Project created successfully:', createdProject);
       
+      ProjectDraftService.deleteDraft(draft.id)
+        .catch(err => console.warn('⚠️ Published draft could not be removed:', err));
+      
       // Call success callback
       if (onProjectCreated) {
         onProjectCreated(createdProject);
@@ -293,7 +409,7 @@ const CreateNewProject: React.FC<CreateNewProjectProps> = ({ onClose, onProjectC
           <div className="flex items-center justify-between">
             <div className="flex items-center space-x-4">
               <button
-                onClick={onClose}
+                onClick={handleClose}
                 className="p-2 hover:bg-white hover:bg-opacity-50 rounded-lg transition-colors duration-200"
               >
                 <ArrowLeft className="w-5 h-5 text-gray-600" />
@@ -309,8 +425,24 @@ const CreateNewProject: React.FC<CreateNewProjectProps> = ({ onClose, onProjectC
               </div>
             </div>
 
-            {/* Verification Status */}
+            {/* Draft and Verification Status */}
             <div className="flex items-center space-x-3">
+              {draftSaveState !== 'idle' && (
+                <div className={`flex items-center space-x-1.5 text-sm ${draftSaveState === 'error' ? 'text-red-600' : 'text-gray-600'}`}>
+                  {draftSaveState === 'local' || draftSaveState === 'error' ? <CloudOff className="w-4 h-4" /> : <Cloud className="w-4 h-4" />}
+                  <span>{DRAFT_SAVE_LABELS[draftSaveState]}</span>
+                </div>
+              )}
+              {draftIdRef.current && !showDraftPicker && (
+                <button
+                  type="button"
+                  onClick={handleDiscardCurrentDraft}
+                  className="flex items-center space-x-1 text-sm text-red-600 hover:text-red-700 transition-colors duration-200"
+                >
+                  <Trash2 className="w-4 h-4" />
+                  <span>Discard draft</span>
+                </button>
+              )}
               {isVerifiedDesigner(userProfile) ? (
                 <div className="flex items-center space-x-2 bg-green-100 text-green-800 px-3 py-1.5 rounded-full">
                   <Shield className="w-4 h-4" />
@@ -354,8 +486,74 @@ const CreateNewProject: React.FC<CreateNewProjectProps> = ({ onClose, onProjectC
 
         {/* Form Content */}
         <form onSubmit={handleSubmit} className="p-6">
+          {/* Saved drafts */}
+          {showDraftPicker && (
+            <div className="space-y-4 animate-in fade-in-0 duration-300">
+              <div className="bg-gradient-to-br from-blue-50 to-indigo-50 rounded-xl p-6 border border-blue-100">
+                <h2 className="text-xl font-bold text-gray-900 mb-1 flex items-center">
+                  <Save className="w-5 h-5 mr-2 text-blue-600" />
+                  Resume a Draft
+                </h2>
+                <p className="text-sm text-gray-600 mb-4">Pick up where you left off, or start a new project.</p>
+
+                <div className="space-y-3">
+                  {drafts.map(draft => (
+                    <div key={draft.id} className="bg-white rounded-lg border border-gray-200 p-4 flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3">
+                      <div className="min-w-0">
+                        <p className="font-medium text-gray-900 truncate">{getDraftTitle(draft)}</p>
+                        <p className="text-sm text-gray-500">
+                          Step {draft.currentStep} of 4 • Saved {draft.updatedAt.toLocaleString()}
+                          {!draft.savedRemotely && ' • This device only'}
+                          {hasMissingImages(draft) && ' • Images on another device'}
+                        </p>
+                      </div>
+                      <div className="flex space-x-2 flex-shrink-0">
+                        <button
+                          type="button"
+                          onClick={() => handleResumeDraft(draft)}
+                          className="px-3 py-2 text-sm font-medium text-white bg-blue-600 rounded-lg hover:bg-blue-700 transition-colors flex items-center space-x-1"
+                        >
+                          <RotateCcw className="w-4 h-4" />
+                          <span>Resume</span>
+                        </button>
+                        <button
+                          type="button"
+                          onClick={() => handleDiscardDraft(draft)}
+                          className="px-3 py-2 text-sm font-medium text-red-700 bg-red-50 rounded-lg hover:bg-red-100 transition-colors flex items-center space-x-1"
+                        >
+                          <Trash2 className="w-4 h-4" />
+                          <span>Discard</span>
+                        </button>
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              </div>
+
+              {errors.submit && <p className="text-red-500 text-sm">{errors.submit}</p>}
+
+              <div className="flex justify-end">
+                <button
+                  type="button"
+                  onClick={() => setShowDraftPicker(false)}
+                  className="bg-gradient-to-r from-blue-600 to-indigo-600 text-white px-6 py-3 rounded-lg font-medium hover:from-blue-700 hover:to-indigo-700 transition-all duration-200 flex items-center space-x-2"
+                >
+                  <Plus className="w-4 h-4" />
+                  <span>Start New Project</span>
+                </button>
+              </div>
+            </div>
+          )}
+
+          {!showDraftPicker && draftNotice && (
+            <div className="mb-6 bg-amber-50 border border-amber-200 rounded-lg p-4 flex items-center space-x-3">
+              <AlertCircle className="w-5 h-5 text-amber-600 flex-shrink-0" />
+              <p className="text-sm text-amber-800">{draftNotice}</p>
+            </div>
+          )}
+
           {/* Step 1: Basic Information */}
-          {currentStep === 1 && (
+          {!showDraftPicker && currentStep === 1 && (
             <div className="space-y-6 animate-in slide-in-from-right-5 duration-300">
               <div className="bg-gradient-to-br from-blue-50 to-indigo-50 rounded-xl p-6 border border-blue-100">
                 <h2 className="text-xl font-bold text-gray-900 mb-4 flex items-center">
@@ -457,7 +655,7 @@ const CreateNewProject: React.FC<CreateNewProjectProps> = ({ onClose, onProjectC
           )}
 
           {/* Step 2: Images and Media */}
-          {currentStep === 2 && (
+          {!showDraftPicker && currentStep === 2 && (
             <div className="space-y-6 animate-in slide-in-from-right-5 duration-300">
               <div className="bg-gradient-to-br from-purple-50 to-pink-50 rounded-xl p-6 border border-purple-100">
                 <h2 className="text-xl font-bold text-gray-900 mb-4 flex items-center">
@@ -518,7 +716,7 @@ const CreateNewProject: React.FC<CreateNewProjectProps> = ({ onClose, onProjectC
                           Drag image here or click to select
                         </p>
                         <p className="text-sm text-gray-500">
-                          PNG, JPG, GIF up to 10MB
+                          PNG, JPG, WebP up to {MAX_SOURCE_IMAGE_SIZE / (1024 * 1024)}MB • resized and stripped of location data before upload
                         </p>
                       </div>
                     )}
@@ -593,7 +791,7 @@ const CreateNewProject: React.FC<CreateNewProjectProps> = ({ onClose, onProjectC
           )}
 
           {/* Step 3: Details and Pricing */}
-          {currentStep === 3 && (
+          {!showDraftPicker && currentStep === 3 && (
             <div className="space-y-6 animate-in slide-in-from-right-5 duration-300">
               <div className="bg-gradient-to-br from-green-50 to-emerald-50 rounded-xl p-6 border border-green-100">
                 <h2 className="text-xl font-bold text-gray-900 mb-4 flex items-center">
@@ -745,7 +943,7 @@ const CreateNewProject: React.FC<CreateNewProjectProps> = ({ onClose, onProjectC
           )}
 
           {/* Step 4: Review and Submit */}
-          {currentStep === 4 && (
+          {!showDraftPicker && currentStep === 4 && (
             <div className="space-y-6 animate-in slide-in-from-right-5 duration-300">
               <div className="bg-gradient-to-br from-amber-50 to-orange-50 rounded-xl p-6 border border-amber-100">
                 <h2 className="text-xl font-bold text-gray-900 mb-4 flex items-center">
@@ -4,13 +4,38 @@ import { useNavigate } from 'react-router-dom';
 import {
   Building, LogOut, User, Settings, FolderOpen, Plus, Shield, Users, Compass, CheckCircle, AlertCircle,
   BarChart3, TrendingUp, Calendar, MessageSquare, Award, Target, Zap, Sparkles, Eye, Heart, ArrowUpRight,
-  X, Upload, FileText, Image, Send, Phone, MapPin, Code, Briefcase, Star, Globe
+  X, Upload, FileText, Image, Send, Phone, MapPin, Code, Briefcase, Star, Globe, Trash2
 } from 'lucide-react';
 import { useAuth } from '../hooks/useAuth';
 import { AnalyticsService } from '../services/analyticsService';
+import { ProjectService, ARCHIVE_RETENTION_DAYS } from '../services/projectService';
+import { ProjectSearchService } from '../services/projectSearchService';
 import { USER_TYPE_LABELS, isAdmin, isDesigner, isVerifiedDesigner, isServiceRequester, canManageUsers, canCreateProjects } from '../types/user';
-import { verificationService } from '../services/verificationService';
+import {
+  verificationService,
+  VerificationSubmissionRecord,
+  canResubmit,
+  hasOpenInfoRequest
+} from '../services/verificationService';
+import { ReviewService } from '../services/reviewService';
+import { DesignerDirectoryService } from '../services/designerDirectoryService';
+import { DesignerStats } from '../types/review';
+import {
+  VerificationFileType,
+  SPECIALIZATION_OPTIONS,
+  EXPERIENCE_OPTIONS,
+  SOFTWARE_OPTIONS
+} from '../types/verification';
+import {
+  validate,
+  getErrorMessages,
+  validateVerificationFile,
+  verificationSubmissionSchema,
+  verificationResubmissionSchema
+} from '../utils/validation';
 import CreateNewProject from './CreateNewProject';
+import AvailabilityModal from './AvailabilityModal';
+import MoreInfoResponseModal from './MoreInfoResponseModal';
 
 function Dashboard() {
   // ===== AUTHENTICATION & USER DATA =====
@@ -89,35 +114,23 @@ function Dashboard() {
   const [verificationError, setVerificationError] = React.useState('');
   const [verificationSuccess, setVerificationSuccess] = React.useState(false);
 
+  // Request a reviewer returned, which the form resubmits; its documents are kept unless replaced
+  const [previousVerification, setPreviousVerification] = React.useState<VerificationSubmissionRecord | null>(null);
+
+  // Request a reviewer asked more information about, answered in its own form
+  const [infoRequestVerification, setInfoRequestVerification] = React.useState<VerificationSubmissionRecord | null>(null);
+
   // ===== CREATE PROJECT MODAL STATE =====
   const [showCreateProjectModal, setShowCreateProjectModal] = React.useState(false);
 
-  // ===== CONFIGURATION DATA =====
-  // Available architectural software options for verification
-  const softwareOptions = [
-    'AutoCAD',
-    'ArchiCAD', 
-    'Revit',
-    'SketchUp',
-    'Rhino',
-    '3ds Max',
-    'Lumion',
-    'V-Ray',
-    'Photoshop',
-    'Illustrator',
-    'Vectorworks',
-    'Chief Architect'
-  ];
-
-  // Professional specialization options
-  const specializationOptions = [
-    { value: 'architect', label: 'Licensed Architect' },
-    { value: 'designer', label: 'Architectural Designer' },
-    { value: 'consultant', label: 'Design Consultant' },
-    { value: 'interior_designer', label: 'Interior Designer' },
-    { value: 'landscape_architect', label: 'Landscape Architect' },
-    { value: 'urban_planner', label: 'Urban Planner' }
-  ];
+  // Reputation stats for verified designers
+  const [designerStats, setDesignerStats] = React.useState<DesignerStats | null>(null);
+  const [showAvailabilityModal, setShowAvailabilityModal] = React.useState(false);
+
+  // ===== ADMIN MAINTENANCE STATE =====
+  // Maintenance task that is running and the outcome of the last one
+  const [maintenanceTask, setMaintenanceTask] = React.useState<'archives' | 'images' | 'search' | null>(null);
+  const [maintenanceMessage, setMaintenanceMessage] = React.useState('');
 
   // ===== EFFECTS =====
   // Load dashboard statistics when component mounts (admin only)
@@ -149,6 +162,19 @@ function Dashboard() {
     loadDashboardStats();
   }, [userProfile]);
 
+  // Load reputation stats for verified designers
+  React.useEffect(() => {
+    if (!user || !isVerifiedDesigner(userProfile)) return;
+
+    ReviewService.getDesignerStats(user.uid)
+      .then(setDesignerStats)
+      .catch(error => console.error('❌ Error loading designer stats:', error));
+
+    // Time off starts and ends without a write, so the directory label is refreshed on each visit
+    DesignerDirectoryService.refreshAvailability(user.uid)
+      .catch(error => console.warn('⚠️ Directory availability could not be updated:', error));
+  }, [user, userProfile]);
+
   // Track profile views when dashboard is accessed
   React.useEffect(() => {
     if (user) {
@@ -163,6 +189,54 @@ function Dashboard() {
     await logout();
   };
 
+  // Runs an admin maintenance task and reports its outcome on the card
+  const runMaintenanceTask = async (task: 'archives' | 'images' | 'search', action: () => Promise<string>) => {
+    setMaintenanceTask(task);
+    setMaintenanceMessage('');
+    try {
+      setMaintenanceMessage(await action());
+    } catch (error) {
+      setMaintenanceMessage(error instanceof Error ? error.message : 'Cleanup failed');
+    } finally {
+      setMaintenanceTask(null);
+    }
+  };
+
+  // Permanently delete archived packages past their retention window
+  const handlePurgeExpiredArchives = () => {
+    if (!window.confirm(`Permanently delete every package archived more than ${ARCHIVE_RETENTION_DAYS} days ago? This cannot be undone.`)) return;
+    runMaintenanceTask('archives', async () => {
+      const { purged, failed } = await ProjectService.purgeExpiredArchives();
+      return failed.length > 0
+        ? `Purged ${purged.length} packages; ${failed.length} could not be purged: ${failed.map(f => `${f.projectId} (${f.error})`).join(', ')}`
+        : `Purged ${purged.length} expired packages.`;
+    });
+  };
+
+  // Find package images no project or version references and delete them after confirmation
+  const handleDeleteOrphanedImages = () => {
+    runMaintenanceTask('images', async () => {
+      const paths = await ProjectService.findOrphanedImages();
+      if (paths.length === 0) return 'No orphaned images found.';
+      if (!window.confirm(`Delete ${paths.length} orphaned package images? This cannot be undone.`)) {
+        return `Found ${paths.length} orphaned images; none were deleted.`;
+      }
+      const deleted = await ProjectService.deleteOrphanedImages(paths);
+      return `Deleted ${deleted} orphaned images.`;
+    });
+  };
+
+  // Re-index every active package, backfilling entries the search index is missing
+  const handleRebuildSearchIndex = () => {
+    runMaintenanceTask('search', async () => {
+      const { indexed, removed, failed } = await ProjectSearchService.rebuildIndex();
+      const outcome = `Indexed ${indexed} packages and removed ${removed} stale entries.`;
+      return failed.length > 0
+        ? `${outcome} ${failed.length} could not be indexed: ${failed.map(f => `${f.projectId} (${f.error})`).join(', ')}`
+        : outcome;
+    });
+  };
+
   // Handle form input changes for verification form
   const handleVerificationInputChange = (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement | HTMLSelectElement>) => {
     const { name, value, type } = e.target;
@@ -201,40 +275,22 @@ function Dashboard() {
   };
 
   // Handle file uploads with validation
-  const handleFileUpload = (fileType: string) => (e: React.ChangeEvent<HTMLInputElement>) => {
+  const handleFileUpload = (fileType: VerificationFileType) => (e: React.ChangeEvent<HTMLInputElement>) => {
     const files = e.target.files;
     if (!files || files.length === 0) return;
 
     const file = files[0];
     
-    // Validate file size (10MB limit)
-    if (file.size > 10 * 1024 * 1024) {
-      setVerificationError('File size must be less than 10MB');
+    // Validate size and type with the same rules the upload enforces
+    const fileError = validateVerificationFile(file, fileType);
+    if (fileError) {
+      setVerificationError(fileError);
       return;
     }
 
-    // Validate file type based on upload purpose
-    if (fileType === 'national_id') {
-      const allowedTypes = ['image/jpeg', 'image/png', 'image/jpg', 'application/pdf'];
-      if (!allowedTypes.includes(file.type)) {
-        setVerificationError('National ID must be an image (JPG, PNG) or PDF file');
-        return;
-      }
-      // Update both file tracking and form data
-      setUploadedFiles(prev => ({ ...prev, national_id: file }));
-      setVerificationForm(prev => ({ ...prev, national_id: file }));
-    } else if (fileType === 'sample_project') {
-      const allowedTypes = ['application/pdf', 'application/dwg', 'application/dxf', 'image/jpeg', 'image/png'];
-      const isDwgFile = file.name.toLowerCase().endsWith('.dwg') || file.name.toLowerCase().endsWith('.dxf');
-      
-      if (!allowedTypes.includes(file.type) && !isDwgFile) {
-        setVerificationError('Sample project must be PDF, DWG, DXF, or image file');
-        return;
-      }
-      // Update both file tracking and form data
-      setUploadedFiles(prev => ({ ...prev, sample_project: file }));
-      setVerificationForm(prev => ({ ...prev, sample_project: file }));
-    }
+    // Update both file tracking and form data
+    setUploadedFiles(prev => ({ ...prev, [fileType]: file }));
+    setVerificationForm(prev => ({ ...prev, [fileType]: file }));
     
     // Clear any existing error after successful file selection
     setVerificationError('');
@@ -245,43 +301,10 @@ function Dashboard() {
     e.preventDefault();
     
     // ===== COMPREHENSIVE VALIDATION =====
-    
-    // Check required text fields
-    const requiredFields = [
-      'full_name', 'detailed_address', 'phone_number', 'specialization', 
-      'specialization_description', 'experience_years', 'portfolio_url'
-    ];
-    
-    const missingFields = requiredFields.filter(field => {
-      const value = verificationForm[field as keyof typeof verificationForm];
-      return !value || (typeof value === 'string' && value.trim() === '');
-    });
-    
-    if (missingFields.length > 0) {
-      setVerificationError(`Please fill in all required fields: ${missingFields.join(', ')}`);
-      return;
-    }
-
-    // Check required file uploads
-    if (!verificationForm.national_id) {
-      setVerificationError('Please upload your National ID or Passport');
-      return;
-    }
-
-    if (!verificationForm.sample_project) {
-      setVerificationError('Please upload a sample project file');
-      return;
-    }
-
-    // Check software proficiency selection
-    if (verificationForm.software_proficiency.length === 0) {
-      setVerificationError('Please select at least one software you are proficient in');
-      return;
-    }
-
-    // Check terms acceptance
-    if (!verificationForm.terms_accepted) {
-      setVerificationError('Please accept the terms and conditions');
+    const schema = previousVerification ? verificationResubmissionSchema : verificationSubmissionSchema;
+    const validation = validate(schema, verificationForm);
+    if (!validation.isValid) {
+      setVerificationError(getErrorMessages(validation.errors).join('. '));
       return;
     }
 
@@ -306,7 +329,8 @@ function Dashboard() {
       const result = await verificationService.submitVerificationRequest(
         verificationForm,
         user?.uid || '',
-        user?.email || ''
+        user?.email || '',
+        previousVerification
       );
       
       if (result.success) {
@@ -321,6 +345,7 @@ function Dashboard() {
       setTimeout(() => {
         setShowVerificationModal(false);
         setVerificationSuccess(false);
+        setPreviousVerification(null);
         
         // Reset all form data
         setVerificationForm({
@@ -359,8 +384,42 @@ function Dashboard() {
   };
 
   // Handle verification button click to open modal
-  const handleVerificationButtonClick = () => {
+  const handleVerificationButtonClick = async () => {
+    if (!user?.uid) {
+      setShowVerificationModal(true);
+      return;
+    }
+
+    const verification = await verificationService.getVerificationByUserId(user.uid);
+
+    // Reviewers waiting for more information unlock only the fields they asked for
+    if (verification && hasOpenInfoRequest(verification)) {
+      setInfoRequestVerification(verification);
+      return;
+    }
+
+    // Designers whose request was rejected resubmit from their previous answers
     setShowVerificationModal(true);
+    const previous = verification && canResubmit(verification) ? verification : null;
+    setPreviousVerification(previous);
+    if (previous) {
+      setVerificationForm(prev => ({
+        ...prev,
+        full_name: previous.full_name,
+        detailed_address: previous.detailed_address,
+        phone_number: previous.phone_number,
+        specialization: previous.specialization,
+        specialization_description: previous.specialization_description,
+        software_proficiency: previous.software_proficiency,
+        experience_years: previous.experience_years,
+        portfolio_url: previous.portfolio_url,
+        project_description: previous.project_description,
+        certifications: previous.certifications,
+        education: previous.education,
+        additional_info: previous.additional_info,
+        terms_accepted: false
+      }));
+    }
   };
 
   // Handle create project button click
@@ -464,6 +523,12 @@ function Dashboard() {
                     >
                       Clients
                     </button>
+                    <button
+                      onClick={() => navigate('/orders')}
+                      className="px-3 py-2 text-sm font-medium text-gray-600 hover:text-gray-900 hover:bg-gray-100 rounded-lg transition-colors duration-200"
+                    >
+                      Orders
+                    </button>
                   </>
                 )}
 
@@ -498,6 +563,12 @@ function Dashboard() {
                     <button className="px-3 py-2 text-sm font-medium text-gray-600 hover:text-gray-900 hover:bg-gray-100 rounded-lg transition-colors duration-200">
                       My Requests
                     </button>
+                    <button
+                      onClick={() => navigate('/orders')}
+                      className="px-3 py-2 text-sm font-medium text-gray-600 hover:text-gray-900 hover:bg-gray-100 rounded-lg transition-colors duration-200"
+                    >
+                      Orders
+                    </button>
                     <button className="px-3 py-2 text-sm font-medium text-gray-600 hover:text-gray-900 hover:bg-gray-100 rounded-lg transition-colors duration-200">
                       Messages
                     </button>
@@ -667,6 +738,34 @@ function Dashboard() {
               <p className="text-gray-700 text-lg leading-relaxed">
                 Create stunning architectural designs, manage your projects, and collaborate with clients. Your verified status unlocks all premium features and tools.
               </p>
+              {designerStats && (
+                <div className="flex flex-wrap items-center gap-6 mt-6 text-sm text-gray-700">
+                  <span className="flex items-center">
+                    <Star className="w-4 h-4 mr-1 text-yellow-400 fill-current" />
+                    <span className="font-semibold mr-1">{designerStats.reviewCount > 0 ? designerStats.rating.toFixed(1) : '—'}</span>
+                    rating
+                  </span>
+                  <span className="flex items-center">
+                    <MessageSquare className="w-4 h-4 mr-1 text-green-600" />
+                    <span className="font-semibold mr-1">{designerStats.reviewCount}</span>
+                    reviews
+                  </span>
+                  <span className="flex items-center">
+                    <CheckCircle className="w-4 h-4 mr-1 text-green-600" />
+                    <span className="font-semibold mr-1">
+                      {designerStats.completionRate !== null ? `${designerStats.completionRate}%` : '—'}
+                    </span>
+                    completion rate
+                  </span>
+                  <button
+                    onClick={() => setShowAvailabilityModal(true)}
+                    className="flex items-center text-green-700 font-medium hover:text-green-800 transition-colors"
+                  >
+                    <Calendar className="w-4 h-4 mr-1" />
+                    Manage availability
+                  </button>
+                </div>
+              )}
             </div>
           )}
 
@@ -961,6 +1060,40 @@ function Dashboard() {
                   <ArrowUpRight className="w-4 h-4 ml-1 group-hover:translate-x-1 group-hover:-translate-y-1 transition-transform duration-200" />
                 </div>
               </div>
+
+              <div className="bg-gradient-to-br from-gray-50 to-slate-50 rounded-xl p-6 shadow-sm border border-gray-200">
+                <div className="w-12 h-12 bg-gradient-to-br from-gray-500 to-slate-600 rounded-lg flex items-center justify-center mb-4">
+                  <Trash2 className="w-6 h-6 text-white" />
+                </div>
+                <h3 className="text-lg font-semibold text-gray-900 mb-2">Platform Maintenance</h3>
+                <p className="text-gray-600 text-sm mb-4">Purge expired archives, remove unused images and rebuild the package search index.</p>
+                <div className="flex flex-col gap-2">
+                  <button
+                    onClick={handlePurgeExpiredArchives}
+                    disabled={maintenanceTask !== null}
+                    className="px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-lg hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+                  >
+                    {maintenanceTask === 'archives' ? 'Purging...' : 'Purge Expired Archives'}
+                  </button>
+                  <button
+                    onClick={handleDeleteOrphanedImages}
+                    disabled={maintenanceTask !== null}
+                    className="px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-lg hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+                  >
+                    {maintenanceTask === 'images' ? 'Scanning...' : 'Remove Orphaned Images'}
+                  </button>
+                  <button
+                    onClick={handleRebuildSearchIndex}
+                    disabled={maintenanceTask !== null}
+                    className="px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-lg hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+                  >
+                    {maintenanceTask === 'search' ? 'Rebuilding...' : 'Rebuild Search Index'}
+                  </button>
+                </div>
+                {maintenanceMessage && (
+                  <p className="text-gray-600 text-xs mt-3">{maintenanceMessage}</p>
+                )}
+              </div>
             </div>
           )}
 
@@ -1218,7 +1351,11 @@ function Dashboard() {
                     <Award className="w-8 h-8 mr-3 text-blue-600" />
                     Designer Verification Application
                   </h2>
-                  <p className="text-gray-600 mt-2">Complete all sections to submit your verification request</p>
+                  <p className="text-gray-600 mt-2">
+                    {previousVerification
+                      ? 'Update your previous application and submit it for review again'
+                      : 'Complete all sections to submit your verification request'}
+                  </p>
                 </div>
                 <button
                   onClick={() => setShowVerificationModal(false)}
@@ -1240,6 +1377,21 @@ function Dashboard() {
                 </div>
               )}
 
+              {/* Resubmission Notice */}
+              {previousVerification && !verificationSuccess && (
+                <div className="mb-6 bg-amber-50 border border-amber-200 rounded-xl p-4">
+                  <p className="text-amber-900 font-medium">
+                    {previousVerification.status === 'rejected'
+                      ? 'Your previous application was not approved.'
+                      : 'Reviewers need more information about your application.'}
+                  </p>
+                  {previousVerification.review_notes && (
+                    <p className="text-amber-800 text-sm mt-1">Reviewer notes: {previousVerification.review_notes}</p>
+                  )}
+                  <p className="text-amber-700 text-sm mt-1">Your previous documents are kept unless you upload new ones.</p>
+                </div>
+              )}
+
               {/* Error State */}
               {verificationError && (
                 <div className="mb-6 bg-red-50 border border-red-200 rounded-xl p-4">
@@ -1328,7 +1480,7 @@ function Dashboard() {
                           accept="image/*,.pdf"
                           className="hidden"
                           id="national-id-upload"
-                          required
+                          required={!previousVerification?.national_id_url}
                         />
                         <label htmlFor="national-id-upload" className="cursor-pointer">
                           {uploadedFiles.national_id ? (
@@ -1343,7 +1495,9 @@ function Dashboard() {
                             <div className="flex flex-col items-center">
                               <Upload className="w-8 h-8 text-gray-400 mx-auto mb-2" />
                               <p className="text-sm text-gray-600">
-                                Click to upload your National ID or Passport
+                                {previousVerification?.national_id_url
+                                  ? 'Previous document kept. Click to upload a replacement'
+                                  : 'Click to upload your National ID or Passport'}
                               </p>
                               <p className="text-xs text-gray-500 mt-1">PNG, JPG, or PDF up to 10MB</p>
                             </div>
@@ -1375,15 +1529,9 @@ function Dashboard() {
                         required
                       >
                         <option value="">Select your specialization</option>
-                        <option value="residential">Residential Architecture</option>
-                        <option value="commercial">Commercial Architecture</option>
-                        <option value="industrial">Industrial Architecture</option>
-                        <option value="landscape">Landscape Architecture</option>
-                        <option value="interior">Interior Design</option>
-                        <option value="urban_planning">Urban Planning</option>
-                        <option value="sustainable">Sustainable Design</option>
-                        <option value="restoration">Historic Restoration</option>
-                        <option value="other">Other</option>
+                        {SPECIALIZATION_OPTIONS.map(option => (
+                          <option key={option.value} value={option.value}>{option.label}</option>
+                        ))}
                       </select>
                     </div>
 
@@ -1400,11 +1548,9 @@ function Dashboard() {
                         required
                       >
                         <option value="">Select experience level</option>
-                        <option value="0-1">0-1 years (Entry Level)</option>
-                        <option value="2-5">2-5 years (Junior)</option>
-                        <option value="6-10">6-10 years (Mid-Level)</option>
-                        <option value="11-15">11-15 years (Senior)</option>
-                        <option value="16+">16+ years (Expert)</option>
+                        {EXPERIENCE_OPTIONS.map(option => (
+                          <option key={option.value} value={option.value}>{option.label}</option>
+                        ))}
                       </select>
                     </div>
 
@@ -1430,11 +1576,7 @@ function Dashboard() {
                         Software Proficiency *
                       </label>
                       <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 gap-3">
-                        {[
-                          'AutoCAD', 'Revit', 'SketchUp', '3ds Max',
-                          'Rhino', 'ArchiCAD', 'Lumion', 'V-Ray',
-                          'Photoshop', 'Illustrator', 'InDesign', 'Blender'
-                        ].map((software) => (
+                        {SOFTWARE_OPTIONS.map((software) => (
                           <label key={software} className={`flex items-center space-x-2 cursor-pointer p-3 rounded-lg border-2 transition-all duration-200 ${
                             verificationForm.software_proficiency.includes(software)
                               ? 'border-blue-500 bg-blue-50 text-blue-700'
@@ -1510,10 +1652,10 @@ function Dashboard() {
                           type="file"
                           name="sample_project"
                           onChange={handleFileUpload('sample_project')}
-                          accept="image/*,.pdf,.dwg,.rvt,.skp"
+                          accept="image/*,.pdf,.dwg,.dxf,.zip"
                           className="hidden"
                           id="sample-project-upload"
-                          required
+                          required={!previousVerification?.sample_project_url}
                         />
                         <label htmlFor="sample-project-upload" className="cursor-pointer">
                           {uploadedFiles.sample_project ? (
@@ -1528,9 +1670,11 @@ function Dashboard() {
                             <div className="flex flex-col items-center">
                               <Upload className="w-8 h-8 text-gray-400 mx-auto mb-2" />
                               <p className="text-sm text-gray-600">
-                                Upload your best project files
+                                {previousVerification?.sample_project_url
+                                  ? 'Previous files kept. Click to upload a replacement'
+                                  : 'Upload your best project files'}
                               </p>
-                              <p className="text-xs text-gray-500 mt-1">Images, PDFs, CAD files up to 50MB</p>
+                              <p className="text-xs text-gray-500 mt-1">Images, PDFs, DWG/DXF or ZIP up to 10MB</p>
                             </div>
                           )}
                         </label>
@@ -1721,6 +1865,19 @@ function Dashboard() {
           onProjectCreated={handleProjectCreated}
         />
       )}
+
+      {/* ===== AVAILABILITY MODAL ===== */}
+      <AvailabilityModal
+        isOpen={showAvailabilityModal}
+        onClose={() => setShowAvailabilityModal(false)}
+      />
+
+      {/* ===== MORE INFORMATION RESPONSE MODAL ===== */}
+      <MoreInfoResponseModal
+        isOpen={!!infoRequestVerification}
+        onClose={() => setInfoRequestVerification(null)}
+        verification={infoRequestVerification}
+      />
     </div>
   );
 };
@@ -0,0 +1,165 @@
+/**
+ * Deliver Order Modal Component
+ *
+ * Lets the package designer hand over work on an order, either the
+ * first delivery or the answer to a revision request.
+ */
+
+import React, { useState } from 'react';
+import { Package, X, RefreshCw, Paperclip, Trash2 } from 'lucide-react';
+import { useAuth } from '../hooks/useAuth';
+import { OrderService } from '../services/orderService';
+import { Order, OrderDelivery } from '../types/order';
+import { ATTACHMENT_ACCEPT, MAX_ATTACHMENTS_PER_MESSAGE, formatFileSize } from '../types/conversation';
+
+interface DeliverOrderModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  order: Order | null;
+  onDelivered: (orderId: string, delivery: OrderDelivery) => void;
+}
+
+const DeliverOrderModal: React.FC<DeliverOrderModalProps> = ({ isOpen, onClose, order, onDelivered }) => {
+  const { user } = useAuth();
+  const [message, setMessage] = useState('');
+  const [files, setFiles] = useState<File[]>([]);
+  const [error, setError] = useState<string | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const latestRevision = order?.revisionRequests[order.revisionRequests.length - 1];
+
+  const handleFilesSelected = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const selected = Array.from(e.target.files || []);
+    setFiles(prev => [...prev, ...selected].slice(0, MAX_ATTACHMENTS_PER_MESSAGE));
+    e.target.value = '';
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!order || !user) return;
+
+    setIsSubmitting(true);
+    setError(null);
+    try {
+      const delivery = await OrderService.deliverOrder(order.id, user.uid, message, files);
+      onDelivered(order.id, delivery);
+      setMessage('');
+      setFiles([]);
+      onClose();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to deliver order');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  if (!isOpen || !order) return null;
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+      <div className="bg-white rounded-xl w-full max-w-2xl max-h-[90vh] overflow-y-auto shadow-2xl">
+        <div className="sticky top-0 bg-white border-b border-gray-200 px-6 py-4 rounded-t-xl">
+          <div className="flex justify-between items-center">
+            <div>
+              <h2 className="text-xl font-bold text-gray-900 flex items-center">
+                <Package className="w-6 h-6 mr-2 text-green-600" />
+                {order.status === 'revision_requested' ? `Deliver Revision ${order.revisionsUsed}` : 'Deliver Work'}
+              </h2>
+              <p className="text-sm text-gray-600 mt-1">{order.projectTitle} • {order.buyerName}</p>
+            </div>
+            <button
+              onClick={onClose}
+              className="text-gray-400 hover:text-gray-600 transition-colors"
+              aria-label="Close modal"
+            >
+              <X className="w-6 h-6" />
+            </button>
+          </div>
+        </div>
+
+        <form onSubmit={handleSubmit} className="p-6 space-y-6">
+          {order.status === 'revision_requested' && latestRevision && (
+            <div className="bg-amber-50 border border-amber-200 rounded-lg p-4 text-sm text-amber-800">
+              <p className="font-medium mb-1">Requested changes</p>
+              <p>{latestRevision.note}</p>
+            </div>
+          )}
+
+          {error && (
+            <div className="bg-red-50 border border-red-200 rounded-lg p-4 text-sm text-red-700">{error}</div>
+          )}
+
+          <div>
+            <label htmlFor="deliveryMessage" className="block text-sm font-medium text-gray-700 mb-2">Message</label>
+            <textarea
+              id="deliveryMessage"
+              value={message}
+              onChange={(e) => setMessage(e.target.value)}
+              rows={5}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-green-500 focus:border-transparent"
+              placeholder="Summarize what is included in this delivery."
+            />
+          </div>
+
+          <div>
+            <span className="block text-sm font-medium text-gray-700 mb-2">Files</span>
+            {files.length > 0 && (
+              <ul className="space-y-2 mb-3">
+                {files.map((file, index) => (
+                  <li key={`${file.name}-${index}`} className="flex items-center justify-between bg-gray-50 rounded-lg px-3 py-2 text-sm">
+                    <span className="text-gray-700 truncate">{file.name} <span className="text-gray-400">({formatFileSize(file.size)})</span></span>
+                    <button
+                      type="button"
+                      onClick={() => setFiles(prev => prev.filter((_, i) => i !== index))}
+                      className="text-gray-400 hover:text-red-500 transition-colors"
+                      aria-label={`Remove ${file.name}`}
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            )}
+            {files.length < MAX_ATTACHMENTS_PER_MESSAGE && (
+              <label className="inline-flex items-center px-4 py-2 text-sm text-gray-700 bg-white border border-gray-300 rounded-lg hover:bg-gray-50 cursor-pointer transition-colors">
+                <Paperclip className="w-4 h-4 mr-2" />
+                Add files
+                <input type="file" multiple accept={ATTACHMENT_ACCEPT} onChange={handleFilesSelected} className="hidden" />
+              </label>
+            )}
+          </div>
+
+          {/* Actions */}
+          <div className="flex justify-end space-x-3 pt-4 border-t border-gray-200">
+            <button
+              type="button"
+              onClick={onClose}
+              className="px-4 py-2 text-gray-700 bg-white border border-gray-300 rounded-lg hover:bg-gray-50 transition-colors"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              disabled={isSubmitting || (!message.trim() && files.length === 0)}
+              className="px-6 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors flex items-center"
+            >
+              {isSubmitting ? (
+                <>
+                  <RefreshCw className="w-4 h-4 mr-2 animate-spin" />
+                  Delivering...
+                </>
+              ) : (
+                <>
+                  <Package className="w-4 h-4 mr-2" />
+                  Deliver
+                </>
+              )}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+};
+
+export default DeliverOrderModal;
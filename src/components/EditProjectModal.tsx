@@ -0,0 +1,367 @@
+/**
+ * Edit Project Modal Component
+ *
+ * Lets a designer edit a published project package. Every saved edit
+ * becomes a new version, listed in the history below the form.
+ */
+
+import React, { useEffect, useState } from 'react';
+import { Edit3, X, RefreshCw, Save, Plus, Trash2, Upload, History } from 'lucide-react';
+import { useAuth } from '../hooks/useAuth';
+import { ProjectService, Project, ProjectVersion, UpdateProjectData, getPrimaryImageRenditions } from '../services/projectService';
+import { findImageRenditions, getRenditionUrl } from '../types/image';
+import { validatePartial, getErrorMessages, projectSchema } from '../utils/validation';
+
+interface EditProjectModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  project: Project | null;
+  onProjectUpdated: (project: Project) => void;
+}
+
+const FIELD_LABELS: Record<string, string> = {
+  title: 'title',
+  description: 'description',
+  category: 'category',
+  price: 'price',
+  deliveryTimeline: 'delivery timeline',
+  deliverables: 'deliverables',
+  meetingsCount: 'meetings',
+  revisionsCount: 'revisions',
+  customTags: 'tags',
+  primaryImageUrl: 'primary image',
+  additionalImageUrls: 'gallery'
+};
+
+const EditProjectModal: React.FC<EditProjectModalProps> = ({ isOpen, onClose, project, onProjectUpdated }) => {
+  const { user } = useAuth();
+  const [formData, setFormData] = useState({ title: '', description: '', price: 0, deliveryTimeline: '', deliverables: '', meetingsCount: 0, revisionsCount: 0 });
+  const [tags, setTags] = useState<string[]>([]);
+  const [newTag, setNewTag] = useState('');
+  const [primaryImage, setPrimaryImage] = useState<File | null>(null);
+  const [keptImageUrls, setKeptImageUrls] = useState<string[]>([]);
+  const [newImages, setNewImages] = useState<File[]>([]);
+  const [versions, setVersions] = useState<ProjectVersion[]>([]);
+  const [errors, setErrors] = useState<string[]>([]);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    if (!isOpen || !project) return;
+
+    setFormData({
+      title: project.title,
+      description: project.description,
+      price: project.price,
+      deliveryTimeline: project.deliveryTimeline,
+      deliverables: project.deliverables,
+      meetingsCount: project.meetingsCount,
+      revisionsCount: project.revisionsCount
+    });
+    setTags(project.customTags);
+    setKeptImageUrls(project.additionalImageUrls);
+    setPrimaryImage(null);
+    setNewImages([]);
+    setErrors([]);
+
+    ProjectService.getProjectVersions(project.id)
+      .then(setVersions)
+      .catch(error => console.error('❌ Error loading project versions:', error));
+  }, [isOpen, project]);
+
+  const handleAddTag = () => {
+    const tag = newTag.trim();
+    if (tag && !tags.includes(tag)) {
+      setTags(prev => [...prev, tag]);
+    }
+    setNewTag('');
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!project || !user) return;
+
+    const updates: UpdateProjectData = {
+      ...formData,
+      customTags: tags,
+      keptAdditionalImageUrls: keptImageUrls,
+      additionalImages: newImages,
+      ...(primaryImage ? { primaryImage } : {})
+    };
+
+    const validation = validatePartial(projectSchema, updates);
+    if (!validation.isValid) {
+      setErrors(getErrorMessages(validation.errors));
+      return;
+    }
+
+    setIsSaving(true);
+    setErrors([]);
+    try {
+      const updated = await ProjectService.updateProject(project.id, user.uid, updates);
+      onProjectUpdated(updated);
+      onClose();
+    } catch (error) {
+      setErrors([error instanceof Error ? error.message : 'Failed to update project']);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  if (!isOpen || !project) return null;
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+      <div className="bg-white rounded-xl w-full max-w-2xl max-h-[90vh] overflow-y-auto shadow-2xl">
+        <div className="sticky top-0 bg-white border-b border-gray-200 px-6 py-4 rounded-t-xl">
+          <div className="flex justify-between items-center">
+            <div>
+              <h2 className="text-xl font-bold text-gray-900 flex items-center">
+                <Edit3 className="w-6 h-6 mr-2 text-green-600" />
+                Edit Package
+              </h2>
+              <p className="text-sm text-gray-600 mt-1">{project.title} • version {project.currentVersion}</p>
+            </div>
+            <button
+              onClick={onClose}
+              className="text-gray-400 hover:text-gray-600 transition-colors"
+              aria-label="Close modal"
+            >
+              <X className="w-6 h-6" />
+            </button>
+          </div>
+        </div>
+
+        <form onSubmit={handleSubmit} className="p-6 space-y-6">
+          {errors.length > 0 && (
+            <div className="bg-red-50 border border-red-200 rounded-lg p-4">
+              <ul className="list-disc list-inside text-sm text-red-700 space-y-1">
+                {errors.map(error => <li key={error}>{error}</li>)}
+              </ul>
+            </div>
+          )}
+
+          <div>
+            <label htmlFor="editTitle" className="block text-sm font-medium text-gray-700 mb-2">Title *</label>
+            <input
+              id="editTitle"
+              type="text"
+              value={formData.title}
+              onChange={(e) => setFormData(prev => ({ ...prev, title: e.target.value }))}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-green-500 focus:border-transparent"
+            />
+          </div>
+
+          <div>
+            <label htmlFor="editDescription" className="block text-sm font-medium text-gray-700 mb-2">Description *</label>
+            <textarea
+              id="editDescription"
+              value={formData.description}
+              onChange={(e) => setFormData(prev => ({ ...prev, description: e.target.value }))}
+              rows={4}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-green-500 focus:border-transparent"
+            />
+          </div>
+
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+            <div>
+              <label htmlFor="editPrice" className="block text-sm font-medium text-gray-700 mb-2">Price *</label>
+              <input
+                id="editPrice"
+                type="number"
+                min={0}
+                value={formData.price || ''}
+                onChange={(e) => setFormData(prev => ({ ...prev, price: Number(e.target.value) }))}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-green-500 focus:border-transparent"
+              />
+            </div>
+            <div>
+              <label htmlFor="editTimeline" className="block text-sm font-medium text-gray-700 mb-2">Delivery</label>
+              <input
+                id="editTimeline"
+                type="text"
+                value={formData.deliveryTimeline}
+                onChange={(e) => setFormData(prev => ({ ...prev, deliveryTimeline: e.target.value }))}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-green-500 focus:border-transparent"
+              />
+            </div>
+            <div>
+              <label htmlFor="editRevisions" className="block text-sm font-medium text-gray-700 mb-2">Revisions</label>
+              <input
+                id="editRevisions"
+                type="number"
+                min={0}
+                value={formData.revisionsCount}
+                onChange={(e) => setFormData(prev => ({ ...prev, revisionsCount: Number(e.target.value) }))}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-green-500 focus:border-transparent"
+              />
+            </div>
+            <div>
+              <label htmlFor="editMeetings" className="block text-sm font-medium text-gray-700 mb-2">Meetings</label>
+              <input
+                id="editMeetings"
+                type="number"
+                min={0}
+                value={formData.meetingsCount}
+                onChange={(e) => setFormData(prev => ({ ...prev, meetingsCount: Number(e.target.value) }))}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-green-500 focus:border-transparent"
+              />
+            </div>
+          </div>
+
+          <div>
+            <label htmlFor="editDeliverables" className="block text-sm font-medium text-gray-700 mb-2">Deliverables</label>
+            <textarea
+              id="editDeliverables"
+              value={formData.deliverables}
+              onChange={(e) => setFormData(prev => ({ ...prev, deliverables: e.target.value }))}
+              rows={3}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-green-500 focus:border-transparent"
+            />
+          </div>
+
+          {/* Tags */}
+          <div>
+            <span className="block text-sm font-medium text-gray-700 mb-2">Tags *</span>
+            <div className="flex flex-wrap gap-2 mb-2">
+              {tags.map(tag => (
+                <span key={tag} className="inline-flex items-center px-2 py-1 rounded-md text-xs font-medium bg-green-50 text-green-700">
+                  {tag}
+                  <button
+                    type="button"
+                    onClick={() => setTags(prev => prev.filter(t => t !== tag))}
+                    className="ml-1 text-green-500 hover:text-red-500"
+                    aria-label={`Remove ${tag}`}
+                  >
+                    <X className="w-3 h-3" />
+                  </button>
+                </span>
+              ))}
+            </div>
+            <div className="flex space-x-2">
+              <input
+                type="text"
+                value={newTag}
+                onChange={(e) => setNewTag(e.target.value)}
+                onKeyDown={(e) => { if (e.key === 'Enter') { e.preventDefault(); handleAddTag(); } }}
+                className="flex-1 px-3 py-2 border border-gray-300 rounded-lg text-sm"
+                placeholder="Add a tag"
+              />
+              <button
+                type="button"
+                onClick={handleAddTag}
+                className="px-3 py-2 text-gray-700 bg-white border border-gray-300 rounded-lg hover:bg-gray-50 transition-colors"
+                aria-label="Add tag"
+              >
+                <Plus className="w-4 h-4" />
+              </button>
+            </div>
+          </div>
+
+          {/* Images */}
+          <div>
+            <span className="block text-sm font-medium text-gray-700 mb-2">Images</span>
+            <div className="flex flex-wrap gap-3 mb-3">
+              <div className="relative">
+                <img src={primaryImage ? URL.createObjectURL(primaryImage) : getRenditionUrl(getPrimaryImageRenditions(project), 'thumbnail', project.primaryImageUrl)} alt="Primary" className="w-24 h-24 object-cover rounded-lg border-2 border-green-500" />
+                <span className="absolute bottom-1 left-1 bg-green-600 text-white text-[10px] px-1 rounded">Primary</span>
+              </div>
+              {keptImageUrls.map(url => (
+                <div key={url} className="relative">
+                  <img src={getRenditionUrl(findImageRenditions(project.imageRenditions, url), 'thumbnail', url)} alt="Gallery" className="w-24 h-24 object-cover rounded-lg" />
+                  <button
+                    type="button"
+                    onClick={() => setKeptImageUrls(prev => prev.filter(u => u !== url))}
+                    className="absolute top-1 right-1 bg-white rounded-full p-1 text-gray-500 hover:text-red-500 shadow"
+                    aria-label="Remove image"
+                  >
+                    <Trash2 className="w-3 h-3" />
+                  </button>
+                </div>
+              ))}
+              {newImages.map((file, index) => (
+                <div key={`${file.name}-${index}`} className="relative">
+                  <img src={URL.createObjectURL(file)} alt={file.name} className="w-24 h-24 object-cover rounded-lg opacity-80" />
+                  <button
+                    type="button"
+                    onClick={() => setNewImages(prev => prev.filter((_, i) => i !== index))}
+                    className="absolute top-1 right-1 bg-white rounded-full p-1 text-gray-500 hover:text-red-500 shadow"
+                    aria-label="Remove image"
+                  >
+                    <Trash2 className="w-3 h-3" />
+                  </button>
+                </div>
+              ))}
+            </div>
+            <div className="flex space-x-2">
+              <label className="inline-flex items-center px-3 py-2 text-sm text-gray-700 bg-white border border-gray-300 rounded-lg hover:bg-gray-50 cursor-pointer transition-colors">
+                <Upload className="w-4 h-4 mr-2" />
+                Replace primary
+                <input type="file" accept="image/*" onChange={(e) => { setPrimaryImage(e.target.files?.[0] || null); e.target.value = ''; }} className="hidden" />
+              </label>
+              <label className="inline-flex items-center px-3 py-2 text-sm text-gray-700 bg-white border border-gray-300 rounded-lg hover:bg-gray-50 cursor-pointer transition-colors">
+                <Plus className="w-4 h-4 mr-2" />
+                Add images
+                <input type="file" accept="image/*" multiple onChange={(e) => { setNewImages(prev => [...prev, ...Array.from(e.target.files || [])]); e.target.value = ''; }} className="hidden" />
+              </label>
+            </div>
+          </div>
+
+          {/* Actions */}
+          <div className="flex justify-end space-x-3 pt-4 border-t border-gray-200">
+            <button
+              type="button"
+              onClick={onClose}
+              className="px-4 py-2 text-gray-700 bg-white border border-gray-300 rounded-lg hover:bg-gray-50 transition-colors"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              disabled={isSaving}
+              className="px-6 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors flex items-center"
+            >
+              {isSaving ? (
+                <>
+                  <RefreshCw className="w-4 h-4 mr-2 animate-spin" />
+                  Saving...
+                </>
+              ) : (
+                <>
+                  <Save className="w-4 h-4 mr-2" />
+                  Save as Version {project.currentVersion + 1}
+                </>
+              )}
+            </button>
+          </div>
+
+          {/* Version History */}
+          {versions.length > 0 && (
+            <div className="pt-4 border-t border-gray-200">
+              <h3 className="text-sm font-medium text-gray-700 mb-3 flex items-center">
+                <History className="w-4 h-4 mr-2" />
+                Version History
+              </h3>
+              <ul className="space-y-2">
+                {versions.map(version => (
+                  <li key={version.id} className="flex items-center justify-between bg-gray-50 rounded-lg px-3 py-2 text-sm">
+                    <span className="text-gray-700">
+                      <span className="font-medium">v{version.version}</span>
+                      {' • '}${version.price.toLocaleString()}
+                      {' • '}
+                      {version.changedFields.length > 0
+                        ? `Changed ${version.changedFields.map(field => FIELD_LABELS[field]).join(', ')}`
+                        : 'Published'}
+                    </span>
+                    <span className="text-gray-500">{version.createdAt.toLocaleDateString()}</span>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+        </form>
+      </div>
+    </div>
+  );
+};
+
+export default EditProjectModal;
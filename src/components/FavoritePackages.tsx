@@ -0,0 +1,107 @@
+/**
+ * Favorite Packages Component
+ *
+ * The buyer's saved packages, loaded page by page as they scroll.
+ */
+
+import React, { useCallback } from 'react';
+import { Heart, DollarSign, ShoppingCart, AlertCircle } from 'lucide-react';
+import { usePaginatedQuery, PageCursor } from '../hooks/usePaginatedQuery';
+import { EngagementService } from '../services/engagementService';
+import { FavoriteProject } from '../types/engagement';
+import ProjectImage from './ProjectImage';
+
+interface FavoritePackagesProps {
+  userId: string;
+  orderingProjectId: string | null;
+  onOrder: (projectId: string) => void;
+  onToggleFavorite: (projectId: string) => Promise<boolean>;
+}
+
+const getFavoriteKey = (favorite: FavoriteProject) => favorite.id;
+
+const FavoritePackages: React.FC<FavoritePackagesProps> = ({ userId, orderingProjectId, onOrder, onToggleFavorite }) => {
+  const fetchFavoritesPage = useCallback(
+    (cursor: PageCursor) => EngagementService.getFavorites(userId, cursor),
+    [userId]
+  );
+  const { items: favorites, setItems, loading, loadingMore, error, hasMore, sentinelRef } =
+    usePaginatedQuery(fetchFavoritesPage, getFavoriteKey);
+
+  const handleRemove = async (projectId: string) => {
+    const isFavorite = await onToggleFavorite(projectId);
+    if (!isFavorite) {
+      setItems(prev => prev.filter(favorite => favorite.projectId !== projectId));
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex justify-center py-12">
+        <div className="w-12 h-12 border-4 border-green-600 border-t-transparent rounded-full animate-spin"></div>
+      </div>
+    );
+  }
+
+  return (
+    <>
+      {error && (
+        <div className="bg-red-50 border border-red-200 rounded-xl p-4 mb-6 flex items-center space-x-3">
+          <AlertCircle className="w-5 h-5 text-red-600 flex-shrink-0" />
+          <p className="text-sm text-red-700">{error}</p>
+        </div>
+      )}
+
+      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-8">
+        {favorites.map(favorite => (
+          <div key={favorite.id} className="bg-white rounded-2xl shadow-sm border border-gray-200 overflow-hidden hover:shadow-lg transition-all duration-300">
+            <div className="relative">
+              {favorite.primaryImageUrl && (
+                <ProjectImage src={favorite.primaryImageUrl} blurhash={favorite.primaryImageBlurhash} alt={favorite.projectTitle} className="w-full h-48" />
+              )}
+              <button
+                onClick={() => handleRemove(favorite.projectId)}
+                className="absolute top-3 right-3 p-2 bg-white rounded-full shadow text-red-500 hover:text-red-600 transition-colors"
+                aria-label="Remove from favorites"
+              >
+                <Heart className="w-4 h-4 fill-current" />
+              </button>
+            </div>
+            <div className="p-6">
+              <h3 className="text-lg font-semibold text-gray-900 mb-1">{favorite.projectTitle}</h3>
+              <p className="text-sm text-gray-500 mb-3">{favorite.category}</p>
+              <div className="flex items-center mb-4 text-sm text-gray-600">
+                <DollarSign className="w-4 h-4 mr-2" />
+                <span className="font-medium text-gray-900">${favorite.price.toLocaleString()}</span>
+              </div>
+              <button
+                onClick={() => onOrder(favorite.projectId)}
+                disabled={orderingProjectId !== null}
+                className="w-full bg-gradient-to-r from-green-600 to-emerald-600 text-white py-2.5 px-4 rounded-lg font-medium hover:from-green-700 hover:to-emerald-700 disabled:opacity-50 disabled:cursor-not-allowed transition-all duration-200 flex items-center justify-center space-x-2"
+              >
+                <ShoppingCart className="w-4 h-4" />
+                <span>{orderingProjectId === favorite.projectId ? 'Loading...' : 'Order Package'}</span>
+              </button>
+            </div>
+          </div>
+        ))}
+        {favorites.length === 0 && (
+          <div className="col-span-full text-center py-12">
+            <Heart className="w-12 h-12 text-gray-300 mx-auto mb-4" />
+            <p className="text-gray-500">Packages you save while browsing will appear here.</p>
+          </div>
+        )}
+      </div>
+
+      {hasMore && (
+        <div ref={sentinelRef} className="flex justify-center py-8">
+          {loadingMore && (
+            <div className="w-8 h-8 border-4 border-green-600 border-t-transparent rounded-full animate-spin"></div>
+          )}
+        </div>
+      )}
+    </>
+  );
+};
+
+export default FavoritePackages;
@@ -1,215 +1,121 @@
 import React, { useState, useEffect, useRef } from 'react';
 import {
-  MessageSquare, Search, Plus, Phone, Video, MoreHorizontal, Send,
+  MessageSquare, Search, Plus, Phone, Video, Send,
   Paperclip, Smile, Image, File, Star, Archive, Trash2, Pin,
-  Check, CheckCheck, Clock, Circle, User, Calendar, Filter,
+  Check, CheckCheck, Clock, User, Pencil, Calendar, Filter,
   ChevronDown, X, Download, Eye, Heart, Reply, Forward
 } from 'lucide-react';
 import { useAuth } from '../hooks/useAuth';
-
-interface Message {
-  id: string;
-  content: string;
-  timestamp: string;
-  senderId: string;
-  senderName: string;
-  senderAvatar: string;
-  type: 'text' | 'image' | 'file' | 'system';
-  status: 'sent' | 'delivered' | 'read';
-  attachments?: {
-    id: string;
-    name: string;
-    type: string;
-    size: number;
-    url: string;
-  }[];
-  replyTo?: {
-    id: string;
-    content: string;
-    senderName: string;
-  };
-}
-
-interface Conversation {
-  id: string;
-  participants: {
-    id: string;
-    name: string;
-    avatar: string;
-    role: string;
-    isOnline: boolean;
-    lastSeen: string;
-  }[];
-  lastMessage: {
-    content: string;
-    timestamp: string;
-    senderId: string;
-  };
-  unreadCount: number;
-  isPinned: boolean;
-  isArchived: boolean;
-  projectId?: string;
-  projectTitle?: string;
-  messages: Message[];
-}
+import { ConversationService } from '../services/conversationService';
+import {
+  Conversation,
+  Message,
+  MessageStatus,
+  getMessageStatus,
+  ALLOWED_ATTACHMENT_TYPES,
+  ATTACHMENT_ACCEPT,
+  MAX_ATTACHMENTS_PER_MESSAGE,
+  formatFileSize,
+  getUnreadCount,
+  isArchivedBy,
+  isDeletedMessage,
+  isImageAttachment,
+  isPinnedBy,
+  resolveQuote,
+  toConversationParticipant,
+  validateAttachment
+} from '../types/conversation';
 
 const Messages: React.FC = () => {
   const { user, userProfile } = useAuth();
   const [conversations, setConversations] = useState<Conversation[]>([]);
   const [selectedConversation, setSelectedConversation] = useState<string | null>(null);
+  const [messages, setMessages] = useState<Message[]>([]);
   const [newMessage, setNewMessage] = useState('');
   const [searchTerm, setSearchTerm] = useState('');
   const [showFilters, setShowFilters] = useState(false);
   const [filterType, setFilterType] = useState('all');
+  const [projectFilter, setProjectFilter] = useState('all');
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [sending, setSending] = useState(false);
+  const [pendingFiles, setPendingFiles] = useState<File[]>([]);
+  const [uploadProgress, setUploadProgress] = useState<Record<number, number>>({});
+  const [replyingTo, setReplyingTo] = useState<Message | null>(null);
+  const [editingMessage, setEditingMessage] = useState<Message | null>(null);
+  const [highlightedMessageId, setHighlightedMessageId] = useState<string | null>(null);
   const messagesEndRef = useRef<HTMLDivElement>(null);
+  const deliveredUpTo = useRef<Record<string, number>>({});
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const imageInputRef = useRef<HTMLInputElement>(null);
 
-  // Mock data for demonstration
+  // Subscribe to the user's conversations
   useEffect(() => {
-    const mockConversations: Conversation[] = [
-      {
-        id: '1',
-        participants: [
-          {
-            id: '1',
-            name: 'Sarah Johnson',
-            avatar: '/api/placeholder/50/50',
-            role: 'Architect',
-            isOnline: true,
-            lastSeen: 'now'
-          },
-          {
-            id: '2',
-            name: 'You',
-            avatar: '/api/placeholder/50/50',
-            role: 'Client',
-            isOnline: true,
-            lastSeen: 'now'
-          }
-        ],
-        lastMessage: {
-          content: 'I\'ve updated the floor plans based on your feedback. Please review when you have a chance.',
-          timestamp: '2024-01-20T10:30:00Z',
-          senderId: '1'
-        },
-        unreadCount: 2,
-        isPinned: true,
-        isArchived: false,
-        projectId: 'proj-1',
-        projectTitle: 'Modern Villa Design',
-        messages: [
-          {
-            id: 'msg-1',
-            content: 'Hi! I wanted to discuss the latest design revisions for your villa project.',
-            timestamp: '2024-01-20T09:00:00Z',
-            senderId: '1',
-            senderName: 'Sarah Johnson',
-            senderAvatar: '/api/placeholder/50/50',
-            type: 'text',
-            status: 'read'
-          },
-          {
-            id: 'msg-2',
-            content: 'Great! I\'ve been looking forward to seeing the updates. What changes did you make?',
-            timestamp: '2024-01-20T09:15:00Z',
-            senderId: '2',
-            senderName: 'You',
-            senderAvatar: '/api/placeholder/50/50',
-            type: 'text',
-            status: 'read'
-          },
-          {
-            id: 'msg-3',
-            content: 'I\'ve updated the floor plans based on your feedback. Please review when you have a chance.',
-            timestamp: '2024-01-20T10:30:00Z',
-            senderId: '1',
-            senderName: 'Sarah Johnson',
-            senderAvatar: '/api/placeholder/50/50',
-            type: 'text',
-            status: 'delivered',
-            attachments: [
-              {
-                id: 'att-1',
-                name: 'villa-floor-plans-v2.pdf',
-                type: 'application/pdf',
-                size: 2048000,
-                url: '/api/placeholder/file'
-              }
-            ]
-          }
-        ]
-      },
-      {
-        id: '2',
-        participants: [
-          {
-            id: '3',
-            name: 'Michael Chen',
-            avatar: '/api/placeholder/50/50',
-            role: 'Designer',
-            isOnline: false,
-            lastSeen: '2 hours ago'
-          }
-        ],
-        lastMessage: {
-          content: 'The 3D renderings are ready for your review.',
-          timestamp: '2024-01-19T16:45:00Z',
-          senderId: '3'
-        },
-        unreadCount: 0,
-        isPinned: false,
-        isArchived: false,
-        projectId: 'proj-2',
-        projectTitle: 'Office Complex',
-        messages: [
-          {
-            id: 'msg-4',
-            content: 'The 3D renderings are ready for your review.',
-            timestamp: '2024-01-19T16:45:00Z',
-            senderId: '3',
-            senderName: 'Michael Chen',
-            senderAvatar: '/api/placeholder/50/50',
-            type: 'text',
-            status: 'read'
-          }
-        ]
+    if (!user) return;
+
+    setLoading(true);
+    const unsubscribe = ConversationService.subscribeToConversations(
+      user.uid,
+      (items) => {
+        setConversations(items);
+        setSelectedConversation(prev => prev ?? items[0]?.id ?? null);
+        setLoading(false);
+        setError(null);
       },
-      {
-        id: '3',
-        participants: [
-          {
-            id: '4',
-            name: 'Emily Rodriguez',
-            avatar: '/api/placeholder/50/50',
-            role: 'Interior Designer',
-            isOnline: true,
-            lastSeen: 'now'
-          }
-        ],
-        lastMessage: {
-          content: 'Thank you for choosing our services! Looking forward to working with you.',
-          timestamp: '2024-01-18T14:20:00Z',
-          senderId: '4'
-        },
-        unreadCount: 1,
-        isPinned: false,
-        isArchived: false,
-        messages: [
-          {
-            id: 'msg-5',
-            content: 'Thank you for choosing our services! Looking forward to working with you.',
-            timestamp: '2024-01-18T14:20:00Z',
-            senderId: '4',
-            senderName: 'Emily Rodriguez',
-            senderAvatar: '/api/placeholder/50/50',
-            type: 'text',
-            status: 'delivered'
-          }
-        ]
+      (err) => {
+        setError(err.message);
+        setLoading(false);
       }
-    ];
-    setConversations(mockConversations);
-    setSelectedConversation(mockConversations[0].id);
-  }, []);
+    );
+
+    return unsubscribe;
+  }, [user]);
+
+  // Subscribe to messages of the selected conversation
+  useEffect(() => {
+    if (!selectedConversation) {
+      setMessages([]);
+      return;
+    }
+
+    const unsubscribe = ConversationService.subscribeToMessages(
+      selectedConversation,
+      setMessages,
+      (err) => setError(err.message)
+    );
+
+    return unsubscribe;
+  }, [selectedConversation]);
+
+  // Record read receipts for incoming messages while the conversation is open
+  useEffect(() => {
+    if (!user || !selectedConversation) return;
+
+    const conversation = conversations.find(conv => conv.id === selectedConversation);
+    const unreadIds = messages
+      .filter(message => message.senderId !== user.uid && !message.readBy.includes(user.uid))
+      .map(message => message.id);
+
+    if (unreadIds.length > 0 || (conversation && getUnreadCount(conversation, user.uid) > 0)) {
+      ConversationService.markConversationRead(selectedConversation, unreadIds, user.uid);
+    }
+  }, [user, selectedConversation, messages, conversations]);
+
+  // Record delivery receipts for unread messages in conversations that are not open
+  useEffect(() => {
+    if (!user) return;
+
+    conversations.forEach(conv => {
+      const unread = getUnreadCount(conv, user.uid);
+      const lastMessageAt = conv.lastMessage?.timestamp.getTime() ?? 0;
+
+      if (conv.id === selectedConversation || unread === 0) return;
+      if ((deliveredUpTo.current[conv.id] ?? 0) >= lastMessageAt) return;
+
+      deliveredUpTo.current[conv.id] = lastMessageAt;
+      ConversationService.markDelivered(conv.id, user.uid, unread);
+    });
+  }, [user, conversations, selectedConversation]);
 
   const scrollToBottom = () => {
     messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
@@ -217,42 +123,140 @@ const Messages: React.FC = () => {
 
   useEffect(() => {
     scrollToBottom();
+  }, [selectedConversation, messages.length]);
+
+  // Reply and edit context belongs to the conversation it was started in
+  useEffect(() => {
+    setReplyingTo(null);
+    setEditingMessage(null);
   }, [selectedConversation]);
 
-  const handleSendMessage = () => {
-    if (!newMessage.trim() || !selectedConversation) return;
-
-    const newMsg: Message = {
-      id: `msg-${Date.now()}`,
-      content: newMessage,
-      timestamp: new Date().toISOString(),
-      senderId: user?.uid || '2',
-      senderName: 'You',
-      senderAvatar: '/api/placeholder/50/50',
-      type: 'text',
-      status: 'sent'
-    };
-
-    setConversations(prev => prev.map(conv => {
-      if (conv.id === selectedConversation) {
-        return {
-          ...conv,
-          messages: [...conv.messages, newMsg],
-          lastMessage: {
-            content: newMessage,
-            timestamp: newMsg.timestamp,
-            senderId: newMsg.senderId
-          }
-        };
+  const handleFilesSelected = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(event.target.files || []);
+    event.target.value = '';
+
+    const rejected = files.map(validateAttachment).filter((message): message is string => message !== null);
+    const accepted = files.filter(file => validateAttachment(file) === null);
+    const combined = [...pendingFiles, ...accepted];
+
+    if (combined.length > MAX_ATTACHMENTS_PER_MESSAGE) {
+      rejected.push(`You can attach up to ${MAX_ATTACHMENTS_PER_MESSAGE} files per message`);
+    }
+
+    setPendingFiles(combined.slice(0, MAX_ATTACHMENTS_PER_MESSAGE));
+    setError(rejected.length > 0 ? rejected.join('. ') : null);
+  };
+
+  const handleRemovePendingFile = (index: number) => {
+    setPendingFiles(prev => prev.filter((_, i) => i !== index));
+  };
+
+  const handleSendMessage = async () => {
+    if ((!newMessage.trim() && pendingFiles.length === 0) || !selectedConversation || !user || !userProfile || sending) return;
+
+    const content = newMessage;
+    const files = pendingFiles;
+    setSending(true);
+
+    if (editingMessage) {
+      try {
+        await ConversationService.editMessage(selectedConversation, editingMessage.id, user.uid, content);
+        setEditingMessage(null);
+        setNewMessage('');
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'Failed to edit message');
+      } finally {
+        setSending(false);
+      }
+      return;
+    }
+
+    try {
+      const attachments = await Promise.all(files.map((file, index) =>
+        ConversationService.uploadAttachment(selectedConversation, user.uid, file, (progress) => {
+          setUploadProgress(prev => ({ ...prev, [index]: progress.progress }));
+        })
+      ));
+
+      await ConversationService.sendMessage(selectedConversation, toConversationParticipant(userProfile), content, {
+        attachments,
+        replyToId: replyingTo?.id || null
+      });
+      setNewMessage('');
+      setPendingFiles([]);
+      setReplyingTo(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to send message');
+    } finally {
+      setUploadProgress({});
+      setSending(false);
+    }
+  };
+
+  const handleStartReply = (message: Message) => {
+    setEditingMessage(null);
+    setReplyingTo(message);
+  };
+
+  const handleStartEdit = (message: Message) => {
+    setReplyingTo(null);
+    setPendingFiles([]);
+    setEditingMessage(message);
+    setNewMessage(message.content);
+  };
+
+  const handleCancelComposerContext = () => {
+    if (editingMessage) {
+      setNewMessage('');
+    }
+    setEditingMessage(null);
+    setReplyingTo(null);
+  };
+
+  const handleDeleteMessage = async (message: Message) => {
+    if (!user || !selectedConversation) return;
+    if (!window.confirm('Delete this message for everyone?')) return;
+
+    try {
+      await ConversationService.deleteMessage(selectedConversation, message.id, user.uid);
+      if (editingMessage?.id === message.id) {
+        handleCancelComposerContext();
       }
-      return conv;
-    }));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to delete message');
+    }
+  };
+
+  const jumpToMessage = (messageId: string) => {
+    const element = document.getElementById(`message-${messageId}`);
+    if (!element) return;
 
-    setNewMessage('');
+    element.scrollIntoView({ behavior: 'smooth', block: 'center' });
+    setHighlightedMessageId(messageId);
+    setTimeout(() => setHighlightedMessageId(current => (current === messageId ? null : current)), 2000);
   };
 
-  const formatTime = (timestamp: string) => {
-    const date = new Date(timestamp);
+  const handleTogglePinned = async (conversation: Conversation) => {
+    if (!user) return;
+
+    try {
+      await ConversationService.setPinned(conversation.id, user.uid, !isPinnedBy(conversation, user.uid));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to update conversation');
+    }
+  };
+
+  const handleToggleArchived = async (conversation: Conversation) => {
+    if (!user) return;
+
+    try {
+      await ConversationService.setArchived(conversation.id, user.uid, !isArchivedBy(conversation, user.uid));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to update conversation');
+    }
+  };
+
+  const formatTime = (date: Date) => {
     const now = new Date();
     const diffInHours = (now.getTime() - date.getTime()) / (1000 * 60 * 60);
 
@@ -265,7 +269,7 @@ const Messages: React.FC = () => {
     }
   };
 
-  const getMessageStatusIcon = (status: string) => {
+  const getMessageStatusIcon = (status: MessageStatus) => {
     switch (status) {
       case 'sent': return <Check className="w-4 h-4 text-gray-400" />;
       case 'delivered': return <CheckCheck className="w-4 h-4 text-gray-400" />;
@@ -279,14 +283,34 @@ const Messages: React.FC = () => {
       p.name.toLowerCase().includes(searchTerm.toLowerCase())
     ) || (conv.projectTitle && conv.projectTitle.toLowerCase().includes(searchTerm.toLowerCase()));
     
-    const matchesFilter = filterType === 'all' || 
-      (filterType === 'unread' && conv.unreadCount > 0) ||
-      (filterType === 'pinned' && conv.isPinned) ||
-      (filterType === 'archived' && conv.isArchived);
+    const uid = user?.uid || '';
+    const archived = isArchivedBy(conv, uid);
+    const matchesFilter = filterType === 'archived'
+      ? archived
+      : !archived && (
+        filterType === 'all' ||
+        (filterType === 'unread' && getUnreadCount(conv, uid) > 0) ||
+        (filterType === 'pinned' && isPinnedBy(conv, uid))
+      );
+    
+    const matchesProject = projectFilter === 'all'
+      || (projectFilter === 'none' ? !conv.projectId : conv.projectId === projectFilter);
     
-    return matchesSearch && matchesFilter && !conv.isArchived;
+    return matchesSearch && matchesFilter && matchesProject;
+  }).sort((a, b) => {
+    // Pinned conversations stay on top; the subscription already orders by activity
+    const uid = user?.uid || '';
+    return Number(isPinnedBy(b, uid)) - Number(isPinnedBy(a, uid));
   });
 
+  const projectOptions = Array.from(
+    new Map(
+      conversations
+        .filter(conv => conv.projectId)
+        .map(conv => [conv.projectId as string, conv.projectTitle || 'Untitled project'])
+    ).entries()
+  );
+
   const currentConversation = conversations.find(conv => conv.id === selectedConversation);
 
   return (
@@ -358,15 +382,43 @@ const Messages: React.FC = () => {
                         {filter.charAt(0).toUpperCase() + filter.slice(1)}
                       </button>
                     ))}
+                    {projectOptions.length > 0 && (
+                      <select
+                        value={projectFilter}
+                        onChange={(e) => setProjectFilter(e.target.value)}
+                        className="w-full mt-1 px-3 py-1.5 border border-gray-300 rounded-lg text-xs text-gray-700 focus:ring-2 focus:ring-indigo-500 focus:border-transparent"
+                      >
+                        <option value="all">All projects</option>
+                        <option value="none">No project</option>
+                        {projectOptions.map(([projectId, projectTitle]) => (
+                          <option key={projectId} value={projectId}>{projectTitle}</option>
+                        ))}
+                      </select>
+                    )}
                   </div>
                 )}
               </div>
 
               {/* Conversations List */}
               <div className="flex-1 overflow-y-auto">
-                {filteredConversations.map((conversation) => {
+                {error && (
+                  <div className="m-4 p-3 bg-red-50 border border-red-200 rounded-lg text-sm text-red-700">
+                    {error}
+                  </div>
+                )}
+                {loading ? (
+                  <div className="flex items-center justify-center py-12">
+                    <div className="w-8 h-8 border-4 border-indigo-600 border-t-transparent rounded-full animate-spin"></div>
+                  </div>
+                ) : filteredConversations.length === 0 && (
+                  <div className="p-6 text-center text-sm text-gray-500">
+                    {filterType === 'archived' ? 'No archived conversations' : 'No conversations yet'}
+                  </div>
+                )}
+                {!loading && filteredConversations.map((conversation) => {
                   const otherParticipant = conversation.participants.find(p => p.id !== user?.uid);
                   const isSelected = selectedConversation === conversation.id;
+                  const unreadCount = getUnreadCount(conversation, user?.uid || '');
                   
                   return (
                     <div
@@ -379,10 +431,7 @@ const Messages: React.FC = () => {
                       <div className="flex items-start space-x-3">
                         <div className="relative">
                           <div className="w-12 h-12 bg-gradient-to-br from-gray-100 to-gray-200 rounded-full flex-shrink-0"></div>
-                          {otherParticipant?.isOnline && (
-                            <div className="absolute -bottom-1 -right-1 w-4 h-4 bg-green-500 border-2 border-white rounded-full"></div>
-                          )}
-                          {conversation.isPinned && (
+                          {isPinnedBy(conversation, user?.uid || '') && (
                             <div className="absolute -top-1 -right-1 w-4 h-4 bg-yellow-500 rounded-full flex items-center justify-center">
                               <Pin className="w-2 h-2 text-white" />
                             </div>
@@ -398,11 +447,11 @@ const Messages: React.FC = () => {
                             </h3>
                             <div className="flex items-center space-x-1">
                               <span className="text-xs text-gray-500">
-                                {formatTime(conversation.lastMessage.timestamp)}
+                                {formatTime(conversation.lastMessage?.timestamp || conversation.createdAt)}
                               </span>
-                              {conversation.unreadCount > 0 && (
+                              {unreadCount > 0 && (
                                 <div className="w-5 h-5 bg-indigo-600 text-white rounded-full flex items-center justify-center text-xs font-medium">
-                                  {conversation.unreadCount}
+                                  {unreadCount}
                                 </div>
                               )}
                             </div>
@@ -415,25 +464,13 @@ const Messages: React.FC = () => {
                           )}
                           
                           <p className="text-sm text-gray-600 truncate">
-                            {conversation.lastMessage.content}
+                            {conversation.lastMessage?.content || 'No messages yet'}
                           </p>
                           
                           <div className="flex items-center justify-between mt-2">
                             <span className="text-xs text-gray-500">
                               {otherParticipant?.role}
                             </span>
-                            <div className="flex items-center space-x-1">
-                              {otherParticipant?.isOnline ? (
-                                <div className="flex items-center space-x-1">
-                                  <Circle className="w-2 h-2 text-green-500 fill-current" />
-                                  <span className="text-xs text-green-600">Online</span>
-                                </div>
-                              ) : (
-                                <span className="text-xs text-gray-500">
-                                  {otherParticipant?.lastSeen}
-                                </span>
-                              )}
-                            </div>
                           </div>
                         </div>
                       </div>
@@ -453,9 +490,6 @@ const Messages: React.FC = () => {
                       <div className="flex items-center space-x-3">
                         <div className="relative">
                           <div className="w-10 h-10 bg-gradient-to-br from-gray-100 to-gray-200 rounded-full"></div>
-                          {currentConversation.participants.find(p => p.id !== user?.uid)?.isOnline && (
-                            <div className="absolute -bottom-1 -right-1 w-3 h-3 bg-green-500 border-2 border-white rounded-full"></div>
-                          )}
                         </div>
                         <div>
                           <h3 className="font-medium text-gray-900">
@@ -479,8 +513,23 @@ const Messages: React.FC = () => {
                         <button className="p-2 text-gray-400 hover:text-gray-600 hover:bg-gray-100 rounded-lg transition-all duration-200">
                           <Video className="w-5 h-5" />
                         </button>
-                        <button className="p-2 text-gray-400 hover:text-gray-600 hover:bg-gray-100 rounded-lg transition-all duration-200">
-                          <MoreHorizontal className="w-5 h-5" />
+                        <button
+                          onClick={() => handleTogglePinned(currentConversation)}
+                          title={isPinnedBy(currentConversation, user?.uid || '') ? 'Unpin conversation' : 'Pin conversation'}
+                          className={`p-2 rounded-lg transition-all duration-200 ${
+                            isPinnedBy(currentConversation, user?.uid || '')
+                              ? 'text-yellow-500 hover:bg-yellow-50'
+                              : 'text-gray-400 hover:text-gray-600 hover:bg-gray-100'
+                          }`}
+                        >
+                          <Pin className="w-5 h-5" />
+                        </button>
+                        <button
+                          onClick={() => handleToggleArchived(currentConversation)}
+                          title={isArchivedBy(currentConversation, user?.uid || '') ? 'Unarchive conversation' : 'Archive conversation'}
+                          className="p-2 text-gray-400 hover:text-gray-600 hover:bg-gray-100 rounded-lg transition-all duration-200"
+                        >
+                          <Archive className="w-5 h-5" />
                         </button>
                       </div>
                     </div>
@@ -488,34 +537,81 @@ const Messages: React.FC = () => {
 
                   {/* Messages */}
                   <div className="flex-1 overflow-y-auto p-4 space-y-4">
-                    {currentConversation.messages.map((message) => {
-                      const isOwnMessage = message.senderId === user?.uid || message.senderId === '2';
+                    {messages.map((message) => {
+                      const isOwnMessage = message.senderId === user?.uid;
+                      const isDeleted = isDeletedMessage(message);
+                      const quote = message.replyTo
+                        ? resolveQuote(message.replyTo, messages.find(m => m.id === message.replyTo?.id))
+                        : null;
+                      const latestReply = message.replyCount > 0
+                        ? [...messages].reverse().find(m => m.replyTo?.id === message.id)
+                        : undefined;
+                      
+                      if (message.type === 'system') {
+                        return (
+                          <div key={message.id} id={`message-${message.id}`} className="flex justify-center">
+                            <div className="max-w-md px-4 py-2 bg-indigo-50 border border-indigo-100 rounded-full text-center">
+                              <p className="text-xs text-indigo-800">{message.content}</p>
+                              <p className="text-[10px] text-indigo-500 mt-0.5">{formatTime(message.timestamp)}</p>
+                            </div>
+                          </div>
+                        );
+                      }
                       
                       return (
                         <div
                           key={message.id}
-                          className={`flex ${isOwnMessage ? 'justify-end' : 'justify-start'}`}
+                          id={`message-${message.id}`}
+                          className={`group flex ${isOwnMessage ? 'justify-end' : 'justify-start'}`}
                         >
                           <div className={`max-w-xs lg:max-w-md ${isOwnMessage ? 'order-2' : 'order-1'}`}>
-                            {message.replyTo && (
-                              <div className="mb-2 p-2 bg-gray-100 rounded-lg border-l-4 border-gray-300">
-                                <p className="text-xs text-gray-600 font-medium">{message.replyTo.senderName}</p>
-                                <p className="text-sm text-gray-700 truncate">{message.replyTo.content}</p>
-                              </div>
+                            {message.replyTo && quote && (
+                              <button
+                                onClick={() => jumpToMessage(message.replyTo!.id)}
+                                disabled={quote.state === 'unavailable'}
+                                className="block w-full text-left mb-2 p-2 bg-gray-100 rounded-lg border-l-4 border-gray-300 hover:bg-gray-200 transition-colors duration-200 disabled:cursor-default"
+                              >
+                                <p className="text-xs text-gray-600 font-medium">{quote.senderName}</p>
+                                <p className={`text-sm truncate ${quote.state === 'deleted' ? 'italic text-gray-500' : 'text-gray-700'}`}>
+                                  {quote.content}
+                                </p>
+                                {quote.state === 'edited' && (
+                                  <p className="text-xs text-gray-500 mt-0.5">Original message was edited</p>
+                                )}
+                              </button>
                             )}
                             
                             <div
-                              className={`px-4 py-2 rounded-2xl ${
+                              className={`px-4 py-2 rounded-2xl transition-shadow duration-300 ${
                                 isOwnMessage
                                   ? 'bg-indigo-600 text-white'
                                   : 'bg-gray-100 text-gray-900'
-                              }`}
+                              } ${highlightedMessageId === message.id ? 'ring-4 ring-yellow-300' : ''}`}
                             >
-                              <p className="text-sm">{message.content}</p>
+                              {isDeleted ? (
+                                <p className="text-sm italic opacity-75">This message was deleted</p>
+                              ) : (
+                                <p className="text-sm">{message.content}</p>
+                              )}
                               
-                              {message.attachments && message.attachments.length > 0 && (
+                              {!isDeleted && message.attachments && message.attachments.length > 0 && (
                                 <div className="mt-2 space-y-2">
-                                  {message.attachments.map((attachment) => (
+                                  {message.attachments.map((attachment) => isImageAttachment(attachment) ? (
+                                    <a
+                                      key={attachment.id}
+                                      href={attachment.url}
+                                      target="_blank"
+                                      rel="noopener noreferrer"
+                                      className="block"
+                                    >
+                                      <img
+                                        src={attachment.thumbnailUrl || attachment.url}
+                                        alt={attachment.name}
+                                        loading="lazy"
+                                        className="max-h-48 rounded-lg object-cover"
+                                      />
+                                    </a>
+                                  ) : (
                                     <div
                                       key={attachment.id}
                                       className={`flex items-center space-x-2 p-2 rounded-lg ${
@@ -526,12 +622,19 @@ const Messages: React.FC = () => {
                                       <div className="flex-1 min-w-0">
                                         <p className="text-xs font-medium truncate">{attachment.name}</p>
                                         <p className="text-xs opacity-75">
-                                          {(attachment.size / 1024 / 1024).toFixed(1)} MB
+                                          {ALLOWED_ATTACHMENT_TYPES[attachment.type] || 'File'} · {formatFileSize(attachment.size)}
                                         </p>
                                       </div>
-                                      <button className="p-1 hover:bg-black/10 rounded">
+                                      <a
+                                        href={attachment.url}
+                                        download={attachment.name}
+                                        target="_blank"
+                                        rel="noopener noreferrer"
+                                        className="p-1 hover:bg-black/10 rounded"
+                                        aria-label={`Download ${attachment.name}`}
+                                      >
                                         <Download className="w-3 h-3" />
-                                      </button>
+                                      </a>
                                     </div>
                                   ))}
                                 </div>
@@ -543,10 +646,50 @@ const Messages: React.FC = () => {
                             }`}>
                               <span className="text-xs text-gray-500">
                                 {formatTime(message.timestamp)}
+                                {message.editedAt && !isDeleted && ' · edited'}
                               </span>
                               {isOwnMessage && (
                                 <div className="flex items-center">
-                                  {getMessageStatusIcon(message.status)}
+                                  {getMessageStatusIcon(getMessageStatus(message, currentConversation))}
+                                </div>
+                              )}
+                              {latestReply && (
+                                <button
+                                  onClick={() => jumpToMessage(latestReply.id)}
+                                  className="text-xs text-indigo-600 hover:text-indigo-800 font-medium"
+                                >
+                                  {message.replyCount} {message.replyCount === 1 ? 'reply' : 'replies'}
+                                </button>
+                              )}
+                              {!isDeleted && (
+                                <div className="flex items-center opacity-0 group-hover:opacity-100 transition-opacity duration-200">
+                                  <button
+                                    onClick={() => handleStartReply(message)}
+                                    className="p-1 text-gray-400 hover:text-gray-600 rounded"
+                                    aria-label="Reply"
+                                  >
+                                    <Reply className="w-3 h-3" />
+                                  </button>
+                                  {isOwnMessage && (
+                                    <>
+                                      {message.content && (
+                                        <button
+                                          onClick={() => handleStartEdit(message)}
+                                          className="p-1 text-gray-400 hover:text-gray-600 rounded"
+                                          aria-label="Edit message"
+                                        >
+                                          <Pencil className="w-3 h-3" />
+                                        </button>
+                                      )}
+                                      <button
+                                        onClick={() => handleDeleteMessage(message)}
+                                        className="p-1 text-gray-400 hover:text-red-600 rounded"
+                                        aria-label="Delete message"
+                                      >
+                                        <Trash2 className="w-3 h-3" />
+                                      </button>
+                                    </>
+                                  )}
                                 </div>
                               )}
                             </div>
@@ -566,16 +709,93 @@ const Messages: React.FC = () => {
                     <div className="flex items-end space-x-2">
                       <div className="flex-1">
                         <div className="flex items-center space-x-2 mb-2">
-                          <button className="p-2 text-gray-400 hover:text-gray-600 hover:bg-gray-100 rounded-lg transition-all duration-200">
+                          <button
+                            onClick={() => fileInputRef.current?.click()}
+                            disabled={sending || !!editingMessage}
+                            title="Attach file"
+                            className="p-2 text-gray-400 hover:text-gray-600 hover:bg-gray-100 rounded-lg transition-all duration-200"
+                          >
                             <Paperclip className="w-4 h-4" />
                           </button>
-                          <button className="p-2 text-gray-400 hover:text-gray-600 hover:bg-gray-100 rounded-lg transition-all duration-200">
+                          <button
+                            onClick={() => imageInputRef.current?.click()}
+                            disabled={sending || !!editingMessage}
+                            title="Attach image"
+                            className="p-2 text-gray-400 hover:text-gray-600 hover:bg-gray-100 rounded-lg transition-all duration-200"
+                          >
                             <Image className="w-4 h-4" />
                           </button>
+                          <input
+                            ref={fileInputRef}
+                            type="file"
+                            multiple
+                            accept={ATTACHMENT_ACCEPT}
+                            onChange={handleFilesSelected}
+                            className="hidden"
+                          />
+                          <input
+                            ref={imageInputRef}
+                            type="file"
+                            multiple
+                            accept="image/jpeg,image/png,image/gif,image/webp"
+                            onChange={handleFilesSelected}
+                            className="hidden"
+                          />
                           <button className="p-2 text-gray-400 hover:text-gray-600 hover:bg-gray-100 rounded-lg transition-all duration-200">
                             <Smile className="w-4 h-4" />
                           </button>
                         </div>
+                        {(replyingTo || editingMessage) && (
+                          <div className="mb-2 flex items-start space-x-2 px-3 py-2 bg-white border-l-4 border-indigo-500 rounded-lg text-sm">
+                            {replyingTo ? <Reply className="w-4 h-4 text-indigo-500 mt-0.5" /> : <Pencil className="w-4 h-4 text-indigo-500 mt-0.5" />}
+                            <div className="flex-1 min-w-0">
+                              <p className="text-xs font-medium text-indigo-700">
+                                {replyingTo ? `Replying to ${replyingTo.senderName}` : 'Editing message'}
+                              </p>
+                              <p className="truncate text-gray-600">
+                                {(replyingTo || editingMessage)?.content || `📎 ${replyingTo?.attachments?.[0]?.name || 'Attachment'}`}
+                              </p>
+                            </div>
+                            <button
+                              onClick={handleCancelComposerContext}
+                              className="p-1 text-gray-400 hover:text-gray-600 rounded"
+                              aria-label={replyingTo ? 'Cancel reply' : 'Cancel edit'}
+                            >
+                              <X className="w-4 h-4" />
+                            </button>
+                          </div>
+                        )}
+                        {pendingFiles.length > 0 && (
+                          <div className="mb-2 space-y-1">
+                            {pendingFiles.map((file, index) => (
+                              <div key={`${file.name}-${index}`} className="flex items-center space-x-2 px-3 py-2 bg-white border border-gray-200 rounded-lg text-sm">
+                                <File className="w-4 h-4 text-gray-400 flex-shrink-0" />
+                                <div className="flex-1 min-w-0">
+                                  <p className="truncate text-gray-700">{file.name}</p>
+                                  {sending ? (
+                                    <div className="mt-1 h-1.5 bg-gray-200 rounded-full overflow-hidden">
+                                      <div
+                                        className="h-full bg-indigo-600 transition-all duration-200"
+                                        style={{ width: `${uploadProgress[index] || 0}%` }}
+                                      ></div>
+                                    </div>
+                                  ) : (
+                                    <p className="text-xs text-gray-500">{formatFileSize(file.size)}</p>
+                                  )}
+                                </div>
+                                {!sending && (
+                                  <button
+                                    onClick={() => handleRemovePendingFile(index)}
+                                    className="p-1 text-gray-400 hover:text-gray-600 rounded"
+                                    aria-label={`Remove ${file.name}`}
+                                  >
+                                    <X className="w-4 h-4" />
+                                  </button>
+                                )}
+                              </div>
+                            ))}
+                          </div>
+                        )}
                         <div className="relative">
                           <textarea
                             value={newMessage}
@@ -594,7 +814,7 @@ const Messages: React.FC = () => {
                       </div>
                       <button
                         onClick={handleSendMessage}
-                        disabled={!newMessage.trim()}
+                        disabled={(!newMessage.trim() && pendingFiles.length === 0) || sending}
                         className="p-3 bg-indigo-600 text-white rounded-xl hover:bg-indigo-700 disabled:opacity-50 disabled:cursor-not-allowed transition-all duration-200"
                       >
                         <Send className="w-5 h-5" />
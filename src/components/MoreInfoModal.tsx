@@ -8,6 +8,7 @@
 import React, { useState } from 'react';
 import { AlertTriangle, X, Send, RefreshCw, Calendar } from 'lucide-react';
 import { VerificationProcess, MoreInfoRequest, MessageTemplate } from '../types/verification-management';
+import { MORE_INFO_FIELDS } from '../types/verification';
 
 interface MoreInfoModalProps {
   isOpen: boolean;
@@ -32,18 +33,7 @@ const MoreInfoModal: React.FC<MoreInfoModalProps> = ({
   const [isSubmitting, setIsSubmitting] = useState(false);
 
   // Available fields that can be requested
-  const availableFields = [
-    { id: 'national_id', label: 'National ID / Passport', category: 'Identity' },
-    { id: 'address_proof', label: 'Address Verification', category: 'Identity' },
-    { id: 'portfolio_samples', label: 'Additional Portfolio Samples', category: 'Professional' },
-    { id: 'certifications', label: 'Professional Certifications', category: 'Professional' },
-    { id: 'education_transcripts', label: 'Education Transcripts', category: 'Professional' },
-    { id: 'work_experience', label: 'Work Experience Details', category: 'Professional' },
-    { id: 'references', label: 'Professional References', category: 'Professional' },
-    { id: 'project_details', label: 'Detailed Project Information', category: 'Portfolio' },
-    { id: 'software_proof', label: 'Software Proficiency Evidence', category: 'Technical' },
-    { id: 'license_verification', label: 'Professional License Verification', category: 'Legal' },
-  ];
+  const availableFields = Object.entries(MORE_INFO_FIELDS).map(([id, field]) => ({ id, ...field }));
 
   const handleFieldToggle = (fieldId: string) => {
     setRequiredFields(prev => 
@@ -217,7 +207,7 @@ const MoreInfoModal: React.FC<MoreInfoModalProps> = ({
               />
             </div>
             <p className="mt-1 text-xs text-gray-500">
-              Set a deadline for the user to provide the additional information.
+              Set a deadline for the user to provide the additional information. Requests still unanswered after it are rejected automatically.
             </p>
           </div>
 
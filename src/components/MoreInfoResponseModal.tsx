@@ -0,0 +1,283 @@
+/**
+ * More Info Response Modal Component
+ *
+ * Lets a designer answer a reviewer's request for more information.
+ * Only the fields and documents the reviewer asked for can be changed.
+ */
+
+import React, { useEffect, useState } from 'react';
+import { AlertTriangle, X, Send, RefreshCw, Calendar, Upload, CheckCircle } from 'lucide-react';
+import { useAuth } from '../hooks/useAuth';
+import {
+  verificationService,
+  VerificationSubmissionRecord,
+  InfoResponseChanges,
+  hasOpenInfoRequest
+} from '../services/verificationService';
+import {
+  VerificationFileType,
+  VerificationTextField,
+  VERIFICATION_FORM_LABELS,
+  VERIFICATION_FILE_LABELS,
+  VERIFICATION_FILE_TYPES,
+  MORE_INFO_FIELDS,
+  SPECIALIZATION_OPTIONS,
+  EXPERIENCE_OPTIONS,
+  SOFTWARE_OPTIONS,
+  getUnlockedFields
+} from '../types/verification';
+
+interface MoreInfoResponseModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  verification: VerificationSubmissionRecord | null;
+}
+
+const SELECT_OPTIONS: Partial<Record<VerificationTextField, { value: string; label: string }[]>> = {
+  specialization: SPECIALIZATION_OPTIONS,
+  experience_years: EXPERIENCE_OPTIONS
+};
+
+const INPUT_TYPES: Partial<Record<VerificationTextField, string>> = {
+  full_name: 'text',
+  phone_number: 'tel',
+  portfolio_url: 'url'
+};
+
+const MoreInfoResponseModal: React.FC<MoreInfoResponseModalProps> = ({
+  isOpen,
+  onClose,
+  verification
+}) => {
+  const { user } = useAuth();
+  const [values, setValues] = useState<InfoResponseChanges>({});
+  const [files, setFiles] = useState<Partial<Record<VerificationFileType, File | null>>>({});
+  const [error, setError] = useState<string | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [submitted, setSubmitted] = useState(false);
+
+  const infoRequest = verification && hasOpenInfoRequest(verification) ? verification.info_request : null;
+  const unlocked = getUnlockedFields(infoRequest?.required_fields || []);
+  const deadline = infoRequest?.deadline?.toDate();
+  const isOverdue = !!deadline && deadline.getTime() < Date.now();
+
+  // Start from the current answers so designers only edit what changed
+  useEffect(() => {
+    if (!isOpen || !verification) return;
+
+    setValues(Object.fromEntries(
+      getUnlockedFields(verification.info_request?.required_fields || []).formFields
+        .map(field => [field, verification[field]])
+    ));
+    setFiles({});
+    setError(null);
+    setSubmitted(false);
+  }, [isOpen, verification]);
+
+  if (!isOpen || !verification) return null;
+
+  const handleSoftwareToggle = (software: string) => {
+    setValues(prev => {
+      const selected = prev.software_proficiency || [];
+      return {
+        ...prev,
+        software_proficiency: selected.includes(software)
+          ? selected.filter(item => item !== software)
+          : [...selected, software]
+      };
+    });
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!user) return;
+
+    setIsSubmitting(true);
+    setError(null);
+    const result = await verificationService.respondToInfoRequest(verification, values, files, user.uid);
+    setIsSubmitting(false);
+
+    if (result.success) {
+      setSubmitted(true);
+    } else {
+      setError(result.error || 'Failed to submit additional information');
+    }
+  };
+
+  const renderField = (field: VerificationTextField) => {
+    const inputClassName = 'w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent';
+
+    if (field === 'software_proficiency') {
+      const selected = values.software_proficiency || [];
+      return (
+        <div className="grid grid-cols-2 sm:grid-cols-3 gap-2">
+          {SOFTWARE_OPTIONS.map(software => (
+            <label key={software} className={`flex items-center space-x-2 p-2 rounded-lg border-2 cursor-pointer text-sm ${
+              selected.includes(software) ? 'border-blue-500 bg-blue-50 text-blue-700' : 'border-gray-200 hover:bg-gray-50'
+            }`}>
+              <input
+                type="checkbox"
+                checked={selected.includes(software)}
+                onChange={() => handleSoftwareToggle(software)}
+                className="w-4 h-4 text-blue-600 border-gray-300 rounded focus:ring-blue-500"
+              />
+              <span>{software}</span>
+            </label>
+          ))}
+        </div>
+      );
+    }
+
+    const options = SELECT_OPTIONS[field];
+    if (options) {
+      return (
+        <select
+          id={field}
+          value={values[field] || ''}
+          onChange={(e) => setValues(prev => ({ ...prev, [field]: e.target.value }))}
+          className={inputClassName}
+        >
+          <option value="">Select an option</option>
+          {options.map(option => (
+            <option key={option.value} value={option.value}>{option.label}</option>
+          ))}
+        </select>
+      );
+    }
+
+    const inputType = INPUT_TYPES[field];
+    if (inputType) {
+      return (
+        <input
+          id={field}
+          type={inputType}
+          value={values[field] || ''}
+          onChange={(e) => setValues(prev => ({ ...prev, [field]: e.target.value }))}
+          className={inputClassName}
+        />
+      );
+    }
+
+    return (
+      <textarea
+        id={field}
+        value={values[field] || ''}
+        onChange={(e) => setValues(prev => ({ ...prev, [field]: e.target.value }))}
+        rows={4}
+        className={`${inputClassName} resize-none`}
+      />
+    );
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+      <div className="bg-white rounded-xl w-full max-w-2xl max-h-[90vh] overflow-y-auto shadow-2xl">
+        <div className="sticky top-0 bg-white border-b border-gray-200 px-6 py-4 rounded-t-xl">
+          <div className="flex justify-between items-center">
+            <h2 className="text-xl font-bold text-gray-900 flex items-center">
+              <AlertTriangle className="w-6 h-6 mr-2 text-orange-600" />
+              Provide Additional Information
+            </h2>
+            <button
+              onClick={onClose}
+              className="text-gray-400 hover:text-gray-600 transition-colors"
+              aria-label="Close modal"
+            >
+              <X className="w-6 h-6" />
+            </button>
+          </div>
+        </div>
+
+        {submitted ? (
+          <div className="p-6 text-center">
+            <CheckCircle className="w-16 h-16 text-green-600 mx-auto mb-4" />
+            <h3 className="text-lg font-bold text-green-900 mb-2">Information Submitted</h3>
+            <p className="text-green-700">Your verification request is back in the review queue. The reviewer has been notified.</p>
+          </div>
+        ) : !infoRequest ? (
+          <p className="p-6 text-gray-500">This verification request is not waiting for more information.</p>
+        ) : (
+          <form onSubmit={handleSubmit} className="p-6 space-y-6">
+            {/* Reviewer Request */}
+            <div className="bg-orange-50 border border-orange-200 rounded-lg p-4">
+              <p className="text-sm font-medium text-orange-900 mb-1">
+                Requested: {infoRequest.required_fields.map(field => MORE_INFO_FIELDS[field]?.label || field).join(', ')}
+              </p>
+              {infoRequest.message && (
+                <p className="text-sm text-orange-800 whitespace-pre-wrap">{infoRequest.message}</p>
+              )}
+              {deadline && (
+                <p className={`text-sm mt-2 flex items-center ${isOverdue ? 'text-red-700' : 'text-orange-700'}`}>
+                  <Calendar className="w-4 h-4 mr-1" />
+                  {isOverdue
+                    ? `The deadline passed on ${deadline.toLocaleDateString()}. This request will be closed.`
+                    : `Please respond by ${deadline.toLocaleDateString()}, or the request will be closed.`}
+                </p>
+              )}
+            </div>
+
+            {error && (
+              <div className="bg-red-50 border border-red-200 rounded-lg p-4 text-red-700 text-sm">{error}</div>
+            )}
+
+            {/* Unlocked Fields */}
+            {unlocked.formFields.map(field => (
+              <div key={field}>
+                <label htmlFor={field} className="block text-sm font-medium text-gray-700 mb-2">
+                  {VERIFICATION_FORM_LABELS[field]} *
+                </label>
+                {renderField(field)}
+              </div>
+            ))}
+
+            {/* Unlocked Documents */}
+            {unlocked.files.map(fileType => (
+              <div key={fileType}>
+                <label htmlFor={fileType} className="block text-sm font-medium text-gray-700 mb-2">
+                  {VERIFICATION_FILE_LABELS[fileType]} *
+                </label>
+                <label className="flex items-center justify-center w-full px-4 py-6 border-2 border-dashed border-gray-300 rounded-lg cursor-pointer hover:border-blue-400 hover:bg-blue-50 transition-colors">
+                  <Upload className="w-5 h-5 mr-2 text-gray-400" />
+                  <span className="text-sm text-gray-600">
+                    {files[fileType]?.name || `Upload ${VERIFICATION_FILE_TYPES[fileType].label}`}
+                  </span>
+                  <input
+                    id={fileType}
+                    type="file"
+                    accept={VERIFICATION_FILE_TYPES[fileType].extensions.join(',')}
+                    onChange={(e) => setFiles(prev => ({ ...prev, [fileType]: e.target.files?.[0] || null }))}
+                    className="hidden"
+                  />
+                </label>
+              </div>
+            ))}
+
+            <div className="flex justify-end space-x-3 pt-4 border-t border-gray-200">
+              <button
+                type="button"
+                onClick={onClose}
+                className="px-4 py-2 text-gray-700 bg-gray-100 rounded-lg hover:bg-gray-200 transition-colors"
+              >
+                Cancel
+              </button>
+              <button
+                type="submit"
+                disabled={isSubmitting || isOverdue}
+                className="px-4 py-2 bg-orange-600 text-white rounded-lg hover:bg-orange-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors flex items-center"
+              >
+                {isSubmitting ? (
+                  <RefreshCw className="w-4 h-4 mr-2 animate-spin" />
+                ) : (
+                  <Send className="w-4 h-4 mr-2" />
+                )}
+                {isSubmitting ? 'Submitting...' : 'Submit Information'}
+              </button>
+            </div>
+          </form>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default MoreInfoResponseModal;
@@ -6,47 +6,16 @@ import {
   ChevronDown, Grid, List, Tag, TrendingUp, Award, Send, Bookmark
 } from 'lucide-react';
 import { useAuth } from '../hooks/useAuth';
-import { isServiceRequester, isDesigner } from '../types/user';
-
-interface ProjectRequest {
-  id: string;
-  title: string;
-  description: string;
-  category: string;
-  budget: {
-    min: number;
-    max: number;
-    type: 'fixed' | 'hourly';
-  };
-  location: string;
-  timeline: string;
-  status: 'draft' | 'active' | 'in_progress' | 'completed' | 'cancelled';
-  priority: 'low' | 'medium' | 'high' | 'urgent';
-  skills: string[];
-  attachments: string[];
-  proposals: number;
-  views: number;
-  postedDate: string;
-  deadline: string;
-  client: {
-    name: string;
-    rating: number;
-    reviewCount: number;
-    avatar: string;
-  };
-  assignedDesigner?: {
-    name: string;
-    avatar: string;
-    rating: number;
-  };
-  milestones?: {
-    id: string;
-    title: string;
-    status: 'pending' | 'in_progress' | 'completed';
-    dueDate: string;
-    amount: number;
-  }[];
-}
+import { isServiceRequester, isDesigner, isVerifiedDesigner } from '../types/user';
+import { ProjectRequestService } from '../services/projectRequestService';
+import { ProjectRequest } from '../types/projectRequest';
+import { Proposal } from '../types/proposal';
+import { ReviewService } from '../services/reviewService';
+import { Review } from '../types/review';
+import NewRequestModal from './NewRequestModal';
+import ProposalsModal from './ProposalsModal';
+import SubmitProposalModal from './SubmitProposalModal';
+import ReviewModal from './ReviewModal';
 
 const MyRequests: React.FC = () => {
   const { userProfile } = useAuth();
@@ -58,97 +27,102 @@ const MyRequests: React.FC = () => {
   const [selectedPriority, setSelectedPriority] = useState('all');
   const [showFilters, setShowFilters] = useState(false);
   const [sortBy, setSortBy] = useState('recent');
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [showNewRequestModal, setShowNewRequestModal] = useState(false);
+  const [actionInProgress, setActionInProgress] = useState<string | null>(null);
+  const [proposalsRequest, setProposalsRequest] = useState<ProjectRequest | null>(null);
+  const [applyRequest, setApplyRequest] = useState<ProjectRequest | null>(null);
+  const [reviewRequest, setReviewRequest] = useState<ProjectRequest | null>(null);
+  const [reviewedRequestIds, setReviewedRequestIds] = useState<Set<string>>(new Set());
 
-  // Mock data for demonstration
+  // Requesters see their own briefs; designers browse the active ones
   useEffect(() => {
-    const mockRequests: ProjectRequest[] = [
-      {
-        id: '1',
-        title: 'Modern Office Building Design',
-        description: 'Looking for an experienced architect to design a 5-story modern office building with sustainable features and open workspace concepts.',
-        category: 'Commercial',
-        budget: { min: 50000, max: 80000, type: 'fixed' },
-        location: 'Downtown LA, CA',
-        timeline: '4-6 months',
-        status: 'active',
-        priority: 'high',
-        skills: ['Commercial Architecture', 'Sustainable Design', 'AutoCAD', 'Revit'],
-        attachments: ['site-plan.pdf', 'requirements.docx'],
-        proposals: 12,
-        views: 156,
-        postedDate: '2024-01-15',
-        deadline: '2024-02-15',
-        client: {
-          name: 'TechCorp Inc.',
-          rating: 4.8,
-          reviewCount: 23,
-          avatar: '/api/placeholder/50/50'
-        }
-      },
-      {
-        id: '2',
-        title: 'Luxury Villa Renovation',
-        description: 'Complete renovation of a luxury villa including interior design, landscape architecture, and smart home integration.',
-        category: 'Residential',
-        budget: { min: 120, max: 180, type: 'hourly' },
-        location: 'Beverly Hills, CA',
-        timeline: '8-10 months',
-        status: 'in_progress',
-        priority: 'medium',
-        skills: ['Residential Architecture', 'Interior Design', 'Luxury Design'],
-        attachments: ['current-photos.zip', 'floor-plans.pdf'],
-        proposals: 8,
-        views: 89,
-        postedDate: '2024-01-10',
-        deadline: '2024-01-30',
-        client: {
-          name: 'Johnson Family',
-          rating: 4.9,
-          reviewCount: 15,
-          avatar: '/api/placeholder/50/50'
-        },
-        assignedDesigner: {
-          name: 'Sarah Johnson',
-          avatar: '/api/placeholder/50/50',
-          rating: 4.9
-        },
-        milestones: [
-          { id: '1', title: 'Initial Design Concepts', status: 'completed', dueDate: '2024-02-01', amount: 15000 },
-          { id: '2', title: 'Detailed Plans & Permits', status: 'in_progress', dueDate: '2024-03-15', amount: 25000 },
-          { id: '3', title: 'Construction Supervision', status: 'pending', dueDate: '2024-08-30', amount: 35000 }
-        ]
-      },
-      {
-        id: '3',
-        title: 'Community Center Design',
-        description: 'Design a modern community center with multipurpose halls, library, and recreational facilities.',
-        category: 'Public',
-        budget: { min: 30000, max: 45000, type: 'fixed' },
-        location: 'Austin, TX',
-        timeline: '6-8 months',
-        status: 'completed',
-        priority: 'low',
-        skills: ['Public Architecture', 'Community Design', 'Accessibility Design'],
-        attachments: ['community-needs.pdf'],
-        proposals: 15,
-        views: 203,
-        postedDate: '2023-08-20',
-        deadline: '2023-09-20',
-        client: {
-          name: 'Austin City Council',
-          rating: 4.7,
-          reviewCount: 31,
-          avatar: '/api/placeholder/50/50'
-        },
-        assignedDesigner: {
-          name: 'Michael Chen',
-          avatar: '/api/placeholder/50/50',
-          rating: 4.8
+    if (!userProfile) return;
+
+    const loadRequests = async () => {
+      setLoading(true);
+      setError(null);
+      try {
+        const data = isServiceRequester(userProfile)
+          ? await ProjectRequestService.getRequestsByRequester(userProfile.uid)
+          : await ProjectRequestService.getRequestsByStatus('active');
+        setRequests(data);
+
+        if (isServiceRequester(userProfile)) {
+          const completed = data.filter(r => r.status === 'completed' && r.assignedDesigner);
+          const reviews = await Promise.all(
+            completed.map(r => ReviewService.getReviewForRequest(r.id, userProfile.uid))
+          );
+          setReviewedRequestIds(new Set(reviews.filter((r): r is Review => r !== null).map(r => r.requestId)));
         }
+      } catch (err) {
+        console.error('❌ Error loading project requests:', err);
+        setError(err instanceof Error ? err.message : 'Failed to load project requests');
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    loadRequests();
+  }, [userProfile]);
+
+  const handleRequestCreated = (request: ProjectRequest) => {
+    setRequests(prev => [request, ...prev]);
+  };
+
+  const handlePublish = async (request: ProjectRequest) => {
+    if (!userProfile) return;
+    setActionInProgress(request.id);
+    try {
+      await ProjectRequestService.publishRequest(request.id, userProfile.uid);
+      setRequests(prev => prev.map(r => r.id === request.id ? { ...r, status: 'active', publishedAt: new Date() } : r));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to publish request');
+    } finally {
+      setActionInProgress(null);
+    }
+  };
+
+  const handleCancel = async (request: ProjectRequest) => {
+    if (!userProfile) return;
+    if (!window.confirm(`Cancel "${request.title}"? This cannot be undone.`)) return;
+    setActionInProgress(request.id);
+    try {
+      await ProjectRequestService.cancelRequest(request.id, userProfile.uid);
+      setRequests(prev => prev.map(r => r.id === request.id ? { ...r, status: 'cancelled', cancelledAt: new Date() } : r));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to cancel request');
+    } finally {
+      setActionInProgress(null);
+    }
+  };
+
+  const handleProposalAccepted = (proposal: Proposal) => {
+    setRequests(prev => prev.map(r => r.id === proposal.requestId ? {
+      ...r,
+      status: 'in_progress',
+      acceptedProposalId: proposal.id,
+      startedAt: new Date(),
+      assignedDesigner: {
+        uid: proposal.designerId,
+        name: proposal.designerName,
+        avatar: proposal.designerAvatar,
+        rating: proposal.designerRating
       }
-    ];
-    setRequests(mockRequests);
-  }, []);
+    } : r));
+    setProposalsRequest(prev => prev && prev.id === proposal.requestId ? { ...prev, status: 'in_progress' } : prev);
+  };
+
+  const handleProposalSubmitted = (proposal: Proposal) => {
+    setRequests(prev => prev.map(r => r.id === proposal.requestId ? { ...r, proposals: r.proposals + 1 } : r));
+  };
+
+  const handleReviewSubmitted = (review: Review) => {
+    setReviewedRequestIds(prev => new Set(prev).add(review.requestId));
+  };
+
+  const getPostedDate = (request: ProjectRequest) => request.publishedAt || request.createdAt;
 
   const categories = ['all', 'Residential', 'Commercial', 'Public', 'Industrial', 'Hospitality'];
   const statuses = ['all', 'draft', 'active', 'in_progress', 'completed', 'cancelled'];
@@ -221,7 +195,9 @@ const MyRequests: React.FC = () => {
             </div>
             
             {isServiceRequester(userProfile) && (
-              <button className="bg-gradient-to-r from-green-600 to-emerald-600 text-white px-6 py-3 rounded-xl font-medium hover:from-green-700 hover:to-emerald-700 transition-all duration-200 shadow-lg hover:shadow-xl transform hover:scale-105 flex items-center space-x-2">
+              <button
+                onClick={() => setShowNewRequestModal(true)}
+                className="bg-gradient-to-r from-green-600 to-emerald-600 text-white px-6 py-3 rounded-xl font-medium hover:from-green-700 hover:to-emerald-700 transition-all duration-200 shadow-lg hover:shadow-xl transform hover:scale-105 flex items-center space-x-2">
                 <Plus className="w-5 h-5" />
                 <span>New Request</span>
               </button>
@@ -359,8 +335,19 @@ const MyRequests: React.FC = () => {
           )}
         </div>
 
+        {error && (
+          <div className="bg-red-50 border border-red-200 rounded-xl p-4 mb-6 flex items-center space-x-3">
+            <AlertCircle className="w-5 h-5 text-red-600 flex-shrink-0" />
+            <p className="text-sm text-red-700">{error}</p>
+          </div>
+        )}
+
         {/* Requests Grid/List */}
-        {viewMode === 'grid' ? (
+        {loading ? (
+          <div className="flex justify-center py-12">
+            <div className="w-12 h-12 border-4 border-green-600 border-t-transparent rounded-full animate-spin"></div>
+          </div>
+        ) : viewMode === 'grid' ? (
           <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-8">
             {filteredRequests.map((request) => (
               <div key={request.id} className="bg-white rounded-2xl shadow-sm border border-gray-200 overflow-hidden hover:shadow-lg transition-all duration-300 transform hover:scale-105 group">
@@ -416,7 +403,7 @@ const MyRequests: React.FC = () => {
                     </div>
                     <div className="flex items-center text-sm text-gray-600">
                       <Calendar className="w-4 h-4 mr-2" />
-                      <span>Posted {new Date(request.postedDate).toLocaleDateString()}</span>
+                      <span>Posted {getPostedDate(request).toLocaleDateString()}</span>
                     </div>
                     <div className="flex items-center text-sm text-gray-600">
                       <User className="w-4 h-4 mr-2" />
@@ -484,7 +471,7 @@ const MyRequests: React.FC = () => {
                           </span>
                           <span className="flex items-center">
                             <Calendar className="w-4 h-4 mr-1" />
-                            {new Date(request.postedDate).toLocaleDateString()}
+                            {getPostedDate(request).toLocaleDateString()}
                           </span>
                           <span className="flex items-center">
                             <Clock className="w-4 h-4 mr-1" />
@@ -542,11 +529,60 @@ const MyRequests: React.FC = () => {
                             <span>View Details</span>
                           </button>
                           {isServiceRequester(userProfile) ? (
-                            <button className="text-gray-400 hover:text-gray-600 transition-colors duration-200">
-                              <MoreHorizontal className="w-5 h-5" />
-                            </button>
+                            <>
+                              {request.status !== 'draft' && (
+                                <button
+                                  onClick={() => setProposalsRequest(request)}
+                                  className="bg-white border border-gray-300 text-gray-700 px-4 py-2 rounded-lg hover:bg-gray-50 transition-all duration-200 flex items-center space-x-2"
+                                >
+                                  <User className="w-4 h-4" />
+                                  <span>Proposals ({request.proposals})</span>
+                                </button>
+                              )}
+                              {request.status === 'draft' && (
+                                <button
+                                  onClick={() => handlePublish(request)}
+                                  disabled={actionInProgress === request.id}
+                                  className="bg-gradient-to-r from-green-600 to-emerald-600 text-white px-4 py-2 rounded-lg hover:from-green-700 hover:to-emerald-700 disabled:opacity-50 transition-all duration-200 flex items-center space-x-2"
+                                >
+                                  <Send className="w-4 h-4" />
+                                  <span>Publish</span>
+                                </button>
+                              )}
+                              {request.status === 'completed' && request.assignedDesigner && (
+                                reviewedRequestIds.has(request.id) ? (
+                                  <span className="text-sm text-gray-500 flex items-center space-x-1">
+                                    <CheckCircle className="w-4 h-4 text-green-600" />
+                                    <span>Reviewed</span>
+                                  </span>
+                                ) : (
+                                  <button
+                                    onClick={() => setReviewRequest(request)}
+                                    className="bg-gradient-to-r from-green-600 to-emerald-600 text-white px-4 py-2 rounded-lg hover:from-green-700 hover:to-emerald-700 transition-all duration-200 flex items-center space-x-2"
+                                  >
+                                    <Star className="w-4 h-4" />
+                                    <span>Leave Review</span>
+                                  </button>
+                                )
+                              )}
+                              {(request.status === 'draft' || request.status === 'active' || request.status === 'in_progress') && (
+                                <button
+                                  onClick={() => handleCancel(request)}
+                                  disabled={actionInProgress === request.id}
+                                  className="text-gray-400 hover:text-red-500 disabled:opacity-50 transition-colors duration-200"
+                                  aria-label="Cancel request"
+                                >
+                                  <XCircle className="w-5 h-5" />
+                                </button>
+                              )}
+                            </>
                           ) : (
-                            <button className="bg-gradient-to-r from-green-600 to-emerald-600 text-white px-4 py-2 rounded-lg hover:from-green-700 hover:to-emerald-700 transition-all duration-200 flex items-center space-x-2">
+                            <button
+                              onClick={() => setApplyRequest(request)}
+                              disabled={!isVerifiedDesigner(userProfile) || request.status !== 'active'}
+                              title={isVerifiedDesigner(userProfile) ? undefined : 'Only verified designers can submit proposals'}
+                              className="bg-gradient-to-r from-green-600 to-emerald-600 text-white px-4 py-2 rounded-lg hover:from-green-700 hover:to-emerald-700 disabled:opacity-50 disabled:cursor-not-allowed transition-all duration-200 flex items-center space-x-2"
+                            >
                               <Send className="w-4 h-4" />
                               <span>Apply</span>
                             </button>
@@ -590,7 +626,7 @@ const MyRequests: React.FC = () => {
       )}
 
       {/* Empty State */}
-      {filteredRequests.length === 0 && (
+      {!loading && filteredRequests.length === 0 && (
         <div className="text-center py-12">
           <div className="w-24 h-24 bg-gray-100 rounded-full flex items-center justify-center mx-auto mb-4">
             <FileText className="w-12 h-12 text-gray-400" />
@@ -605,7 +641,9 @@ const MyRequests: React.FC = () => {
             }
           </p>
           {isServiceRequester(userProfile) && (
-            <button className="bg-gradient-to-r from-green-600 to-emerald-600 text-white px-6 py-3 rounded-xl font-medium hover:from-green-700 hover:to-emerald-700 transition-all duration-200 shadow-lg hover:shadow-xl transform hover:scale-105 flex items-center space-x-2 mx-auto">
+            <button
+                onClick={() => setShowNewRequestModal(true)}
+                className="bg-gradient-to-r from-green-600 to-emerald-600 text-white px-6 py-3 rounded-xl font-medium hover:from-green-700 hover:to-emerald-700 transition-all duration-200 shadow-lg hover:shadow-xl transform hover:scale-105 flex items-center space-x-2 mx-auto">
               <Plus className="w-5 h-5" />
               <span>Create New Request</span>
             </button>
@@ -613,6 +651,33 @@ const MyRequests: React.FC = () => {
         </div>
       )}
     </div>
+
+    <NewRequestModal
+      isOpen={showNewRequestModal}
+      onClose={() => setShowNewRequestModal(false)}
+      onRequestCreated={handleRequestCreated}
+    />
+
+    <ProposalsModal
+      isOpen={proposalsRequest !== null}
+      onClose={() => setProposalsRequest(null)}
+      request={proposalsRequest}
+      onProposalAccepted={handleProposalAccepted}
+    />
+
+    <SubmitProposalModal
+      isOpen={applyRequest !== null}
+      onClose={() => setApplyRequest(null)}
+      request={applyRequest}
+      onProposalSubmitted={handleProposalSubmitted}
+    />
+
+    <ReviewModal
+      isOpen={reviewRequest !== null}
+      onClose={() => setReviewRequest(null)}
+      request={reviewRequest}
+      onReviewSubmitted={handleReviewSubmitted}
+    />
   </div>
 );
 };
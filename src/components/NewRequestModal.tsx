@@ -0,0 +1,326 @@
+/**
+ * New Project Request Modal Component
+ *
+ * Lets service requesters write a project brief and either keep it
+ * as a draft or publish it straight away for designers to see.
+ */
+
+import React, { useState } from 'react';
+import { FileText, X, Save, Send, RefreshCw, Plus } from 'lucide-react';
+import { useAuth } from '../hooks/useAuth';
+import { ProjectRequestService } from '../services/projectRequestService';
+import {
+  ProjectRequest,
+  ProjectRequestPriority,
+  CreateProjectRequestData,
+  PROJECT_REQUEST_CATEGORIES
+} from '../types/projectRequest';
+import { validate, getErrorMessages, projectRequestSchema, projectRequestDraftSchema } from '../utils/validation';
+
+interface NewRequestModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onRequestCreated: (request: ProjectRequest) => void;
+}
+
+const emptyForm: CreateProjectRequestData = {
+  title: '',
+  description: '',
+  category: '',
+  budget: { min: 0, max: 0, type: 'fixed' },
+  location: '',
+  timeline: '',
+  priority: 'medium',
+  skills: [],
+  attachments: [],
+  deadline: ''
+};
+
+const NewRequestModal: React.FC<NewRequestModalProps> = ({ isOpen, onClose, onRequestCreated }) => {
+  const { userProfile } = useAuth();
+  const [formData, setFormData] = useState<CreateProjectRequestData>(emptyForm);
+  const [newSkill, setNewSkill] = useState('');
+  const [errors, setErrors] = useState<string[]>([]);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const updateField = <K extends keyof CreateProjectRequestData>(field: K, value: CreateProjectRequestData[K]) => {
+    setFormData(prev => ({ ...prev, [field]: value }));
+  };
+
+  const handleAddSkill = () => {
+    const skill = newSkill.trim();
+    if (skill && !formData.skills.includes(skill)) {
+      updateField('skills', [...formData.skills, skill]);
+    }
+    setNewSkill('');
+  };
+
+  const handleSave = async (publish: boolean) => {
+    if (!userProfile) return;
+
+    const validation = validate(publish ? projectRequestSchema : projectRequestDraftSchema, formData);
+    if (!validation.isValid) {
+      setErrors(getErrorMessages(validation.errors));
+      return;
+    }
+
+    setIsSubmitting(true);
+    setErrors([]);
+    try {
+      const created = await ProjectRequestService.createRequest(formData, userProfile);
+      if (publish) {
+        await ProjectRequestService.publishRequest(created.id, userProfile.uid);
+      }
+      onRequestCreated({
+        ...created,
+        status: publish ? 'active' : 'draft',
+        publishedAt: publish ? new Date() : null
+      });
+      setFormData(emptyForm);
+      onClose();
+    } catch (error) {
+      setErrors([error instanceof Error ? error.message : 'Failed to save request']);
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  if (!isOpen) return null;
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+      <div className="bg-white rounded-xl w-full max-w-3xl max-h-[90vh] overflow-y-auto shadow-2xl">
+        <div className="sticky top-0 bg-white border-b border-gray-200 px-6 py-4 rounded-t-xl">
+          <div className="flex justify-between items-center">
+            <h2 className="text-xl font-bold text-gray-900 flex items-center">
+              <FileText className="w-6 h-6 mr-2 text-green-600" />
+              New Project Request
+            </h2>
+            <button
+              onClick={onClose}
+              className="text-gray-400 hover:text-gray-600 transition-colors"
+              aria-label="Close modal"
+            >
+              <X className="w-6 h-6" />
+            </button>
+          </div>
+        </div>
+
+        <div className="p-6 space-y-6">
+          {errors.length > 0 && (
+            <div className="bg-red-50 border border-red-200 rounded-lg p-4">
+              <ul className="list-disc list-inside text-sm text-red-700 space-y-1">
+                {errors.map(error => <li key={error}>{error}</li>)}
+              </ul>
+            </div>
+          )}
+
+          <div>
+            <label htmlFor="requestTitle" className="block text-sm font-medium text-gray-700 mb-2">Title *</label>
+            <input
+              id="requestTitle"
+              type="text"
+              value={formData.title}
+              onChange={(e) => updateField('title', e.target.value)}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-green-500 focus:border-transparent"
+              placeholder="e.g. Modern Office Building Design"
+            />
+          </div>
+
+          <div>
+            <label htmlFor="requestDescription" className="block text-sm font-medium text-gray-700 mb-2">Description *</label>
+            <textarea
+              id="requestDescription"
+              value={formData.description}
+              onChange={(e) => updateField('description', e.target.value)}
+              rows={5}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-green-500 focus:border-transparent"
+              placeholder="Describe the scope, site and what you expect from the designer."
+            />
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div>
+              <label htmlFor="requestCategory" className="block text-sm font-medium text-gray-700 mb-2">Category *</label>
+              <select
+                id="requestCategory"
+                value={formData.category}
+                onChange={(e) => updateField('category', e.target.value)}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-green-500 focus:border-transparent"
+              >
+                <option value="">Select a category...</option>
+                {PROJECT_REQUEST_CATEGORIES.map(category => (
+                  <option key={category} value={category}>{category}</option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label htmlFor="requestPriority" className="block text-sm font-medium text-gray-700 mb-2">Priority</label>
+              <select
+                id="requestPriority"
+                value={formData.priority}
+                onChange={(e) => updateField('priority', e.target.value as ProjectRequestPriority)}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-green-500 focus:border-transparent"
+              >
+                <option value="low">Low</option>
+                <option value="medium">Medium</option>
+                <option value="high">High</option>
+                <option value="urgent">Urgent</option>
+              </select>
+            </div>
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <div>
+              <label htmlFor="budgetMin" className="block text-sm font-medium text-gray-700 mb-2">Budget Min *</label>
+              <input
+                id="budgetMin"
+                type="number"
+                min={0}
+                value={formData.budget.min || ''}
+                onChange={(e) => updateField('budget', { ...formData.budget, min: Number(e.target.value) })}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-green-500 focus:border-transparent"
+              />
+            </div>
+            <div>
+              <label htmlFor="budgetMax" className="block text-sm font-medium text-gray-700 mb-2">Budget Max *</label>
+              <input
+                id="budgetMax"
+                type="number"
+                min={0}
+                value={formData.budget.max || ''}
+                onChange={(e) => updateField('budget', { ...formData.budget, max: Number(e.target.value) })}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-green-500 focus:border-transparent"
+              />
+            </div>
+            <div>
+              <label htmlFor="budgetType" className="block text-sm font-medium text-gray-700 mb-2">Budget Type</label>
+              <select
+                id="budgetType"
+                value={formData.budget.type}
+                onChange={(e) => updateField('budget', { ...formData.budget, type: e.target.value as 'fixed' | 'hourly' })}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-green-500 focus:border-transparent"
+              >
+                <option value="fixed">Fixed price</option>
+                <option value="hourly">Hourly</option>
+              </select>
+            </div>
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <div>
+              <label htmlFor="requestLocation" className="block text-sm font-medium text-gray-700 mb-2">Location</label>
+              <input
+                id="requestLocation"
+                type="text"
+                value={formData.location}
+                onChange={(e) => updateField('location', e.target.value)}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-green-500 focus:border-transparent"
+              />
+            </div>
+            <div>
+              <label htmlFor="requestTimeline" className="block text-sm font-medium text-gray-700 mb-2">Timeline *</label>
+              <input
+                id="requestTimeline"
+                type="text"
+                value={formData.timeline}
+                onChange={(e) => updateField('timeline', e.target.value)}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-green-500 focus:border-transparent"
+                placeholder="e.g. 4-6 months"
+              />
+            </div>
+            <div>
+              <label htmlFor="requestDeadline" className="block text-sm font-medium text-gray-700 mb-2">Proposal Deadline *</label>
+              <input
+                id="requestDeadline"
+                type="date"
+                value={formData.deadline}
+                onChange={(e) => updateField('deadline', e.target.value)}
+                min={new Date().toISOString().slice(0, 10)}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-green-500 focus:border-transparent"
+              />
+            </div>
+          </div>
+
+          <div>
+            <label htmlFor="requestSkill" className="block text-sm font-medium text-gray-700 mb-2">Required Skills</label>
+            <div className="flex space-x-2">
+              <input
+                id="requestSkill"
+                type="text"
+                value={newSkill}
+                onChange={(e) => setNewSkill(e.target.value)}
+                onKeyDown={(e) => {
+                  if (e.key === 'Enter') {
+                    e.preventDefault();
+                    handleAddSkill();
+                  }
+                }}
+                className="flex-1 px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-green-500 focus:border-transparent"
+                placeholder="e.g. Revit"
+              />
+              <button
+                type="button"
+                onClick={handleAddSkill}
+                className="px-3 py-2 bg-green-50 text-green-700 rounded-lg hover:bg-green-100 transition-colors"
+                aria-label="Add skill"
+              >
+                <Plus className="w-5 h-5" />
+              </button>
+            </div>
+            {formData.skills.length > 0 && (
+              <div className="flex flex-wrap gap-2 mt-3">
+                {formData.skills.map(skill => (
+                  <span key={skill} className="inline-flex items-center px-2 py-1 rounded-md text-xs font-medium bg-green-50 text-green-700">
+                    {skill}
+                    <button
+                      type="button"
+                      onClick={() => updateField('skills', formData.skills.filter(s => s !== skill))}
+                      className="ml-1 text-green-500 hover:text-green-700"
+                      aria-label={`Remove ${skill}`}
+                    >
+                      <X className="w-3 h-3" />
+                    </button>
+                  </span>
+                ))}
+              </div>
+            )}
+          </div>
+
+          {/* Actions */}
+          <div className="flex justify-end space-x-3 pt-4 border-t border-gray-200">
+            <button
+              type="button"
+              onClick={() => handleSave(false)}
+              disabled={isSubmitting}
+              className="px-4 py-2 text-gray-700 bg-white border border-gray-300 rounded-lg hover:bg-gray-50 disabled:opacity-50 transition-colors flex items-center"
+            >
+              <Save className="w-4 h-4 mr-2" />
+              Save Draft
+            </button>
+            <button
+              type="button"
+              onClick={() => handleSave(true)}
+              disabled={isSubmitting}
+              className="px-6 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors flex items-center"
+            >
+              {isSubmitting ? (
+                <>
+                  <RefreshCw className="w-4 h-4 mr-2 animate-spin" />
+                  Saving...
+                </>
+              ) : (
+                <>
+                  <Send className="w-4 h-4 mr-2" />
+                  Publish Request
+                </>
+              )}
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default NewRequestModal;
@@ -0,0 +1,687 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { useNavigate } from 'react-router-dom';
+import {
+  ShoppingCart, Package, CheckCircle, XCircle, AlertCircle, Clock, RotateCcw,
+  Calendar, MessageSquare, Download, DollarSign, Edit3, Eye, Heart,
+  Archive, ArchiveRestore, Trash2
+} from 'lucide-react';
+import { useAuth } from '../hooks/useAuth';
+import { usePaginatedQuery, PageCursor } from '../hooks/usePaginatedQuery';
+import { isServiceRequester } from '../types/user';
+import { OrderService } from '../services/orderService';
+import { ProjectService, Project, ARCHIVE_RETENTION_DAYS, getArchiveExpiry, canRestoreProject, getPrimaryImageRenditions } from '../services/projectService';
+import { EngagementService } from '../services/engagementService';
+import {
+  Order,
+  OrderDelivery,
+  OrderStatus,
+  ORDER_STATUS_LABELS,
+  getRemainingMeetings,
+  getRemainingRevisions,
+  isActiveOrder
+} from '../types/order';
+import { getRenditionUrl } from '../types/image';
+import PlaceOrderModal from './PlaceOrderModal';
+import DeliverOrderModal from './DeliverOrderModal';
+import EditProjectModal from './EditProjectModal';
+import PackageSearch from './PackageSearch';
+import FavoritePackages from './FavoritePackages';
+import ProjectImage from './ProjectImage';
+
+type OrdersTab = 'orders' | 'packages' | 'favorites';
+
+const getProjectKey = (project: Project) => project.id;
+
+const Orders: React.FC = () => {
+  const { userProfile } = useAuth();
+  const navigate = useNavigate();
+  const [activeTab, setActiveTab] = useState<OrdersTab>('orders');
+  const [orders, setOrders] = useState<Order[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [actionInProgress, setActionInProgress] = useState<string | null>(null);
+  const [orderPackage, setOrderPackage] = useState<Project | null>(null);
+  const [deliverOrder, setDeliverOrder] = useState<Order | null>(null);
+  const [editPackage, setEditPackage] = useState<Project | null>(null);
+  const [loadingPackageId, setLoadingPackageId] = useState<string | null>(null);
+  const [favoriteIds, setFavoriteIds] = useState<Set<string>>(new Set());
+  const [archivedPackages, setArchivedPackages] = useState<Project[]>([]);
+
+  const isBuyer = isServiceRequester(userProfile);
+  const uid = userProfile?.uid;
+
+  // Designers page through their own packages; buyers browse packages through search instead
+  const fetchPackagesPage = useCallback(
+    (cursor: PageCursor) => uid && !isBuyer
+      ? ProjectService.getProjectsByUser(uid, cursor)
+      : Promise.resolve({ items: [], cursor: null, hasMore: false }),
+    [uid, isBuyer]
+  );
+  const {
+    items: packages,
+    setItems: setPackages,
+    loading: packagesLoading,
+    loadingMore: loadingMorePackages,
+    error: packagesError,
+    hasMore: hasMorePackages,
+    sentinelRef: packagesSentinelRef
+  } = usePaginatedQuery(fetchPackagesPage, getProjectKey);
+
+  // Buyers see the orders they placed; designers see the orders they received
+  useEffect(() => {
+    if (!userProfile) return;
+
+    const loadOrders = async () => {
+      setLoading(true);
+      setError(null);
+      try {
+        const orderData = isBuyer
+          ? await OrderService.getOrdersForBuyer(userProfile.uid)
+          : await OrderService.getOrdersForDesigner(userProfile.uid);
+        setOrders(orderData);
+      } catch (err) {
+        console.error('❌ Error loading orders:', err);
+        setError(err instanceof Error ? err.message : 'Failed to load orders');
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    loadOrders();
+  }, [userProfile, isBuyer]);
+
+  useEffect(() => {
+    if (!uid || !isBuyer) return;
+
+    EngagementService.getFavoriteProjectIds(uid)
+      .then(ids => setFavoriteIds(new Set(ids)))
+      .catch(err => console.warn('⚠️ Could not load favorites:', err));
+  }, [uid, isBuyer]);
+
+  useEffect(() => {
+    if (!uid || isBuyer) return;
+
+    ProjectService.getArchivedProjects(uid)
+      .then(setArchivedPackages)
+      .catch(err => console.warn('⚠️ Could not load archived packages:', err));
+  }, [uid, isBuyer]);
+
+  const updateOrder = (orderId: string, changes: Partial<Order>) => {
+    setOrders(prev => prev.map(o => o.id === orderId ? { ...o, ...changes, updatedAt: new Date() } : o));
+  };
+
+  // Runs an order action and applies the resulting local changes
+  const runAction = async (order: Order, action: () => Promise<void>, changes: Partial<Order>) => {
+    setActionInProgress(order.id);
+    setError(null);
+    try {
+      await action();
+      updateOrder(order.id, changes);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to update order');
+    } finally {
+      setActionInProgress(null);
+    }
+  };
+
+  const handleAccept = (order: Order) => {
+    if (!userProfile) return;
+    runAction(order, () => OrderService.acceptOrder(order.id, userProfile.uid), { status: 'in_progress', acceptedAt: new Date() });
+  };
+
+  const handleDecline = (order: Order) => {
+    if (!userProfile) return;
+    const reason = window.prompt('Why are you declining this order? (optional)');
+    if (reason === null) return;
+    runAction(order, () => OrderService.declineOrder(order.id, userProfile.uid, reason), { status: 'declined', declineReason: reason.trim() || null });
+  };
+
+  const handleCancel = (order: Order) => {
+    if (!userProfile) return;
+    if (!window.confirm(`Cancel the order for "${order.projectTitle}"? This cannot be undone.`)) return;
+    runAction(order, () => OrderService.cancelOrder(order.id, userProfile.uid), { status: 'cancelled', cancelledAt: new Date() });
+  };
+
+  const handleRequestRevision = (order: Order) => {
+    if (!userProfile) return;
+    const note = window.prompt(`What should change? (${getRemainingRevisions(order)} revisions left)`);
+    if (!note?.trim()) return;
+    runAction(order, () => OrderService.requestRevision(order.id, userProfile.uid, note), {
+      status: 'revision_requested',
+      revisionsUsed: order.revisionsUsed + 1,
+      revisionRequests: [...order.revisionRequests, { id: 'local', note: note.trim(), round: order.revisionsUsed + 1, requestedAt: new Date() }]
+    });
+  };
+
+  const handleAcceptDelivery = (order: Order) => {
+    if (!userProfile) return;
+    if (!window.confirm('Accept this delivery and complete the order?')) return;
+    runAction(order, () => OrderService.acceptDelivery(order.id, userProfile.uid), { status: 'completed', completedAt: new Date() });
+  };
+
+  const handleRecordMeeting = (order: Order) => {
+    if (!userProfile) return;
+    runAction(order, () => OrderService.recordMeeting(order.id, userProfile.uid), { meetingsUsed: order.meetingsUsed + 1 });
+  };
+
+  const handleDelivered = (orderId: string, delivery: OrderDelivery) => {
+    const order = orders.find(o => o.id === orderId);
+    if (!order) return;
+    updateOrder(orderId, { status: 'delivered', deliveries: [...order.deliveries, delivery] });
+  };
+
+  const handleOrderPlaced = (order: Order) => {
+    setOrders(prev => [order, ...prev]);
+    setActiveTab('orders');
+  };
+
+  // Search results only carry a summary, so the full package is loaded before ordering
+  const handleOrderClick = async (projectId: string) => {
+    setLoadingPackageId(projectId);
+    try {
+      const project = await ProjectService.getProject(projectId);
+      if (!project || project.status !== 'active') {
+        throw new Error('This package is no longer available');
+      }
+      setOrderPackage(project);
+
+      if (uid) {
+        // View tracking never blocks ordering
+        EngagementService.recordView(projectId, uid)
+          .catch(err => console.warn('⚠️ Could not record package view:', err));
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load package');
+    } finally {
+      setLoadingPackageId(null);
+    }
+  };
+
+  // Resolves to whether the package is a favorite afterwards
+  const handleToggleFavorite = async (projectId: string): Promise<boolean> => {
+    const wasFavorite = favoriteIds.has(projectId);
+    if (!uid) return wasFavorite;
+
+    setError(null);
+    try {
+      const isFavorite = await EngagementService.toggleFavorite(projectId, uid);
+      setFavoriteIds(prev => {
+        const next = new Set(prev);
+        if (isFavorite) {
+          next.add(projectId);
+        } else {
+          next.delete(projectId);
+        }
+        return next;
+      });
+      return isFavorite;
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to update favorites');
+      return wasFavorite;
+    }
+  };
+
+  const handlePackageUpdated = (project: Project) => {
+    setPackages(prev => prev.map(p => p.id === project.id ? project : p));
+  };
+
+  // Runs a package lifecycle action, reporting failures in the page banner
+  const runPackageAction = async (project: Project, action: () => Promise<void>) => {
+    setActionInProgress(project.id);
+    setError(null);
+    try {
+      await action();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to update package');
+    } finally {
+      setActionInProgress(null);
+    }
+  };
+
+  const handleArchivePackage = (project: Project) => {
+    if (!uid) return;
+    if (!window.confirm(`Archive "${project.title}"? It can be restored for ${ARCHIVE_RETENTION_DAYS} days.`)) return;
+    runPackageAction(project, async () => {
+      const archived = await ProjectService.archiveProject(project.id, uid);
+      setPackages(prev => prev.filter(p => p.id !== project.id));
+      setArchivedPackages(prev => [archived, ...prev]);
+    });
+  };
+
+  const handleRestorePackage = (project: Project) => {
+    if (!uid) return;
+    runPackageAction(project, async () => {
+      const restored = await ProjectService.restoreProject(project.id, uid);
+      setArchivedPackages(prev => prev.filter(p => p.id !== project.id));
+      setPackages(prev => [restored, ...prev.filter(p => p.id !== project.id)]);
+    });
+  };
+
+  const handlePurgePackage = (project: Project) => {
+    if (!uid) return;
+    if (!window.confirm(`Permanently delete "${project.title}" and all of its images? This cannot be undone.`)) return;
+    runPackageAction(project, async () => {
+      await ProjectService.purgeProject(project.id, uid);
+      setArchivedPackages(prev => prev.filter(p => p.id !== project.id));
+    });
+  };
+
+  const getStatusColor = (status: OrderStatus) => {
+    switch (status) {
+      case 'pending': return 'bg-yellow-100 text-yellow-800';
+      case 'in_progress': return 'bg-blue-100 text-blue-800';
+      case 'delivered': return 'bg-purple-100 text-purple-800';
+      case 'revision_requested': return 'bg-amber-100 text-amber-800';
+      case 'completed': return 'bg-green-100 text-green-800';
+      default: return 'bg-gray-100 text-gray-800';
+    }
+  };
+
+  const getStatusIcon = (status: OrderStatus) => {
+    switch (status) {
+      case 'pending': return <Clock className="w-3 h-3" />;
+      case 'in_progress': return <Package className="w-3 h-3" />;
+      case 'delivered': return <Download className="w-3 h-3" />;
+      case 'revision_requested': return <RotateCcw className="w-3 h-3" />;
+      case 'completed': return <CheckCircle className="w-3 h-3" />;
+      default: return <XCircle className="w-3 h-3" />;
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-slate-50 via-blue-50 to-indigo-50">
+      {/* Header */}
+      <div className="bg-white shadow-sm border-b border-gray-200">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-6">
+          <div className="flex flex-col lg:flex-row lg:items-center lg:justify-between">
+            <div className="flex items-center space-x-4 mb-4 lg:mb-0">
+              <div className="w-12 h-12 bg-gradient-to-br from-green-600 to-emerald-600 rounded-xl flex items-center justify-center shadow-lg">
+                <ShoppingCart className="w-6 h-6 text-white" />
+              </div>
+              <div>
+                <h1 className="text-3xl font-bold text-gray-900">{isBuyer ? 'My Orders' : 'Received Orders'}</h1>
+                <p className="text-gray-600">
+                  {isBuyer ? 'Order design packages and track their delivery' : 'Accept, deliver and track orders on your packages'}
+                </p>
+              </div>
+            </div>
+
+            <div className="flex bg-gray-100 rounded-lg p-1">
+              {(isBuyer ? ['orders', 'packages', 'favorites'] as const : ['orders', 'packages'] as const).map(tab => (
+                <button
+                  key={tab}
+                  onClick={() => setActiveTab(tab)}
+                  className={`px-4 py-2 text-sm font-medium rounded-md transition-colors duration-200 ${
+                    activeTab === tab ? 'bg-white text-gray-900 shadow-sm' : 'text-gray-600 hover:text-gray-900'
+                  }`}
+                >
+                  {tab === 'orders'
+                    ? (isBuyer ? 'My Orders' : 'Received Orders')
+                    : tab === 'favorites' ? 'My Favorites' : (isBuyer ? 'Browse Packages' : 'My Packages')}
+                </button>
+              ))}
+            </div>
+          </div>
+        </div>
+      </div>
+
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-6">
+        {error && (
+          <div className="bg-red-50 border border-red-200 rounded-xl p-4 mb-6 flex items-center space-x-3">
+            <AlertCircle className="w-5 h-5 text-red-600 flex-shrink-0" />
+            <p className="text-sm text-red-700">{error}</p>
+          </div>
+        )}
+        {activeTab === 'packages' && packagesError && (
+          <div className="bg-red-50 border border-red-200 rounded-xl p-4 mb-6 flex items-center space-x-3">
+            <AlertCircle className="w-5 h-5 text-red-600 flex-shrink-0" />
+            <p className="text-sm text-red-700">{packagesError}</p>
+          </div>
+        )}
+
+        {loading || (activeTab === 'packages' && packagesLoading) ? (
+          <div className="flex justify-center py-12">
+            <div className="w-12 h-12 border-4 border-green-600 border-t-transparent rounded-full animate-spin"></div>
+          </div>
+        ) : activeTab === 'packages' && isBuyer ? (
+          /* Package search */
+          <PackageSearch
+            currentUserId={userProfile?.uid}
+            orderingProjectId={loadingPackageId}
+            onOrder={handleOrderClick}
+            favoriteIds={favoriteIds}
+            onToggleFavorite={handleToggleFavorite}
+          />
+        ) : activeTab === 'favorites' && uid ? (
+          /* Buyer's saved packages */
+          <FavoritePackages
+            userId={uid}
+            orderingProjectId={loadingPackageId}
+            onOrder={handleOrderClick}
+            onToggleFavorite={handleToggleFavorite}
+          />
+        ) : activeTab === 'packages' ? (
+          /* Designer's packages */
+          <>
+            <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-8">
+              {packages.map(project => (
+                <div key={project.id} className="bg-white rounded-2xl shadow-sm border border-gray-200 overflow-hidden hover:shadow-lg transition-all duration-300">
+                  {project.primaryImageUrl && (
+                    <ProjectImage
+                      src={getRenditionUrl(getPrimaryImageRenditions(project), 'card', project.primaryImageUrl)}
+                      blurhash={getPrimaryImageRenditions(project)?.blurhash}
+                      alt={project.title}
+                      className="w-full h-48"
+                    />
+                  )}
+                  <div className="p-6">
+                    <h3 className="text-lg font-semibold text-gray-900 mb-1">{project.title}</h3>
+                    <p className="text-sm text-gray-500 mb-3">{project.category}</p>
+                    <p className="text-sm text-gray-600 mb-4 line-clamp-2">{project.description}</p>
+                    <div className="space-y-2 mb-4 text-sm text-gray-600">
+                      <div className="flex items-center">
+                        <DollarSign className="w-4 h-4 mr-2" />
+                        <span className="font-medium text-gray-900">${project.price.toLocaleString()}</span>
+                      </div>
+                      <div className="flex items-center">
+                        <Clock className="w-4 h-4 mr-2" />
+                        <span>{project.deliveryTimeline}</span>
+                      </div>
+                      <div className="flex items-center">
+                        <RotateCcw className="w-4 h-4 mr-2" />
+                        <span>{project.revisionsCount} revisions • {project.meetingsCount} meetings</span>
+                      </div>
+                      <div className="flex items-center space-x-4">
+                        <span className="flex items-center" title="Views">
+                          <Eye className="w-4 h-4 mr-2" />
+                          {project.viewCount}
+                        </span>
+                        <span className="flex items-center" title="Favorites">
+                          <Heart className="w-4 h-4 mr-2" />
+                          {project.favoriteCount}
+                        </span>
+                      </div>
+                    </div>
+                    <div className="flex space-x-2">
+                      <button
+                        onClick={() => setEditPackage(project)}
+                        className="flex-1 bg-white border border-gray-300 text-gray-700 py-2.5 px-4 rounded-lg font-medium hover:bg-gray-50 transition-all duration-200 flex items-center justify-center space-x-2"
+                      >
+                        <Edit3 className="w-4 h-4" />
+                        <span>Edit Package • v{project.currentVersion}</span>
+                      </button>
+                      <button
+                        onClick={() => handleArchivePackage(project)}
+                        disabled={actionInProgress === project.id}
+                        className="bg-white border border-gray-300 text-gray-600 py-2.5 px-3 rounded-lg hover:bg-gray-50 disabled:opacity-50 transition-all duration-200"
+                        title="Archive package"
+                      >
+                        <Archive className="w-4 h-4" />
+                      </button>
+                    </div>
+                  </div>
+                </div>
+              ))}
+              {packages.length === 0 && (
+                <p className="text-gray-500 col-span-full text-center py-12">You have not published any packages yet.</p>
+              )}
+            </div>
+            {hasMorePackages && (
+              <div ref={packagesSentinelRef} className="flex justify-center py-8">
+                {loadingMorePackages && (
+                  <div className="w-8 h-8 border-4 border-green-600 border-t-transparent rounded-full animate-spin"></div>
+                )}
+              </div>
+            )}
+
+            {archivedPackages.length > 0 && (
+              <div className="mt-10">
+                <h2 className="text-lg font-semibold text-gray-900 mb-4">Archived Packages</h2>
+                <div className="bg-white rounded-xl shadow-sm border border-gray-200 divide-y divide-gray-100">
+                  {archivedPackages.map(project => (
+                    <div key={project.id} className="p-4 flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3">
+                      <div className="min-w-0">
+                        <p className="font-medium text-gray-900 truncate">{project.title}</p>
+                        <p className="text-sm text-gray-500">
+                          {canRestoreProject(project)
+                            ? `Can be restored until ${getArchiveExpiry(project)?.toLocaleDateString()}`
+                            : 'Retention period ended — scheduled for deletion'}
+                        </p>
+                      </div>
+                      <div className="flex space-x-2 flex-shrink-0">
+                        {canRestoreProject(project) && (
+                          <button
+                            onClick={() => handleRestorePackage(project)}
+                            disabled={actionInProgress === project.id}
+                            className="px-3 py-2 text-sm font-medium text-green-700 bg-green-50 rounded-lg hover:bg-green-100 disabled:opacity-50 transition-colors flex items-center space-x-1"
+                          >
+                            <ArchiveRestore className="w-4 h-4" />
+                            <span>Restore</span>
+                          </button>
+                        )}
+                        <button
+                          onClick={() => handlePurgePackage(project)}
+                          disabled={actionInProgress === project.id}
+                          className="px-3 py-2 text-sm font-medium text-red-700 bg-red-50 rounded-lg hover:bg-red-100 disabled:opacity-50 transition-colors flex items-center space-x-1"
+                        >
+                          <Trash2 className="w-4 h-4" />
+                          <span>Delete Permanently</span>
+                        </button>
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
+          </>
+        ) : (
+          /* Orders */
+          <div className="space-y-4">
+            {orders.map(order => (
+              <div key={order.id} className="bg-white rounded-xl shadow-sm border border-gray-200 p-6 hover:shadow-md transition-all duration-200">
+                <div className="flex flex-col lg:flex-row lg:items-start lg:justify-between gap-4">
+                  <div className="flex-1 min-w-0">
+                    <div className="flex items-center space-x-3 mb-2">
+                      <h3 className="text-lg font-semibold text-gray-900">{order.projectTitle}</h3>
+                      <span className="text-xs text-gray-400">v{order.projectVersion}</span>
+                      <span className={`inline-flex items-center px-2.5 py-1 rounded-full text-xs font-medium ${getStatusColor(order.status)}`}>
+                        {getStatusIcon(order.status)}
+                        <span className="ml-1">{ORDER_STATUS_LABELS[order.status]}</span>
+                      </span>
+                    </div>
+                    <p className="text-sm text-gray-500 mb-3">
+                      {isBuyer ? `Designer: ${order.designerName}` : `Client: ${order.buyerName}`}
+                      {' • '}Ordered {order.createdAt.toLocaleDateString()}
+                      {' • '}${order.price.toLocaleString()}
+                    </p>
+                    <p className="text-sm text-gray-700 mb-3 whitespace-pre-line line-clamp-3">{order.requirements}</p>
+
+                    <div className="flex flex-wrap items-center gap-4 text-sm text-gray-600 mb-3">
+                      <span className="flex items-center">
+                        <RotateCcw className="w-4 h-4 mr-1" />
+                        {order.revisionsUsed}/{order.revisionsIncluded} revisions used
+                      </span>
+                      <span className="flex items-center">
+                        <Calendar className="w-4 h-4 mr-1" />
+                        {order.meetingsUsed}/{order.meetingsIncluded} meetings used
+                      </span>
+                      <span className="flex items-center">
+                        <Clock className="w-4 h-4 mr-1" />
+                        {order.deliveryTimeline}
+                      </span>
+                    </div>
+
+                    {order.attachments.length > 0 && (
+                      <div className="flex flex-wrap gap-2 mb-3">
+                        {order.attachments.map(attachment => (
+                          <a
+                            key={attachment.id}
+                            href={attachment.url}
+                            target="_blank"
+                            rel="noopener noreferrer"
+                            className="inline-flex items-center px-2 py-1 rounded-md text-xs font-medium bg-gray-100 text-gray-700 hover:bg-gray-200"
+                          >
+                            <Download className="w-3 h-3 mr-1" />
+                            {attachment.name}
+                          </a>
+                        ))}
+                      </div>
+                    )}
+
+                    {order.deliveries.length > 0 && (
+                      <div className="border-t border-gray-100 pt-3 space-y-2">
+                        {order.deliveries.map(delivery => (
+                          <div key={delivery.id} className="bg-purple-50 rounded-lg p-3 text-sm">
+                            <p className="font-medium text-purple-900 mb-1">
+                              {delivery.revision > 0 ? `Revision ${delivery.revision}` : 'Delivery'} • {delivery.deliveredAt.toLocaleDateString()}
+                            </p>
+                            {delivery.message && <p className="text-purple-800 mb-2 whitespace-pre-line">{delivery.message}</p>}
+                            <div className="flex flex-wrap gap-2">
+                              {delivery.attachments.map(attachment => (
+                                <a
+                                  key={attachment.id}
+                                  href={attachment.url}
+                                  target="_blank"
+                                  rel="noopener noreferrer"
+                                  className="inline-flex items-center px-2 py-1 rounded-md text-xs font-medium bg-white text-purple-700 hover:bg-purple-100"
+                                >
+                                  <Download className="w-3 h-3 mr-1" />
+                                  {attachment.name}
+                                </a>
+                              ))}
+                            </div>
+                          </div>
+                        ))}
+                      </div>
+                    )}
+
+                    {order.declineReason && (
+                      <p className="text-sm text-gray-500 mt-2">Declined: {order.declineReason}</p>
+                    )}
+                  </div>
+
+                  {/* Actions */}
+                  <div className="flex flex-wrap lg:flex-col gap-2 lg:w-48">
+                    {!isBuyer && order.status === 'pending' && (
+                      <>
+                        <button
+                          onClick={() => handleAccept(order)}
+                          disabled={actionInProgress === order.id}
+                          className="bg-gradient-to-r from-green-600 to-emerald-600 text-white px-4 py-2 rounded-lg hover:from-green-700 hover:to-emerald-700 disabled:opacity-50 transition-all duration-200 flex items-center justify-center space-x-2"
+                        >
+                          <CheckCircle className="w-4 h-4" />
+                          <span>Accept</span>
+                        </button>
+                        <button
+                          onClick={() => handleDecline(order)}
+                          disabled={actionInProgress === order.id}
+                          className="bg-white border border-gray-300 text-gray-700 px-4 py-2 rounded-lg hover:bg-gray-50 disabled:opacity-50 transition-all duration-200 flex items-center justify-center space-x-2"
+                        >
+                          <XCircle className="w-4 h-4" />
+                          <span>Decline</span>
+                        </button>
+                      </>
+                    )}
+                    {!isBuyer && (order.status === 'in_progress' || order.status === 'revision_requested') && (
+                      <button
+                        onClick={() => setDeliverOrder(order)}
+                        className="bg-gradient-to-r from-green-600 to-emerald-600 text-white px-4 py-2 rounded-lg hover:from-green-700 hover:to-emerald-700 transition-all duration-200 flex items-center justify-center space-x-2"
+                      >
+                        <Package className="w-4 h-4" />
+                        <span>{order.status === 'revision_requested' ? 'Deliver Revision' : 'Deliver'}</span>
+                      </button>
+                    )}
+                    {isBuyer && order.status === 'delivered' && (
+                      <>
+                        <button
+                          onClick={() => handleAcceptDelivery(order)}
+                          disabled={actionInProgress === order.id}
+                          className="bg-gradient-to-r from-green-600 to-emerald-600 text-white px-4 py-2 rounded-lg hover:from-green-700 hover:to-emerald-700 disabled:opacity-50 transition-all duration-200 flex items-center justify-center space-x-2"
+                        >
+                          <CheckCircle className="w-4 h-4" />
+                          <span>Accept Delivery</span>
+                        </button>
+                        <button
+                          onClick={() => handleRequestRevision(order)}
+                          disabled={actionInProgress === order.id || getRemainingRevisions(order) === 0}
+                          title={getRemainingRevisions(order) === 0 ? 'All included revisions have been used' : undefined}
+                          className="bg-white border border-gray-300 text-gray-700 px-4 py-2 rounded-lg hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed transition-all duration-200 flex items-center justify-center space-x-2"
+                        >
+                          <RotateCcw className="w-4 h-4" />
+                          <span>Request Revision</span>
+                        </button>
+                      </>
+                    )}
+                    {isActiveOrder(order) && (
+                      <button
+                        onClick={() => handleRecordMeeting(order)}
+                        disabled={actionInProgress === order.id || getRemainingMeetings(order) === 0}
+                        title={getRemainingMeetings(order) === 0 ? 'All included meetings have been used' : undefined}
+                        className="bg-white border border-gray-300 text-gray-700 px-4 py-2 rounded-lg hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed transition-all duration-200 flex items-center justify-center space-x-2"
+                      >
+                        <Calendar className="w-4 h-4" />
+                        <span>Record Meeting</span>
+                      </button>
+                    )}
+                    {order.conversationId && (
+                      <button
+                        onClick={() => navigate('/messages')}
+                        className="bg-white border border-gray-300 text-gray-700 px-4 py-2 rounded-lg hover:bg-gray-50 transition-all duration-200 flex items-center justify-center space-x-2"
+                      >
+                        <MessageSquare className="w-4 h-4" />
+                        <span>Messages</span>
+                      </button>
+                    )}
+                    {((isBuyer && order.status === 'pending') || order.status === 'in_progress' || order.status === 'revision_requested') && (
+                      <button
+                        onClick={() => handleCancel(order)}
+                        disabled={actionInProgress === order.id}
+                        className="text-sm text-gray-500 hover:text-red-600 disabled:opacity-50 transition-colors duration-200"
+                      >
+                        Cancel order
+                      </button>
+                    )}
+                  </div>
+                </div>
+              </div>
+            ))}
+            {orders.length === 0 && (
+              <div className="text-center py-12">
+                <div className="w-16 h-16 bg-gray-100 rounded-full flex items-center justify-center mx-auto mb-4">
+                  <ShoppingCart className="w-8 h-8 text-gray-400" />
+                </div>
+                <h3 className="text-lg font-medium text-gray-900 mb-2">No orders yet</h3>
+                <p className="text-gray-500">
+                  {isBuyer ? 'Browse packages to place your first order' : 'Orders on your packages will appear here'}
+                </p>
+              </div>
+            )}
+          </div>
+        )}
+      </div>
+
+      <PlaceOrderModal
+        isOpen={orderPackage !== null}
+        onClose={() => setOrderPackage(null)}
+        project={orderPackage}
+        onOrderPlaced={handleOrderPlaced}
+      />
+
+      <DeliverOrderModal
+        isOpen={deliverOrder !== null}
+        onClose={() => setDeliverOrder(null)}
+        order={deliverOrder}
+        onDelivered={handleDelivered}
+      />
+
+      <EditProjectModal
+        isOpen={editPackage !== null}
+        onClose={() => setEditPackage(null)}
+        project={editPackage}
+        onProjectUpdated={handlePackageUpdated}
+      />
+    </div>
+  );
+};
+
+export default Orders;
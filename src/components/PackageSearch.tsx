@@ -0,0 +1,214 @@
+/**
+ * Package Search Component
+ *
+ * Full-text search over published project packages with category,
+ * price and delivery timeline facets.
+ */
+
+import React, { useEffect, useState } from 'react';
+import { Search, DollarSign, Clock, ShoppingCart, X, AlertCircle, Heart } from 'lucide-react';
+import { ProjectSearchService } from '../services/projectSearchService';
+import { PRICE_BAND_LABELS } from '../types/designerDirectory';
+import {
+  FacetCount,
+  ProjectSearchFilters,
+  ProjectSearchResult,
+  ProjectSearchSort,
+  SEARCH_SORT_LABELS,
+  TIMELINE_BUCKET_LABELS
+} from '../types/projectSearch';
+import ProjectImage from './ProjectImage';
+
+interface PackageSearchProps {
+  currentUserId?: string;
+  orderingProjectId: string | null;
+  onOrder: (projectId: string) => void;
+  favoriteIds: Set<string>;
+  onToggleFavorite: (projectId: string) => void;
+}
+
+const SEARCH_DEBOUNCE_MS = 250;
+
+const PackageSearch: React.FC<PackageSearchProps> = ({
+  currentUserId,
+  orderingProjectId,
+  onOrder,
+  favoriteIds,
+  onToggleFavorite
+}) => {
+  const [text, setText] = useState('');
+  const [filters, setFilters] = useState<ProjectSearchFilters>({});
+  const [sort, setSort] = useState<ProjectSearchSort | ''>('');
+  const [result, setResult] = useState<ProjectSearchResult | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const timer = setTimeout(async () => {
+      setLoading(true);
+      setError(null);
+      try {
+        setResult(await ProjectSearchService.search({ text, ...filters, sort: sort || undefined }));
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'Failed to search packages');
+      } finally {
+        setLoading(false);
+      }
+    }, SEARCH_DEBOUNCE_MS);
+
+    return () => clearTimeout(timer);
+  }, [text, filters, sort]);
+
+  const toggleFilter = <K extends keyof ProjectSearchFilters>(key: K, value: ProjectSearchFilters[K]) => {
+    setFilters(prev => ({ ...prev, [key]: prev[key] === value ? undefined : value }));
+  };
+
+  const hasFilters = Object.values(filters).some(Boolean);
+
+  const renderFacet = <K extends keyof ProjectSearchFilters>(
+    title: string,
+    key: K,
+    counts: FacetCount[],
+    getLabel: (value: string) => string
+  ) => (
+    <div>
+      <h3 className="text-sm font-semibold text-gray-900 mb-2">{title}</h3>
+      {counts.length === 0 ? (
+        <p className="text-xs text-gray-400">No matches</p>
+      ) : (
+        <ul className="space-y-1">
+          {counts.map(({ value, count }) => (
+            <li key={value}>
+              <button
+                onClick={() => toggleFilter(key, value as ProjectSearchFilters[K])}
+                className={`w-full flex justify-between items-center px-2 py-1 rounded-md text-sm transition-colors ${
+                  filters[key] === value ? 'bg-green-50 text-green-700 font-medium' : 'text-gray-600 hover:bg-gray-50'
+                }`}
+              >
+                <span className="truncate">{getLabel(value)}</span>
+                <span className="text-xs text-gray-400 ml-2">{count}</span>
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+
+  return (
+    <div className="grid grid-cols-1 lg:grid-cols-4 gap-8">
+      {/* Facets */}
+      <aside className="bg-white rounded-2xl shadow-sm border border-gray-200 p-6 space-y-6 h-fit">
+        {hasFilters && (
+          <button
+            onClick={() => setFilters({})}
+            className="flex items-center text-sm text-gray-600 hover:text-gray-900"
+          >
+            <X className="w-4 h-4 mr-1" />
+            Clear filters
+          </button>
+        )}
+        {renderFacet('Category', 'category', result?.facets.category ?? [], value => value)}
+        {renderFacet('Price', 'priceBand', result?.facets.priceBand ?? [], value => PRICE_BAND_LABELS[value as keyof typeof PRICE_BAND_LABELS])}
+        {renderFacet('Delivery', 'timelineBucket', result?.facets.timelineBucket ?? [], value => TIMELINE_BUCKET_LABELS[value as keyof typeof TIMELINE_BUCKET_LABELS])}
+      </aside>
+
+      <div className="lg:col-span-3 space-y-6">
+        {/* Search bar */}
+        <div className="flex flex-col sm:flex-row gap-4">
+          <div className="relative flex-1">
+            <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400 w-5 h-5" />
+            <input
+              type="text"
+              placeholder="Search packages by title, description or tag..."
+              value={text}
+              onChange={(e) => setText(e.target.value)}
+              className="w-full pl-10 pr-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-green-500 focus:border-transparent"
+            />
+          </div>
+          <select
+            value={sort || (text.trim() ? 'relevance' : 'newest')}
+            onChange={(e) => setSort(e.target.value as ProjectSearchSort)}
+            className="px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-green-500 focus:border-transparent"
+            aria-label="Sort packages"
+          >
+            {(Object.keys(SEARCH_SORT_LABELS) as ProjectSearchSort[]).map(option => (
+              <option key={option} value={option}>{SEARCH_SORT_LABELS[option]}</option>
+            ))}
+          </select>
+        </div>
+
+        {error && (
+          <div className="bg-red-50 border border-red-200 rounded-xl p-4 flex items-center space-x-3">
+            <AlertCircle className="w-5 h-5 text-red-600 flex-shrink-0" />
+            <p className="text-sm text-red-700">{error}</p>
+          </div>
+        )}
+
+        {loading && !result ? (
+          <div className="flex justify-center py-12">
+            <div className="w-12 h-12 border-4 border-green-600 border-t-transparent rounded-full animate-spin"></div>
+          </div>
+        ) : (
+          <>
+            <p className="text-sm text-gray-500">
+              {result?.total ?? 0} package{result?.total === 1 ? '' : 's'}
+            </p>
+            <div className={`grid grid-cols-1 md:grid-cols-2 xl:grid-cols-3 gap-6 ${loading ? 'opacity-60' : ''}`}>
+              {result?.hits.map(({ entry }) => (
+                <div key={entry.id} className="bg-white rounded-2xl shadow-sm border border-gray-200 overflow-hidden hover:shadow-lg transition-all duration-300">
+                  {entry.primaryImageUrl && (
+                    <ProjectImage src={entry.primaryImageUrl} blurhash={entry.primaryImageBlurhash} alt={entry.title} className="w-full h-40" />
+                  )}
+                  <div className="p-5">
+                    <div className="flex items-start justify-between mb-1">
+                      <h3 className="text-lg font-semibold text-gray-900">{entry.title}</h3>
+                      {entry.designerId !== currentUserId && (
+                        <button
+                          onClick={() => onToggleFavorite(entry.id)}
+                          className={`p-1 ml-2 transition-colors ${
+                            favoriteIds.has(entry.id) ? 'text-red-500 hover:text-red-600' : 'text-gray-400 hover:text-red-500'
+                          }`}
+                          aria-label={favoriteIds.has(entry.id) ? 'Remove from favorites' : 'Add to favorites'}
+                        >
+                          <Heart className={`w-5 h-5 ${favoriteIds.has(entry.id) ? 'fill-current' : ''}`} />
+                        </button>
+                      )}
+                    </div>
+                    <p className="text-sm text-gray-500 mb-3">{entry.category}</p>
+                    <p className="text-sm text-gray-600 mb-4 line-clamp-2">{entry.summary}</p>
+                    <div className="space-y-2 mb-4 text-sm text-gray-600">
+                      <div className="flex items-center">
+                        <DollarSign className="w-4 h-4 mr-2" />
+                        <span className="font-medium text-gray-900">${entry.price.toLocaleString()}</span>
+                      </div>
+                      <div className="flex items-center">
+                        <Clock className="w-4 h-4 mr-2" />
+                        <span>{entry.deliveryTimeline}</span>
+                      </div>
+                    </div>
+                    <button
+                      onClick={() => onOrder(entry.id)}
+                      disabled={entry.designerId === currentUserId || orderingProjectId !== null}
+                      className="w-full bg-gradient-to-r from-green-600 to-emerald-600 text-white py-2.5 px-4 rounded-lg font-medium hover:from-green-700 hover:to-emerald-700 disabled:opacity-50 disabled:cursor-not-allowed transition-all duration-200 flex items-center justify-center space-x-2"
+                    >
+                      <ShoppingCart className="w-4 h-4" />
+                      <span>{orderingProjectId === entry.id ? 'Loading...' : 'Order Package'}</span>
+                    </button>
+                  </div>
+                </div>
+              ))}
+            </div>
+            {result?.total === 0 && (
+              <p className="text-gray-500 text-center py-12">
+                {text.trim() || hasFilters ? 'No packages match your search.' : 'No packages are available at the moment.'}
+              </p>
+            )}
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default PackageSearch;
@@ -0,0 +1,180 @@
+/**
+ * Place Order Modal Component
+ *
+ * Lets a service requester order a designer's project package with
+ * written requirements and reference files.
+ */
+
+import React, { useState } from 'react';
+import { ShoppingCart, X, RefreshCw, Paperclip, Trash2 } from 'lucide-react';
+import { useAuth } from '../hooks/useAuth';
+import { OrderService } from '../services/orderService';
+import { Project } from '../services/projectService';
+import { CreateOrderData, Order, MIN_REQUIREMENTS_LENGTH } from '../types/order';
+import { ATTACHMENT_ACCEPT, MAX_ATTACHMENTS_PER_MESSAGE, formatFileSize } from '../types/conversation';
+
+interface PlaceOrderModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  project: Project | null;
+  onOrderPlaced: (order: Order) => void;
+}
+
+const PlaceOrderModal: React.FC<PlaceOrderModalProps> = ({ isOpen, onClose, project, onOrderPlaced }) => {
+  const { userProfile } = useAuth();
+  const [formData, setFormData] = useState<CreateOrderData>({ requirements: '', attachments: [] });
+  const [errors, setErrors] = useState<string[]>([]);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const handleFilesSelected = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files || []);
+    setFormData(prev => ({ ...prev, attachments: [...prev.attachments, ...files].slice(0, MAX_ATTACHMENTS_PER_MESSAGE) }));
+    e.target.value = '';
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!project || !userProfile) return;
+
+    const validationErrors = OrderService.validateOrder(formData);
+    if (validationErrors.length > 0) {
+      setErrors(validationErrors);
+      return;
+    }
+
+    setIsSubmitting(true);
+    setErrors([]);
+    try {
+      const order = await OrderService.createOrder(project.id, userProfile, formData);
+      onOrderPlaced(order);
+      setFormData({ requirements: '', attachments: [] });
+      onClose();
+    } catch (error) {
+      setErrors([error instanceof Error ? error.message : 'Failed to place order']);
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  if (!isOpen || !project) return null;
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+      <div className="bg-white rounded-xl w-full max-w-2xl max-h-[90vh] overflow-y-auto shadow-2xl">
+        <div className="sticky top-0 bg-white border-b border-gray-200 px-6 py-4 rounded-t-xl">
+          <div className="flex justify-between items-center">
+            <div>
+              <h2 className="text-xl font-bold text-gray-900 flex items-center">
+                <ShoppingCart className="w-6 h-6 mr-2 text-green-600" />
+                Order Package
+              </h2>
+              <p className="text-sm text-gray-600 mt-1">{project.title}</p>
+            </div>
+            <button
+              onClick={onClose}
+              className="text-gray-400 hover:text-gray-600 transition-colors"
+              aria-label="Close modal"
+            >
+              <X className="w-6 h-6" />
+            </button>
+          </div>
+        </div>
+
+        <form onSubmit={handleSubmit} className="p-6 space-y-6">
+          <div className="bg-gray-50 rounded-lg p-4 text-sm text-gray-700 space-y-1">
+            <p>
+              Price: <span className="font-medium">${project.price.toLocaleString()}</span>
+              {' • '}Delivery: <span className="font-medium">{project.deliveryTimeline}</span>
+            </p>
+            <p>
+              Includes <span className="font-medium">{project.revisionsCount} revisions</span> and{' '}
+              <span className="font-medium">{project.meetingsCount} meetings</span>
+            </p>
+            {project.deliverables && <p className="text-gray-600">{project.deliverables}</p>}
+          </div>
+
+          {errors.length > 0 && (
+            <div className="bg-red-50 border border-red-200 rounded-lg p-4">
+              <ul className="list-disc list-inside text-sm text-red-700 space-y-1">
+                {errors.map(error => <li key={error}>{error}</li>)}
+              </ul>
+            </div>
+          )}
+
+          <div>
+            <label htmlFor="orderRequirements" className="block text-sm font-medium text-gray-700 mb-2">Requirements *</label>
+            <textarea
+              id="orderRequirements"
+              value={formData.requirements}
+              onChange={(e) => setFormData(prev => ({ ...prev, requirements: e.target.value }))}
+              rows={6}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-green-500 focus:border-transparent"
+              placeholder="Describe the site, the brief and anything the designer needs to get started."
+            />
+            <p className="mt-1 text-xs text-gray-500">
+              {formData.requirements.trim().length}/{MIN_REQUIREMENTS_LENGTH} characters minimum
+            </p>
+          </div>
+
+          <div>
+            <span className="block text-sm font-medium text-gray-700 mb-2">Attachments</span>
+            {formData.attachments.length > 0 && (
+              <ul className="space-y-2 mb-3">
+                {formData.attachments.map((file, index) => (
+                  <li key={`${file.name}-${index}`} className="flex items-center justify-between bg-gray-50 rounded-lg px-3 py-2 text-sm">
+                    <span className="text-gray-700 truncate">{file.name} <span className="text-gray-400">({formatFileSize(file.size)})</span></span>
+                    <button
+                      type="button"
+                      onClick={() => setFormData(prev => ({ ...prev, attachments: prev.attachments.filter((_, i) => i !== index) }))}
+                      className="text-gray-400 hover:text-red-500 transition-colors"
+                      aria-label={`Remove ${file.name}`}
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            )}
+            {formData.attachments.length < MAX_ATTACHMENTS_PER_MESSAGE && (
+              <label className="inline-flex items-center px-4 py-2 text-sm text-gray-700 bg-white border border-gray-300 rounded-lg hover:bg-gray-50 cursor-pointer transition-colors">
+                <Paperclip className="w-4 h-4 mr-2" />
+                Add files
+                <input type="file" multiple accept={ATTACHMENT_ACCEPT} onChange={handleFilesSelected} className="hidden" />
+              </label>
+            )}
+          </div>
+
+          {/* Actions */}
+          <div className="flex justify-end space-x-3 pt-4 border-t border-gray-200">
+            <button
+              type="button"
+              onClick={onClose}
+              className="px-4 py-2 text-gray-700 bg-white border border-gray-300 rounded-lg hover:bg-gray-50 transition-colors"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              disabled={isSubmitting}
+              className="px-6 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors flex items-center"
+            >
+              {isSubmitting ? (
+                <>
+                  <RefreshCw className="w-4 h-4 mr-2 animate-spin" />
+                  Placing Order...
+                </>
+              ) : (
+                <>
+                  <ShoppingCart className="w-4 h-4 mr-2" />
+                  Place Order
+                </>
+              )}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+};
+
+export default PlaceOrderModal;
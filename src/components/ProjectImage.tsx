@@ -0,0 +1,70 @@
+/**
+ * Project Image Component
+ *
+ * Shows a project image rendition over its blurhash placeholder, fading the image in once loaded.
+ * If the image fails to load, the placeholder (or the container background) stays visible.
+ */
+
+import React, { useEffect, useRef, useState } from 'react';
+import { decodeBlurhash } from '../utils/blurhash';
+
+interface ProjectImageProps {
+  src: string;
+  alt: string;
+  blurhash?: string | null;
+  className?: string; // Sizes the container; the image covers it
+}
+
+// The placeholder is stretched to fit, so a tiny decode is enough
+const PLACEHOLDER_SIZE = 32;
+
+const ProjectImage: React.FC<ProjectImageProps> = ({ src, alt, blurhash, className = '' }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const [loaded, setLoaded] = useState(false);
+  const [failed, setFailed] = useState(false);
+
+  useEffect(() => {
+    setLoaded(false);
+    setFailed(false);
+  }, [src]);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const context = canvas?.getContext('2d');
+    if (!blurhash || !context) return;
+
+    try {
+      const pixels = decodeBlurhash(blurhash, PLACEHOLDER_SIZE, PLACEHOLDER_SIZE);
+      context.putImageData(new ImageData(pixels, PLACEHOLDER_SIZE, PLACEHOLDER_SIZE), 0, 0);
+    } catch (error) {
+      console.warn('⚠️ Invalid image placeholder:', error);
+    }
+  }, [blurhash]);
+
+  return (
+    <div className={`relative overflow-hidden ${className}`}>
+      {blurhash && !loaded && (
+        <canvas
+          ref={canvasRef}
+          width={PLACEHOLDER_SIZE}
+          height={PLACEHOLDER_SIZE}
+          className="absolute inset-0 w-full h-full"
+          aria-hidden="true"
+        />
+      )}
+      {src && !failed && (
+        <img
+          src={src}
+          alt={alt}
+          loading="lazy"
+          decoding="async"
+          onLoad={() => setLoaded(true)}
+          onError={() => setFailed(true)}
+          className={`absolute inset-0 w-full h-full object-cover transition-opacity duration-300 ${loaded ? 'opacity-100' : 'opacity-0'}`}
+        />
+      )}
+    </div>
+  );
+};
+
+export default ProjectImage;
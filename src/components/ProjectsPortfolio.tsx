@@ -1,487 +1,449 @@
-import React, { useState, useEffect } from 'react';
-import {
-  FolderOpen, Plus, Search, Filter, Grid, List, Eye, Heart, Star, 
-  Calendar, User, MapPin, ArrowUpRight, Download, Share2, Edit3,
-  Trash2, MoreHorizontal, Image, FileText, Play, Pause, Clock,
-  TrendingUp, Award, Bookmark, Tag, ChevronDown, X
-} from 'lucide-react';
-import { useAuth } from '../hooks/useAuth';
-import { isVerifiedDesigner, isDesigner, isServiceRequester } from '../types/user';
-
-interface Project {
-  id: string;
-  title: string;
-  description: string;
-  category: string;
-  status: 'active' | 'completed' | 'paused' | 'draft';
-  progress: number;
-  client: string;
-  location: string;
-  startDate: string;
-  endDate?: string;
-  budget: number;
-  images: string[];
-  tags: string[];
-  likes: number;
-  views: number;
-  isBookmarked: boolean;
-  isFeatured: boolean;
-}
-
-const ProjectsPortfolio: React.FC = () => {
-  const { userProfile } = useAuth();
-  const [projects, setProjects] = useState<Project[]>([]);
-  const [viewMode, setViewMode] = useState<'grid' | 'list'>('grid');
-  const [searchTerm, setSearchTerm] = useState('');
-  const [selectedCategory, setSelectedCategory] = useState('all');
-  const [selectedStatus, setSelectedStatus] = useState('all');
-  const [showFilters, setShowFilters] = useState(false);
-  const [sortBy, setSortBy] = useState('recent');
-
-  // Mock data for demonstration
-  useEffect(() => {
-    const mockProjects: Project[] = [
-      {
-        id: '1',
-        title: 'Modern Villa Design',
-        description: 'Contemporary residential villa with sustainable features and smart home integration.',
-        category: 'Residential',
-        status: 'completed',
-        progress: 100,
-        client: 'Johnson Family',
-        location: 'Beverly Hills, CA',
-        startDate: '2024-01-15',
-        endDate: '2024-06-30',
-        budget: 250000,
-        images: ['/api/placeholder/400/300', '/api/placeholder/400/300'],
-        tags: ['Modern', 'Sustainable', 'Smart Home'],
-        likes: 124,
-        views: 2340,
-        isBookmarked: true,
-        isFeatured: true
-      },
-      {
-        id: '2',
-        title: 'Corporate Office Complex',
-        description: 'Multi-story office building with innovative workspace design and green architecture.',
-        category: 'Commercial',
-        status: 'active',
-        progress: 75,
-        client: 'TechCorp Inc.',
-        location: 'Downtown LA',
-        startDate: '2024-03-01',
-        budget: 1200000,
-        images: ['/api/placeholder/400/300'],
-        tags: ['Commercial', 'Green Building', 'Workspace'],
-        likes: 89,
-        views: 1560,
-        isBookmarked: false,
-        isFeatured: false
-      },
-      {
-        id: '3',
-        title: 'Urban Park Pavilion',
-        description: 'Community pavilion design for urban park with outdoor event spaces.',
-        category: 'Public',
-        status: 'paused',
-        progress: 45,
-        client: 'City Council',
-        location: 'Central Park',
-        startDate: '2024-02-10',
-        budget: 180000,
-        images: ['/api/placeholder/400/300', '/api/placeholder/400/300'],
-        tags: ['Public Space', 'Community', 'Outdoor'],
-        likes: 67,
-        views: 890,
-        isBookmarked: true,
-        isFeatured: false
-      }
-    ];
-    setProjects(mockProjects);
-  }, []);
-
-  const categories = ['all', 'Residential', 'Commercial', 'Public', 'Industrial', 'Hospitality'];
-  const statuses = ['all', 'active', 'completed', 'paused', 'draft'];
-
-  const filteredProjects = projects.filter(project => {
-    const matchesSearch = project.title.toLowerCase().includes(searchTerm.toLowerCase()) ||
-                         project.description.toLowerCase().includes(searchTerm.toLowerCase()) ||
-                         project.tags.some(tag => tag.toLowerCase().includes(searchTerm.toLowerCase()));
-    const matchesCategory = selectedCategory === 'all' || project.category === selectedCategory;
-    const matchesStatus = selectedStatus === 'all' || project.status === selectedStatus;
-    
-    return matchesSearch && matchesCategory && matchesStatus;
-  });
-
-  const getStatusColor = (status: string) => {
-    switch (status) {
-      case 'active': return 'bg-blue-100 text-blue-800';
-      case 'completed': return 'bg-green-100 text-green-800';
-      case 'paused': return 'bg-yellow-100 text-yellow-800';
-      case 'draft': return 'bg-gray-100 text-gray-800';
-      default: return 'bg-gray-100 text-gray-800';
-    }
-  };
-
-  const getStatusIcon = (status: string) => {
-    switch (status) {
-      case 'active': return <Play className="w-3 h-3" />;
-      case 'completed': return <Award className="w-3 h-3" />;
-      case 'paused': return <Pause className="w-3 h-3" />;
-      case 'draft': return <Edit3 className="w-3 h-3" />;
-      default: return <Clock className="w-3 h-3" />;
-    }
-  };
-
-  return (
-    <div className="min-h-screen bg-gradient-to-br from-slate-50 via-blue-50 to-indigo-50">
-      {/* Header */}
-      <div className="bg-white shadow-sm border-b border-gray-200">
-        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-6">
-          <div className="flex flex-col lg:flex-row lg:items-center lg:justify-between">
-            <div className="flex items-center space-x-4 mb-4 lg:mb-0">
-              <div className="w-12 h-12 bg-gradient-to-br from-blue-600 to-indigo-600 rounded-xl flex items-center justify-center shadow-lg">
-                <FolderOpen className="w-6 h-6 text-white" />
-              </div>
-              <div>
-                <h1 className="text-3xl font-bold text-gray-900">
-                  {isDesigner(userProfile) ? 'My Projects & Portfolio' : 'Browse Projects'}
-                </h1>
-                <p className="text-gray-600">
-                  {isDesigner(userProfile) 
-                    ? 'Manage your architectural projects and showcase your portfolio'
-                    : 'Explore amazing architectural projects and portfolios'
-                  }
-                </p>
-              </div>
-            </div>
-            
-            {isVerifiedDesigner(userProfile) && (
-              <button className="bg-gradient-to-r from-blue-600 to-indigo-600 text-white px-6 py-3 rounded-xl font-medium hover:from-blue-700 hover:to-indigo-700 transition-all duration-200 shadow-lg hover:shadow-xl transform hover:scale-105 flex items-center space-x-2">
-                <Plus className="w-5 h-5" />
-                <span>New Project</span>
-              </button>
-            )}
-          </div>
-        </div>
-      </div>
-
-      {/* Filters and Search */}
-      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-6">
-        <div className="bg-white rounded-2xl shadow-sm border border-gray-200 p-6 mb-8">
-          <div className="flex flex-col lg:flex-row lg:items-center lg:justify-between space-y-4 lg:space-y-0">
-            {/* Search */}
-            <div className="relative flex-1 max-w-md">
-              <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400 w-5 h-5" />
-              <input
-                type="text"
-                placeholder="Search projects..."
-                value={searchTerm}
-                onChange={(e) => setSearchTerm(e.target.value)}
-                className="w-full pl-10 pr-4 py-3 border border-gray-300 rounded-xl focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-all duration-200"
-              />
-            </div>
-
-            {/* Controls */}
-            <div className="flex items-center space-x-4">
-              {/* Filters Toggle */}
-              <button
-                onClick={() => setShowFilters(!showFilters)}
-                className={`flex items-center space-x-2 px-4 py-2 rounded-lg border transition-all duration-200 ${
-                  showFilters 
-                    ? 'bg-blue-50 border-blue-200 text-blue-700' 
-                    : 'bg-white border-gray-300 text-gray-700 hover:bg-gray-50'
-                }`}
-              >
-                <Filter className="w-4 h-4" />
-                <span>Filters</span>
-                <ChevronDown className={`w-4 h-4 transition-transform duration-200 ${showFilters ? 'rotate-180' : ''}`} />
-              </button>
-
-              {/* View Mode */}
-              <div className="flex items-center bg-gray-100 rounded-lg p-1">
-                <button
-                  onClick={() => setViewMode('grid')}
-                  className={`p-2 rounded-md transition-all duration-200 ${
-                    viewMode === 'grid' 
-                      ? 'bg-white text-blue-600 shadow-sm' 
-                      : 'text-gray-600 hover:text-gray-900'
-                  }`}
-                >
-                  <Grid className="w-4 h-4" />
-                </button>
-                <button
-                  onClick={() => setViewMode('list')}
-                  className={`p-2 rounded-md transition-all duration-200 ${
-                    viewMode === 'list' 
-                      ? 'bg-white text-blue-600 shadow-sm' 
-                      : 'text-gray-600 hover:text-gray-900'
-                  }`}
-                >
-                  <List className="w-4 h-4" />
-                </button>
-              </div>
-            </div>
-          </div>
-
-          {/* Expanded Filters */}
-          {showFilters && (
-            <div className="mt-6 pt-6 border-t border-gray-200">
-              <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
-                {/* Category Filter */}
-                <div>
-                  <label className="block text-sm font-medium text-gray-700 mb-2">Category</label>
-                  <select
-                    value={selectedCategory}
-                    onChange={(e) => setSelectedCategory(e.target.value)}
-                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
-                  >
-                    {categories.map(category => (
-                      <option key={category} value={category}>
-                        {category === 'all' ? 'All Categories' : category}
-                      </option>
-                    ))}
-                  </select>
-                </div>
-
-                {/* Status Filter */}
-                <div>
-                  <label className="block text-sm font-medium text-gray-700 mb-2">Status</label>
-                  <select
-                    value={selectedStatus}
-                    onChange={(e) => setSelectedStatus(e.target.value)}
-                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
-                  >
-                    {statuses.map(status => (
-                      <option key={status} value={status}>
-                        {status === 'all' ? 'All Statuses' : status.charAt(0).toUpperCase() + status.slice(1)}
-                      </option>
-                    ))}
-                  </select>
-                </div>
-
-                {/* Sort By */}
-                <div>
-                  <label className="block text-sm font-medium text-gray-700 mb-2">Sort By</label>
-                  <select
-                    value={sortBy}
-                    onChange={(e) => setSortBy(e.target.value)}
-                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
-                  >
-                    <option value="recent">Most Recent</option>
-                    <option value="popular">Most Popular</option>
-                    <option value="alphabetical">Alphabetical</option>
-                    <option value="budget">Budget</option>
-                  </select>
-                </div>
-              </div>
-            </div>
-          )}
-        </div>
-
-        {/* Projects Grid/List */}
-        {viewMode === 'grid' ? (
-          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-8">
-            {filteredProjects.map((project) => (
-              <div key={project.id} className="bg-white rounded-2xl shadow-sm border border-gray-200 overflow-hidden hover:shadow-lg transition-all duration-300 transform hover:scale-105 group">
-                {/* Project Image */}
-                <div className="relative h-48 bg-gradient-to-br from-gray-100 to-gray-200">
-                  <div className="absolute inset-0 bg-gradient-to-t from-black/20 to-transparent opacity-0 group-hover:opacity-100 transition-opacity duration-300"></div>
-                  {project.isFeatured && (
-                    <div className="absolute top-3 left-3 bg-gradient-to-r from-yellow-400 to-orange-500 text-white px-3 py-1 rounded-full text-xs font-medium flex items-center space-x-1">
-                      <Star className="w-3 h-3" />
-                      <span>Featured</span>
-                    </div>
-                  )}
-                  <div className="absolute top-3 right-3 flex items-center space-x-2">
-                    <button className="w-8 h-8 bg-white/90 backdrop-blur-sm rounded-full flex items-center justify-center text-gray-600 hover:text-red-500 transition-colors duration-200">
-                      <Heart className={`w-4 h-4 ${project.isBookmarked ? 'fill-red-500 text-red-500' : ''}`} />
-                    </button>
-                    <button className="w-8 h-8 bg-white/90 backdrop-blur-sm rounded-full flex items-center justify-center text-gray-600 hover:text-blue-500 transition-colors duration-200">
-                      <Share2 className="w-4 h-4" />
-                    </button>
-                  </div>
-                  <div className="absolute bottom-3 left-3 right-3 flex items-center justify-between text-white text-sm">
-                    <div className="flex items-center space-x-3">
-                      <div className="flex items-center space-x-1">
-                        <Eye className="w-4 h-4" />
-                        <span>{project.views}</span>
-                      </div>
-                      <div className="flex items-center space-x-1">
-                        <Heart className="w-4 h-4" />
-                        <span>{project.likes}</span>
-                      </div>
-                    </div>
-                  </div>
-                </div>
-
-                {/* Project Content */}
-                <div className="p-6">
-                  <div className="flex items-start justify-between mb-3">
-                    <div className="flex-1">
-                      <h3 className="text-lg font-semibold text-gray-900 mb-1 group-hover:text-blue-600 transition-colors duration-200">
-                        {project.title}
-                      </h3>
-                      <p className="text-sm text-gray-600 line-clamp-2">{project.description}</p>
-                    </div>
-                    {isDesigner(userProfile) && (
-                      <button className="text-gray-400 hover:text-gray-600 transition-colors duration-200">
-                        <MoreHorizontal className="w-5 h-5" />
-                      </button>
-                    )}
-                  </div>
-
-                  {/* Status and Progress */}
-                  <div className="flex items-center justify-between mb-4">
-                    <span className={`inline-flex items-center px-2.5 py-1 rounded-full text-xs font-medium ${getStatusColor(project.status)}`}>
-                      {getStatusIcon(project.status)}
-                      <span className="ml-1">{project.status.charAt(0).toUpperCase() + project.status.slice(1)}</span>
-                    </span>
-                    {project.status !== 'completed' && (
-                      <div className="flex items-center space-x-2">
-                        <div className="w-16 bg-gray-200 rounded-full h-2">
-                          <div 
-                            className="bg-blue-600 h-2 rounded-full transition-all duration-300"
-                            style={{ width: `${project.progress}%` }}
-                          ></div>
-                        </div>
-                        <span className="text-xs text-gray-500">{project.progress}%</span>
-                      </div>
-                    )}
-                  </div>
-
-                  {/* Project Details */}
-                  <div className="space-y-2 mb-4">
-                    <div className="flex items-center text-sm text-gray-600">
-                      <User className="w-4 h-4 mr-2" />
-                      <span>{project.client}</span>
-                    </div>
-                    <div className="flex items-center text-sm text-gray-600">
-                      <MapPin className="w-4 h-4 mr-2" />
-                      <span>{project.location}</span>
-                    </div>
-                    <div className="flex items-center text-sm text-gray-600">
-                      <Calendar className="w-4 h-4 mr-2" />
-                      <span>{new Date(project.startDate).toLocaleDateString()}</span>
-                    </div>
-                  </div>
-
-                  {/* Tags */}
-                  <div className="flex flex-wrap gap-2 mb-4">
-                    {project.tags.slice(0, 3).map((tag, index) => (
-                      <span key={index} className="inline-flex items-center px-2 py-1 rounded-md text-xs font-medium bg-blue-50 text-blue-700">
-                        <Tag className="w-3 h-3 mr-1" />
-                        {tag}
-                      </span>
-                    ))}
-                    {project.tags.length > 3 && (
-                      <span className="inline-flex items-center px-2 py-1 rounded-md text-xs font-medium bg-gray-100 text-gray-600">
-                        +{project.tags.length - 3} more
-                      </span>
-                    )}
-                  </div>
-
-                  {/* Action Button */}
-                  <button className="w-full bg-gradient-to-r from-blue-50 to-indigo-50 text-blue-700 py-2.5 px-4 rounded-lg font-medium hover:from-blue-100 hover:to-indigo-100 transition-all duration-200 flex items-center justify-center space-x-2 group">
-                    <span>View Details</span>
-                    <ArrowUpRight className="w-4 h-4 group-hover:translate-x-1 group-hover:-translate-y-1 transition-transform duration-200" />
-                  </button>
-                </div>
-              </div>
-            ))}
-          </div>
-        ) : (
-          /* List View */
-          <div className="space-y-4">
-            {filteredProjects.map((project) => (
-              <div key={project.id} className="bg-white rounded-xl shadow-sm border border-gray-200 p-6 hover:shadow-md transition-all duration-200">
-                <div className="flex items-center space-x-6">
-                  {/* Project Thumbnail */}
-                  <div className="w-24 h-24 bg-gradient-to-br from-gray-100 to-gray-200 rounded-lg flex-shrink-0 relative">
-                    {project.isFeatured && (
-                      <div className="absolute -top-1 -right-1 w-6 h-6 bg-yellow-400 rounded-full flex items-center justify-center">
-                        <Star className="w-3 h-3 text-white" />
-                      </div>
-                    )}
-                  </div>
-
-                  {/* Project Info */}
-                  <div className="flex-1 min-w-0">
-                    <div className="flex items-start justify-between">
-                      <div className="flex-1">
-                        <h3 className="text-lg font-semibold text-gray-900 mb-1">{project.title}</h3>
-                        <p className="text-gray-600 text-sm mb-2 line-clamp-1">{project.description}</p>
-                        <div className="flex items-center space-x-4 text-sm text-gray-500">
-                          <span className="flex items-center">
-                            <User className="w-4 h-4 mr-1" />
-                            {project.client}
-                          </span>
-                          <span className="flex items-center">
-                            <MapPin className="w-4 h-4 mr-1" />
-                            {project.location}
-                          </span>
-                          <span className="flex items-center">
-                            <Calendar className="w-4 h-4 mr-1" />
-                            {new Date(project.startDate).toLocaleDateString()}
-                          </span>
-                        </div>
-                      </div>
-
-                      {/* Status and Actions */}
-                      <div className="flex items-center space-x-4">
-                        <span className={`inline-flex items-center px-2.5 py-1 rounded-full text-xs font-medium ${getStatusColor(project.status)}`}>
-                          {getStatusIcon(project.status)}
-                          <span className="ml-1">{project.status.charAt(0).toUpperCase() + project.status.slice(1)}</span>
-                        </span>
-                        
-                        <div className="flex items-center space-x-2">
-                          <button className="text-gray-400 hover:text-red-500 transition-colors duration-200">
-                            <Heart className={`w-5 h-5 ${project.isBookmarked ? 'fill-red-500 text-red-500' : ''}`} />
-                          </button>
-                          <button className="text-gray-400 hover:text-blue-500 transition-colors duration-200">
-                            <Share2 className="w-5 h-5" />
-                          </button>
-                          {isDesigner(userProfile) && (
-                            <button className="text-gray-400 hover:text-gray-600 transition-colors duration-200">
-                              <MoreHorizontal className="w-5 h-5" />
-                            </button>
-                          )}
-                        </div>
-                      </div>
-                    </div>
-                  </div>
-                </div>
-              </div>
-            ))}
-          </div>
-        )}
-
-        {/* Empty State */}
-        {filteredProjects.length === 0 && (
-          <div className="text-center py-12">
-            <div className="w-24 h-24 bg-gray-100 rounded-full flex items-center justify-center mx-auto mb-4">
-              <FolderOpen className="w-12 h-12 text-gray-400" />
-            </div>
-            <h3 className="text-lg font-medium text-gray-900 mb-2">No projects found</h3>
-            <p className="text-gray-500 mb-6">
-              {searchTerm || selectedCategory !== 'all' || selectedStatus !== 'all'
-                ? 'Try adjusting your search or filters'
-                : isDesigner(userProfile) 
-                  ? 'Create your first project to get started'
-                  : 'No projects available at the moment'
-              }
-            </p>
-            {isVerifiedDesigner(userProfile) && (
-              <button className="bg-gradient-to-r from-blue-600 to-indigo-600 text-white px-6 py-3 rounded-xl font-medium hover:from-blue-700 hover:to-indigo-700 transition-all duration-200 shadow-lg hover:shadow-xl transform hover:scale-105 flex items-center space-x-2 mx-auto">
-                <Plus className="w-5 h-5" />
-                <span>Create New Project</span>
-              </button>
-            )}
-          </div>
-        )}
-      </div>
-    </div>
-  );
-};
-
+import React, { useState, useCallback } from 'react';
+import {
+  FolderOpen, Plus, Search, Filter, Grid, List, Eye, Heart,
+  Calendar, ArrowUpRight, Download, Share2, Edit3,
+  Trash2, MoreHorizontal, Image, FileText, Play, Pause, Clock,
+  TrendingUp, Award, Bookmark, Tag, ChevronDown, X, AlertCircle
+} from 'lucide-react';
+import { useAuth } from '../hooks/useAuth';
+import { usePaginatedQuery, PageCursor } from '../hooks/usePaginatedQuery';
+import { ProjectService, Project } from '../services/projectService';
+import { isVerifiedDesigner, isDesigner, isServiceRequester } from '../types/user';
+import { RenditionSize, findImageRenditions, getRenditionUrl } from '../types/image';
+import ProjectImage from './ProjectImage';
+
+const getProjectKey = (project: Project) => project.id;
+
+// Grid cards load the card rendition and list rows the thumbnail
+const ProjectCover: React.FC<{ project: Project; size: RenditionSize; className: string }> = ({ project, size, className }) => {
+  const coverUrl = project.primaryImageUrl;
+  if (!coverUrl) return null;
+
+  const renditions = findImageRenditions(project.imageRenditions, coverUrl);
+  return (
+    <ProjectImage
+      src={getRenditionUrl(renditions, size, coverUrl)}
+      blurhash={renditions?.blurhash}
+      alt={project.title}
+      className={className}
+    />
+  );
+};
+
+const ProjectsPortfolio: React.FC = () => {
+  const { userProfile } = useAuth();
+  const [viewMode, setViewMode] = useState<'grid' | 'list'>('grid');
+  const [searchTerm, setSearchTerm] = useState('');
+  const [selectedCategory, setSelectedCategory] = useState('all');
+  const [selectedStatus, setSelectedStatus] = useState('all');
+  const [showFilters, setShowFilters] = useState(false);
+  const [sortBy, setSortBy] = useState('recent');
+
+  const uid = userProfile?.uid;
+  const showOwnProjects = isDesigner(userProfile);
+
+  // Designers page through their own packages; everyone else browses active packages
+  const fetchProjectsPage = useCallback(
+    (cursor: PageCursor) => {
+      if (!uid) return Promise.resolve({ items: [], cursor: null, hasMore: false });
+      return showOwnProjects
+        ? ProjectService.getProjectsByUser(uid, cursor)
+        : ProjectService.getActiveProjects(cursor);
+    },
+    [uid, showOwnProjects]
+  );
+  const {
+    items: projects,
+    loading,
+    loadingMore,
+    error,
+    hasMore,
+    sentinelRef
+  } = usePaginatedQuery(fetchProjectsPage, getProjectKey);
+
+  const categories = ['all', ...Array.from(new Set(projects.map(project => project.category)))];
+  const statuses = ['all', 'active', 'completed'];
+
+  // Filters and sorting apply to the pages loaded so far
+  const filteredProjects = projects.filter(project => {
+    const matchesSearch = project.title.toLowerCase().includes(searchTerm.toLowerCase()) ||
+                         project.description.toLowerCase().includes(searchTerm.toLowerCase()) ||
+                         project.customTags.some(tag => tag.toLowerCase().includes(searchTerm.toLowerCase()));
+    const matchesCategory = selectedCategory === 'all' || project.category === selectedCategory;
+    const matchesStatus = selectedStatus === 'all' || project.status === selectedStatus;
+    
+    return matchesSearch && matchesCategory && matchesStatus;
+  }).sort((a, b) => {
+    switch (sortBy) {
+      case 'popular': return b.viewCount - a.viewCount;
+      case 'alphabetical': return a.title.localeCompare(b.title);
+      case 'price': return a.price - b.price;
+      default: return b.createdAt.getTime() - a.createdAt.getTime();
+    }
+  });
+
+  const getStatusColor = (status: string) => {
+    switch (status) {
+      case 'active': return 'bg-blue-100 text-blue-800';
+      case 'completed': return 'bg-green-100 text-green-800';
+      case 'inactive': return 'bg-yellow-100 text-yellow-800';
+      default: return 'bg-gray-100 text-gray-800';
+    }
+  };
+
+  const getStatusIcon = (status: string) => {
+    switch (status) {
+      case 'active': return <Play className="w-3 h-3" />;
+      case 'completed': return <Award className="w-3 h-3" />;
+      case 'inactive': return <Pause className="w-3 h-3" />;
+      default: return <Edit3 className="w-3 h-3" />;
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-slate-50 via-blue-50 to-indigo-50">
+      {/* Header */}
+      <div className="bg-white shadow-sm border-b border-gray-200">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-6">
+          <div className="flex flex-col lg:flex-row lg:items-center lg:justify-between">
+            <div className="flex items-center space-x-4 mb-4 lg:mb-0">
+              <div className="w-12 h-12 bg-gradient-to-br from-blue-600 to-indigo-600 rounded-xl flex items-center justify-center shadow-lg">
+                <FolderOpen className="w-6 h-6 text-white" />
+              </div>
+              <div>
+                <h1 className="text-3xl font-bold text-gray-900">
+                  {isDesigner(userProfile) ? 'My Projects & Portfolio' : 'Browse Projects'}
+                </h1>
+                <p className="text-gray-600">
+                  {isDesigner(userProfile) 
+                    ? 'Manage your architectural projects and showcase your portfolio'
+                    : 'Explore amazing architectural projects and portfolios'
+                  }
+                </p>
+              </div>
+            </div>
+            
+            {isVerifiedDesigner(userProfile) && (
+              <button className="bg-gradient-to-r from-blue-600 to-indigo-600 text-white px-6 py-3 rounded-xl font-medium hover:from-blue-700 hover:to-indigo-700 transition-all duration-200 shadow-lg hover:shadow-xl transform hover:scale-105 flex items-center space-x-2">
+                <Plus className="w-5 h-5" />
+                <span>New Project</span>
+              </button>
+            )}
+          </div>
+        </div>
+      </div>
+
+      {/* Filters and Search */}
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-6">
+        <div className="bg-white rounded-2xl shadow-sm border border-gray-200 p-6 mb-8">
+          <div className="flex flex-col lg:flex-row lg:items-center lg:justify-between space-y-4 lg:space-y-0">
+            {/* Search */}
+            <div className="relative flex-1 max-w-md">
+              <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400 w-5 h-5" />
+              <input
+                type="text"
+                placeholder="Search projects..."
+                value={searchTerm}
+                onChange={(e) => setSearchTerm(e.target.value)}
+                className="w-full pl-10 pr-4 py-3 border border-gray-300 rounded-xl focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-all duration-200"
+              />
+            </div>
+
+            {/* Controls */}
+            <div className="flex items-center space-x-4">
+              {/* Filters Toggle */}
+              <button
+                onClick={() => setShowFilters(!showFilters)}
+                className={`flex items-center space-x-2 px-4 py-2 rounded-lg border transition-all duration-200 ${
+                  showFilters 
+                    ? 'bg-blue-50 border-blue-200 text-blue-700' 
+                    : 'bg-white border-gray-300 text-gray-700 hover:bg-gray-50'
+                }`}
+              >
+                <Filter className="w-4 h-4" />
+                <span>Filters</span>
+                <ChevronDown className={`w-4 h-4 transition-transform duration-200 ${showFilters ? 'rotate-180' : ''}`} />
+              </button>
+
+              {/* View Mode */}
+              <div className="flex items-center bg-gray-100 rounded-lg p-1">
+                <button
+                  onClick={() => setViewMode('grid')}
+                  className={`p-2 rounded-md transition-all duration-200 ${
+                    viewMode === 'grid' 
+                      ? 'bg-white text-blue-600 shadow-sm' 
+                      : 'text-gray-600 hover:text-gray-900'
+                  }`}
+                >
+                  <Grid className="w-4 h-4" />
+                </button>
+                <button
+                  onClick={() => setViewMode('list')}
+                  className={`p-2 rounded-md transition-all duration-200 ${
+                    viewMode === 'list' 
+                      ? 'bg-white text-blue-600 shadow-sm' 
+                      : 'text-gray-600 hover:text-gray-900'
+                  }`}
+                >
+                  <List className="w-4 h-4" />
+                </button>
+              </div>
+            </div>
+          </div>
+
+          {/* Expanded Filters */}
+          {showFilters && (
+            <div className="mt-6 pt-6 border-t border-gray-200">
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                {/* Category Filter */}
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">Category</label>
+                  <select
+                    value={selectedCategory}
+                    onChange={(e) => setSelectedCategory(e.target.value)}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                  >
+                    {categories.map(category => (
+                      <option key={category} value={category}>
+                        {category === 'all' ? 'All Categories' : category}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+
+                {/* Status Filter */}
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">Status</label>
+                  <select
+                    value={selectedStatus}
+                    onChange={(e) => setSelectedStatus(e.target.value)}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                  >
+                    {statuses.map(status => (
+                      <option key={status} value={status}>
+                        {status === 'all' ? 'All Statuses' : status.charAt(0).toUpperCase() + status.slice(1)}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+
+                {/* Sort By */}
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">Sort By</label>
+                  <select
+                    value={sortBy}
+                    onChange={(e) => setSortBy(e.target.value)}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                  >
+                    <option value="recent">Most Recent</option>
+                    <option value="popular">Most Popular</option>
+                    <option value="alphabetical">Alphabetical</option>
+                    <option value="price">Price</option>
+                  </select>
+                </div>
+              </div>
+            </div>
+          )}
+        </div>
+
+        {error && (
+          <div className="bg-red-50 border border-red-200 rounded-xl p-4 mb-6 flex items-center space-x-3">
+            <AlertCircle className="w-5 h-5 text-red-600 flex-shrink-0" />
+            <p className="text-sm text-red-700">{error}</p>
+          </div>
+        )}
+
+        {/* Projects Grid/List */}
+        {loading ? (
+          <div className="flex justify-center py-12">
+            <div className="w-12 h-12 border-4 border-blue-600 border-t-transparent rounded-full animate-spin"></div>
+          </div>
+        ) : viewMode === 'grid' ? (
+          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-8">
+            {filteredProjects.map((project) => (
+              <div key={project.id} className="bg-white rounded-2xl shadow-sm border border-gray-200 overflow-hidden hover:shadow-lg transition-all duration-300 transform hover:scale-105 group">
+                {/* Project Image */}
+                <div className="relative h-48 bg-gradient-to-br from-gray-100 to-gray-200">
+                  <ProjectCover project={project} size="card" className="w-full h-full" />
+                  <div className="absolute inset-0 bg-gradient-to-t from-black/20 to-transparent opacity-0 group-hover:opacity-100 transition-opacity duration-300"></div>
+                  <div className="absolute top-3 right-3 flex items-center space-x-2">
+                    <button className="w-8 h-8 bg-white/90 backdrop-blur-sm rounded-full flex items-center justify-center text-gray-600 hover:text-blue-500 transition-colors duration-200">
+                      <Share2 className="w-4 h-4" />
+                    </button>
+                  </div>
+                  <div className="absolute bottom-3 left-3 right-3 flex items-center justify-between text-white text-sm">
+                    <div className="flex items-center space-x-3">
+                      <div className="flex items-center space-x-1">
+                        <Eye className="w-4 h-4" />
+                        <span>{project.viewCount}</span>
+                      </div>
+                      <div className="flex items-center space-x-1">
+                        <Heart className="w-4 h-4" />
+                        <span>{project.favoriteCount}</span>
+                      </div>
+                    </div>
+                  </div>
+                </div>
+
+                {/* Project Content */}
+                <div className="p-6">
+                  <div className="flex items-start justify-between mb-3">
+                    <div className="flex-1">
+                      <h3 className="text-lg font-semibold text-gray-900 mb-1 group-hover:text-blue-600 transition-colors duration-200">
+                        {project.title}
+                      </h3>
+                      <p className="text-sm text-gray-600 line-clamp-2">{project.description}</p>
+                    </div>
+                    {isDesigner(userProfile) && (
+                      <button className="text-gray-400 hover:text-gray-600 transition-colors duration-200">
+                        <MoreHorizontal className="w-5 h-5" />
+                      </button>
+                    )}
+                  </div>
+
+                  {/* Status and Price */}
+                  <div className="flex items-center justify-between mb-4">
+                    <span className={`inline-flex items-center px-2.5 py-1 rounded-full text-xs font-medium ${getStatusColor(project.status)}`}>
+                      {getStatusIcon(project.status)}
+                      <span className="ml-1">{project.status.charAt(0).toUpperCase() + project.status.slice(1)}</span>
+                    </span>
+                    <span className="text-lg font-semibold text-gray-900">${project.price.toLocaleString()}</span>
+                  </div>
+
+                  {/* Project Details */}
+                  <div className="space-y-2 mb-4">
+                    <div className="flex items-center text-sm text-gray-600">
+                      <Tag className="w-4 h-4 mr-2" />
+                      <span>{project.category}</span>
+                    </div>
+                    <div className="flex items-center text-sm text-gray-600">
+                      <Clock className="w-4 h-4 mr-2" />
+                      <span>{project.deliveryTimeline}</span>
+                    </div>
+                    <div className="flex items-center text-sm text-gray-600">
+                      <Calendar className="w-4 h-4 mr-2" />
+                      <span>{project.createdAt.toLocaleDateString()}</span>
+                    </div>
+                  </div>
+
+                  {/* Tags */}
+                  <div className="flex flex-wrap gap-2 mb-4">
+                    {project.customTags.slice(0, 3).map((tag, index) => (
+                      <span key={index} className="inline-flex items-center px-2 py-1 rounded-md text-xs font-medium bg-blue-50 text-blue-700">
+                        <Tag className="w-3 h-3 mr-1" />
+                        {tag}
+                      </span>
+                    ))}
+                    {project.customTags.length > 3 && (
+                      <span className="inline-flex items-center px-2 py-1 rounded-md text-xs font-medium bg-gray-100 text-gray-600">
+                        +{project.customTags.length - 3} more
+                      </span>
+                    )}
+                  </div>
+
+                  {/* Action Button */}
+                  <button className="w-full bg-gradient-to-r from-blue-50 to-indigo-50 text-blue-700 py-2.5 px-4 rounded-lg font-medium hover:from-blue-100 hover:to-indigo-100 transition-all duration-200 flex items-center justify-center space-x-2 group">
+                    <span>View Details</span>
+                    <ArrowUpRight className="w-4 h-4 group-hover:translate-x-1 group-hover:-translate-y-1 transition-transform duration-200" />
+                  </button>
+                </div>
+              </div>
+            ))}
+          </div>
+        ) : (
+          /* List View */
+          <div className="space-y-4">
+            {filteredProjects.map((project) => (
+              <div key={project.id} className="bg-white rounded-xl shadow-sm border border-gray-200 p-6 hover:shadow-md transition-all duration-200">
+                <div className="flex items-center space-x-6">
+                  {/* Project Thumbnail */}
+                  <div className="w-24 h-24 bg-gradient-to-br from-gray-100 to-gray-200 rounded-lg flex-shrink-0 relative">
+                    <ProjectCover project={project} size="thumbnail" className="w-full h-full rounded-lg" />
+                  </div>
+
+                  {/* Project Info */}
+                  <div className="flex-1 min-w-0">
+                    <div className="flex items-start justify-between">
+                      <div className="flex-1">
+                        <h3 className="text-lg font-semibold text-gray-900 mb-1">{project.title}</h3>
+                        <p className="text-gray-600 text-sm mb-2 line-clamp-1">{project.description}</p>
+                        <div className="flex items-center space-x-4 text-sm text-gray-500">
+                          <span className="flex items-center">
+                            <Tag className="w-4 h-4 mr-1" />
+                            {project.category}
+                          </span>
+                          <span className="flex items-center">
+                            <Clock className="w-4 h-4 mr-1" />
+                            {project.deliveryTimeline}
+                          </span>
+                          <span className="flex items-center">
+                            <Calendar className="w-4 h-4 mr-1" />
+                            {project.createdAt.toLocaleDateString()}
+                          </span>
+                          <span className="font-medium text-gray-900">${project.price.toLocaleString()}</span>
+                        </div>
+                      </div>
+
+                      {/* Status and Actions */}
+                      <div className="flex items-center space-x-4">
+                        <span className={`inline-flex items-center px-2.5 py-1 rounded-full text-xs font-medium ${getStatusColor(project.status)}`}>
+                          {getStatusIcon(project.status)}
+                          <span className="ml-1">{project.status.charAt(0).toUpperCase() + project.status.slice(1)}</span>
+                        </span>
+                        
+                        <div className="flex items-center space-x-2">
+                          <button className="text-gray-400 hover:text-blue-500 transition-colors duration-200">
+                            <Share2 className="w-5 h-5" />
+                          </button>
+                          {isDesigner(userProfile) && (
+                            <button className="text-gray-400 hover:text-gray-600 transition-colors duration-200">
+                              <MoreHorizontal className="w-5 h-5" />
+                            </button>
+                          )}
+                        </div>
+                      </div>
+                    </div>
+                  </div>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+
+        {hasMore && !loading && (
+          <div ref={sentinelRef} className="flex justify-center py-8">
+            {loadingMore && (
+              <div className="w-8 h-8 border-4 border-blue-600 border-t-transparent rounded-full animate-spin"></div>
+            )}
+          </div>
+        )}
+
+        {/* Empty State */}
+        {!loading && filteredProjects.length === 0 && (
+          <div className="text-center py-12">
+            <div className="w-24 h-24 bg-gray-100 rounded-full flex items-center justify-center mx-auto mb-4">
+              <FolderOpen className="w-12 h-12 text-gray-400" />
+            </div>
+            <h3 className="text-lg font-medium text-gray-900 mb-2">No projects found</h3>
+            <p className="text-gray-500 mb-6">
+              {searchTerm || selectedCategory !== 'all' || selectedStatus !== 'all'
+                ? 'Try adjusting your search or filters'
+                : isDesigner(userProfile) 
+                  ? 'Create your first project to get started'
+                  : 'No projects available at the moment'
+              }
+            </p>
+            {isVerifiedDesigner(userProfile) && (
+              <button className="bg-gradient-to-r from-blue-600 to-indigo-600 text-white px-6 py-3 rounded-xl font-medium hover:from-blue-700 hover:to-indigo-700 transition-all duration-200 shadow-lg hover:shadow-xl transform hover:scale-105 flex items-center space-x-2 mx-auto">
+                <Plus className="w-5 h-5" />
+                <span>Create New Project</span>
+              </button>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
 export default ProjectsPortfolio;
\ No newline at end of file
@@ -0,0 +1,230 @@
+/**
+ * Proposals Modal Component
+ *
+ * Lets a service requester compare the proposals received for one of
+ * their requests, shortlist the promising ones and accept or decline them.
+ */
+
+import React, { useState, useEffect } from 'react';
+import { Users, X, Star, Bookmark, CheckCircle, XCircle, RefreshCw, Clock, AlertCircle } from 'lucide-react';
+import { useAuth } from '../hooks/useAuth';
+import { ProposalService } from '../services/proposalService';
+import { Proposal, PROPOSAL_STATUS_LABELS, isOpenProposal } from '../types/proposal';
+import { ProjectRequest } from '../types/projectRequest';
+
+interface ProposalsModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  request: ProjectRequest | null;
+  onProposalAccepted: (proposal: Proposal) => void;
+}
+
+const ProposalsModal: React.FC<ProposalsModalProps> = ({ isOpen, onClose, request, onProposalAccepted }) => {
+  const { userProfile } = useAuth();
+  const [proposals, setProposals] = useState<Proposal[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [showShortlistOnly, setShowShortlistOnly] = useState(false);
+  const [actionInProgress, setActionInProgress] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!isOpen || !request) return;
+
+    const loadProposals = async () => {
+      setLoading(true);
+      setError(null);
+      try {
+        setProposals(await ProposalService.getProposalsForRequest(request.id, request.requesterId));
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'Failed to load proposals');
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    loadProposals();
+  }, [isOpen, request]);
+
+  const runAction = async (proposal: Proposal, action: () => Promise<void>, nextStatus: Proposal['status']) => {
+    setActionInProgress(proposal.id);
+    setError(null);
+    try {
+      await action();
+      setProposals(prev => prev.map(p => {
+        if (p.id === proposal.id) return { ...p, status: nextStatus };
+        // Accepting one proposal declines every other open one
+        if (nextStatus === 'accepted' && isOpenProposal(p)) return { ...p, status: 'declined' };
+        return p;
+      }));
+      if (nextStatus === 'accepted') {
+        onProposalAccepted({ ...proposal, status: 'accepted' });
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to update proposal');
+    } finally {
+      setActionInProgress(null);
+    }
+  };
+
+  const handleShortlist = (proposal: Proposal) => {
+    if (!userProfile) return;
+    const shortlisted = proposal.status !== 'shortlisted';
+    runAction(
+      proposal,
+      () => ProposalService.setShortlisted(proposal.id, userProfile.uid, shortlisted),
+      shortlisted ? 'shortlisted' : 'submitted'
+    );
+  };
+
+  const handleAccept = (proposal: Proposal) => {
+    if (!userProfile) return;
+    if (!window.confirm(`Accept ${proposal.designerName}'s proposal? All other proposals will be declined.`)) return;
+    runAction(proposal, () => ProposalService.acceptProposal(proposal.id, userProfile.uid), 'accepted');
+  };
+
+  const handleDecline = (proposal: Proposal) => {
+    if (!userProfile) return;
+    runAction(proposal, () => ProposalService.declineProposal(proposal.id, userProfile.uid), 'declined');
+  };
+
+  const getStatusColor = (status: Proposal['status']) => {
+    switch (status) {
+      case 'shortlisted': return 'bg-yellow-100 text-yellow-800';
+      case 'accepted': return 'bg-green-100 text-green-800';
+      case 'declined': return 'bg-red-100 text-red-800';
+      case 'withdrawn': return 'bg-gray-100 text-gray-500';
+      default: return 'bg-blue-100 text-blue-800';
+    }
+  };
+
+  if (!isOpen || !request) return null;
+
+  const visibleProposals = proposals.filter(p =>
+    p.status !== 'withdrawn' && (!showShortlistOnly || p.status === 'shortlisted' || p.status === 'accepted')
+  );
+  const canDecide = request.status === 'active';
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+      <div className="bg-white rounded-xl w-full max-w-5xl max-h-[90vh] overflow-y-auto shadow-2xl">
+        <div className="sticky top-0 bg-white border-b border-gray-200 px-6 py-4 rounded-t-xl">
+          <div className="flex justify-between items-center">
+            <div>
+              <h2 className="text-xl font-bold text-gray-900 flex items-center">
+                <Users className="w-6 h-6 mr-2 text-green-600" />
+                Proposals
+              </h2>
+              <p className="text-sm text-gray-600 mt-1">{request.title}</p>
+            </div>
+            <div className="flex items-center space-x-4">
+              <label className="flex items-center text-sm text-gray-700 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={showShortlistOnly}
+                  onChange={(e) => setShowShortlistOnly(e.target.checked)}
+                  className="w-4 h-4 text-green-600 bg-white border-gray-300 rounded focus:ring-green-500 mr-2"
+                />
+                Shortlist only
+              </label>
+              <button
+                onClick={onClose}
+                className="text-gray-400 hover:text-gray-600 transition-colors"
+                aria-label="Close modal"
+              >
+                <X className="w-6 h-6" />
+              </button>
+            </div>
+          </div>
+        </div>
+
+        <div className="p-6">
+          {error && (
+            <div className="bg-red-50 border border-red-200 rounded-lg p-4 mb-4 flex items-center space-x-3">
+              <AlertCircle className="w-5 h-5 text-red-600 flex-shrink-0" />
+              <p className="text-sm text-red-700">{error}</p>
+            </div>
+          )}
+
+          {loading ? (
+            <div className="flex justify-center py-12">
+              <RefreshCw className="w-8 h-8 text-green-600 animate-spin" />
+            </div>
+          ) : visibleProposals.length === 0 ? (
+            <div className="text-center py-12 text-gray-500">
+              {showShortlistOnly ? 'No shortlisted proposals yet' : 'No proposals received yet'}
+            </div>
+          ) : (
+            <div className="space-y-4">
+              {visibleProposals.map(proposal => (
+                <div key={proposal.id} className="border border-gray-200 rounded-xl p-5">
+                  <div className="flex items-start justify-between mb-3">
+                    <div className="flex items-center space-x-3">
+                      <div className="w-10 h-10 bg-gradient-to-br from-gray-100 to-gray-200 rounded-full flex-shrink-0"></div>
+                      <div>
+                        <p className="font-medium text-gray-900">{proposal.designerName}</p>
+                        <div className="flex items-center text-xs text-gray-600">
+                          <Star className="w-3 h-3 text-yellow-400 fill-current mr-1" />
+                          <span>{proposal.designerRating || 'New'}</span>
+                        </div>
+                      </div>
+                    </div>
+                    <div className="text-right">
+                      <div className="text-lg font-bold text-gray-900">${proposal.price.toLocaleString()}</div>
+                      <div className="flex items-center justify-end text-xs text-gray-600">
+                        <Clock className="w-3 h-3 mr-1" />
+                        {proposal.timeline}
+                      </div>
+                    </div>
+                  </div>
+
+                  <p className="text-sm text-gray-700 whitespace-pre-line mb-4">{proposal.coverLetter}</p>
+
+                  <div className="flex items-center justify-between">
+                    <span className={`inline-flex items-center px-2.5 py-1 rounded-full text-xs font-medium ${getStatusColor(proposal.status)}`}>
+                      {PROPOSAL_STATUS_LABELS[proposal.status]}
+                    </span>
+
+                    {canDecide && isOpenProposal(proposal) && (
+                      <div className="flex items-center space-x-2">
+                        <button
+                          onClick={() => handleShortlist(proposal)}
+                          disabled={actionInProgress === proposal.id}
+                          className={`px-3 py-1.5 rounded-lg text-sm flex items-center space-x-1 border transition-colors disabled:opacity-50 ${
+                            proposal.status === 'shortlisted'
+                              ? 'bg-yellow-50 border-yellow-200 text-yellow-700'
+                              : 'bg-white border-gray-300 text-gray-700 hover:bg-gray-50'
+                          }`}
+                        >
+                          <Bookmark className="w-4 h-4" />
+                          <span>{proposal.status === 'shortlisted' ? 'Shortlisted' : 'Shortlist'}</span>
+                        </button>
+                        <button
+                          onClick={() => handleDecline(proposal)}
+                          disabled={actionInProgress === proposal.id}
+                          className="px-3 py-1.5 rounded-lg text-sm flex items-center space-x-1 bg-white border border-gray-300 text-red-600 hover:bg-red-50 transition-colors disabled:opacity-50"
+                        >
+                          <XCircle className="w-4 h-4" />
+                          <span>Decline</span>
+                        </button>
+                        <button
+                          onClick={() => handleAccept(proposal)}
+                          disabled={actionInProgress === proposal.id}
+                          className="px-3 py-1.5 rounded-lg text-sm flex items-center space-x-1 bg-green-600 text-white hover:bg-green-700 transition-colors disabled:opacity-50"
+                        >
+                          <CheckCircle className="w-4 h-4" />
+                          <span>Accept</span>
+                        </button>
+                      </div>
+                    )}
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ProposalsModal;
@@ -0,0 +1,162 @@
+/**
+ * Resubmission Diff Modal Component
+ *
+ * Shows reviewers what a designer changed since the submission
+ * they resubmitted, field by field and document by document.
+ */
+
+import React, { useEffect, useState } from 'react';
+import { GitCompare, X, RefreshCw, FileText, ExternalLink } from 'lucide-react';
+import {
+  VerificationProcess,
+  SubmissionDiff,
+  VERIFICATION_FIELD_LABELS,
+  DOCUMENT_TYPE_LABELS
+} from '../types/verification-management';
+import VerificationManagementService from '../services/verificationManagementService';
+
+interface ResubmissionDiffModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  process: VerificationProcess | null;
+}
+
+const DOCUMENT_CHANGE_LABELS = {
+  added: 'Added',
+  removed: 'Removed',
+  replaced: 'Replaced'
+} as const;
+
+const ResubmissionDiffModal: React.FC<ResubmissionDiffModalProps> = ({
+  isOpen,
+  onClose,
+  process
+}) => {
+  const [diff, setDiff] = useState<SubmissionDiff | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!isOpen || !process) return;
+
+    let cancelled = false;
+    setLoading(true);
+    setError(null);
+    VerificationManagementService.getResubmissionDiff(process.id).then(response => {
+      if (cancelled) return;
+      if (response.success) {
+        setDiff(response.data);
+      } else {
+        setError(response.error || 'Failed to compare submissions');
+      }
+      setLoading(false);
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [isOpen, process]);
+
+  if (!isOpen || !process) return null;
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+      <div className="bg-white rounded-xl w-full max-w-4xl max-h-[90vh] overflow-y-auto shadow-2xl">
+        <div className="sticky top-0 bg-white border-b border-gray-200 px-6 py-4 rounded-t-xl">
+          <div className="flex justify-between items-center">
+            <div>
+              <h2 className="text-xl font-bold text-gray-900 flex items-center">
+                <GitCompare className="w-6 h-6 mr-2 text-purple-600" />
+                Changes Since Previous Submission
+              </h2>
+              <p className="text-sm text-gray-500 mt-1">
+                {process.request.fullName} • resubmission {process.resubmissionCount}
+                {diff && ` • previous request ${diff.previousStatus.replace(/_/g, ' ')}`}
+              </p>
+            </div>
+            <button
+              onClick={onClose}
+              className="text-gray-400 hover:text-gray-600 transition-colors"
+              aria-label="Close modal"
+            >
+              <X className="w-6 h-6" />
+            </button>
+          </div>
+        </div>
+
+        <div className="p-6 space-y-6">
+          {loading ? (
+            <div className="flex items-center justify-center py-12 text-gray-500">
+              <RefreshCw className="w-5 h-5 mr-2 animate-spin" />
+              Comparing submissions...
+            </div>
+          ) : error ? (
+            <div className="bg-red-50 border border-red-200 rounded-lg p-4 text-red-700">{error}</div>
+          ) : !diff ? (
+            <p className="text-gray-500">This is the designer's first submission.</p>
+          ) : (
+            <>
+              {/* Field Changes */}
+              <div>
+                <h3 className="font-medium text-gray-900 mb-3">Fields</h3>
+                {diff.fields.length === 0 ? (
+                  <p className="text-sm text-gray-500">No fields changed.</p>
+                ) : (
+                  <div className="border border-gray-200 rounded-lg divide-y divide-gray-200">
+                    {diff.fields.map(change => (
+                      <div key={change.field} className="grid grid-cols-3 gap-4 p-3 text-sm">
+                        <span className="font-medium text-gray-700">{VERIFICATION_FIELD_LABELS[change.field]}</span>
+                        <span className="text-red-700 bg-red-50 rounded px-2 py-1 line-through whitespace-pre-wrap break-words">
+                          {change.previous || '—'}
+                        </span>
+                        <span className="text-green-800 bg-green-50 rounded px-2 py-1 whitespace-pre-wrap break-words">
+                          {change.current || '—'}
+                        </span>
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </div>
+
+              {/* Document Changes */}
+              <div>
+                <h3 className="font-medium text-gray-900 mb-3">Documents</h3>
+                {diff.documents.length === 0 ? (
+                  <p className="text-sm text-gray-500">The same documents were submitted again.</p>
+                ) : (
+                  <div className="space-y-2">
+                    {diff.documents.map(change => (
+                      <div key={change.type} className="flex items-center justify-between border border-gray-200 rounded-lg p-3 text-sm">
+                        <div className="flex items-center">
+                          <FileText className="w-4 h-4 mr-2 text-gray-400" />
+                          <span className="font-medium text-gray-700">{DOCUMENT_TYPE_LABELS[change.type]}</span>
+                          <span className="ml-2 px-2 py-0.5 rounded-full bg-purple-100 text-purple-800 text-xs">
+                            {DOCUMENT_CHANGE_LABELS[change.change]}
+                          </span>
+                        </div>
+                        <div className="flex items-center space-x-4">
+                          {change.previous && (
+                            <a href={change.previous.url} target="_blank" rel="noopener noreferrer" className="inline-flex items-center text-gray-500 hover:text-gray-700">
+                              Previous <ExternalLink className="w-3 h-3 ml-1" />
+                            </a>
+                          )}
+                          {change.current && (
+                            <a href={change.current.url} target="_blank" rel="noopener noreferrer" className="inline-flex items-center text-blue-600 hover:text-blue-800">
+                              Current <ExternalLink className="w-3 h-3 ml-1" />
+                            </a>
+                          )}
+                        </div>
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </div>
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ResubmissionDiffModal;
\ No newline at end of file
@@ -0,0 +1,170 @@
+/**
+ * Review Modal Component
+ *
+ * Lets a requester rate the designer of a completed project on each
+ * review criterion and leave a written comment.
+ */
+
+import React, { useState } from 'react';
+import { Star, X, RefreshCw, Send } from 'lucide-react';
+import { useAuth } from '../hooks/useAuth';
+import { ReviewService } from '../services/reviewService';
+import {
+  CreateReviewData,
+  Review,
+  MAX_REVIEW_SCORE,
+  MIN_REVIEW_COMMENT_LENGTH,
+  MAX_REVIEW_COMMENT_LENGTH,
+  REVIEW_CRITERIA,
+  REVIEW_CRITERION_LABELS,
+  emptyReviewScores
+} from '../types/review';
+import { ProjectRequest } from '../types/projectRequest';
+
+interface ReviewModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  request: ProjectRequest | null;
+  onReviewSubmitted: (review: Review) => void;
+}
+
+const ReviewModal: React.FC<ReviewModalProps> = ({ isOpen, onClose, request, onReviewSubmitted }) => {
+  const { userProfile } = useAuth();
+  const [formData, setFormData] = useState<CreateReviewData>({ scores: emptyReviewScores(), comment: '' });
+  const [errors, setErrors] = useState<string[]>([]);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!request || !userProfile) return;
+
+    const validationErrors = ReviewService.validateReview(formData);
+    if (validationErrors.length > 0) {
+      setErrors(validationErrors);
+      return;
+    }
+
+    setIsSubmitting(true);
+    setErrors([]);
+    try {
+      const review = await ReviewService.createReview(request.id, userProfile, formData);
+      onReviewSubmitted(review);
+      setFormData({ scores: emptyReviewScores(), comment: '' });
+      onClose();
+    } catch (error) {
+      setErrors([error instanceof Error ? error.message : 'Failed to submit review']);
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  if (!isOpen || !request) return null;
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+      <div className="bg-white rounded-xl w-full max-w-2xl max-h-[90vh] overflow-y-auto shadow-2xl">
+        <div className="sticky top-0 bg-white border-b border-gray-200 px-6 py-4 rounded-t-xl">
+          <div className="flex justify-between items-center">
+            <div>
+              <h2 className="text-xl font-bold text-gray-900 flex items-center">
+                <Star className="w-6 h-6 mr-2 text-green-600" />
+                Review Designer
+              </h2>
+              <p className="text-sm text-gray-600 mt-1">
+                {request.assignedDesigner?.name} • {request.title}
+              </p>
+            </div>
+            <button
+              onClick={onClose}
+              className="text-gray-400 hover:text-gray-600 transition-colors"
+              aria-label="Close modal"
+            >
+              <X className="w-6 h-6" />
+            </button>
+          </div>
+        </div>
+
+        <form onSubmit={handleSubmit} className="p-6 space-y-6">
+          {errors.length > 0 && (
+            <div className="bg-red-50 border border-red-200 rounded-lg p-4">
+              <ul className="list-disc list-inside text-sm text-red-700 space-y-1">
+                {errors.map(error => <li key={error}>{error}</li>)}
+              </ul>
+            </div>
+          )}
+
+          <div className="space-y-3">
+            {REVIEW_CRITERIA.map(criterion => (
+              <div key={criterion} className="flex items-center justify-between">
+                <span className="text-sm font-medium text-gray-700">{REVIEW_CRITERION_LABELS[criterion]} *</span>
+                <div className="flex items-center space-x-1">
+                  {Array.from({ length: MAX_REVIEW_SCORE }, (_, index) => index + 1).map(score => (
+                    <button
+                      key={score}
+                      type="button"
+                      onClick={() => setFormData(prev => ({ ...prev, scores: { ...prev.scores, [criterion]: score } }))}
+                      className="p-0.5"
+                      aria-label={`${REVIEW_CRITERION_LABELS[criterion]}: ${score} of ${MAX_REVIEW_SCORE}`}
+                    >
+                      <Star
+                        className={`w-6 h-6 transition-colors ${
+                          score <= formData.scores[criterion] ? 'text-yellow-400 fill-current' : 'text-gray-300 hover:text-yellow-300'
+                        }`}
+                      />
+                    </button>
+                  ))}
+                </div>
+              </div>
+            ))}
+          </div>
+
+          <div>
+            <label htmlFor="reviewComment" className="block text-sm font-medium text-gray-700 mb-2">Comment *</label>
+            <textarea
+              id="reviewComment"
+              value={formData.comment}
+              onChange={(e) => setFormData(prev => ({ ...prev, comment: e.target.value }))}
+              rows={6}
+              maxLength={MAX_REVIEW_COMMENT_LENGTH}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-green-500 focus:border-transparent"
+              placeholder="How was working with this designer? Other clients will see your review."
+            />
+            <p className="mt-1 text-xs text-gray-500">
+              {formData.comment.trim().length}/{MIN_REVIEW_COMMENT_LENGTH} characters minimum
+            </p>
+          </div>
+
+          {/* Actions */}
+          <div className="flex justify-end space-x-3 pt-4 border-t border-gray-200">
+            <button
+              type="button"
+              onClick={onClose}
+              className="px-4 py-2 text-gray-700 bg-white border border-gray-300 rounded-lg hover:bg-gray-50 transition-colors"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              disabled={isSubmitting}
+              className="px-6 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors flex items-center"
+            >
+              {isSubmitting ? (
+                <>
+                  <RefreshCw className="w-4 h-4 mr-2 animate-spin" />
+                  Submitting...
+                </>
+              ) : (
+                <>
+                  <Send className="w-4 h-4 mr-2" />
+                  Submit Review
+                </>
+              )}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+};
+
+export default ReviewModal;
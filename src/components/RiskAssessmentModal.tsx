@@ -0,0 +1,145 @@
+/**
+ * Risk Assessment Modal Component
+ *
+ * Explains a verification process's risk score: each signal that
+ * applied, the points it added and why.
+ */
+
+import React, { useEffect, useState } from 'react';
+import { Shield, X, RefreshCw, AlertCircle } from 'lucide-react';
+import {
+  VerificationProcess,
+  RiskAssessment,
+  RiskLevel,
+  RISK_SIGNALS
+} from '../types/verification-management';
+import VerificationManagementService from '../services/verificationManagementService';
+
+interface RiskAssessmentModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  process: VerificationProcess | null;
+}
+
+const LEVEL_STYLES: Record<RiskLevel, string> = {
+  [RiskLevel.LOW]: 'bg-green-100 text-green-800',
+  [RiskLevel.MEDIUM]: 'bg-yellow-100 text-yellow-800',
+  [RiskLevel.HIGH]: 'bg-orange-100 text-orange-800',
+  [RiskLevel.CRITICAL]: 'bg-red-100 text-red-800'
+};
+
+const RiskAssessmentModal: React.FC<RiskAssessmentModalProps> = ({
+  isOpen,
+  onClose,
+  process
+}) => {
+  const [assessment, setAssessment] = useState<RiskAssessment | null>(null);
+  const [isAssessing, setIsAssessing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    setAssessment(process?.riskAssessment || null);
+    setError(null);
+  }, [process]);
+
+  if (!isOpen || !process || !assessment) return null;
+
+  const handleReassess = async () => {
+    setIsAssessing(true);
+    setError(null);
+    const response = await VerificationManagementService.assessProcessRisk(process.id);
+    if (response.success) {
+      setAssessment(response.data.riskAssessment);
+    } else {
+      setError(response.error || 'Failed to assess risk');
+    }
+    setIsAssessing(false);
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+      <div className="bg-white rounded-xl w-full max-w-2xl max-h-[90vh] overflow-y-auto shadow-2xl">
+        <div className="sticky top-0 bg-white border-b border-gray-200 px-6 py-4 rounded-t-xl">
+          <div className="flex justify-between items-center">
+            <div>
+              <h2 className="text-xl font-bold text-gray-900 flex items-center">
+                <Shield className="w-6 h-6 mr-2 text-blue-600" />
+                Risk Assessment
+              </h2>
+              <p className="text-sm text-gray-500 mt-1">
+                {process.request.fullName} • {assessment.assessedBy
+                  ? `assessed ${assessment.lastUpdated.toLocaleString()}`
+                  : 'not assessed yet'}
+              </p>
+            </div>
+            <button
+              onClick={onClose}
+              className="text-gray-400 hover:text-gray-600 transition-colors"
+              aria-label="Close modal"
+            >
+              <X className="w-6 h-6" />
+            </button>
+          </div>
+        </div>
+
+        <div className="p-6 space-y-6">
+          {/* Score */}
+          <div className="flex items-center justify-between">
+            <div className="flex items-center space-x-3">
+              <span className="text-3xl font-bold text-gray-900">{assessment.score}</span>
+              <span className="text-sm text-gray-500">/ 100</span>
+              <span className={`px-2.5 py-0.5 rounded-full text-xs font-medium capitalize ${LEVEL_STYLES[assessment.level]}`}>
+                {assessment.level} risk
+              </span>
+            </div>
+            <button
+              onClick={handleReassess}
+              disabled={isAssessing}
+              className="inline-flex items-center px-3 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-lg hover:bg-gray-50 disabled:opacity-50 transition-colors"
+            >
+              <RefreshCw className={`w-4 h-4 mr-2 ${isAssessing ? 'animate-spin' : ''}`} />
+              Reassess
+            </button>
+          </div>
+
+          {error && (
+            <div className="bg-red-50 border border-red-200 rounded-lg p-4 text-red-700 text-sm">{error}</div>
+          )}
+
+          {/* Factors */}
+          <div>
+            <h3 className="font-medium text-gray-900 mb-3">Factors</h3>
+            {assessment.factors.length === 0 ? (
+              <p className="text-sm text-gray-500">No risk signals were found.</p>
+            ) : (
+              <div className="border border-gray-200 rounded-lg divide-y divide-gray-200">
+                {assessment.factors.map(factor => (
+                  <div key={factor.signal} className="flex items-start justify-between p-3 text-sm">
+                    <div className="flex items-start">
+                      <AlertCircle className="w-4 h-4 mr-2 mt-0.5 text-orange-500 flex-shrink-0" />
+                      <div>
+                        <div className="font-medium text-gray-900">{RISK_SIGNALS[factor.signal]?.label || factor.signal}</div>
+                        <div className="text-gray-600">{factor.explanation}</div>
+                        <div className="text-xs text-gray-400 mt-1">{factor.category}</div>
+                      </div>
+                    </div>
+                    <span className="ml-4 font-semibold text-gray-900">+{factor.weight}</span>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+
+          {assessment.notes && (
+            <div>
+              <h3 className="font-medium text-gray-900 mb-1">Notes</h3>
+              <p className="text-sm text-gray-600 whitespace-pre-wrap">{assessment.notes}</p>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default RiskAssessmentModal;
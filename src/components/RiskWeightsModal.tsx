@@ -0,0 +1,159 @@
+/**
+ * Risk Weights Modal Component
+ *
+ * Lets admins tune how many points each risk signal adds to a
+ * verification's risk score, then rescores the open processes.
+ */
+
+import React, { useEffect, useState } from 'react';
+import { Settings, X, RefreshCw, Save, RotateCcw } from 'lucide-react';
+import { RiskScoringService } from '../services/riskScoringService';
+import VerificationManagementService from '../services/verificationManagementService';
+import {
+  RiskSignal,
+  RiskWeights,
+  DEFAULT_RISK_WEIGHTS,
+  MAX_RISK_WEIGHT,
+  RISK_SIGNALS
+} from '../types/verification-management';
+
+interface RiskWeightsModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+const RiskWeightsModal: React.FC<RiskWeightsModalProps> = ({ isOpen, onClose }) => {
+  const [weights, setWeights] = useState<RiskWeights | null>(null);
+  const [errors, setErrors] = useState<string[]>([]);
+  const [message, setMessage] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    if (!isOpen) return;
+
+    setErrors([]);
+    setMessage(null);
+    RiskScoringService.getWeights()
+      .then(setWeights)
+      .catch(error => setErrors([error instanceof Error ? error.message : 'Failed to load risk weights']));
+  }, [isOpen]);
+
+  if (!isOpen) return null;
+
+  const handleSave = async () => {
+    if (!weights) return;
+
+    const validationErrors = RiskScoringService.validateWeights(weights);
+    if (validationErrors.length > 0) {
+      setErrors(validationErrors);
+      return;
+    }
+
+    setIsSaving(true);
+    setErrors([]);
+    setMessage(null);
+    try {
+      await RiskScoringService.updateWeights(weights);
+      const response = await VerificationManagementService.assessOpenProcesses();
+      if (response.success) {
+        setMessage(`Weights saved. ${response.data.successful.length} open verifications were rescored.`);
+      } else {
+        setErrors([response.error || 'Weights saved, but open verifications could not be rescored']);
+      }
+    } catch (error) {
+      setErrors([error instanceof Error ? error.message : 'Failed to save risk weights']);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+      <div className="bg-white rounded-xl w-full max-w-2xl max-h-[90vh] overflow-y-auto shadow-2xl">
+        <div className="sticky top-0 bg-white border-b border-gray-200 px-6 py-4 rounded-t-xl">
+          <div className="flex justify-between items-center">
+            <div>
+              <h2 className="text-xl font-bold text-gray-900 flex items-center">
+                <Settings className="w-6 h-6 mr-2 text-blue-600" />
+                Risk Weights
+              </h2>
+              <p className="text-sm text-gray-500 mt-1">
+                Points each signal adds to a risk score, from 0 (ignored) to {MAX_RISK_WEIGHT}. Scores are capped at 100.
+              </p>
+            </div>
+            <button
+              onClick={onClose}
+              className="text-gray-400 hover:text-gray-600 transition-colors"
+              aria-label="Close modal"
+            >
+              <X className="w-6 h-6" />
+            </button>
+          </div>
+        </div>
+
+        <div className="p-6 space-y-4">
+          {errors.length > 0 && (
+            <div className="bg-red-50 border border-red-200 rounded-lg p-4 text-red-700 text-sm space-y-1">
+              {errors.map(error => <p key={error}>{error}</p>)}
+            </div>
+          )}
+          {message && (
+            <div className="bg-green-50 border border-green-200 rounded-lg p-4 text-green-700 text-sm">{message}</div>
+          )}
+
+          {!weights ? (
+            <div className="flex items-center justify-center py-12 text-gray-500">
+              <RefreshCw className="w-5 h-5 mr-2 animate-spin" />
+              Loading weights...
+            </div>
+          ) : (
+            <div className="border border-gray-200 rounded-lg divide-y divide-gray-200">
+              {(Object.keys(RISK_SIGNALS) as RiskSignal[]).map(signal => (
+                <div key={signal} className="flex items-center justify-between p-3">
+                  <label htmlFor={`weight-${signal}`} className="text-sm">
+                    <span className="block font-medium text-gray-900">{RISK_SIGNALS[signal].label}</span>
+                    <span className="block text-gray-500">{RISK_SIGNALS[signal].description}</span>
+                  </label>
+                  <input
+                    id={`weight-${signal}`}
+                    type="number"
+                    min={0}
+                    max={MAX_RISK_WEIGHT}
+                    step={1}
+                    value={weights[signal]}
+                    onChange={(e) => setWeights(prev => prev && { ...prev, [signal]: Number(e.target.value) })}
+                    className="ml-4 w-20 px-3 py-2 border border-gray-300 rounded-lg text-right focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                  />
+                </div>
+              ))}
+            </div>
+          )}
+
+          <div className="flex justify-between pt-4 border-t border-gray-200">
+            <button
+              onClick={() => setWeights({ ...DEFAULT_RISK_WEIGHTS })}
+              className="inline-flex items-center px-4 py-2 text-gray-700 bg-gray-100 rounded-lg hover:bg-gray-200 transition-colors"
+            >
+              <RotateCcw className="w-4 h-4 mr-2" />
+              Reset to Defaults
+            </button>
+            <button
+              onClick={handleSave}
+              disabled={isSaving || !weights}
+              className="inline-flex items-center px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+            >
+              {isSaving ? (
+                <RefreshCw className="w-4 h-4 mr-2 animate-spin" />
+              ) : (
+                <Save className="w-4 h-4 mr-2" />
+              )}
+              {isSaving ? 'Saving...' : 'Save and Rescore'}
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default RiskWeightsModal;
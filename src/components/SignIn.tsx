@@ -1,12 +1,8 @@
 import React, { useState } from 'react';
 import { Eye, EyeOff, Mail, Lock, Building, Chrome, Facebook, Compass, PenTool, ArrowRight, X } from 'lucide-react';
 import { useAuth } from '../hooks/useAuth';
-
-interface FormData {
-  email: string;
-  password: string;
-  rememberMe: boolean;
-}
+import { SignInFormData } from '../types/user';
+import { validate, FieldErrors, signInSchema } from '../utils/validation';
 
 interface SignInProps {
   onSwitchToSignUp: () => void;
@@ -18,12 +14,12 @@ function SignIn({ onSwitchToSignUp }: SignInProps) {
   const [forgotPasswordEmail, setForgotPasswordEmail] = useState('');
   const [forgotPasswordLoading, setForgotPasswordLoading] = useState(false);
   const [authError, setAuthError] = useState('');
-  const [formData, setFormData] = useState<FormData>({
+  const [formData, setFormData] = useState<SignInFormData>({
     email: '',
     password: '',
     rememberMe: false
   });
-  const [errors, setErrors] = useState<Partial<FormData>>({});
+  const [errors, setErrors] = useState<FieldErrors<SignInFormData>>({});
   const [isLoading, setIsLoading] = useState(false);
   
   const { signIn, signInWithGoogle, signInWithFacebook, resetPassword, getErrorMessage } = useAuth();
@@ -36,7 +32,7 @@ function SignIn({ onSwitchToSignUp }: SignInProps) {
     }));
     
     // Clear error when user starts typing
-    if (errors[name as keyof FormData]) {
+    if (errors[name as keyof SignInFormData]) {
       setErrors(prev => ({
         ...prev,
         [name]: ''
@@ -50,20 +46,9 @@ function SignIn({ onSwitchToSignUp }: SignInProps) {
   };
 
   const validateForm = (): boolean => {
-    const newErrors: Partial<FormData> = {};
-
-    if (!formData.email.trim()) {
-      newErrors.email = 'Email is required';
-    } else if (!/\S+@\S+\.\S+/.test(formData.email)) {
-      newErrors.email = 'Email is invalid';
-    }
-
-    if (!formData.password) {
-      newErrors.password = 'Password is required';
-    }
-
+    const { isValid, errors: newErrors } = validate(signInSchema, formData);
     setErrors(newErrors);
-    return Object.keys(newErrors).length === 0;
+    return isValid;
   };
 
   const handleSubmit = async (e: React.FormEvent) => {
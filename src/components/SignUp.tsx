@@ -1,16 +1,8 @@
 import React, { useState } from 'react';
 import { Eye, EyeOff, Mail, Lock, User, Chrome, Facebook, Building, Compass, PenTool, Users, Briefcase, Shield } from 'lucide-react';
 import { useAuth } from '../hooks/useAuth';
-import { UserType, USER_TYPE_LABELS, USER_TYPE_DESCRIPTIONS } from '../types/user';
-
-interface FormData {
-  fullName: string;
-  email: string;
-  password: string;
-  confirmPassword: string;
-  userType: UserType;
-  agreeToTerms: boolean;
-}
+import { UserType, SignUpFormData, USER_TYPE_LABELS, USER_TYPE_DESCRIPTIONS } from '../types/user';
+import { validate, FieldErrors, signUpSchema } from '../utils/validation';
 
 interface SignUpProps {
   onSwitchToSignIn: () => void;
@@ -20,7 +12,7 @@ function SignUp({ onSwitchToSignIn }: SignUpProps) {
   const [showPassword, setShowPassword] = useState(false);
   const [showConfirmPassword, setShowConfirmPassword] = useState(false);
   const [authError, setAuthError] = useState('');
-  const [formData, setFormData] = useState<FormData>({
+  const [formData, setFormData] = useState<SignUpFormData>({
     fullName: '',
     email: '',
     password: '',
@@ -28,7 +20,7 @@ function SignUp({ onSwitchToSignIn }: SignUpProps) {
     userType: 'service_requester', // Default to service requester
     agreeToTerms: false
   });
-  const [errors, setErrors] = useState<Partial<FormData>>({});
+  const [errors, setErrors] = useState<FieldErrors<SignUpFormData>>({});
   const [isLoading, setIsLoading] = useState(false);
   
   const { signUp, signInWithGoogle, signInWithFacebook, getErrorMessage } = useAuth();
@@ -41,7 +33,7 @@ function SignUp({ onSwitchToSignIn }: SignUpProps) {
     }));
     
     // Clear error when user starts typing
-    if (errors[name as keyof FormData]) {
+    if (errors[name as keyof SignUpFormData]) {
       setErrors(prev => ({
         ...prev,
         [name]: ''
@@ -55,38 +47,9 @@ function SignUp({ onSwitchToSignIn }: SignUpProps) {
   };
 
   const validateForm = (): boolean => {
-    const newErrors: Partial<FormData> = {};
-
-    if (!formData.fullName.trim()) {
-      newErrors.fullName = 'Full name is required';
-    }
-
-    if (!formData.email.trim()) {
-      newErrors.email = 'Email is required';
-    } else if (!/\S+@\S+\.\S+/.test(formData.email)) {
-      newErrors.email = 'Email is invalid';
-    }
-
-    if (!formData.password) {
-      newErrors.password = 'Password is required';
-    } else if (formData.password.length < 8) {
-      newErrors.password = 'Password must be at least 8 characters';
-    }
-
-    if (formData.password !== formData.confirmPassword) {
-      newErrors.confirmPassword = 'Passwords do not match';
-    }
-
-    if (!formData.userType) {
-      newErrors.userType = 'Please select an account type';
-    }
-
-    if (!formData.agreeToTerms) {
-      newErrors.agreeToTerms = 'You must agree to the terms';
-    }
-
+    const { isValid, errors: newErrors } = validate(signUpSchema, formData);
     setErrors(newErrors);
-    return Object.keys(newErrors).length === 0;
+    return isValid;
   };
 
   const handleSubmit = async (e: React.FormEvent) => {
@@ -0,0 +1,171 @@
+/**
+ * Submit Proposal Modal Component
+ *
+ * Lets a verified designer bid on an active project request with
+ * a price, a delivery timeline and a cover letter.
+ */
+
+import React, { useState } from 'react';
+import { Send, X, RefreshCw, DollarSign } from 'lucide-react';
+import { useAuth } from '../hooks/useAuth';
+import { ProposalService } from '../services/proposalService';
+import { CreateProposalData, Proposal, MIN_COVER_LETTER_LENGTH } from '../types/proposal';
+import { ProjectRequest } from '../types/projectRequest';
+
+interface SubmitProposalModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  request: ProjectRequest | null;
+  onProposalSubmitted: (proposal: Proposal) => void;
+}
+
+const SubmitProposalModal: React.FC<SubmitProposalModalProps> = ({ isOpen, onClose, request, onProposalSubmitted }) => {
+  const { userProfile } = useAuth();
+  const [formData, setFormData] = useState<CreateProposalData>({ price: 0, timeline: '', coverLetter: '' });
+  const [errors, setErrors] = useState<string[]>([]);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!request || !userProfile) return;
+
+    const validationErrors = ProposalService.validateProposal(formData);
+    if (validationErrors.length > 0) {
+      setErrors(validationErrors);
+      return;
+    }
+
+    setIsSubmitting(true);
+    setErrors([]);
+    try {
+      const proposal = await ProposalService.submitProposal(request.id, formData, userProfile);
+      onProposalSubmitted(proposal);
+      setFormData({ price: 0, timeline: '', coverLetter: '' });
+      onClose();
+    } catch (error) {
+      setErrors([error instanceof Error ? error.message : 'Failed to submit proposal']);
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  if (!isOpen || !request) return null;
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+      <div className="bg-white rounded-xl w-full max-w-2xl max-h-[90vh] overflow-y-auto shadow-2xl">
+        <div className="sticky top-0 bg-white border-b border-gray-200 px-6 py-4 rounded-t-xl">
+          <div className="flex justify-between items-center">
+            <div>
+              <h2 className="text-xl font-bold text-gray-900 flex items-center">
+                <Send className="w-6 h-6 mr-2 text-green-600" />
+                Submit Proposal
+              </h2>
+              <p className="text-sm text-gray-600 mt-1">{request.title}</p>
+            </div>
+            <button
+              onClick={onClose}
+              className="text-gray-400 hover:text-gray-600 transition-colors"
+              aria-label="Close modal"
+            >
+              <X className="w-6 h-6" />
+            </button>
+          </div>
+        </div>
+
+        <form onSubmit={handleSubmit} className="p-6 space-y-6">
+          <div className="bg-gray-50 rounded-lg p-4 text-sm text-gray-700">
+            Client budget:{' '}
+            <span className="font-medium">
+              {request.budget.type === 'fixed'
+                ? `$${request.budget.min.toLocaleString()}-${request.budget.max.toLocaleString()}`
+                : `$${request.budget.min}-${request.budget.max}/hr`}
+            </span>
+            {' • '}Timeline: <span className="font-medium">{request.timeline}</span>
+          </div>
+
+          {errors.length > 0 && (
+            <div className="bg-red-50 border border-red-200 rounded-lg p-4">
+              <ul className="list-disc list-inside text-sm text-red-700 space-y-1">
+                {errors.map(error => <li key={error}>{error}</li>)}
+              </ul>
+            </div>
+          )}
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div>
+              <label htmlFor="proposalPrice" className="block text-sm font-medium text-gray-700 mb-2">Your Price *</label>
+              <div className="relative">
+                <DollarSign className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400 w-5 h-5" />
+                <input
+                  id="proposalPrice"
+                  type="number"
+                  min={0}
+                  value={formData.price || ''}
+                  onChange={(e) => setFormData(prev => ({ ...prev, price: Number(e.target.value) }))}
+                  className="w-full pl-10 pr-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-green-500 focus:border-transparent"
+                />
+              </div>
+            </div>
+            <div>
+              <label htmlFor="proposalTimeline" className="block text-sm font-medium text-gray-700 mb-2">Delivery Timeline *</label>
+              <input
+                id="proposalTimeline"
+                type="text"
+                value={formData.timeline}
+                onChange={(e) => setFormData(prev => ({ ...prev, timeline: e.target.value }))}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-green-500 focus:border-transparent"
+                placeholder="e.g. 10 weeks"
+              />
+            </div>
+          </div>
+
+          <div>
+            <label htmlFor="proposalCoverLetter" className="block text-sm font-medium text-gray-700 mb-2">Cover Letter *</label>
+            <textarea
+              id="proposalCoverLetter"
+              value={formData.coverLetter}
+              onChange={(e) => setFormData(prev => ({ ...prev, coverLetter: e.target.value }))}
+              rows={8}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-green-500 focus:border-transparent"
+              placeholder="Explain your approach, relevant experience and what is included in your price."
+            />
+            <p className="mt-1 text-xs text-gray-500">
+              {formData.coverLetter.trim().length}/{MIN_COVER_LETTER_LENGTH} characters minimum
+            </p>
+          </div>
+
+          {/* Actions */}
+          <div className="flex justify-end space-x-3 pt-4 border-t border-gray-200">
+            <button
+              type="button"
+              onClick={onClose}
+              className="px-4 py-2 text-gray-700 bg-white border border-gray-300 rounded-lg hover:bg-gray-50 transition-colors"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              disabled={isSubmitting}
+              className="px-6 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors flex items-center"
+            >
+              {isSubmitting ? (
+                <>
+                  <RefreshCw className="w-4 h-4 mr-2 animate-spin" />
+                  Submitting...
+                </>
+              ) : (
+                <>
+                  <Send className="w-4 h-4 mr-2" />
+                  Submit Proposal
+                </>
+              )}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+};
+
+export default SubmitProposalModal;
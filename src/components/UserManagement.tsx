@@ -1,4 +1,4 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useCallback } from 'react';
 import { 
   Users, 
   Shield, 
@@ -14,24 +14,57 @@ import {
   UserX
 } from 'lucide-react';
 import { useAuth } from '../hooks/useAuth';
+import { usePaginatedQuery, PageCursor } from '../hooks/usePaginatedQuery';
 import { UserService } from '../services/userService';
+import { VerificationManagementService } from '../services/verificationManagementService';
+import { VerificationStatus } from '../types/verification-management';
 import { UserProfile, UserType, USER_TYPE_LABELS, isAdmin } from '../types/user';
 
+const getUserKey = (user: UserProfile) => user.uid;
+
 /**
  * User Management Component - Admin Only
  * Allows admins to view, manage, and verify users
  */
 function UserManagement() {
   const { userProfile } = useAuth();
-  const [users, setUsers] = useState<UserProfile[]>([]);
-  const [loading, setLoading] = useState(true);
-  const [error, setError] = useState('');
   const [selectedUserType, setSelectedUserType] = useState<UserType | 'all'>('all');
   const [searchTerm, setSearchTerm] = useState('');
   const [showDropdown, setShowDropdown] = useState<string | null>(null);
+  const [userCounts, setUserCounts] = useState<Partial<Record<UserType | 'all', number>>>({});
+
+  const canView = isAdmin(userProfile);
+
+  // Load users page by page for the selected type
+  const fetchUsersPage = useCallback(
+    (cursor: PageCursor) => canView
+      ? UserService.getUsersByType(selectedUserType, cursor)
+      : Promise.resolve({ items: [], cursor: null, hasMore: false }),
+    [canView, selectedUserType]
+  );
+  const {
+    items: users,
+    setItems: setUsers,
+    loading,
+    loadingMore,
+    error,
+    hasMore,
+    loadMore,
+    refresh: loadUsers
+  } = usePaginatedQuery(fetchUsersPage, getUserKey);
+
+  // Totals come from count queries since only loaded pages are in memory
+  useEffect(() => {
+    if (!canView) return;
+
+    const userTypes: (UserType | 'all')[] = ['all', 'designer', 'service_requester', 'admin'];
+    Promise.all(userTypes.map(userType => UserService.countUsersByType(userType)))
+      .then(counts => setUserCounts(Object.fromEntries(userTypes.map((userType, i) => [userType, counts[i]]))))
+      .catch(err => console.error('Error counting users:', err));
+  }, [canView]);
 
   // Redirect if not admin
-  if (!isAdmin(userProfile)) {
+  if (!canView) {
     return (
       <div className="min-h-screen bg-gray-50 flex items-center justify-center">
         <div className="text-center">
@@ -43,58 +76,60 @@ function UserManagement() {
     );
   }
 
-  // Load users based on selected type
-  useEffect(() => {
-    loadUsers();
-  }, [selectedUserType]);
+  const setVerificationStatus = (userId: string, status: 'verified' | 'unverified') => {
+    setUsers(prev => prev.map(u => u.uid === userId ? { ...u, designer_verification_status: status } : u));
+  };
 
-  const loadUsers = async () => {
-    try {
-      setLoading(true);
-      setError('');
-      
-      let loadedUsers: UserProfile[] = [];
-      
-      if (selectedUserType === 'all') {
-        // Load all user types
-        const [designers, serviceRequesters, admins] = await Promise.all([
-          UserService.getUsersByType('designer'),
-          UserService.getUsersByType('service_requester'),
-          UserService.getUsersByType('admin')
-        ]);
-        loadedUsers = [...designers, ...serviceRequesters, ...admins];
-      } else {
-        loadedUsers = await UserService.getUsersByType(selectedUserType);
-      }
-      
-      setUsers(loadedUsers);
-    } catch (err) {
-      setError('Failed to load users. Please try again.');
-      console.error('Error loading users:', err);
-    } finally {
-      setLoading(false);
+  // Verification decisions go through the designer's latest verification process,
+  // so the submission, audit trail and notification stay in step with the profile
+  const getLatestProcess = async (userId: string) => {
+    const response = await VerificationManagementService.getLatestProcessForUser(userId);
+    if (!response.success) {
+      throw new Error(response.error || 'Failed to load verification request');
     }
+    return response.data ?? null;
   };
 
   const handleVerifyDesigner = async (userId: string) => {
     try {
-      await UserService.updateDesignerVerificationStatus(userId, 'verified');
-      await loadUsers(); // Refresh the list
+      const process = await getLatestProcess(userId);
+      if (!process) {
+        alert('This designer has not submitted a verification request.');
+        return;
+      }
+
+      const response = await VerificationManagementService.approveVerification({ processId: process.id, notifyUser: true });
+      if (!response.success) {
+        throw new Error(response.error || 'Failed to approve verification');
+      }
+      setVerificationStatus(userId, 'verified');
       setShowDropdown(null);
     } catch (err) {
       console.error('Error verifying designer:', err);
-      alert('Failed to verify designer. Please try again.');
+      alert(`Failed to verify designer: ${err instanceof Error ? err.message : 'Please try again.'}`);
     }
   };
 
   const handleUnverifyDesigner = async (userId: string) => {
     try {
-      await UserService.updateDesignerVerificationStatus(userId, 'unverified');
-      await loadUsers(); // Refresh the list
+      const process = await getLatestProcess(userId);
+      if (!process || process.status !== VerificationStatus.APPROVED) {
+        alert('This designer has no approved verification request to revoke.');
+        return;
+      }
+
+      const reason = window.prompt('Reason for revoking this verification:')?.trim();
+      if (!reason) return;
+
+      const response = await VerificationManagementService.revokeVerification({ processId: process.id, reason, notifyUser: true });
+      if (!response.success) {
+        throw new Error(response.error || 'Failed to revoke verification');
+      }
+      setVerificationStatus(userId, 'unverified');
       setShowDropdown(null);
     } catch (err) {
       console.error('Error unverifying designer:', err);
-      alert('Failed to unverify designer. Please try again.');
+      alert(`Failed to unverify designer: ${err instanceof Error ? err.message : 'Please try again.'}`);
     }
   };
 
@@ -105,10 +140,10 @@ function UserManagement() {
   );
 
   const userTypeOptions = [
-    { value: 'all' as const, label: 'All Users', count: users.length },
-    { value: 'designer' as const, label: 'Designers', count: users.filter(u => u.user_type === 'designer').length },
-    { value: 'service_requester' as const, label: 'Service Requesters', count: users.filter(u => u.user_type === 'service_requester').length },
-    { value: 'admin' as const, label: 'Administrators', count: users.filter(u => u.user_type === 'admin').length }
+    { value: 'all' as const, label: 'All Users', count: userCounts.all },
+    { value: 'designer' as const, label: 'Designers', count: userCounts.designer },
+    { value: 'service_requester' as const, label: 'Service Requesters', count: userCounts.service_requester },
+    { value: 'admin' as const, label: 'Administrators', count: userCounts.admin }
   ];
 
   return (
@@ -144,7 +179,7 @@ function UserManagement() {
                       : 'bg-gray-100 text-gray-700 hover:bg-gray-200 border border-gray-200'
                   }`}
                 >
-                  {option.label} ({option.count})
+                  {option.label} ({option.count ?? '…'})
                 </button>
               ))}
             </div>
@@ -173,7 +208,7 @@ function UserManagement() {
           ) : error ? (
             <div className="p-12 text-center">
               <AlertCircle className="w-12 h-12 text-red-500 mx-auto mb-4" />
-              <p className="text-red-600 font-medium">{error}</p>
+              <p className="text-red-600 font-medium">Failed to load users. Please try again.</p>
               <button 
                 onClick={loadUsers}
                 className="mt-4 px-4 py-2 bg-purple-600 text-white rounded-lg hover:bg-purple-700 transition-colors duration-200"
@@ -327,6 +362,17 @@ function UserManagement() {
                   ))}
                 </tbody>
               </table>
+              {hasMore && (
+                <div className="px-6 py-4 border-t border-gray-200 text-center">
+                  <button
+                    onClick={loadMore}
+                    disabled={loadingMore}
+                    className="px-4 py-2 text-sm font-medium text-purple-700 bg-purple-50 rounded-lg hover:bg-purple-100 disabled:opacity-50 transition-colors duration-200"
+                  >
+                    {loadingMore ? 'Loading...' : 'Load more users'}
+                  </button>
+                </div>
+              )}
             </div>
           )}
         </div>
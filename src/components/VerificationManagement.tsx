@@ -2,7 +2,7 @@
  * Verification Management Component
  *
  * A comprehensive admin panel for managing user verification requests with:
- * - Professional table/card layout with sorting and pagination
+ * - Professional table/card layout with sorting and cursor pagination
  * - Advanced search and filtering capabilities
  * - Approval/rejection workflows with templates
  * - Real-time updates and communication system
@@ -16,15 +16,13 @@ import {
   ChevronDown, ChevronUp, MoreHorizontal, Mail, Phone, MapPin,
   FileText, Image, Award, Briefcase, Globe, Star, AlertCircle,
   Users, TrendingUp, BarChart3, Settings, Send, Edit, Trash2,
-  ArrowUpDown, ArrowUp, ArrowDown, Plus, X, Check
+  ArrowUpDown, ArrowUp, ArrowDown, Plus, X, Check, GitCompare
 } from 'lucide-react';
 
 import {
   VerificationProcess,
-  VerificationProcessResponse,
   FilterOptions,
   SortOptions,
-  PaginationOptions,
   VerificationManagementState,
   VerificationStatus,
   VerificationPriority,
@@ -35,12 +33,17 @@ import {
   ApprovalRequest,
   RejectionRequest,
   MoreInfoRequest,
-  VerificationTableColumn,
-  DEFAULT_PAGE_SIZE
+  VerificationTableColumn
 } from '../types/verification-management';
 
 import VerificationManagementService from '../services/verificationManagementService';
+import { usePaginatedQuery, PageCursor } from '../hooks/usePaginatedQuery';
 import MoreInfoModal from './MoreInfoModal';
+import ResubmissionDiffModal from './ResubmissionDiffModal';
+import RiskAssessmentModal from './RiskAssessmentModal';
+import RiskWeightsModal from './RiskWeightsModal';
+
+const getProcessKey = (process: VerificationProcess) => process.id;
 
 // ===== UTILITY COMPONENTS =====
 
@@ -549,17 +552,17 @@ const RejectionModal: React.FC<{
 const VerificationManagement: React.FC = () => {
   // ===== STATE MANAGEMENT =====
   const [state, setState] = useState<VerificationManagementState>({
-    processes: [],
     selectedProcesses: [],
-    loading: true,
     error: null,
     filters: {},
     sort: { field: 'createdAt', direction: 'desc' },
-    pagination: { page: 1, pageSize: DEFAULT_PAGE_SIZE, total: 0 },
     showApprovalModal: false,
     showRejectionModal: false,
     showMoreInfoModal: false,
     showMessageModal: false,
+    showDiffModal: false,
+    showRiskModal: false,
+    showRiskWeightsModal: false,
     currentProcess: null,
     actionInProgress: false,
   });
@@ -569,39 +572,44 @@ const VerificationManagement: React.FC = () => {
   const [searchQuery, setSearchQuery] = useState('');
   const [showFilters, setShowFilters] = useState(false);
 
+  const [total, setTotal] = useState(0);
+
   // ===== DATA FETCHING =====
-  const fetchProcesses = useCallback(async () => {
-    setState(prev => ({ ...prev, loading: true, error: null }));
-    
-    try {
-      const response = await VerificationManagementService.getVerificationProcesses(
-        { ...state.filters, searchQuery },
-        state.sort,
-        state.pagination
-      );
+  // Load processes page by page for the current filters and sort
+  const fetchProcessesPage = useCallback(async (cursor: PageCursor) => {
+    const response = await VerificationManagementService.getVerificationProcesses(
+      { ...state.filters, searchQuery },
+      state.sort,
+      cursor
+    );
+    if (!response.success) {
+      throw new Error(response.error || 'Failed to fetch verification processes');
+    }
+    return response.data;
+  }, [state.filters, state.sort, searchQuery]);
+  const {
+    items: processes,
+    setItems: setProcesses,
+    loading,
+    loadingMore,
+    error: loadError,
+    hasMore,
+    loadMore,
+    refresh: fetchProcesses
+  } = usePaginatedQuery(fetchProcessesPage, getProcessKey);
+  const error = loadError || state.error;
+
+  // The total comes from a count query since only loaded pages are in memory; it is
+  // recounted whenever the list reloads from the first page
+  useEffect(() => {
+    if (loading) return;
 
+    VerificationManagementService.countVerificationProcesses(state.filters).then(response => {
       if (response.success) {
-        setState(prev => ({
-          ...prev,
-          processes: response.data.processes,
-          pagination: { ...prev.pagination, total: response.data.pagination.total },
-          loading: false,
-        }));
-      } else {
-        setState(prev => ({
-          ...prev,
-          error: response.error || 'Failed to fetch verification processes',
-          loading: false,
-        }));
+        setTotal(response.data);
       }
-    } catch (error) {
-      setState(prev => ({
-        ...prev,
-        error: 'An unexpected error occurred',
-        loading: false,
-      }));
-    }
-  }, [state.filters, state.sort, state.pagination.page, state.pagination.pageSize, searchQuery]);
+    });
+  }, [state.filters, loading]);
 
   const fetchRejectionReasons = useCallback(async () => {
     try {
@@ -626,30 +634,41 @@ const VerificationManagement: React.FC = () => {
   }, []);
 
   // ===== EFFECTS =====
-  useEffect(() => {
-    fetchProcesses();
-  }, [fetchProcesses]);
-
   useEffect(() => {
     fetchRejectionReasons();
     fetchMessageTemplates();
   }, [fetchRejectionReasons, fetchMessageTemplates]);
 
+  // Close requests for more information left unanswered past their deadline, then score the
+  // processes queued since the last visit; the real-time subscription below picks up both
+  useEffect(() => {
+    const runMaintenance = async () => {
+      const expired = await VerificationManagementService.expireOverdueInfoRequests();
+      if (expired.success && expired.data.failed.length > 0) {
+        console.warn('⚠️ Some overdue information requests could not be expired:', expired.data.failed);
+      }
+
+      const assessed = await VerificationManagementService.assessQueuedProcesses();
+      if (assessed.success && assessed.data.failed.length > 0) {
+        console.warn('⚠️ Some verification processes could not be risk assessed:', assessed.data.failed);
+      }
+    };
+
+    runMaintenance();
+  }, []);
+
   // Real-time updates subscription
   useEffect(() => {
     const unsubscribe = VerificationManagementService.subscribeToUpdates((update) => {
       if (update.type === 'process_updated') {
-        setState(prev => ({
-          ...prev,
-          processes: prev.processes.map(process =>
-            process.id === update.data.id ? { ...process, ...update.data } : process
-          ),
-        }));
+        setProcesses(prev => prev.map(process =>
+          process.id === update.data.id ? { ...process, ...update.data } : process
+        ));
       }
     });
 
     return unsubscribe;
-  }, []);
+  }, [setProcesses]);
 
   // ===== ACTION HANDLERS =====
   const handleApprove = async (request: ApprovalRequest) => {
@@ -665,6 +684,8 @@ const VerificationManagement: React.FC = () => {
           currentProcess: null,
           actionInProgress: false 
         }));
+      } else {
+        setState(prev => ({ ...prev, error: response.error || 'Failed to approve verification', actionInProgress: false }));
       }
     } catch (error) {
       console.error('Failed to approve verification:', error);
@@ -685,6 +706,8 @@ const VerificationManagement: React.FC = () => {
           currentProcess: null,
           actionInProgress: false 
         }));
+      } else {
+        setState(prev => ({ ...prev, error: response.error || 'Failed to reject verification', actionInProgress: false }));
       }
     } catch (error) {
       console.error('Failed to reject verification:', error);
@@ -692,6 +715,20 @@ const VerificationManagement: React.FC = () => {
     }
   };
 
+  const handleExport = async () => {
+    const response = await VerificationManagementService.exportVerificationData({ ...state.filters, searchQuery }, 'csv');
+    if (!response.success) {
+      setState(prev => ({ ...prev, error: response.error || 'Failed to export verification data' }));
+      return;
+    }
+
+    const link = document.createElement('a');
+    link.href = response.data.downloadUrl;
+    link.download = `verification-processes-${new Date().toISOString().slice(0, 10)}.csv`;
+    link.click();
+    URL.revokeObjectURL(response.data.downloadUrl);
+  };
+
   const handleRequestMoreInfo = async (request: MoreInfoRequest) => {
     setState(prev => ({ ...prev, actionInProgress: true }));
     
@@ -705,6 +742,8 @@ const VerificationManagement: React.FC = () => {
           currentProcess: null,
           actionInProgress: false 
         }));
+      } else {
+        setState(prev => ({ ...prev, error: response.error || 'Failed to request more information', actionInProgress: false }));
       }
     } catch (error) {
       console.error('Failed to request more info:', error);
@@ -727,6 +766,9 @@ const VerificationManagement: React.FC = () => {
           <div>
             <div className="font-medium text-gray-900">{record.request.fullName}</div>
             <div className="text-sm text-gray-500">{record.request.email}</div>
+            {record.resubmissionCount > 0 && (
+              <div className="text-xs text-purple-700">Resubmission #{record.resubmissionCount}</div>
+            )}
           </div>
         </div>
       ),
@@ -761,7 +803,19 @@ const VerificationManagement: React.FC = () => {
       label: 'Risk',
       sortable: false,
       width: '150px',
-      render: (value) => <RiskIndicator level={value.level} score={value.score} />,
+      render: (value, record) => (
+        <button
+          onClick={() => setState(prev => ({
+            ...prev,
+            currentProcess: record,
+            showRiskModal: true
+          }))}
+          className="hover:opacity-75 transition-opacity"
+          aria-label={`Show risk factors for ${record.request.fullName}`}
+        >
+          <RiskIndicator level={value.level} score={value.score} />
+        </button>
+      ),
     },
     {
       key: 'createdAt',
@@ -816,6 +870,19 @@ const VerificationManagement: React.FC = () => {
             <AlertTriangle className="w-3 h-3 mr-1" />
             More Info
           </button>
+          {record.resubmissionCount > 0 && (
+            <button
+              onClick={() => setState(prev => ({
+                ...prev,
+                currentProcess: record,
+                showDiffModal: true
+              }))}
+              className="inline-flex items-center px-2 py-1 text-xs font-medium text-purple-700 bg-purple-100 rounded hover:bg-purple-200 transition-colors"
+            >
+              <GitCompare className="w-3 h-3 mr-1" />
+              Changes
+            </button>
+          )}
         </div>
       ),
     },
@@ -840,7 +907,17 @@ const VerificationManagement: React.FC = () => {
                 <RefreshCw className="w-4 h-4 mr-2" />
                 Refresh
               </button>
-              <button className="inline-flex items-center px-3 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-lg hover:bg-gray-50 transition-colors">
+              <button
+                onClick={() => setState(prev => ({ ...prev, showRiskWeightsModal: true }))}
+                className="inline-flex items-center px-3 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-lg hover:bg-gray-50 transition-colors"
+              >
+                <Settings className="w-4 h-4 mr-2" />
+                Risk Weights
+              </button>
+              <button
+                onClick={handleExport}
+                className="inline-flex items-center px-3 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-lg hover:bg-gray-50 transition-colors"
+              >
                 <Download className="w-4 h-4 mr-2" />
                 Export
               </button>
@@ -939,20 +1016,18 @@ const VerificationManagement: React.FC = () => {
           <div className="px-6 py-4 border-b border-gray-200 bg-gray-50">
             <div className="flex items-center justify-between">
               <h2 className="text-lg font-medium text-gray-900">
-                Verification Requests ({state.pagination.total})
+                Verification Requests ({total})
               </h2>
               <div className="flex items-center space-x-2">
                 <span className="text-sm text-gray-500">
-                  Showing {((state.pagination.page - 1) * state.pagination.pageSize) + 1} to{' '}
-                  {Math.min(state.pagination.page * state.pagination.pageSize, state.pagination.total)} of{' '}
-                  {state.pagination.total} results
+                  Showing {processes.length} loaded results
                 </span>
               </div>
             </div>
           </div>
 
           {/* Loading State */}
-          {state.loading && (
+          {loading && (
             <div className="flex items-center justify-center py-12">
               <RefreshCw className="w-8 h-8 text-blue-600 animate-spin" />
               <span className="ml-3 text-lg text-gray-600">Loading verification requests...</span>
@@ -960,15 +1035,15 @@ const VerificationManagement: React.FC = () => {
           )}
 
           {/* Error State */}
-          {state.error && (
+          {error && (
             <div className="flex items-center justify-center py-12">
               <AlertCircle className="w-8 h-8 text-red-600" />
-              <span className="ml-3 text-lg text-red-600">{state.error}</span>
+              <span className="ml-3 text-lg text-red-600">{error}</span>
             </div>
           )}
 
           {/* Table Content */}
-          {!state.loading && !state.error && (
+          {!loading && !error && (
             <div className="overflow-x-auto">
               <table className="min-w-full divide-y divide-gray-200">
                 <thead className="bg-gray-50">
@@ -992,7 +1067,7 @@ const VerificationManagement: React.FC = () => {
                   </tr>
                 </thead>
                 <tbody className="bg-white divide-y divide-gray-200">
-                  {state.processes.map((process) => (
+                  {processes.map((process) => (
                     <tr key={process.id} className="hover:bg-gray-50">
                       {columns.map((column) => {
                         const getValue = (key: string, obj: any): any => {
@@ -1018,7 +1093,7 @@ const VerificationManagement: React.FC = () => {
           )}
 
           {/* Empty State */}
-          {!state.loading && !state.error && state.processes.length === 0 && (
+          {!loading && !error && processes.length === 0 && (
             <div className="flex flex-col items-center justify-center py-12">
               <Users className="w-12 h-12 text-gray-400 mb-4" />
               <h3 className="text-lg font-medium text-gray-900 mb-2">No verification requests found</h3>
@@ -1027,61 +1102,15 @@ const VerificationManagement: React.FC = () => {
           )}
 
           {/* Pagination */}
-          {!state.loading && !state.error && state.processes.length > 0 && (
-            <div className="px-6 py-4 border-t border-gray-200 bg-gray-50">
-              <div className="flex items-center justify-between">
-                <div className="flex items-center space-x-2">
-                  <span className="text-sm text-gray-700">Show</span>
-                  <select
-                    value={state.pagination.pageSize}
-                    onChange={(e) => setState(prev => ({
-                      ...prev,
-                      pagination: { ...prev.pagination, pageSize: parseInt(e.target.value), page: 1 }
-                    }))}
-                    className="px-3 py-1 border border-gray-300 rounded text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent"
-                  >
-                    <option value={10}>10</option>
-                    <option value={25}>25</option>
-                    <option value={50}>50</option>
-                    <option value={100}>100</option>
-                  </select>
-                  <span className="text-sm text-gray-700">per page</span>
-                </div>
-
-                <div className="flex items-center space-x-2">
-                  <button
-                    onClick={() => setState(prev => ({
-                      ...prev,
-                      pagination: { ...prev.pagination, page: Math.max(1, prev.pagination.page - 1) }
-                    }))}
-                    disabled={state.pagination.page === 1}
-                    className="px-3 py-1 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed"
-                  >
-                    Previous
-                  </button>
-                  
-                  <span className="text-sm text-gray-700">
-                    Page {state.pagination.page} of {Math.ceil(state.pagination.total / state.pagination.pageSize)}
-                  </span>
-                  
-                  <button
-                    onClick={() => setState(prev => ({
-                      ...prev,
-                      pagination: {
-                        ...prev.pagination,
-                        page: Math.min(
-                          Math.ceil(prev.pagination.total / prev.pagination.pageSize),
-                          prev.pagination.page + 1
-                        )
-                      }
-                    }))}
-                    disabled={state.pagination.page >= Math.ceil(state.pagination.total / state.pagination.pageSize)}
-                    className="px-3 py-1 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed"
-                  >
-                    Next
-                  </button>
-                </div>
-              </div>
+          {!loading && !error && hasMore && (
+            <div className="px-6 py-4 border-t border-gray-200 bg-gray-50 text-center">
+              <button
+                onClick={loadMore}
+                disabled={loadingMore}
+                className="px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-lg hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                {loadingMore ? 'Loading...' : 'Load more requests'}
+              </button>
             </div>
           )}
         </div>
@@ -1112,6 +1141,23 @@ const VerificationManagement: React.FC = () => {
         onRequestMoreInfo={handleRequestMoreInfo}
         templates={messageTemplates}
       />
+
+      <ResubmissionDiffModal
+        isOpen={state.showDiffModal}
+        onClose={() => setState(prev => ({ ...prev, showDiffModal: false, currentProcess: null }))}
+        process={state.currentProcess}
+      />
+
+      <RiskAssessmentModal
+        isOpen={state.showRiskModal}
+        onClose={() => setState(prev => ({ ...prev, showRiskModal: false, currentProcess: null }))}
+        process={state.currentProcess}
+      />
+
+      <RiskWeightsModal
+        isOpen={state.showRiskWeightsModal}
+        onClose={() => setState(prev => ({ ...prev, showRiskWeightsModal: false }))}
+      />
     </div>
   );
 };
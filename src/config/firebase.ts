@@ -66,12 +66,12 @@ if (import.meta.env.DEV) {
   console.log('🔥 Firebase initialized in development mode');
   console.log('📦 Project ID:', firebaseConfig.projectId);
   
-  // Connect to Firestore emulator if running locally (optional)
-  // Uncomment the following lines if you want to use Firestore emulator
-  // if (!db._delegate._databaseId.projectId.includes('demo-')) {
-  //   connectFirestoreEmulator(db, 'localhost', 8080);
-  //   console.log('🔧 Connected to Firestore emulator');
-  // }
+  // Connect to the Firestore emulator when VITE_USE_FIRESTORE_EMULATOR=true
+  if (import.meta.env.VITE_USE_FIRESTORE_EMULATOR === 'true') {
+    const [host, port] = (import.meta.env.VITE_FIRESTORE_EMULATOR_HOST || 'localhost:8080').split(':');
+    connectFirestoreEmulator(db, host, Number(port));
+    console.log('🔧 Connected to Firestore emulator at', `${host}:${port}`);
+  }
 }
 
 // Test Firebase connection
@@ -0,0 +1,130 @@
+import { useState, useEffect, useCallback, useRef, Dispatch, SetStateAction } from 'react';
+import { DocumentData, QueryDocumentSnapshot } from 'firebase/firestore';
+import { PaginatedResult } from '../utils/firestoreHelpers';
+
+export type PageCursor = QueryDocumentSnapshot<DocumentData> | null;
+
+export interface PaginatedQueryState<T> {
+  items: T[];
+  loading: boolean; // First page
+  loadingMore: boolean;
+  error: string | null;
+  hasMore: boolean;
+  loadMore: () => Promise<void>;
+  refresh: () => Promise<void>;
+  setItems: Dispatch<SetStateAction<T[]>>;
+  sentinelRef: (node: Element | null) => void; // Attach below the list for infinite scroll
+}
+
+/**
+ * Loads a cursor-paginated list page by page
+ * Wrap fetchPage in useCallback: the list restarts from the first page whenever it changes.
+ * Appended pages skip items already shown, so an item that moved between pages is never listed twice.
+ * @param fetchPage - Fetches the page after the given cursor
+ * @param getKey - Stable identity of an item
+ */
+export const usePaginatedQuery = <T>(
+  fetchPage: (cursor: PageCursor) => Promise<PaginatedResult<T>>,
+  getKey: (item: T) => string
+): PaginatedQueryState<T> => {
+  const [items, setItems] = useState<T[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [loadingMore, setLoadingMore] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [hasMore, setHasMore] = useState(false);
+
+  const cursorRef = useRef<PageCursor>(null);
+  const loadingMoreRef = useRef(false);
+  // Responses from a superseded fetchPage are dropped
+  const generationRef = useRef(0);
+  const getKeyRef = useRef(getKey);
+  getKeyRef.current = getKey;
+
+  const refresh = useCallback(async () => {
+    const generation = ++generationRef.current;
+    setLoading(true);
+    setError(null);
+
+    try {
+      const page = await fetchPage(null);
+      if (generation !== generationRef.current) return;
+
+      cursorRef.current = page.cursor;
+      setItems(page.items);
+      setHasMore(page.hasMore);
+    } catch (err) {
+      if (generation !== generationRef.current) return;
+      console.error('❌ Error loading first page:', err);
+      setError(err instanceof Error ? err.message : 'Failed to load');
+    } finally {
+      if (generation === generationRef.current) {
+        setLoading(false);
+      }
+    }
+  }, [fetchPage]);
+
+  const loadMore = useCallback(async () => {
+    if (loadingMoreRef.current || !hasMore) return;
+
+    const generation = generationRef.current;
+    loadingMoreRef.current = true;
+    setLoadingMore(true);
+
+    try {
+      const page = await fetchPage(cursorRef.current);
+      if (generation !== generationRef.current) return;
+
+      cursorRef.current = page.cursor;
+      setItems(prev => {
+        const seen = new Set(prev.map(item => getKeyRef.current(item)));
+        return [...prev, ...page.items.filter(item => !seen.has(getKeyRef.current(item)))];
+      });
+      setHasMore(page.hasMore);
+    } catch (err) {
+      if (generation !== generationRef.current) return;
+      console.error('❌ Error loading next page:', err);
+      setError(err instanceof Error ? err.message : 'Failed to load more');
+    } finally {
+      loadingMoreRef.current = false;
+      setLoadingMore(false);
+    }
+  }, [fetchPage, hasMore]);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  // Infinite scroll: load the next page once the sentinel scrolls into view
+  const observerRef = useRef<IntersectionObserver | null>(null);
+  const sentinelNodeRef = useRef<Element | null>(null);
+  const loadMoreRef = useRef(loadMore);
+  loadMoreRef.current = loadMore;
+
+  const sentinelRef = useCallback((node: Element | null) => {
+    observerRef.current?.disconnect();
+    observerRef.current = null;
+    sentinelNodeRef.current = node;
+    if (!node) return;
+
+    observerRef.current = new IntersectionObserver(entries => {
+      if (entries[0]?.isIntersecting) {
+        loadMoreRef.current();
+      }
+    }, { rootMargin: '200px' });
+    observerRef.current.observe(node);
+  }, []);
+
+  // Re-observing reports the current intersection again, so a page too short to
+  // push the sentinel out of view still triggers the next one
+  useEffect(() => {
+    const node = sentinelNodeRef.current;
+    if (!node || !observerRef.current || loadingMore) return;
+
+    observerRef.current.unobserve(node);
+    observerRef.current.observe(node);
+  }, [items, loadingMore]);
+
+  useEffect(() => () => observerRef.current?.disconnect(), []);
+
+  return { items, loading, loadingMore, error, hasMore, loadMore, refresh, setItems, sentinelRef };
+};
@@ -1,13 +1,13 @@
 import { 
   doc, 
   getDoc, 
-  setDoc, 
-  serverTimestamp,
   DocumentReference,
   DocumentSnapshot
 } from 'firebase/firestore';
 import { User } from 'firebase/auth';
 import { db } from '../config/firebase';
+import { UserService } from './userService';
+import { UserRole } from '../types/user';
 
 /**
  * Service for automatically creating and managing user profile documents in Firestore
@@ -15,20 +15,6 @@ import { db } from '../config/firebase';
  */
 export class AutoProfileService {
   private static readonly USERS_COLLECTION = 'users';
-  
-  /**
-   * Interface for user profile document structure
-   */
-  interface UserProfileDocument {
-    uid: string;
-    email: string;
-    full_name: string;
-    user_type: 'admin' | 'designer_verified' | 'designer_unverified' | 'service_requester';
-    designer_verification_status: 'verified' | 'unverified' | null;
-    created_at: any; // Firestore serverTimestamp
-    updated_at: any; // Firestore serverTimestamp
-    is_active: boolean;
-  }
 
   /**
    * Cache to avoid unnecessary Firestore reads for the same user
@@ -138,29 +124,12 @@ export class AutoProfileService {
    */
   private static async createUserProfile(user: User): Promise<boolean> {
     try {
-      // Determine user type based on email domain or other logic
-      const userType = this.determineUserType(user);
-      
-      // Set designer verification status based on user type
-      const designerVerificationStatus = this.getDesignerVerificationStatus(userType);
-
-      // Create user profile document
-      const userProfile: UserProfileDocument = {
-        uid: user.uid,
+      // Written through UserService so the profile has the canonical shape and passes validation
+      await UserService.createUserProfile(user.uid, {
         email: user.email || '',
         full_name: user.displayName || this.extractNameFromEmail(user.email || ''),
-        user_type: userType,
-        designer_verification_status: designerVerificationStatus,
-        created_at: serverTimestamp(),
-        updated_at: serverTimestamp(),
-        is_active: true
-      };
-
-      // Create document reference
-      const userDocRef: DocumentReference = doc(db, this.USERS_COLLECTION, user.uid);
-
-      // Set document in Firestore
-      await setDoc(userDocRef, userProfile);
+        ...this.determineUserRole(user)
+      });
 
       console.log(`AutoProfileService: Created profile document for user ${user.uid}`);
       return true;
@@ -172,50 +141,33 @@ export class AutoProfileService {
   }
 
   /**
-   * Determine user type based on business logic
+   * Determine user role based on business logic
    * You can customize this logic based on your requirements
    * 
    * @param user - Firebase Auth User object
-   * @returns UserType - determined user type
+   * @returns UserRole - determined user type and designer verification status
    */
-  private static determineUserType(user: User): 'admin' | 'designer_verified' | 'designer_unverified' | 'service_requester' {
+  private static determineUserRole(user: User): UserRole {
     // Example logic - customize based on your needs
     
     // Check if email belongs to admin domain
     if (user.email && this.isAdminEmail(user.email)) {
-      return 'admin';
+      return { user_type: 'admin', designer_verification_status: null };
     }
 
     // Check if email belongs to verified designer domain
     if (user.email && this.isVerifiedDesignerEmail(user.email)) {
-      return 'designer_verified';
+      return { user_type: 'designer', designer_verification_status: 'verified' };
     }
 
     // Default logic: if user has certain patterns, make them unverified designer
     // Otherwise, make them service requester
     if (user.email && this.hasDesignerIndicators(user.email, user.displayName)) {
-      return 'designer_unverified';
+      return { user_type: 'designer', designer_verification_status: 'unverified' };
     }
 
     // Default to service requester
-    return 'service_requester';
-  }
-
-  /**
-   * Get designer verification status based on user type
-   * 
-   * @param userType - User type
-   * @returns Designer verification status or null
-   */
-  private static getDesignerVerificationStatus(userType: string): 'verified' | 'unverified' | null {
-    switch (userType) {
-      case 'designer_verified':
-        return 'verified';
-      case 'designer_unverified':
-        return 'unverified';
-      default:
-        return null;
-    }
+    return { user_type: 'service_requester', designer_verification_status: null };
   }
 
   /**
@@ -267,7 +219,7 @@ export class AutoProfileService {
         .split(' ')
         .map(word => word.charAt(0).toUpperCase() + word.slice(1))
         .join(' ');
-    } catch (error) {
+    } catch {
       return 'User';
     }
   }
@@ -305,10 +257,4 @@ export class AutoProfileService {
  * Convenience function for React components or other parts of the app
  * to trigger profile creation
  */
-export const ensureUserProfile = AutoProfileService.handleUserProfileCreation;
-
-/**
- * Export types for use in other parts of the application
- */
-export type UserType = 'admin' | 'designer_verified' | 'designer_unverified' | 'service_requester';
-export type DesignerVerificationStatus = 'verified' | 'unverified' | null;
\ No newline at end of file
+export const ensureUserProfile = AutoProfileService.handleUserProfileCreation.bind(AutoProfileService);
\ No newline at end of file
@@ -0,0 +1,241 @@
+import {
+  doc,
+  getDoc,
+  setDoc,
+  runTransaction,
+  increment,
+  serverTimestamp,
+  Timestamp,
+  DocumentData,
+  Transaction
+} from 'firebase/firestore';
+import { db } from '../config/firebase';
+import {
+  AssignmentSource,
+  AvailabilitySettings,
+  CreateTimeOffData,
+  TimeOffBlock,
+  WeeklySchedule,
+  DEFAULT_MAX_CONCURRENT_PROJECTS,
+  MAX_CONCURRENT_PROJECTS_LIMIT,
+  WEEKDAYS,
+  WEEKDAY_LABELS,
+  defaultWeeklySchedule,
+  hasCapacity
+} from '../types/availability';
+
+/**
+ * Service for designer working schedules, time off and project capacity
+ * The active project counter moves inside the transactions that assign and finish requests
+ */
+export class AvailabilityService {
+  private static readonly AVAILABILITY_COLLECTION = 'designer_availability';
+
+  /**
+   * Gets a designer's availability settings
+   * @param designerId - Designer's user ID
+   * @returns Promise<AvailabilitySettings> - Settings (defaults for designers who never set them)
+   */
+  static async getAvailability(designerId: string): Promise<AvailabilitySettings> {
+    try {
+      const availabilitySnap = await getDoc(doc(db, this.AVAILABILITY_COLLECTION, designerId));
+      return this.fromFirestore(designerId, availabilitySnap.exists() ? availabilitySnap.data() : {});
+    } catch (error) {
+      console.error('❌ Error fetching availability:', error);
+      throw new Error(`Failed to fetch availability: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Saves a designer's weekly schedule and project capacity
+   * @param designerId - Designer's user ID
+   * @param schedule - Working hours per weekday
+   * @param maxConcurrentProjects - Maximum number of projects in progress at once
+   * @returns Promise<void>
+   */
+  static async updateSchedule(designerId: string, schedule: WeeklySchedule, maxConcurrentProjects: number): Promise<void> {
+    try {
+      const errors = this.validateSchedule(schedule, maxConcurrentProjects);
+      if (errors.length > 0) {
+        throw new Error(errors.join(', '));
+      }
+
+      await setDoc(doc(db, this.AVAILABILITY_COLLECTION, designerId), {
+        designer_uid: designerId,
+        schedule,
+        max_concurrent_projects: maxConcurrentProjects,
+        updated_at: serverTimestamp()
+      }, { merge: true });
+
+      console.log('✅ AvailabilityService: Schedule updated for designer:', designerId);
+    } catch (error) {
+      console.error('❌ AvailabilityService: Error updating schedule:', error);
+      throw new Error(`Failed to update schedule: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Adds a time-off block
+   * @param designerId - Designer's user ID
+   * @param timeOffData - Start, end and reason
+   * @returns Promise<TimeOffBlock> - Created block
+   */
+  static async addTimeOff(designerId: string, timeOffData: CreateTimeOffData): Promise<TimeOffBlock> {
+    try {
+      if (isNaN(timeOffData.start.getTime()) || isNaN(timeOffData.end.getTime())) {
+        throw new Error('Start and end dates are required');
+      }
+      if (timeOffData.end < timeOffData.start) {
+        throw new Error('Time off cannot end before it starts');
+      }
+
+      const block: TimeOffBlock = {
+        id: `${Date.now()}_${Math.random().toString(36).substring(2, 8)}`,
+        start: timeOffData.start,
+        end: timeOffData.end,
+        reason: timeOffData.reason.trim()
+      };
+
+      const availabilityRef = doc(db, this.AVAILABILITY_COLLECTION, designerId);
+      await runTransaction(db, async (transaction) => {
+        const availabilitySnap = await transaction.get(availabilityRef);
+        const current = this.fromFirestore(designerId, availabilitySnap.exists() ? availabilitySnap.data() : {});
+
+        // Finished blocks are dropped whenever the list is rewritten
+        const timeOff = [...current.timeOff.filter(b => b.end >= new Date()), block]
+          .sort((a, b) => a.start.getTime() - b.start.getTime());
+
+        transaction.set(availabilityRef, {
+          designer_uid: designerId,
+          time_off: timeOff.map(b => this.timeOffToFirestore(b)),
+          updated_at: serverTimestamp()
+        }, { merge: true });
+      });
+
+      console.log('✅ AvailabilityService: Time off added for designer:', designerId);
+      return block;
+    } catch (error) {
+      console.error('❌ AvailabilityService: Error adding time off:', error);
+      throw new Error(`Failed to add time off: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Removes a time-off block
+   * @param designerId - Designer's user ID
+   * @param blockId - Time-off block ID
+   * @returns Promise<void>
+   */
+  static async removeTimeOff(designerId: string, blockId: string): Promise<void> {
+    try {
+      const availabilityRef = doc(db, this.AVAILABILITY_COLLECTION, designerId);
+
+      await runTransaction(db, async (transaction) => {
+        const availabilitySnap = await transaction.get(availabilityRef);
+        if (!availabilitySnap.exists()) {
+          throw new Error('Availability settings not found');
+        }
+
+        const current = this.fromFirestore(designerId, availabilitySnap.data());
+        transaction.update(availabilityRef, {
+          time_off: current.timeOff.filter(b => b.id !== blockId).map(b => this.timeOffToFirestore(b)),
+          updated_at: serverTimestamp()
+        });
+      });
+
+      console.log('✅ AvailabilityService: Time off removed for designer:', designerId);
+    } catch (error) {
+      console.error('❌ AvailabilityService: Error removing time off:', error);
+      throw new Error(`Failed to remove time off: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Reads a designer's settings inside a transaction and rejects new work when they are at capacity
+   * Must be called before the transaction writes anything
+   * @param transaction - Active Firestore transaction
+   * @param designerId - Designer's user ID
+   * @returns Promise<AvailabilitySettings> - Current settings
+   */
+  static async assertCapacity(transaction: Transaction, designerId: string): Promise<AvailabilitySettings> {
+    const availabilitySnap = await transaction.get(doc(db, this.AVAILABILITY_COLLECTION, designerId));
+    const settings = this.fromFirestore(designerId, availabilitySnap.exists() ? availabilitySnap.data() : {});
+
+    if (!hasCapacity(settings)) {
+      throw new Error(
+        `Designer is at capacity (${settings.activeProjects}/${settings.maxConcurrentProjects} active projects)`
+      );
+    }
+
+    return settings;
+  }
+
+  /**
+   * Moves the designer's active project counter inside the caller's transaction
+   * @param transaction - Active Firestore transaction
+   * @param designerId - Designer's user ID
+   * @param delta - 1 when a project starts, -1 when it finishes
+   * @param source - Request or order whose status changes in the same transaction, checked by the security rules
+   */
+  static recordAssignment(transaction: Transaction, designerId: string, delta: 1 | -1, source: AssignmentSource): void {
+    transaction.set(doc(db, this.AVAILABILITY_COLLECTION, designerId), {
+      designer_uid: designerId,
+      active_projects: increment(delta),
+      last_assignment: source,
+      updated_at: serverTimestamp()
+    }, { merge: true });
+  }
+
+  /**
+   * Validates schedule input
+   * @param schedule - Working hours per weekday
+   * @param maxConcurrentProjects - Project capacity
+   * @returns string[] - Validation errors (empty if valid)
+   */
+  static validateSchedule(schedule: WeeklySchedule, maxConcurrentProjects: number): string[] {
+    const errors: string[] = [];
+
+    WEEKDAYS.forEach(day => {
+      const hours = schedule[day];
+      if (hours?.enabled && hours.start >= hours.end) {
+        errors.push(`${WEEKDAY_LABELS[day]} must end after it starts`);
+      }
+    });
+    if (!Number.isInteger(maxConcurrentProjects) || maxConcurrentProjects < 1 || maxConcurrentProjects > MAX_CONCURRENT_PROJECTS_LIMIT) {
+      errors.push(`Maximum concurrent projects must be between 1 and ${MAX_CONCURRENT_PROJECTS_LIMIT}`);
+    }
+
+    return errors;
+  }
+
+  /**
+   * Converts a time-off block into its Firestore shape
+   */
+  private static timeOffToFirestore(block: TimeOffBlock): DocumentData {
+    return {
+      id: block.id,
+      start: Timestamp.fromDate(block.start),
+      end: Timestamp.fromDate(block.end),
+      reason: block.reason
+    };
+  }
+
+  /**
+   * Converts a Firestore document into AvailabilitySettings
+   */
+  private static fromFirestore(designerId: string, data: DocumentData): AvailabilitySettings {
+    return {
+      designerId,
+      schedule: { ...defaultWeeklySchedule(), ...(data.schedule || {}) },
+      timeOff: (data.time_off || []).map((block: DocumentData) => ({
+        id: block.id,
+        start: block.start?.toDate() || new Date(),
+        end: block.end?.toDate() || new Date(),
+        reason: block.reason || ''
+      })),
+      maxConcurrentProjects: data.max_concurrent_projects || DEFAULT_MAX_CONCURRENT_PROJECTS,
+      activeProjects: Math.max(0, data.active_projects || 0),
+      updatedAt: data.updated_at?.toDate() || new Date()
+    };
+  }
+}
@@ -0,0 +1,841 @@
+import {
+  collection,
+  doc,
+  getDoc,
+  getDocs,
+  query,
+  where,
+  orderBy,
+  limit,
+  onSnapshot,
+  runTransaction,
+  writeBatch,
+  increment,
+  arrayUnion,
+  arrayRemove,
+  serverTimestamp,
+  updateDoc,
+  DocumentData,
+  Unsubscribe,
+  WriteBatch
+} from 'firebase/firestore';
+import {
+  ref,
+  uploadBytesResumable,
+  uploadBytes,
+  getDownloadURL
+} from 'firebase/storage';
+import { db, storage } from '../config/firebase';
+import { Project } from './projectService';
+import { USER_TYPE_LABELS } from '../types/user';
+import { ProjectRequest } from '../types/projectRequest';
+import {
+  AttachmentUploadProgress,
+  Conversation,
+  ConversationParticipant,
+  CreateConversationOptions,
+  Message,
+  MessageAttachment,
+  MessageReplyTo,
+  SendMessageOptions,
+  MAX_ATTACHMENTS_PER_MESSAGE,
+  MAX_QUOTE_LENGTH,
+  isImageAttachment,
+  resolveAttachmentType,
+  validateAttachment
+} from '../types/conversation';
+
+/**
+ * Service for real-time conversations between clients and designers
+ * Conversations live in `conversations`, messages in `conversations/{id}/messages`
+ */
+export class ConversationService {
+  private static readonly CONVERSATIONS_COLLECTION = 'conversations';
+  private static readonly MESSAGES_SUBCOLLECTION = 'messages';
+  private static readonly STORAGE_PATH = 'conversations';
+  private static readonly THUMBNAIL_MAX_DIMENSION = 320;
+  private static readonly SYSTEM_SENDER_NAME = 'ArchiTeams';
+
+  /**
+   * Creates a new conversation between participants
+   * @param participants - Everyone taking part, including the creator
+   * @param creatorId - ID of the user opening the conversation
+   * @param options - Optional project link and fixed conversation ID
+   * @returns Promise<Conversation> - Created conversation, or the existing one when the fixed ID is taken
+   */
+  static async createConversation(
+    participants: ConversationParticipant[],
+    creatorId: string,
+    options: CreateConversationOptions = {}
+  ): Promise<Conversation> {
+    try {
+      const participantIds = Array.from(new Set(participants.map(p => p.id)));
+
+      if (participantIds.length < 2) {
+        throw new Error('A conversation needs at least two participants');
+      }
+      if (!participantIds.includes(creatorId)) {
+        throw new Error('The creator must be a participant');
+      }
+
+      const conversationRef = options.conversationId
+        ? doc(db, this.CONVERSATIONS_COLLECTION, options.conversationId)
+        : doc(collection(db, this.CONVERSATIONS_COLLECTION));
+      const unreadCounts = Object.fromEntries(participantIds.map(id => [id, 0]));
+
+      const existing = await runTransaction(db, async (transaction) => {
+        const conversationSnap = await transaction.get(conversationRef);
+        if (conversationSnap.exists()) {
+          return this.conversationFromFirestore(conversationSnap.id, conversationSnap.data());
+        }
+
+        transaction.set(conversationRef, {
+          participant_uids: participantIds,
+          participants,
+          last_message: null,
+          unread_counts: unreadCounts,
+          pinned_by: [],
+          archived_by: [],
+          project_id: options.projectId || null,
+          project_title: options.projectTitle || null,
+          created_by: creatorId,
+          created_at: serverTimestamp(),
+          updated_at: serverTimestamp()
+        });
+        return null;
+      });
+
+      if (existing) {
+        return existing;
+      }
+
+      console.log('✅ ConversationService: Conversation created with ID:', conversationRef.id);
+
+      return {
+        id: conversationRef.id,
+        participantIds,
+        participants,
+        lastMessage: null,
+        unreadCounts,
+        pinnedBy: [],
+        archivedBy: [],
+        projectId: options.projectId || null,
+        projectTitle: options.projectTitle || null,
+        createdBy: creatorId,
+        createdAt: new Date(),
+        updatedAt: new Date()
+      };
+    } catch (error) {
+      console.error('❌ ConversationService: Error creating conversation:', error);
+      throw new Error(`Failed to create conversation: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Opens the conversation for an assigned project request between its requester and designer
+   * Safe to call repeatedly; the conversation ID is derived from the request
+   * @param request - Project request with an assigned designer
+   * @param creatorId - ID of the user triggering the assignment
+   * @returns Promise<Conversation> - Project conversation
+   */
+  static async openRequestConversation(request: ProjectRequest, creatorId: string): Promise<Conversation> {
+    const designer = request.assignedDesigner;
+    if (!designer) {
+      throw new Error('No designer is assigned to this request');
+    }
+
+    return this.createConversation(
+      [
+        { id: request.requesterId, name: request.client.name, avatar: request.client.avatar, role: USER_TYPE_LABELS.service_requester },
+        { id: designer.uid, name: designer.name, avatar: designer.avatar, role: USER_TYPE_LABELS.designer }
+      ],
+      creatorId,
+      { conversationId: this.getRequestConversationId(request.id), projectId: request.id, projectTitle: request.title }
+    );
+  }
+
+  /**
+   * Opens the request conversation and announces the assignment in it
+   * Best effort: the assignment itself has already been committed when this runs
+   * @param request - Project request with an assigned designer
+   * @param actorId - ID of the user who assigned the designer
+   * @param announcement - System message posted into the conversation
+   * @returns Promise<void>
+   */
+  static async startRequestConversation(request: ProjectRequest, actorId: string, announcement: string): Promise<void> {
+    try {
+      await this.openRequestConversation(request, actorId);
+      await this.postRequestEvent(request.id, actorId, announcement);
+    } catch (error) {
+      console.warn('⚠️ ConversationService: Could not open project conversation:', error);
+    }
+  }
+
+  /**
+   * Opens the conversation between a buyer and the designer of a purchased project package
+   * Each buyer gets their own conversation per package
+   * @param project - Purchased project package
+   * @param buyer - Buyer as a participant
+   * @param designer - Designer who published the package
+   * @returns Promise<Conversation> - Project conversation
+   */
+  static async openPurchaseConversation(
+    project: Pick<Project, 'id' | 'title'>,
+    buyer: ConversationParticipant,
+    designer: ConversationParticipant
+  ): Promise<Conversation> {
+    return this.createConversation([buyer, designer], buyer.id, {
+      conversationId: `project_${project.id}_${buyer.id}`,
+      projectId: project.id,
+      projectTitle: project.title
+    });
+  }
+
+  /**
+   * Posts an automated system message into a conversation
+   * Best effort: failures are logged and never interrupt the action that triggered them
+   * @param conversationId - Conversation ID
+   * @param actorId - ID of the user whose action produced the event
+   * @param content - Message text
+   * @returns Promise<void>
+   */
+  static async postSystemMessage(conversationId: string, actorId: string, content: string): Promise<void> {
+    try {
+      // Requests without an assigned designer have no conversation to announce into
+      if (!(await this.getConversation(conversationId))) return;
+
+      await this.sendMessage(
+        conversationId,
+        { id: actorId, name: this.SYSTEM_SENDER_NAME, avatar: '', role: 'System' },
+        content,
+        { type: 'system' }
+      );
+    } catch (error) {
+      console.warn('⚠️ ConversationService: Could not post system message:', error);
+    }
+  }
+
+  /**
+   * Posts a system message into the conversation of a project request, if one has been opened
+   * @param requestId - Project request ID
+   * @param actorId - ID of the user whose action produced the event
+   * @param content - Message text
+   * @returns Promise<void>
+   */
+  static async postRequestEvent(requestId: string, actorId: string, content: string): Promise<void> {
+    await this.postSystemMessage(this.getRequestConversationId(requestId), actorId, content);
+  }
+
+  /**
+   * Returns the existing direct conversation between two users or opens a new one
+   * @param self - Current user as a participant
+   * @param other - The other participant
+   * @returns Promise<Conversation> - Existing or created conversation
+   */
+  static async findOrCreateDirectConversation(
+    self: ConversationParticipant,
+    other: ConversationParticipant
+  ): Promise<Conversation> {
+    try {
+      const q = query(
+        collection(db, this.CONVERSATIONS_COLLECTION),
+        where('participant_uids', 'array-contains', self.id)
+      );
+      const querySnapshot = await getDocs(q);
+
+      const existing = querySnapshot.docs
+        .map(docSnap => this.conversationFromFirestore(docSnap.id, docSnap.data()))
+        .find(c => !c.projectId && c.participantIds.length === 2 && c.participantIds.includes(other.id));
+
+      if (existing) {
+        return existing;
+      }
+
+      return await this.createConversation([self, other], self.id);
+    } catch (error) {
+      console.error('❌ ConversationService: Error opening direct conversation:', error);
+      throw new Error(`Failed to open conversation: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Gets a conversation by ID
+   * @param conversationId - Conversation ID
+   * @returns Promise<Conversation | null> - Conversation or null if not found
+   */
+  static async getConversation(conversationId: string): Promise<Conversation | null> {
+    try {
+      const conversationSnap = await getDoc(doc(db, this.CONVERSATIONS_COLLECTION, conversationId));
+
+      if (conversationSnap.exists()) {
+        return this.conversationFromFirestore(conversationSnap.id, conversationSnap.data());
+      }
+
+      return null;
+    } catch (error) {
+      console.error('❌ Error fetching conversation:', error);
+      throw new Error(`Failed to fetch conversation: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Sends a message and bumps the unread count of every other participant
+   * @param conversationId - Conversation ID
+   * @param sender - Participant sending the message
+   * @param content - Message text
+   * @param options - Message type, attachments and the message being replied to
+   * @returns Promise<Message> - Sent message
+   */
+  static async sendMessage(
+    conversationId: string,
+    sender: ConversationParticipant,
+    content: string,
+    options: SendMessageOptions = {}
+  ): Promise<Message> {
+    try {
+      const trimmed = content.trim();
+      if (!trimmed && !options.attachments?.length) {
+        throw new Error('Message cannot be empty');
+      }
+      if ((options.attachments?.length || 0) > MAX_ATTACHMENTS_PER_MESSAGE) {
+        throw new Error(`A message can carry at most ${MAX_ATTACHMENTS_PER_MESSAGE} attachments`);
+      }
+
+      const conversation = await this.getConversation(conversationId);
+      if (!conversation) {
+        throw new Error('Conversation not found');
+      }
+      if (!conversation.participantIds.includes(sender.id)) {
+        throw new Error('Only participants can send messages');
+      }
+
+      const conversationRef = doc(db, this.CONVERSATIONS_COLLECTION, conversationId);
+      const messageRef = doc(collection(conversationRef, this.MESSAGES_SUBCOLLECTION));
+      const replyTo = options.replyToId ? await this.buildReplySnapshot(conversationId, options.replyToId) : null;
+      const attachments = options.attachments || [];
+      const type = options.type
+        || (attachments.length === 0 ? 'text' : attachments.every(isImageAttachment) ? 'image' : 'file');
+
+      const batch = writeBatch(db);
+      batch.set(messageRef, {
+        sender_uid: sender.id,
+        sender_name: sender.name,
+        sender_avatar: sender.avatar,
+        content: trimmed,
+        type,
+        attachments,
+        reply_to: replyTo
+          ? { id: replyTo.id, content: replyTo.content, sender_name: replyTo.senderName, sender_uid: replyTo.senderId, type: replyTo.type }
+          : null,
+        reply_count: 0,
+        delivered_to: [sender.id],
+        read_by: [sender.id],
+        edited_at: null,
+        deleted_at: null,
+        created_at: serverTimestamp()
+      });
+
+      if (replyTo) {
+        batch.update(doc(conversationRef, this.MESSAGES_SUBCOLLECTION, replyTo.id), {
+          reply_count: increment(1)
+        });
+      }
+
+      const conversationUpdates: DocumentData = {
+        last_message: {
+          content: trimmed || `📎 ${options.attachments?.[0]?.name || 'Attachment'}`,
+          timestamp: serverTimestamp(),
+          sender_uid: sender.id,
+          message_id: messageRef.id
+        },
+        // A new message brings the conversation back for anyone who archived it
+        archived_by: [],
+        updated_at: serverTimestamp()
+      };
+      conversation.participantIds
+        .filter(id => id !== sender.id)
+        .forEach(id => {
+          conversationUpdates[`unread_counts.${id}`] = increment(1);
+        });
+      batch.update(conversationRef, conversationUpdates);
+
+      await batch.commit();
+
+      return {
+        id: messageRef.id,
+        conversationId,
+        content: trimmed,
+        timestamp: new Date(),
+        senderId: sender.id,
+        senderName: sender.name,
+        senderAvatar: sender.avatar,
+        type,
+        deliveredTo: [sender.id],
+        readBy: [sender.id],
+        attachments,
+        replyTo,
+        replyCount: 0,
+        editedAt: null,
+        deletedAt: null
+      };
+    } catch (error) {
+      console.error('❌ ConversationService: Error sending message:', error);
+      throw new Error(`Failed to send message: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Edits the text of a message; only the sender may edit
+   * @param conversationId - Conversation ID
+   * @param messageId - Message ID
+   * @param userId - ID of the editing user
+   * @param content - New message text
+   * @returns Promise<void>
+   */
+  static async editMessage(conversationId: string, messageId: string, userId: string, content: string): Promise<void> {
+    try {
+      const trimmed = content.trim();
+      if (!trimmed) {
+        throw new Error('Message cannot be empty');
+      }
+
+      const messageRef = doc(db, this.CONVERSATIONS_COLLECTION, conversationId, this.MESSAGES_SUBCOLLECTION, messageId);
+      const messageSnap = await getDoc(messageRef);
+
+      if (!messageSnap.exists()) {
+        throw new Error('Message not found');
+      }
+      if (messageSnap.data().sender_uid !== userId) {
+        throw new Error('Only the sender can edit this message');
+      }
+      if (messageSnap.data().deleted_at) {
+        throw new Error('Deleted messages cannot be edited');
+      }
+
+      const batch = writeBatch(db);
+      batch.update(messageRef, {
+        content: trimmed,
+        edited_at: serverTimestamp()
+      });
+      await this.syncLastMessage(batch, conversationId, messageId, trimmed);
+      await batch.commit();
+    } catch (error) {
+      console.error('❌ ConversationService: Error editing message:', error);
+      throw new Error(`Failed to edit message: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Deletes a message for everyone; only the sender may delete
+   * The document is kept as a tombstone so replies still have a parent to point at,
+   * but the quotes replies took of it are blanked and it no longer counts as a reply itself
+   * @param conversationId - Conversation ID
+   * @param messageId - Message ID
+   * @param userId - ID of the deleting user
+   * @returns Promise<void>
+   */
+  static async deleteMessage(conversationId: string, messageId: string, userId: string): Promise<void> {
+    try {
+      const messagesRef = collection(db, this.CONVERSATIONS_COLLECTION, conversationId, this.MESSAGES_SUBCOLLECTION);
+      const messageRef = doc(messagesRef, messageId);
+      const messageSnap = await getDoc(messageRef);
+
+      if (!messageSnap.exists()) {
+        throw new Error('Message not found');
+      }
+      if (messageSnap.data().sender_uid !== userId) {
+        throw new Error('Only the sender can delete this message');
+      }
+      if (messageSnap.data().deleted_at) {
+        return;
+      }
+
+      const parentId: string | undefined = messageSnap.data().reply_to?.id;
+      const [parentSnap, repliesSnapshot] = await Promise.all([
+        parentId ? getDoc(doc(messagesRef, parentId)) : Promise.resolve(null),
+        getDocs(query(messagesRef, where('reply_to.id', '==', messageId)))
+      ]);
+
+      const batch = writeBatch(db);
+      batch.update(messageRef, {
+        content: '',
+        attachments: [],
+        deleted_at: serverTimestamp()
+      });
+      if (parentSnap?.exists()) {
+        batch.update(parentSnap.ref, { reply_count: increment(-1) });
+      }
+      repliesSnapshot.docs.forEach(replySnap => {
+        batch.update(replySnap.ref, { 'reply_to.content': '' });
+      });
+      await this.syncLastMessage(batch, conversationId, messageId, 'This message was deleted');
+      await batch.commit();
+    } catch (error) {
+      console.error('❌ ConversationService: Error deleting message:', error);
+      throw new Error(`Failed to delete message: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Uploads a file into the conversation's storage folder
+   * Uses a resumable upload so large CAD files survive flaky connections
+   * @param conversationId - Conversation ID
+   * @param uploaderId - ID of the uploading participant
+   * @param file - File to upload
+   * @param onProgress - Called as bytes are transferred
+   * @returns Promise<MessageAttachment> - Attachment ready to be sent
+   */
+  static async uploadAttachment(
+    conversationId: string,
+    uploaderId: string,
+    file: File,
+    onProgress?: (progress: AttachmentUploadProgress) => void
+  ): Promise<MessageAttachment> {
+    try {
+      const policyError = validateAttachment(file);
+      if (policyError) {
+        throw new Error(policyError);
+      }
+
+      const contentType = resolveAttachmentType(file);
+      const sanitizedName = file.name
+        .replace(/\s+/g, '_')
+        .replace(/[^a-zA-Z0-9._-]/g, '')
+        .toLowerCase();
+      const attachmentId = `${Date.now()}_${Math.random().toString(36).substring(2, 8)}`;
+      const path = `${this.STORAGE_PATH}/${conversationId}/attachments/${attachmentId}_${sanitizedName}`;
+      const metadata = { contentType, customMetadata: { uploaderId } };
+
+      const task = uploadBytesResumable(ref(storage, path), file, metadata);
+
+      await new Promise<void>((resolve, reject) => {
+        task.on(
+          'state_changed',
+          (snapshot) => {
+            onProgress?.({
+              fileName: file.name,
+              bytesTransferred: snapshot.bytesTransferred,
+              totalBytes: snapshot.totalBytes,
+              progress: snapshot.totalBytes > 0 ? Math.round((snapshot.bytesTransferred / snapshot.totalBytes) * 100) : 0
+            });
+          },
+          reject,
+          () => resolve()
+        );
+      });
+
+      const url = await getDownloadURL(task.snapshot.ref);
+
+      const attachment: MessageAttachment = {
+        id: attachmentId,
+        name: file.name,
+        type: contentType,
+        size: file.size,
+        url,
+        path,
+        thumbnailUrl: null
+      };
+
+      if (isImageAttachment(attachment)) {
+        try {
+          attachment.thumbnailUrl = await this.uploadThumbnail(conversationId, attachmentId, file, uploaderId);
+        } catch (thumbnailError) {
+          // The full image still renders inline, so a missing thumbnail is not fatal
+          console.warn('⚠️ Could not create thumbnail for attachment:', thumbnailError);
+        }
+      }
+
+      console.log('✅ ConversationService: Attachment uploaded:', path);
+      return attachment;
+    } catch (error) {
+      console.error('❌ ConversationService: Error uploading attachment:', error);
+      throw new Error(`Failed to upload attachment: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Streams the conversations a user takes part in, most recently active first
+   * @param userId - Participant user ID
+   * @param onChange - Called with the full list on every change
+   * @param onError - Called when the listener fails
+   * @returns Unsubscribe - Stops listening
+   */
+  static subscribeToConversations(
+    userId: string,
+    onChange: (conversations: Conversation[]) => void,
+    onError?: (error: Error) => void
+  ): Unsubscribe {
+    const q = query(
+      collection(db, this.CONVERSATIONS_COLLECTION),
+      where('participant_uids', 'array-contains', userId),
+      orderBy('updated_at', 'desc')
+    );
+
+    return onSnapshot(
+      q,
+      (snapshot) => {
+        onChange(snapshot.docs.map(docSnap => this.conversationFromFirestore(docSnap.id, docSnap.data())));
+      },
+      (error) => {
+        console.error('❌ ConversationService: Conversation listener failed:', error);
+        onError?.(error);
+      }
+    );
+  }
+
+  /**
+   * Streams the messages of a conversation in chronological order
+   * @param conversationId - Conversation ID
+   * @param onChange - Called with the full list on every change
+   * @param onError - Called when the listener fails
+   * @returns Unsubscribe - Stops listening
+   */
+  static subscribeToMessages(
+    conversationId: string,
+    onChange: (messages: Message[]) => void,
+    onError?: (error: Error) => void
+  ): Unsubscribe {
+    const q = query(
+      collection(db, this.CONVERSATIONS_COLLECTION, conversationId, this.MESSAGES_SUBCOLLECTION),
+      orderBy('created_at', 'asc')
+    );
+
+    return onSnapshot(
+      q,
+      (snapshot) => {
+        onChange(snapshot.docs.map(docSnap => this.messageFromFirestore(conversationId, docSnap.id, docSnap.data())));
+      },
+      (error) => {
+        console.error('❌ ConversationService: Message listener failed:', error);
+        onError?.(error);
+      }
+    );
+  }
+
+  /**
+   * Records that the latest unread messages of a conversation reached a participant
+   * @param conversationId - Conversation ID
+   * @param userId - Receiving participant
+   * @param unreadCount - Number of most recent messages to acknowledge
+   * @returns Promise<void>
+   */
+  static async markDelivered(conversationId: string, userId: string, unreadCount: number): Promise<void> {
+    if (unreadCount <= 0) return;
+
+    try {
+      const q = query(
+        collection(db, this.CONVERSATIONS_COLLECTION, conversationId, this.MESSAGES_SUBCOLLECTION),
+        orderBy('created_at', 'desc'),
+        limit(unreadCount)
+      );
+      const querySnapshot = await getDocs(q);
+
+      const pending = querySnapshot.docs.filter(docSnap => !(docSnap.data().delivered_to || []).includes(userId));
+      if (pending.length === 0) return;
+
+      const batch = writeBatch(db);
+      pending.forEach(docSnap => {
+        batch.update(docSnap.ref, { delivered_to: arrayUnion(userId) });
+      });
+      await batch.commit();
+    } catch (error) {
+      console.error('❌ Error marking messages delivered:', error);
+    }
+  }
+
+  /**
+   * Marks messages as read and resets the participant's unread count
+   * @param conversationId - Conversation ID
+   * @param messageIds - Messages the participant has now seen
+   * @param userId - Reading participant
+   * @returns Promise<void>
+   */
+  static async markConversationRead(conversationId: string, messageIds: string[], userId: string): Promise<void> {
+    try {
+      const conversationRef = doc(db, this.CONVERSATIONS_COLLECTION, conversationId);
+      const batch = writeBatch(db);
+
+      messageIds.forEach(messageId => {
+        batch.update(doc(conversationRef, this.MESSAGES_SUBCOLLECTION, messageId), {
+          delivered_to: arrayUnion(userId),
+          read_by: arrayUnion(userId)
+        });
+      });
+      batch.update(conversationRef, { [`unread_counts.${userId}`]: 0 });
+
+      await batch.commit();
+    } catch (error) {
+      console.error('❌ Error marking conversation read:', error);
+    }
+  }
+
+  /**
+   * Pins or unpins a conversation for one participant
+   * @param conversationId - Conversation ID
+   * @param userId - Participant
+   * @param pinned - Whether the conversation should be pinned
+   * @returns Promise<void>
+   */
+  static async setPinned(conversationId: string, userId: string, pinned: boolean): Promise<void> {
+    try {
+      await updateDoc(doc(db, this.CONVERSATIONS_COLLECTION, conversationId), {
+        pinned_by: pinned ? arrayUnion(userId) : arrayRemove(userId)
+      });
+    } catch (error) {
+      console.error('❌ Error updating pinned state:', error);
+      throw new Error(`Failed to update conversation: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Archives or restores a conversation for one participant
+   * @param conversationId - Conversation ID
+   * @param userId - Participant
+   * @param archived - Whether the conversation should be archived
+   * @returns Promise<void>
+   */
+  static async setArchived(conversationId: string, userId: string, archived: boolean): Promise<void> {
+    try {
+      await updateDoc(doc(db, this.CONVERSATIONS_COLLECTION, conversationId), {
+        archived_by: archived ? arrayUnion(userId) : arrayRemove(userId)
+      });
+    } catch (error) {
+      console.error('❌ Error updating archived state:', error);
+      throw new Error(`Failed to update conversation: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Builds the deterministic conversation ID for a project request
+   */
+  private static getRequestConversationId(requestId: string): string {
+    return `request_${requestId}`;
+  }
+
+  /**
+   * Keeps the conversation preview in step when its latest message is edited or deleted
+   */
+  private static async syncLastMessage(
+    batch: WriteBatch,
+    conversationId: string,
+    messageId: string,
+    content: string
+  ): Promise<void> {
+    const conversationRef = doc(db, this.CONVERSATIONS_COLLECTION, conversationId);
+    const conversationSnap = await getDoc(conversationRef);
+
+    if (conversationSnap.exists() && conversationSnap.data().last_message?.message_id === messageId) {
+      batch.update(conversationRef, { 'last_message.content': content });
+    }
+  }
+
+  /**
+   * Captures the quoted part of a parent message at the time of replying
+   */
+  private static async buildReplySnapshot(conversationId: string, parentId: string): Promise<MessageReplyTo> {
+    const parentSnap = await getDoc(doc(db, this.CONVERSATIONS_COLLECTION, conversationId, this.MESSAGES_SUBCOLLECTION, parentId));
+
+    if (!parentSnap.exists()) {
+      throw new Error('The message you are replying to no longer exists');
+    }
+
+    const parent = this.messageFromFirestore(conversationId, parentSnap.id, parentSnap.data());
+    if (parent.deletedAt) {
+      throw new Error('Cannot reply to a deleted message');
+    }
+
+    const quoted = parent.content || `📎 ${parent.attachments?.[0]?.name || 'Attachment'}`;
+
+    return {
+      id: parent.id,
+      content: quoted.length > MAX_QUOTE_LENGTH ? `${quoted.substring(0, MAX_QUOTE_LENGTH)}…` : quoted,
+      senderName: parent.senderName,
+      senderId: parent.senderId,
+      type: parent.type
+    };
+  }
+
+  /**
+   * Renders a downscaled JPEG of an image and uploads it next to the attachment
+   */
+  private static async uploadThumbnail(
+    conversationId: string,
+    attachmentId: string,
+    file: File,
+    uploaderId: string
+  ): Promise<string> {
+    const bitmap = await createImageBitmap(file);
+    const scale = Math.min(1, this.THUMBNAIL_MAX_DIMENSION / Math.max(bitmap.width, bitmap.height));
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.round(bitmap.width * scale);
+    canvas.height = Math.round(bitmap.height * scale);
+    canvas.getContext('2d')?.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+    bitmap.close();
+
+    const blob = await new Promise<Blob>((resolve, reject) => {
+      canvas.toBlob(result => (result ? resolve(result) : reject(new Error('Thumbnail encoding failed'))), 'image/jpeg', 0.8);
+    });
+
+    const thumbnailRef = ref(storage, `${this.STORAGE_PATH}/${conversationId}/thumbnails/${attachmentId}.jpg`);
+    const snapshot = await uploadBytes(thumbnailRef, blob, { contentType: 'image/jpeg', customMetadata: { uploaderId } });
+    return getDownloadURL(snapshot.ref);
+  }
+
+  /**
+   * Converts a Firestore document into a Conversation
+   */
+  private static conversationFromFirestore(id: string, data: DocumentData): Conversation {
+    return {
+      id,
+      participantIds: data.participant_uids || [],
+      participants: data.participants || [],
+      lastMessage: data.last_message
+        ? {
+            content: data.last_message.content,
+            timestamp: data.last_message.timestamp?.toDate() || new Date(),
+            senderId: data.last_message.sender_uid
+          }
+        : null,
+      unreadCounts: data.unread_counts || {},
+      pinnedBy: data.pinned_by || [],
+      archivedBy: data.archived_by || [],
+      projectId: data.project_id || null,
+      projectTitle: data.project_title || null,
+      createdBy: data.created_by,
+      createdAt: data.created_at?.toDate() || new Date(),
+      updatedAt: data.updated_at?.toDate() || new Date()
+    };
+  }
+
+  /**
+   * Converts a Firestore document into a Message
+   */
+  private static messageFromFirestore(conversationId: string, id: string, data: DocumentData): Message {
+    return {
+      id,
+      conversationId,
+      content: data.content || '',
+      // Pending server timestamps are null until the write is acknowledged
+      timestamp: data.created_at?.toDate() || new Date(),
+      senderId: data.sender_uid,
+      senderName: data.sender_name,
+      senderAvatar: data.sender_avatar,
+      type: data.type || 'text',
+      deliveredTo: data.delivered_to || [],
+      readBy: data.read_by || [],
+      attachments: data.attachments || [],
+      replyTo: data.reply_to
+        ? {
+            id: data.reply_to.id,
+            content: data.reply_to.content,
+            senderName: data.reply_to.sender_name,
+            senderId: data.reply_to.sender_uid,
+            type: data.reply_to.type
+          }
+        : null,
+      replyCount: data.reply_count || 0,
+      editedAt: data.edited_at?.toDate() || null,
+      deletedAt: data.deleted_at?.toDate() || null
+    };
+  }
+}
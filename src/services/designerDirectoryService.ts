@@ -0,0 +1,346 @@
+import {
+  collection,
+  doc,
+  getDoc,
+  getDocs,
+  setDoc,
+  updateDoc,
+  deleteDoc,
+  query,
+  where,
+  orderBy,
+  limit,
+  startAfter,
+  serverTimestamp,
+  DocumentData,
+  QueryConstraint,
+  QueryDocumentSnapshot
+} from 'firebase/firestore';
+import { db } from '../config/firebase';
+import {
+  DesignerDirectoryEntry,
+  DesignerDirectoryFilters,
+  DirectorySort,
+  DIRECTORY_PAGE_SIZE,
+  getExperienceYears,
+  getPriceBand,
+  isExperienceBand
+} from '../types/designerDirectory';
+import { DesignerStats, getCompletionRate } from '../types/review';
+import { computeAvailability } from '../types/availability';
+import { AvailabilityService } from './availabilityService';
+
+export interface DesignerDirectoryPage {
+  entries: DesignerDirectoryEntry[];
+  cursor: QueryDocumentSnapshot<DocumentData> | null;
+  hasMore: boolean;
+}
+
+/**
+ * Service for the public designer directory
+ * Entries are derived from verified designer profiles joined with their approved verification,
+ * and kept in `designer_directory` so every filter and sort runs as a Firestore query
+ */
+export class DesignerDirectoryService {
+  private static readonly DIRECTORY_COLLECTION = 'designer_directory';
+  private static readonly USERS_COLLECTION = 'users';
+  private static readonly VERIFICATIONS_COLLECTION = 'verification_requests';
+  private static readonly PROJECTS_COLLECTION = 'projects';
+  private static readonly STATS_COLLECTION = 'designer_stats';
+
+  /**
+   * Gets one page of directory entries
+   * @param filters - Server-side filters
+   * @param sort - Sort order
+   * @param cursor - Last document of the previous page
+   * @param pageSize - Number of entries per page
+   * @returns Promise<DesignerDirectoryPage> - Entries and the cursor for the next page
+   */
+  static async getDesigners(
+    filters: DesignerDirectoryFilters = {},
+    sort: DirectorySort = 'rating',
+    cursor: QueryDocumentSnapshot<DocumentData> | null = null,
+    pageSize: number = DIRECTORY_PAGE_SIZE
+  ): Promise<DesignerDirectoryPage> {
+    try {
+      const constraints: QueryConstraint[] = [];
+
+      if (filters.specialization) {
+        constraints.push(where('specialization', '==', filters.specialization));
+      }
+      if (filters.experienceBand) {
+        constraints.push(where('experience_band', '==', filters.experienceBand));
+      }
+      if (filters.software) {
+        constraints.push(where('software', 'array-contains', filters.software));
+      }
+      if (filters.priceBand) {
+        constraints.push(where('price_band', '==', filters.priceBand));
+      }
+      if (filters.availability) {
+        constraints.push(where('availability', '==', filters.availability));
+      }
+
+      switch (sort) {
+        case 'price':
+          // Designers without a published package have no price to compare
+          constraints.push(where('starting_price', '!=', null), orderBy('starting_price', 'asc'));
+          break;
+        case 'experience':
+          constraints.push(orderBy('experience_years', 'desc'), orderBy('rating', 'desc'));
+          break;
+        default:
+          constraints.push(orderBy('rating', 'desc'), orderBy('review_count', 'desc'));
+      }
+
+      if (cursor) {
+        constraints.push(startAfter(cursor));
+      }
+      // One extra document tells us whether another page exists
+      constraints.push(limit(pageSize + 1));
+
+      const querySnapshot = await getDocs(query(collection(db, this.DIRECTORY_COLLECTION), ...constraints));
+      const docs = querySnapshot.docs.slice(0, pageSize);
+
+      return {
+        entries: docs.map(docSnap => this.fromFirestore(docSnap.id, docSnap.data())),
+        cursor: docs.length > 0 ? docs[docs.length - 1] : null,
+        hasMore: querySnapshot.docs.length > pageSize
+      };
+    } catch (error) {
+      console.error('❌ Error fetching designer directory:', error);
+      throw new Error(`Failed to fetch designers: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Gets a single directory entry
+   * @param designerId - Designer's user ID
+   * @returns Promise<DesignerDirectoryEntry | null> - Entry or null if the designer is not listed
+   */
+  static async getDesigner(designerId: string): Promise<DesignerDirectoryEntry | null> {
+    try {
+      const entrySnap = await getDoc(doc(db, this.DIRECTORY_COLLECTION, designerId));
+
+      if (entrySnap.exists()) {
+        return this.fromFirestore(entrySnap.id, entrySnap.data());
+      }
+
+      return null;
+    } catch (error) {
+      console.error('❌ Error fetching directory entry:', error);
+      throw new Error(`Failed to fetch designer: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Rebuilds a designer's entry from their profile, approved verification and packages
+   * Designers who are no longer verified are removed from the directory
+   * @param designerId - Designer's user ID
+   * @returns Promise<void>
+   */
+  static async syncDesigner(designerId: string): Promise<void> {
+    try {
+      const entryRef = doc(db, this.DIRECTORY_COLLECTION, designerId);
+      const userSnap = await getDoc(doc(db, this.USERS_COLLECTION, designerId));
+      const user = userSnap.exists() ? userSnap.data() : null;
+
+      if (!user || user.user_type !== 'designer' || user.designer_verification_status !== 'verified' || user.is_active === false) {
+        await deleteDoc(entryRef);
+        console.log('🗑️ DesignerDirectoryService: Removed unlisted designer:', designerId);
+        return;
+      }
+
+      const verificationSnapshot = await getDocs(query(
+        collection(db, this.VERIFICATIONS_COLLECTION),
+        where('userId', '==', designerId),
+        where('status', '==', 'approved')
+      ));
+      // Several approvals can exist after resubmissions; the most recent one wins
+      const verification = verificationSnapshot.docs
+        .map(docSnap => docSnap.data())
+        .sort((a, b) => (b.reviewed_at?.toMillis() || 0) - (a.reviewed_at?.toMillis() || 0))[0];
+
+      if (!verification) {
+        console.warn('⚠️ DesignerDirectoryService: Verified designer has no approved verification:', designerId);
+        return;
+      }
+
+      const projectsSnapshot = await getDocs(query(
+        collection(db, this.PROJECTS_COLLECTION),
+        where('createdBy', '==', designerId),
+        where('status', '==', 'active')
+      ));
+      const prices = projectsSnapshot.docs
+        .map(docSnap => docSnap.data().price)
+        .filter((price): price is number => typeof price === 'number' && price > 0);
+      const startingPrice = prices.length > 0 ? Math.min(...prices) : null;
+
+      const experienceBand = isExperienceBand(verification.experience_years) ? verification.experience_years : null;
+      const availability = computeAvailability(await AvailabilityService.getAvailability(designerId));
+
+      // Reputation fields are owned by the review service and only seeded here
+      const existing = await getDoc(entryRef);
+      let seed = {};
+      if (!existing.exists()) {
+        // Stats outlive the listing, so a re-verified designer keeps their reputation
+        const statsSnap = await getDoc(doc(db, this.STATS_COLLECTION, designerId));
+        const stats = statsSnap.exists() ? statsSnap.data() : {};
+        const reviewCount: number = stats.review_count || 0;
+        const completedProjects: number = stats.completed_projects || 0;
+
+        seed = {
+          rating: reviewCount > 0 ? Math.round(((stats.rating_sum || 0) / reviewCount) * 10) / 10 : 0,
+          review_count: reviewCount,
+          completed_projects: completedProjects,
+          completion_rate: getCompletionRate(completedProjects, stats.cancelled_projects || 0),
+          verified_at: serverTimestamp()
+        };
+      }
+
+      await setDoc(entryRef, {
+        ...seed,
+        name: user.full_name || verification.full_name || '',
+        avatar: user.profile_picture_url || '',
+        specialization: verification.specialization || 'other',
+        specialization_description: verification.specialization_description || '',
+        experience_band: experienceBand,
+        experience_years: getExperienceYears(experienceBand),
+        software: Array.isArray(verification.software_proficiency) ? verification.software_proficiency : [],
+        portfolio_url: verification.portfolio_url || '',
+        education: verification.education || '',
+        certifications: verification.certifications || '',
+        starting_price: startingPrice,
+        price_band: getPriceBand(startingPrice),
+        availability,
+        updated_at: serverTimestamp()
+      }, { merge: true });
+
+      console.log('✅ DesignerDirectoryService: Directory entry synced:', designerId);
+    } catch (error) {
+      console.error('❌ DesignerDirectoryService: Error syncing directory entry:', error);
+      throw new Error(`Failed to sync directory entry: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Mirrors a designer's reputation stats onto their entry so the directory can sort by rating
+   * Designers who are not listed are skipped
+   * @param stats - Current designer stats
+   * @returns Promise<void>
+   */
+  static async applyStats(stats: DesignerStats): Promise<void> {
+    try {
+      const entryRef = doc(db, this.DIRECTORY_COLLECTION, stats.designerId);
+      const entrySnap = await getDoc(entryRef);
+
+      if (!entrySnap.exists()) {
+        return;
+      }
+
+      await updateDoc(entryRef, {
+        rating: stats.rating,
+        review_count: stats.reviewCount,
+        completed_projects: stats.completedProjects,
+        completion_rate: stats.completionRate,
+        updated_at: serverTimestamp()
+      });
+
+      console.log('✅ DesignerDirectoryService: Directory stats updated:', stats.designerId);
+    } catch (error) {
+      console.error('❌ DesignerDirectoryService: Error updating directory stats:', error);
+      throw new Error(`Failed to update directory stats: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Recomputes a designer's availability from their schedule, time off and active projects
+   * Designers who are not listed are skipped
+   * @param designerId - Designer's user ID
+   * @returns Promise<void>
+   */
+  static async refreshAvailability(designerId: string): Promise<void> {
+    try {
+      const entryRef = doc(db, this.DIRECTORY_COLLECTION, designerId);
+      const entrySnap = await getDoc(entryRef);
+
+      if (!entrySnap.exists()) {
+        return;
+      }
+
+      const availability = computeAvailability(await AvailabilityService.getAvailability(designerId));
+      if (entrySnap.data().availability === availability) {
+        return;
+      }
+
+      await updateDoc(entryRef, {
+        availability,
+        updated_at: serverTimestamp()
+      });
+
+      console.log(`✅ DesignerDirectoryService: Availability of ${designerId} is now ${availability}`);
+    } catch (error) {
+      console.error('❌ DesignerDirectoryService: Error refreshing availability:', error);
+      throw new Error(`Failed to refresh availability: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Re-syncs every verified designer and drops entries for designers who lost verification (admin only)
+   * @returns Promise<number> - Number of listed designers
+   */
+  static async rebuildDirectory(): Promise<number> {
+    try {
+      const [designersSnapshot, entriesSnapshot] = await Promise.all([
+        getDocs(query(
+          collection(db, this.USERS_COLLECTION),
+          where('user_type', '==', 'designer'),
+          where('designer_verification_status', '==', 'verified')
+        )),
+        getDocs(collection(db, this.DIRECTORY_COLLECTION))
+      ]);
+
+      const verifiedIds = new Set(designersSnapshot.docs.map(docSnap => docSnap.id));
+      const staleIds = entriesSnapshot.docs.map(docSnap => docSnap.id).filter(id => !verifiedIds.has(id));
+
+      // Sequential on purpose: each sync issues several reads
+      for (const designerId of [...verifiedIds, ...staleIds]) {
+        await this.syncDesigner(designerId);
+      }
+
+      console.log(`✅ DesignerDirectoryService: Directory rebuilt with ${verifiedIds.size} designers`);
+      return verifiedIds.size;
+    } catch (error) {
+      console.error('❌ DesignerDirectoryService: Error rebuilding directory:', error);
+      throw new Error(`Failed to rebuild directory: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Converts a Firestore document into a DesignerDirectoryEntry
+   */
+  private static fromFirestore(id: string, data: DocumentData): DesignerDirectoryEntry {
+    return {
+      id,
+      name: data.name || '',
+      avatar: data.avatar || '',
+      specialization: data.specialization || 'other',
+      specializationDescription: data.specialization_description || '',
+      experienceBand: data.experience_band || null,
+      experienceYears: data.experience_years || 0,
+      software: data.software || [],
+      portfolioUrl: data.portfolio_url || '',
+      education: data.education || '',
+      certifications: data.certifications || '',
+      rating: data.rating || 0,
+      reviewCount: data.review_count || 0,
+      completedProjects: data.completed_projects || 0,
+      completionRate: data.completion_rate ?? null,
+      startingPrice: data.starting_price ?? null,
+      priceBand: data.price_band || null,
+      availability: data.availability || 'available',
+      verifiedAt: data.verified_at?.toDate() || new Date(),
+      updatedAt: data.updated_at?.toDate() || new Date()
+    };
+  }
+}
@@ -0,0 +1,189 @@
+import {
+  collection,
+  doc,
+  getDocs,
+  query,
+  where,
+  orderBy,
+  runTransaction,
+  increment,
+  serverTimestamp,
+  DocumentData,
+  QueryDocumentSnapshot
+} from 'firebase/firestore';
+import { db } from '../config/firebase';
+import { queryPaginated, PaginatedResult, DEFAULT_PAGE_SIZE } from '../utils/firestoreHelpers';
+import { FavoriteProject, getFavoriteId, getProjectViewId, getViewDay } from '../types/engagement';
+import { findImageRenditions, getRenditionUrl } from '../types/image';
+
+/**
+ * Service for project views and favorites
+ * Each counter change is written in the same transaction as the document that justifies it,
+ * so `viewCount` and `favoriteCount` never drift from the underlying records
+ */
+export class EngagementService {
+  private static readonly VIEWS_COLLECTION = 'project_views';
+  private static readonly FAVORITES_COLLECTION = 'favorites';
+  private static readonly PROJECTS_COLLECTION = 'projects';
+
+  /**
+   * Records that a user viewed a project, at most once per user per day
+   * Designers viewing their own packages are not counted
+   * @param projectId - Project ID
+   * @param viewerId - Viewing user's ID
+   * @returns Promise<boolean> - True if this view was counted
+   */
+  static async recordView(projectId: string, viewerId: string): Promise<boolean> {
+    try {
+      const day = getViewDay(new Date());
+      const viewRef = doc(db, this.VIEWS_COLLECTION, getProjectViewId(projectId, viewerId, day));
+      const projectRef = doc(db, this.PROJECTS_COLLECTION, projectId);
+
+      return await runTransaction(db, async (transaction) => {
+        const [viewSnap, projectSnap] = await Promise.all([
+          transaction.get(viewRef),
+          transaction.get(projectRef)
+        ]);
+
+        if (viewSnap.exists()) {
+          return false;
+        }
+        if (!projectSnap.exists()) {
+          throw new Error('Project not found');
+        }
+        if (projectSnap.data().createdBy === viewerId) {
+          return false;
+        }
+
+        transaction.set(viewRef, {
+          project_id: projectId,
+          viewer_uid: viewerId,
+          day,
+          viewed_at: serverTimestamp()
+        });
+        transaction.update(projectRef, { viewCount: increment(1) });
+
+        return true;
+      });
+    } catch (error) {
+      console.error('❌ EngagementService: Error recording project view:', error);
+      throw new Error(`Failed to record view: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Adds a project to the user's favorites, or removes it if already there
+   * @param projectId - Project ID
+   * @param userId - User's ID
+   * @returns Promise<boolean> - True if the project is now a favorite
+   */
+  static async toggleFavorite(projectId: string, userId: string): Promise<boolean> {
+    try {
+      const favoriteRef = doc(db, this.FAVORITES_COLLECTION, getFavoriteId(userId, projectId));
+      const projectRef = doc(db, this.PROJECTS_COLLECTION, projectId);
+
+      const isFavorite = await runTransaction(db, async (transaction) => {
+        const [favoriteSnap, projectSnap] = await Promise.all([
+          transaction.get(favoriteRef),
+          transaction.get(projectRef)
+        ]);
+
+        if (favoriteSnap.exists()) {
+          transaction.delete(favoriteRef);
+          // The project may have been removed since it was favorited
+          if (projectSnap.exists()) {
+            transaction.update(projectRef, { favoriteCount: increment(-1) });
+          }
+          return false;
+        }
+
+        if (!projectSnap.exists() || projectSnap.data().status !== 'active') {
+          throw new Error('This package is no longer available');
+        }
+
+        const project = projectSnap.data();
+        const primaryImage = findImageRenditions(project.imageRenditions, project.primaryImageUrl);
+        transaction.set(favoriteRef, {
+          user_uid: userId,
+          project_id: projectId,
+          project_title: project.title || '',
+          primary_image_url: getRenditionUrl(primaryImage, 'card', project.primaryImageUrl || ''),
+          primary_image_blurhash: primaryImage?.blurhash || null,
+          category: project.category || '',
+          price: project.price || 0,
+          created_at: serverTimestamp()
+        });
+        transaction.update(projectRef, { favoriteCount: increment(1) });
+        return true;
+      });
+
+      console.log(`✅ EngagementService: Project ${projectId} ${isFavorite ? 'added to' : 'removed from'} favorites`);
+      return isFavorite;
+    } catch (error) {
+      console.error('❌ EngagementService: Error toggling favorite:', error);
+      throw new Error(`Failed to update favorites: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Gets one page of a user's favorites, most recent first
+   * @param userId - User's ID
+   * @param cursor - Last document of the previous page
+   * @param pageSize - Number of favorites per page
+   * @returns Promise<PaginatedResult<FavoriteProject>> - Favorites and the cursor for the next page
+   */
+  static async getFavorites(
+    userId: string,
+    cursor: QueryDocumentSnapshot<DocumentData> | null = null,
+    pageSize: number = DEFAULT_PAGE_SIZE
+  ): Promise<PaginatedResult<FavoriteProject>> {
+    try {
+      const q = query(
+        collection(db, this.FAVORITES_COLLECTION),
+        where('user_uid', '==', userId),
+        orderBy('created_at', 'desc')
+      );
+
+      return await queryPaginated(q, docSnap => this.favoriteFromFirestore(docSnap.id, docSnap.data()), cursor, pageSize);
+    } catch (error) {
+      console.error('❌ EngagementService: Error fetching favorites:', error);
+      throw new Error(`Failed to fetch favorites: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Gets the IDs of every project the user has favorited
+   * @param userId - User's ID
+   * @returns Promise<string[]> - Favorited project IDs
+   */
+  static async getFavoriteProjectIds(userId: string): Promise<string[]> {
+    try {
+      const snapshot = await getDocs(query(
+        collection(db, this.FAVORITES_COLLECTION),
+        where('user_uid', '==', userId)
+      ));
+
+      return snapshot.docs.map(docSnap => docSnap.data().project_id);
+    } catch (error) {
+      console.error('❌ EngagementService: Error fetching favorite IDs:', error);
+      throw new Error(`Failed to fetch favorites: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Converts a Firestore document into a FavoriteProject
+   */
+  private static favoriteFromFirestore(id: string, data: DocumentData): FavoriteProject {
+    return {
+      id,
+      userId: data.user_uid,
+      projectId: data.project_id,
+      projectTitle: data.project_title || '',
+      primaryImageUrl: data.primary_image_url || '',
+      primaryImageBlurhash: data.primary_image_blurhash || null,
+      category: data.category || '',
+      price: data.price || 0,
+      createdAt: data.created_at?.toDate() || new Date()
+    };
+  }
+}
@@ -0,0 +1,653 @@
+import {
+  collection,
+  doc,
+  getDoc,
+  getDocs,
+  query,
+  where,
+  orderBy,
+  runTransaction,
+  serverTimestamp,
+  DocumentData
+} from 'firebase/firestore';
+import { db } from '../config/firebase';
+import { ProjectRequest, ProjectRequestMilestone } from '../types/projectRequest';
+import {
+  EscrowAccount,
+  EscrowBalance,
+  EscrowParty,
+  EscrowReservation,
+  EscrowRevenueSummary,
+  EscrowTransaction,
+  EscrowTransactionType,
+  DEFAULT_CURRENCY,
+  fromMinorUnits,
+  getHeldBalance,
+  isReservationStale,
+  isValidAmount,
+  toMinorUnits
+} from '../types/escrow';
+import { ConversationService } from './conversationService';
+import { UserService } from './userService';
+import { LocalPaymentProvider, PaymentProvider, PaymentResult } from './paymentProvider';
+
+/**
+ * Service for the milestone escrow ledger
+ * Every movement of money is appended to escrow_transactions and never edited;
+ * escrow_accounts holds the running per-milestone totals used to validate new entries
+ */
+export class EscrowService {
+  private static readonly TRANSACTIONS_COLLECTION = 'escrow_transactions';
+  private static readonly ACCOUNTS_COLLECTION = 'escrow_accounts';
+  private static readonly REQUESTS_COLLECTION = 'project_requests';
+
+  private static provider: PaymentProvider = new LocalPaymentProvider();
+
+  /**
+   * Replaces the payment provider used for captures, payouts and refunds
+   * @param provider - Payment provider implementation
+   */
+  static setPaymentProvider(provider: PaymentProvider): void {
+    this.provider = provider;
+  }
+
+  /**
+   * Gets the payment provider currently in use
+   */
+  static getPaymentProvider(): PaymentProvider {
+    return this.provider;
+  }
+
+  /**
+   * Funds a milestone in full by capturing its amount from the requester
+   * @param requestId - Project request ID
+   * @param milestoneId - Milestone to fund
+   * @param actorId - ID of the requester funding the milestone
+   * @returns Promise<EscrowTransaction> - Recorded ledger entry
+   */
+  static async fundMilestone(requestId: string, milestoneId: string, actorId: string): Promise<EscrowTransaction> {
+    try {
+      const { request, milestone } = await this.getRequestMilestone(requestId, milestoneId);
+
+      if (request.requesterId !== actorId) {
+        throw new Error('Unauthorized: Only the requester can fund milestones');
+      }
+      if (request.status !== 'in_progress' || !request.assignedDesigner) {
+        throw new Error('Milestones can only be funded once a designer is assigned');
+      }
+      this.assertMilestoneOpen(milestone);
+
+      const amount = toMinorUnits(milestone.amount);
+
+      return await this.moveFunds(request, milestone, 'fund', actorId, (balance) => {
+        if (balance.funded - balance.refunded > 0) {
+          throw new Error('This milestone is already funded');
+        }
+        return amount;
+      }, (reservation) => this.provider.capture({
+        amount: reservation.amount,
+        currency: DEFAULT_CURRENCY,
+        payerId: request.requesterId,
+        reference: reservation.reference
+      }));
+    } catch (error) {
+      console.error('❌ EscrowService: Error funding milestone:', error);
+      throw new Error(`Failed to fund milestone: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Releases held milestone funds to the assigned designer
+   * @param requestId - Project request ID
+   * @param milestoneId - Milestone to release
+   * @param actorId - ID of the requester approving the release
+   * @param amount - Amount in minor units (defaults to everything held)
+   * @returns Promise<EscrowTransaction> - Recorded ledger entry
+   */
+  static async releaseMilestone(requestId: string, milestoneId: string, actorId: string, amount?: number): Promise<EscrowTransaction> {
+    try {
+      const { request, milestone } = await this.getRequestMilestone(requestId, milestoneId);
+      const designer = request.assignedDesigner;
+
+      if (request.requesterId !== actorId) {
+        throw new Error('Unauthorized: Only the requester can release milestone funds');
+      }
+      if (!designer) {
+        throw new Error('No designer is assigned to this request');
+      }
+      this.assertMilestoneOpen(milestone);
+
+      return await this.moveFunds(request, milestone, 'release', actorId, (balance) => {
+        const releaseAmount = amount ?? getHeldBalance(balance);
+        if (!isValidAmount(releaseAmount)) {
+          throw new Error('There are no held funds to release');
+        }
+        if (releaseAmount > getHeldBalance(balance)) {
+          throw new Error('Release amount exceeds the funds held for this milestone');
+        }
+        return releaseAmount;
+      }, (reservation) => this.provider.payout({
+        amount: reservation.amount,
+        currency: DEFAULT_CURRENCY,
+        payeeId: designer.uid,
+        reference: reservation.reference
+      }));
+    } catch (error) {
+      console.error('❌ EscrowService: Error releasing milestone:', error);
+      throw new Error(`Failed to release milestone: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Refunds held milestone funds to the requester
+   * @param requestId - Project request ID
+   * @param milestoneId - Milestone to refund
+   * @param actorId - ID of the requester, assigned designer or admin issuing the refund
+   * @param amount - Amount in minor units (defaults to everything held)
+   * @param note - Optional reason recorded on the ledger entry
+   * @returns Promise<EscrowTransaction> - Recorded ledger entry
+   */
+  static async refundMilestone(
+    requestId: string,
+    milestoneId: string,
+    actorId: string,
+    amount?: number,
+    note?: string
+  ): Promise<EscrowTransaction> {
+    try {
+      const { request, milestone } = await this.getRequestMilestone(requestId, milestoneId);
+
+      const isParty = actorId === request.requesterId || actorId === request.assignedDesigner?.uid;
+      if (!isParty && (await UserService.getUserProfile(actorId))?.user_type !== 'admin') {
+        throw new Error('Unauthorized: Only the requester, the assigned designer or an admin can refund milestone funds');
+      }
+      this.assertMilestoneOpen(milestone);
+
+      return await this.moveFunds(request, milestone, 'refund', actorId, (balance) => {
+        const refundAmount = amount ?? getHeldBalance(balance);
+        if (!isValidAmount(refundAmount)) {
+          throw new Error('There are no held funds to refund');
+        }
+        if (refundAmount > getHeldBalance(balance)) {
+          throw new Error('Refund amount exceeds the funds held for this milestone');
+        }
+        return refundAmount;
+      }, (reservation) => this.provider.refund({
+        amount: reservation.amount,
+        currency: DEFAULT_CURRENCY,
+        payerId: request.requesterId,
+        reference: reservation.reference
+      }), note);
+    } catch (error) {
+      console.error('❌ EscrowService: Error refunding milestone:', error);
+      throw new Error(`Failed to refund milestone: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Gets the running totals for a milestone
+   * @param requestId - Project request ID
+   * @param milestoneId - Milestone ID
+   * @returns Promise<EscrowBalance> - Funded, released and refunded totals
+   */
+  static async getMilestoneBalance(requestId: string, milestoneId: string): Promise<EscrowBalance> {
+    try {
+      const accountSnap = await getDoc(doc(db, this.ACCOUNTS_COLLECTION, this.getAccountId(requestId, milestoneId)));
+
+      return this.toBalance(accountSnap.exists() ? accountSnap.data() : null);
+    } catch (error) {
+      console.error('❌ Error fetching milestone balance:', error);
+      throw new Error(`Failed to fetch milestone balance: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Gets the escrow accounts of every milestone in a request
+   * @param requestId - Project request ID
+   * @param userId - ID of the requester or designer reading the accounts
+   * @param party - Which side of the request the reader is on
+   * @returns Promise<EscrowAccount[]> - Array of accounts
+   */
+  static async getAccountsForRequest(requestId: string, userId: string, party: EscrowParty): Promise<EscrowAccount[]> {
+    try {
+      const q = query(
+        collection(db, this.ACCOUNTS_COLLECTION),
+        where('requestId', '==', requestId),
+        where(`${party}Id`, '==', userId)
+      );
+      const querySnapshot = await getDocs(q);
+
+      return querySnapshot.docs.map(docSnap => {
+        const data = docSnap.data();
+        return {
+          id: docSnap.id,
+          ...data,
+          pending: this.toReservation(data.pending),
+          updatedAt: data.updatedAt?.toDate() || new Date()
+        } as EscrowAccount;
+      });
+    } catch (error) {
+      console.error('❌ Error fetching escrow accounts:', error);
+      throw new Error(`Failed to fetch escrow accounts: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Gets the ledger entries for a request in chronological order
+   * @param requestId - Project request ID
+   * @param userId - ID of the requester or designer reading the ledger
+   * @param party - Which side of the request the reader is on
+   * @returns Promise<EscrowTransaction[]> - Array of ledger entries
+   */
+  static async getLedgerForRequest(requestId: string, userId: string, party: EscrowParty): Promise<EscrowTransaction[]> {
+    try {
+      const q = query(
+        collection(db, this.TRANSACTIONS_COLLECTION),
+        where('requestId', '==', requestId),
+        where(`${party}Id`, '==', userId),
+        orderBy('createdAt', 'asc')
+      );
+
+      const querySnapshot = await getDocs(q);
+      return querySnapshot.docs.map(docSnap => this.fromFirestore(docSnap.id, docSnap.data()));
+    } catch (error) {
+      console.error('❌ Error fetching escrow ledger:', error);
+      throw new Error(`Failed to fetch escrow ledger: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Aggregates the whole ledger into platform revenue totals (admin only)
+   * @returns Promise<EscrowRevenueSummary> - Totals in minor units
+   */
+  static async getRevenueSummary(): Promise<EscrowRevenueSummary> {
+    try {
+      console.log('📊 Aggregating escrow ledger...');
+      const querySnapshot = await getDocs(collection(db, this.TRANSACTIONS_COLLECTION));
+      const monthAgo = Date.now() - 30 * 24 * 60 * 60 * 1000;
+
+      const summary: EscrowRevenueSummary = {
+        totalFunded: 0,
+        totalReleased: 0,
+        totalRefunded: 0,
+        heldBalance: 0,
+        releasedLast30Days: 0,
+        fundedMilestones: 0,
+        releasedMilestones: 0,
+        requestsWithReleases: 0
+      };
+      const fundedMilestones = new Set<string>();
+      const releasedMilestones = new Set<string>();
+      const releasedRequests = new Set<string>();
+
+      querySnapshot.forEach(docSnap => {
+        const entry = this.fromFirestore(docSnap.id, docSnap.data());
+        const milestoneKey = this.getAccountId(entry.requestId, entry.milestoneId);
+
+        switch (entry.type) {
+          case 'fund':
+            summary.totalFunded += entry.amount;
+            fundedMilestones.add(milestoneKey);
+            break;
+          case 'release':
+            summary.totalReleased += entry.amount;
+            releasedMilestones.add(milestoneKey);
+            releasedRequests.add(entry.requestId);
+            if (entry.createdAt.getTime() >= monthAgo) {
+              summary.releasedLast30Days += entry.amount;
+            }
+            break;
+          case 'refund':
+            summary.totalRefunded += entry.amount;
+            break;
+        }
+      });
+
+      summary.heldBalance = summary.totalFunded - summary.totalReleased - summary.totalRefunded;
+      summary.fundedMilestones = fundedMilestones.size;
+      summary.releasedMilestones = releasedMilestones.size;
+      summary.requestsWithReleases = releasedRequests.size;
+
+      console.log('✅ Escrow revenue summary:', summary);
+      return summary;
+    } catch (error) {
+      console.error('❌ Error aggregating escrow ledger:', error);
+      throw new Error(`Failed to aggregate escrow ledger: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Moves money for a milestone in three steps so the provider is never called for a movement the ledger would reject:
+   * the amount is checked and reserved on the account, the provider moves it, then the reservation is settled onto the ledger
+   * @param reserve - Checks the current balance and returns the amount to move
+   * @param execute - Calls the payment provider for the reserved amount
+   */
+  private static async moveFunds(
+    request: ProjectRequest,
+    milestone: ProjectRequestMilestone,
+    type: EscrowTransactionType,
+    actorId: string,
+    reserve: (balance: EscrowBalance) => number,
+    execute: (reservation: EscrowReservation) => Promise<PaymentResult>,
+    note?: string
+  ): Promise<EscrowTransaction> {
+    const reservation = await this.reserveFunds(request, milestone, type, actorId, reserve);
+
+    let result: PaymentResult;
+    try {
+      result = await execute(reservation);
+    } catch (error) {
+      await this.cancelReservation(request, milestone, reservation);
+      throw error;
+    }
+
+    if (result.status !== 'succeeded') {
+      await this.cancelReservation(request, milestone, reservation);
+      throw new Error(result.failureReason || 'Payment provider declined the operation');
+    }
+
+    return await this.recordTransaction(request, milestone, reservation, result, note);
+  }
+
+  /**
+   * Checks a movement against the milestone balance and reserves it on the account
+   * A stale reservation left by a movement that never finished is replaced
+   */
+  private static async reserveFunds(
+    request: ProjectRequest,
+    milestone: ProjectRequestMilestone,
+    type: EscrowTransactionType,
+    actorId: string,
+    reserve: (balance: EscrowBalance) => number
+  ): Promise<EscrowReservation> {
+    const accountRef = doc(db, this.ACCOUNTS_COLLECTION, this.getAccountId(request.id, milestone.id));
+
+    return await runTransaction(db, async (transaction) => {
+      const accountSnap = await transaction.get(accountRef);
+      const data = accountSnap.exists() ? accountSnap.data() : null;
+      const pending = this.toReservation(data?.pending);
+
+      if (pending && !isReservationStale(pending)) {
+        throw new Error('Another payment for this milestone is still being processed');
+      }
+      if (pending) {
+        console.warn(`⚠️ EscrowService: Replacing stale reservation ${pending.reference}`);
+      }
+
+      const balance = this.toBalance(data);
+      const reservedAt = new Date();
+      const reservation: EscrowReservation = {
+        type,
+        amount: reserve(balance),
+        actorId,
+        reference: `${request.id}:${milestone.id}:${type}:${reservedAt.getTime()}`,
+        reservedAt
+      };
+
+      transaction.set(accountRef, this.toAccountData(request, milestone, balance, reservation, data?.lastTransactionId ?? null));
+      return reservation;
+    });
+  }
+
+  /**
+   * Clears a reservation whose provider movement did not happen or was reversed
+   */
+  private static async cancelReservation(
+    request: ProjectRequest,
+    milestone: ProjectRequestMilestone,
+    reservation: EscrowReservation
+  ): Promise<void> {
+    const accountRef = doc(db, this.ACCOUNTS_COLLECTION, this.getAccountId(request.id, milestone.id));
+
+    try {
+      await runTransaction(db, async (transaction) => {
+        const accountSnap = await transaction.get(accountRef);
+        if (accountSnap.data()?.pending?.reference !== reservation.reference) return;
+        transaction.update(accountRef, { pending: null, updatedAt: serverTimestamp() });
+      });
+    } catch (error) {
+      console.error(`⚠️ EscrowService: Reservation ${reservation.reference} could not be cleared:`, error);
+    }
+  }
+
+  /**
+   * Settles a reserved movement: appends the ledger entry and applies it to the milestone account in one transaction
+   * If that fails after the provider moved money, the movement is reversed
+   */
+  private static async recordTransaction(
+    request: ProjectRequest,
+    milestone: ProjectRequestMilestone,
+    reservation: EscrowReservation,
+    result: PaymentResult,
+    note?: string
+  ): Promise<EscrowTransaction> {
+    const { type, amount, actorId } = reservation;
+    const accountRef = doc(db, this.ACCOUNTS_COLLECTION, this.getAccountId(request.id, milestone.id));
+    const transactionRef = doc(collection(db, this.TRANSACTIONS_COLLECTION));
+    const requestRef = doc(db, this.REQUESTS_COLLECTION, request.id);
+    const designerId = request.assignedDesigner?.uid || '';
+
+    try {
+      const balanceAfter = await runTransaction(db, async (transaction) => {
+        const accountSnap = await transaction.get(accountRef);
+        const data = accountSnap.exists() ? accountSnap.data() : null;
+
+        if (data?.pending?.reference !== reservation.reference) {
+          throw new Error('The reservation for this payment is missing');
+        }
+
+        const balance = this.toBalance(data);
+        const nextBalance: EscrowBalance = {
+          funded: balance.funded + (type === 'fund' ? amount : 0),
+          released: balance.released + (type === 'release' ? amount : 0),
+          refunded: balance.refunded + (type === 'refund' ? amount : 0)
+        };
+
+        transaction.set(accountRef, this.toAccountData(request, milestone, nextBalance, null, transactionRef.id));
+
+        transaction.set(transactionRef, {
+          requestId: request.id,
+          milestoneId: milestone.id,
+          requesterId: request.requesterId,
+          designerId,
+          type,
+          amount,
+          currency: DEFAULT_CURRENCY,
+          provider: this.provider.name,
+          providerRef: result.providerRef,
+          actorId,
+          note: note?.trim() || null,
+          balanceAfter: nextBalance,
+          createdAt: serverTimestamp()
+        });
+
+        // A milestone whose funds have all been paid out is complete
+        if (type === 'release' && getHeldBalance(nextBalance) === 0 && nextBalance.released > 0) {
+          transaction.update(requestRef, {
+            milestones: (request.milestones || []).map(m =>
+              m.id === milestone.id ? { ...m, status: 'completed' } : m
+            ),
+            updatedAt: serverTimestamp()
+          });
+        }
+
+        return nextBalance;
+      });
+
+      console.log(`✅ EscrowService: Recorded ${type} of ${amount} for milestone ${milestone.id}`);
+
+      await ConversationService.postRequestEvent(
+        request.id,
+        actorId,
+        this.describeMilestoneEvent(milestone, type, amount, balanceAfter)
+      );
+
+      return {
+        id: transactionRef.id,
+        requestId: request.id,
+        milestoneId: milestone.id,
+        requesterId: request.requesterId,
+        designerId,
+        type,
+        amount,
+        currency: DEFAULT_CURRENCY,
+        provider: this.provider.name,
+        providerRef: result.providerRef,
+        actorId,
+        note: note?.trim() || null,
+        balanceAfter,
+        createdAt: new Date()
+      };
+    } catch (error) {
+      await this.compensate(request, milestone, reservation);
+      throw error;
+    }
+  }
+
+  /**
+   * Builds the system message posted to the project conversation for a ledger entry
+   */
+  private static describeMilestoneEvent(
+    milestone: ProjectRequestMilestone,
+    type: EscrowTransactionType,
+    amount: number,
+    balanceAfter: EscrowBalance
+  ): string {
+    const formatted = `$${fromMinorUnits(amount).toLocaleString(undefined, { minimumFractionDigits: 2 })}`;
+
+    switch (type) {
+      case 'fund':
+        return `Milestone "${milestone.title}" was funded with ${formatted}.`;
+      case 'release':
+        return getHeldBalance(balanceAfter) === 0
+          ? `${formatted} was released for milestone "${milestone.title}". The milestone is complete.`
+          : `${formatted} was released for milestone "${milestone.title}".`;
+      case 'refund':
+        return `${formatted} held for milestone "${milestone.title}" was refunded.`;
+    }
+  }
+
+  /**
+   * Reverses a provider movement whose ledger entry could not be written
+   * Payouts cannot be pulled back, so their reservation is left on the account:
+   * the unsettled payout stays visible and locks the milestone until the reservation goes stale
+   */
+  private static async compensate(
+    request: ProjectRequest,
+    milestone: ProjectRequestMilestone,
+    reservation: EscrowReservation
+  ): Promise<void> {
+    const { type, amount } = reservation;
+    const reference = `${reservation.reference}:reversal`;
+
+    try {
+      if (type === 'fund') {
+        await this.provider.refund({ amount, currency: DEFAULT_CURRENCY, payerId: request.requesterId, reference });
+      } else if (type === 'refund') {
+        await this.provider.capture({ amount, currency: DEFAULT_CURRENCY, payerId: request.requesterId, reference });
+      } else {
+        console.error(`⚠️ EscrowService: Payout ${reservation.reference} is held on the account for manual reconciliation`);
+        return;
+      }
+    } catch (compensationError) {
+      console.error('⚠️ EscrowService: Provider reversal failed:', compensationError);
+      return;
+    }
+
+    await this.cancelReservation(request, milestone, reservation);
+  }
+
+  /**
+   * Loads a request and one of its milestones
+   */
+  private static async getRequestMilestone(
+    requestId: string,
+    milestoneId: string
+  ): Promise<{ request: ProjectRequest; milestone: ProjectRequestMilestone }> {
+    const requestSnap = await getDoc(doc(db, this.REQUESTS_COLLECTION, requestId));
+
+    if (!requestSnap.exists()) {
+      throw new Error('Project request not found');
+    }
+
+    const request = { id: requestSnap.id, ...requestSnap.data() } as ProjectRequest;
+    const milestone = (request.milestones || []).find(m => m.id === milestoneId);
+
+    if (!milestone) {
+      throw new Error('Milestone not found');
+    }
+    if (!isValidAmount(toMinorUnits(milestone.amount))) {
+      throw new Error('Milestone amount must be greater than zero');
+    }
+
+    return { request, milestone };
+  }
+
+  /**
+   * Rejects money movements on a milestone that is already complete
+   */
+  private static assertMilestoneOpen(milestone: ProjectRequestMilestone): void {
+    if (milestone.status === 'completed') {
+      throw new Error('This milestone is already complete');
+    }
+  }
+
+  /**
+   * Reads the running totals from an account document
+   */
+  private static toBalance(data: DocumentData | null | undefined): EscrowBalance {
+    return { funded: data?.funded || 0, released: data?.released || 0, refunded: data?.refunded || 0 };
+  }
+
+  /**
+   * Reads the pending reservation from an account document
+   * Reservations written before reservedAt was stored count as stale
+   */
+  private static toReservation(data: DocumentData | null | undefined): EscrowReservation | null {
+    if (!data) return null;
+    return { ...data, reservedAt: data.reservedAt?.toDate() || new Date(0) } as EscrowReservation;
+  }
+
+  /**
+   * Builds the account document for a milestone
+   * @param lastTransactionId - Ledger entry that last changed the totals
+   */
+  private static toAccountData(
+    request: ProjectRequest,
+    milestone: ProjectRequestMilestone,
+    balance: EscrowBalance,
+    pending: EscrowReservation | null,
+    lastTransactionId: string | null
+  ): DocumentData {
+    return {
+      requestId: request.id,
+      milestoneId: milestone.id,
+      requesterId: request.requesterId,
+      designerId: request.assignedDesigner?.uid || '',
+      currency: DEFAULT_CURRENCY,
+      milestoneAmount: toMinorUnits(milestone.amount),
+      ...balance,
+      pending: pending ? { ...pending, reservedAt: serverTimestamp() } : null,
+      lastTransactionId,
+      updatedAt: serverTimestamp()
+    };
+  }
+
+  /**
+   * Builds the deterministic account document ID for a milestone
+   */
+  private static getAccountId(requestId: string, milestoneId: string): string {
+    return `${requestId}_${milestoneId}`;
+  }
+
+  /**
+   * Converts a Firestore document into an EscrowTransaction
+   */
+  private static fromFirestore(id: string, data: DocumentData): EscrowTransaction {
+    return {
+      id,
+      ...data,
+      createdAt: data.createdAt?.toDate() || new Date()
+    } as EscrowTransaction;
+  }
+}
@@ -0,0 +1,99 @@
+import { ProjectDraft } from '../types/projectDraft';
+
+// What is kept on the device: everything except the remote sync flag
+type StoredDraft = Omit<ProjectDraft, 'savedRemotely' | 'updatedAt'> & { updatedAt: number };
+
+/**
+ * IndexedDB store for project drafts on this device
+ * Selected image files are stored as-is, so a draft resumes with its images after a refresh.
+ */
+export class LocalDraftStore {
+  private static readonly DB_NAME = 'architeams';
+  private static readonly DB_VERSION = 1;
+  private static readonly STORE_NAME = 'project_drafts';
+  private static readonly DESIGNER_INDEX = 'designerId';
+  private static dbPromise: Promise<IDBDatabase> | null = null;
+
+  /**
+   * Saves or replaces a draft
+   * @param draft - Draft to save
+   * @returns Promise<void>
+   */
+  static async save(draft: ProjectDraft): Promise<void> {
+    const stored: StoredDraft = {
+      id: draft.id,
+      designerId: draft.designerId,
+      fields: draft.fields,
+      currentStep: draft.currentStep,
+      status: draft.status,
+      hasPrimaryImage: draft.hasPrimaryImage,
+      additionalImageCount: draft.additionalImageCount,
+      primaryImage: draft.primaryImage,
+      additionalImages: draft.additionalImages,
+      updatedAt: draft.updatedAt.getTime()
+    };
+    await this.run('readwrite', store => store.put(stored));
+  }
+
+  /**
+   * Gets a designer's drafts stored on this device
+   * @param designerId - Designer's user ID
+   * @returns Promise<ProjectDraft[]> - Drafts, not yet marked as saved remotely
+   */
+  static async listByDesigner(designerId: string): Promise<ProjectDraft[]> {
+    const stored = await this.run<StoredDraft[]>('readonly', store =>
+      store.index(this.DESIGNER_INDEX).getAll(designerId)
+    );
+    return stored.map(draft => ({ ...draft, savedRemotely: false, updatedAt: new Date(draft.updatedAt) }));
+  }
+
+  /**
+   * Deletes a draft from this device
+   * @param draftId - Draft ID
+   * @returns Promise<void>
+   */
+  static async delete(draftId: string): Promise<void> {
+    await this.run('readwrite', store => store.delete(draftId));
+  }
+
+  /**
+   * Runs one request against the drafts store
+   */
+  private static async run<T>(mode: IDBTransactionMode, request: (store: IDBObjectStore) => IDBRequest): Promise<T> {
+    const db = await this.open();
+    return new Promise((resolve, reject) => {
+      const transaction = db.transaction(this.STORE_NAME, mode);
+      const req = request(transaction.objectStore(this.STORE_NAME));
+      transaction.oncomplete = () => resolve(req.result as T);
+      transaction.onerror = () => reject(transaction.error);
+      transaction.onabort = () => reject(transaction.error);
+    });
+  }
+
+  /**
+   * Opens the database once per session, creating the store on first use
+   */
+  private static open(): Promise<IDBDatabase> {
+    if (!this.dbPromise) {
+      this.dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+        if (typeof indexedDB === 'undefined') {
+          reject(new Error('Drafts cannot be stored on this device'));
+          return;
+        }
+
+        const openRequest = indexedDB.open(this.DB_NAME, this.DB_VERSION);
+        openRequest.onupgradeneeded = () => {
+          const store = openRequest.result.createObjectStore(this.STORE_NAME, { keyPath: 'id' });
+          store.createIndex(this.DESIGNER_INDEX, 'designerId');
+        };
+        openRequest.onsuccess = () => resolve(openRequest.result);
+        openRequest.onerror = () => reject(openRequest.error);
+      }).catch(error => {
+        // Let a later call try again, e.g. after the user closes a tab blocking an upgrade
+        this.dbPromise = null;
+        throw error;
+      });
+    }
+    return this.dbPromise;
+  }
+}
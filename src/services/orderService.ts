@@ -0,0 +1,654 @@
+import {
+  collection,
+  doc,
+  getDoc,
+  getDocs,
+  setDoc,
+  updateDoc,
+  query,
+  where,
+  orderBy,
+  runTransaction,
+  increment,
+  arrayUnion,
+  serverTimestamp,
+  Timestamp,
+  DocumentData
+} from 'firebase/firestore';
+import { ref, uploadBytes, getDownloadURL } from 'firebase/storage';
+import { db, storage } from '../config/firebase';
+import { ProjectService } from './projectService';
+import { UserService } from './userService';
+import { ConversationService } from './conversationService';
+import { AvailabilityService } from './availabilityService';
+import { DesignerDirectoryService } from './designerDirectoryService';
+import { UserProfile, isServiceRequester } from '../types/user';
+import {
+  MessageAttachment,
+  MAX_ATTACHMENTS_PER_MESSAGE,
+  resolveAttachmentType,
+  toConversationParticipant,
+  validateAttachment
+} from '../types/conversation';
+import {
+  CreateOrderData,
+  Order,
+  OrderDelivery,
+  OrderStatus,
+  RevisionRequest,
+  MIN_REQUIREMENTS_LENGTH,
+  ORDER_STATUS_LABELS,
+  canTransitionOrder,
+  getRemainingMeetings,
+  getRemainingRevisions,
+  isActiveOrder
+} from '../types/order';
+
+/**
+ * Service for orders placed on designer project packages
+ * Handles the pending → in_progress → delivered ⇄ revision_requested → completed lifecycle,
+ * revision and meeting allowances, and the designer's capacity while an order is active
+ */
+export class OrderService {
+  private static readonly ORDERS_COLLECTION = 'orders';
+  private static readonly STORAGE_PATH = 'orders';
+
+  /**
+   * Places an order on an active project package
+   * @param projectId - Project package ID
+   * @param buyer - Profile of the service requester placing the order
+   * @param orderData - Requirements and attachments
+   * @returns Promise<Order> - Created order
+   */
+  static async createOrder(projectId: string, buyer: UserProfile, orderData: CreateOrderData): Promise<Order> {
+    try {
+      console.log('🔄 OrderService: Placing order for package:', projectId);
+
+      if (!isServiceRequester(buyer)) {
+        throw new Error('Only service requesters can order packages');
+      }
+
+      const errors = this.validateOrder(orderData);
+      if (errors.length > 0) {
+        throw new Error(errors.join(', '));
+      }
+
+      const project = await ProjectService.getProject(projectId);
+      if (!project || project.status !== 'active') {
+        throw new Error('This package is not available');
+      }
+      if (project.createdBy === buyer.uid) {
+        throw new Error('You cannot order your own package');
+      }
+
+      const designer = await UserService.getUserProfile(project.createdBy);
+      if (!designer) {
+        throw new Error('Designer not found');
+      }
+
+      const orderRef = doc(collection(db, this.ORDERS_COLLECTION));
+
+      // Requirement files are uploaded before the order exists so a failed upload leaves nothing behind
+      const attachments = await Promise.all(
+        orderData.attachments.map(file => this.uploadFile(orderRef.id, 'requirements', buyer.uid, file))
+      );
+
+      const order: Order = {
+        id: orderRef.id,
+        projectId,
+        projectTitle: project.title,
+        projectVersion: project.currentVersion,
+        designerId: designer.uid,
+        designerName: designer.full_name,
+        buyerId: buyer.uid,
+        buyerName: buyer.full_name,
+        buyerAvatar: buyer.profile_picture_url || '',
+        price: project.price,
+        deliveryTimeline: project.deliveryTimeline,
+        deliverables: project.deliverables,
+        revisionsIncluded: project.revisionsCount,
+        meetingsIncluded: project.meetingsCount,
+        requirements: orderData.requirements.trim(),
+        attachments,
+        revisionsUsed: 0,
+        meetingsUsed: 0,
+        deliveries: [],
+        revisionRequests: [],
+        status: 'pending',
+        conversationId: null,
+        declineReason: null,
+        cancellationReason: null,
+        createdAt: new Date(),
+        updatedAt: new Date(),
+        acceptedAt: null,
+        completedAt: null,
+        cancelledAt: null
+      };
+
+      await setDoc(orderRef, {
+        project_id: order.projectId,
+        project_title: order.projectTitle,
+        project_version: order.projectVersion,
+        designer_uid: order.designerId,
+        designer_name: order.designerName,
+        buyer_uid: order.buyerId,
+        buyer_name: order.buyerName,
+        buyer_avatar: order.buyerAvatar,
+        price: order.price,
+        delivery_timeline: order.deliveryTimeline,
+        deliverables: order.deliverables,
+        revisions_included: order.revisionsIncluded,
+        meetings_included: order.meetingsIncluded,
+        requirements: order.requirements,
+        attachments,
+        revisions_used: 0,
+        meetings_used: 0,
+        deliveries: [],
+        revision_requests: [],
+        status: 'pending',
+        conversation_id: null,
+        decline_reason: null,
+        cancellation_reason: null,
+        created_at: serverTimestamp(),
+        updated_at: serverTimestamp()
+      });
+
+      console.log('✅ OrderService: Order placed with ID:', orderRef.id);
+
+      // The conversation is a convenience; the order stands even if it cannot be opened
+      try {
+        const conversation = await ConversationService.openPurchaseConversation(
+          project,
+          toConversationParticipant(buyer),
+          toConversationParticipant(designer)
+        );
+        await updateDoc(orderRef, { conversation_id: conversation.id });
+        order.conversationId = conversation.id;
+        await this.postOrderEvent(order, buyer.uid, `${buyer.full_name} ordered "${project.title}" for $${project.price.toLocaleString()}.`);
+      } catch (error) {
+        console.warn('⚠️ OrderService: Could not open order conversation:', error);
+      }
+
+      return order;
+    } catch (error) {
+      console.error('❌ OrderService: Error placing order:', error);
+      throw new Error(`Failed to place order: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Accepts a pending order and starts work on it
+   * @param orderId - Order ID
+   * @param designerId - ID of the package designer (for authorization)
+   * @returns Promise<void>
+   */
+  static async acceptOrder(orderId: string, designerId: string): Promise<void> {
+    const order = await this.transitionOrder(orderId, 'in_progress', (current) => {
+      this.assertDesigner(current, designerId);
+      return { accepted_at: serverTimestamp() };
+    });
+
+    await this.postOrderEvent(order, designerId, `${order.designerName} accepted the order. Work has started.`);
+  }
+
+  /**
+   * Declines a pending order
+   * @param orderId - Order ID
+   * @param designerId - ID of the package designer (for authorization)
+   * @param reason - Optional reason shown to the buyer
+   * @returns Promise<void>
+   */
+  static async declineOrder(orderId: string, designerId: string, reason?: string): Promise<void> {
+    const order = await this.transitionOrder(orderId, 'declined', (current) => {
+      this.assertDesigner(current, designerId);
+      return { decline_reason: reason?.trim() || null };
+    });
+
+    await this.postOrderEvent(
+      order,
+      designerId,
+      reason?.trim() ? `${order.designerName} declined the order: ${reason.trim()}` : `${order.designerName} declined the order.`
+    );
+  }
+
+  /**
+   * Cancels an order; buyers may withdraw pending orders, either party may cancel work in progress
+   * @param orderId - Order ID
+   * @param userId - ID of the buyer or designer (for authorization)
+   * @param reason - Optional cancellation reason
+   * @returns Promise<void>
+   */
+  static async cancelOrder(orderId: string, userId: string, reason?: string): Promise<void> {
+    const order = await this.transitionOrder(orderId, 'cancelled', (current) => {
+      if (current.status === 'pending' ? current.buyerId !== userId : !this.isParty(current, userId)) {
+        throw new Error('Unauthorized: You cannot cancel this order');
+      }
+      return {
+        cancelled_at: serverTimestamp(),
+        cancellation_reason: reason?.trim() || null
+      };
+    });
+
+    await this.postOrderEvent(
+      order,
+      userId,
+      reason?.trim() ? `The order was cancelled: ${reason.trim()}` : 'The order was cancelled.'
+    );
+  }
+
+  /**
+   * Delivers work on an order, either the first delivery or the answer to a revision request
+   * @param orderId - Order ID
+   * @param designerId - ID of the package designer (for authorization)
+   * @param message - Delivery note
+   * @param files - Delivered files
+   * @returns Promise<OrderDelivery> - Recorded delivery
+   */
+  static async deliverOrder(orderId: string, designerId: string, message: string, files: File[]): Promise<OrderDelivery> {
+    try {
+      if (!message.trim() && files.length === 0) {
+        throw new Error('A delivery needs a message or at least one file');
+      }
+
+      const existing = await this.getOrder(orderId);
+      if (!existing) {
+        throw new Error('Order not found');
+      }
+      this.assertDesigner(existing, designerId);
+
+      const attachments = await Promise.all(
+        files.map(file => this.uploadFile(orderId, 'deliveries', designerId, file))
+      );
+
+      const delivery: OrderDelivery = {
+        id: `${Date.now()}_${Math.random().toString(36).substring(2, 8)}`,
+        message: message.trim(),
+        attachments,
+        revision: 0,
+        deliveredAt: new Date()
+      };
+
+      const order = await this.transitionOrder(orderId, 'delivered', (current) => {
+        this.assertDesigner(current, designerId);
+        delivery.revision = current.revisionsUsed;
+        return {
+          deliveries: arrayUnion({
+            id: delivery.id,
+            message: delivery.message,
+            attachments: delivery.attachments,
+            revision: delivery.revision,
+            delivered_at: Timestamp.fromDate(delivery.deliveredAt)
+          })
+        };
+      });
+
+      await this.postOrderEvent(
+        order,
+        designerId,
+        order.revisionsUsed > 0
+          ? `${order.designerName} delivered revision ${order.revisionsUsed}.`
+          : `${order.designerName} delivered the work.`
+      );
+
+      return delivery;
+    } catch (error) {
+      console.error('❌ OrderService: Error delivering order:', error);
+      throw new Error(`Failed to deliver order: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Asks for a revision of the latest delivery, consuming one of the package's revision rounds
+   * @param orderId - Order ID
+   * @param buyerId - ID of the buyer (for authorization)
+   * @param note - What should change
+   * @returns Promise<void>
+   */
+  static async requestRevision(orderId: string, buyerId: string, note: string): Promise<void> {
+    if (!note.trim()) {
+      throw new Error('Failed to request revision: Describe what should change');
+    }
+
+    const order = await this.transitionOrder(orderId, 'revision_requested', (current) => {
+      this.assertBuyer(current, buyerId);
+      if (getRemainingRevisions(current) === 0) {
+        throw new Error(`All ${current.revisionsIncluded} included revisions have been used`);
+      }
+      return {
+        revisions_used: increment(1),
+        revision_requests: arrayUnion({
+          id: `${Date.now()}_${Math.random().toString(36).substring(2, 8)}`,
+          note: note.trim(),
+          round: current.revisionsUsed + 1,
+          requested_at: Timestamp.now()
+        })
+      };
+    });
+
+    await this.postOrderEvent(
+      order,
+      buyerId,
+      `${order.buyerName} requested revision ${order.revisionsUsed + 1} of ${order.revisionsIncluded}: ${note.trim()}`
+    );
+  }
+
+  /**
+   * Accepts the latest delivery and completes the order
+   * @param orderId - Order ID
+   * @param buyerId - ID of the buyer (for authorization)
+   * @returns Promise<void>
+   */
+  static async acceptDelivery(orderId: string, buyerId: string): Promise<void> {
+    const order = await this.transitionOrder(orderId, 'completed', (current) => {
+      this.assertBuyer(current, buyerId);
+      return { completed_at: serverTimestamp() };
+    });
+
+    await this.postOrderEvent(order, buyerId, `${order.buyerName} accepted the delivery. The order is complete.`);
+  }
+
+  /**
+   * Records a meeting held on an active order against the package's meeting allowance
+   * @param orderId - Order ID
+   * @param userId - ID of the buyer or designer (for authorization)
+   * @returns Promise<void>
+   */
+  static async recordMeeting(orderId: string, userId: string): Promise<void> {
+    try {
+      const orderRef = doc(db, this.ORDERS_COLLECTION, orderId);
+
+      const order = await runTransaction(db, async (transaction) => {
+        const orderSnap = await transaction.get(orderRef);
+        if (!orderSnap.exists()) {
+          throw new Error('Order not found');
+        }
+
+        const current = this.fromFirestore(orderSnap.id, orderSnap.data());
+        if (!this.isParty(current, userId)) {
+          throw new Error('Unauthorized: You are not part of this order');
+        }
+        if (!isActiveOrder(current)) {
+          throw new Error('Meetings can only be recorded while the order is active');
+        }
+        if (getRemainingMeetings(current) === 0) {
+          throw new Error(`All ${current.meetingsIncluded} included meetings have been used`);
+        }
+
+        transaction.update(orderRef, {
+          meetings_used: increment(1),
+          updated_at: serverTimestamp()
+        });
+
+        return current;
+      });
+
+      console.log('✅ OrderService: Meeting recorded on order:', orderId);
+      await this.postOrderEvent(order, userId, `Meeting ${order.meetingsUsed + 1} of ${order.meetingsIncluded} was recorded.`);
+    } catch (error) {
+      console.error('❌ OrderService: Error recording meeting:', error);
+      throw new Error(`Failed to record meeting: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Gets an order by ID
+   * @param orderId - Order ID
+   * @returns Promise<Order | null> - Order or null if not found
+   */
+  static async getOrder(orderId: string): Promise<Order | null> {
+    try {
+      const orderSnap = await getDoc(doc(db, this.ORDERS_COLLECTION, orderId));
+
+      if (orderSnap.exists()) {
+        return this.fromFirestore(orderSnap.id, orderSnap.data());
+      }
+
+      return null;
+    } catch (error) {
+      console.error('❌ Error fetching order:', error);
+      throw new Error(`Failed to fetch order: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Gets all orders placed by a buyer, newest first
+   * @param buyerId - Buyer's user ID
+   * @returns Promise<Order[]> - Orders
+   */
+  static async getOrdersForBuyer(buyerId: string): Promise<Order[]> {
+    return this.getOrdersBy('buyer_uid', buyerId);
+  }
+
+  /**
+   * Gets all orders received by a designer, newest first
+   * @param designerId - Designer's user ID
+   * @returns Promise<Order[]> - Orders
+   */
+  static async getOrdersForDesigner(designerId: string): Promise<Order[]> {
+    return this.getOrdersBy('designer_uid', designerId);
+  }
+
+  /**
+   * Validates order input
+   * @param orderData - Order fields to validate
+   * @returns string[] - Validation errors (empty if valid)
+   */
+  static validateOrder(orderData: CreateOrderData): string[] {
+    const errors: string[] = [];
+
+    if (!orderData.requirements || orderData.requirements.trim().length < MIN_REQUIREMENTS_LENGTH) {
+      errors.push(`Requirements must be at least ${MIN_REQUIREMENTS_LENGTH} characters`);
+    }
+    if (orderData.attachments.length > MAX_ATTACHMENTS_PER_MESSAGE) {
+      errors.push(`You can attach up to ${MAX_ATTACHMENTS_PER_MESSAGE} files`);
+    }
+    orderData.attachments.forEach(file => {
+      const policyError = validateAttachment(file);
+      if (policyError) {
+        errors.push(policyError);
+      }
+    });
+
+    return errors;
+  }
+
+  /**
+   * Applies a status transition atomically after validating it against the lifecycle
+   * Keeps the designer's active project counter in step with orders entering and leaving work
+   * @param orderId - Order ID
+   * @param nextStatus - Target status
+   * @param prepare - Authorizes the actor against the current order and returns extra fields to write
+   * @returns Promise<Order> - Order as it was before the transition
+   */
+  private static async transitionOrder(
+    orderId: string,
+    nextStatus: OrderStatus,
+    prepare: (order: Order) => DocumentData
+  ): Promise<Order> {
+    try {
+      const orderRef = doc(db, this.ORDERS_COLLECTION, orderId);
+
+      const order = await runTransaction(db, async (transaction) => {
+        const orderSnap = await transaction.get(orderRef);
+
+        if (!orderSnap.exists()) {
+          throw new Error('Order not found');
+        }
+
+        const current = this.fromFirestore(orderSnap.id, orderSnap.data());
+        const fields = prepare(current);
+
+        if (!canTransitionOrder(current.status, nextStatus)) {
+          throw new Error(
+            `Cannot move order from ${ORDER_STATUS_LABELS[current.status]} to ${ORDER_STATUS_LABELS[nextStatus]}`
+          );
+        }
+
+        const capacityDelta = this.getCapacityDelta(current, nextStatus);
+
+        if (capacityDelta > 0) {
+          await AvailabilityService.assertCapacity(transaction, current.designerId);
+        }
+
+        transaction.update(orderRef, {
+          ...fields,
+          status: nextStatus,
+          updated_at: serverTimestamp()
+        });
+
+        if (capacityDelta !== 0) {
+          AvailabilityService.recordAssignment(transaction, current.designerId, capacityDelta, { type: 'order', id: orderId });
+        }
+
+        return current;
+      });
+
+      console.log(`✅ Order ${orderId} moved to ${nextStatus}`);
+
+      if (this.getCapacityDelta(order, nextStatus) !== 0) {
+        await DesignerDirectoryService.refreshAvailability(order.designerId).catch(error => {
+          console.warn('⚠️ OrderService: Directory availability could not be updated:', error);
+        });
+      }
+
+      return order;
+    } catch (error) {
+      console.error('❌ Error changing order status:', error);
+      throw new Error(`Failed to update order: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Orders take up designer capacity from acceptance until they are completed or cancelled
+   */
+  private static getCapacityDelta(order: Order, nextStatus: OrderStatus): 1 | -1 | 0 {
+    if (order.status === 'pending' && nextStatus === 'in_progress') return 1;
+    if (isActiveOrder(order) && (nextStatus === 'completed' || nextStatus === 'cancelled')) return -1;
+    return 0;
+  }
+
+  /**
+   * Uploads a requirement or delivery file into the order's storage folder
+   */
+  private static async uploadFile(
+    orderId: string,
+    folder: 'requirements' | 'deliveries',
+    uploaderId: string,
+    file: File
+  ): Promise<MessageAttachment> {
+    const policyError = validateAttachment(file);
+    if (policyError) {
+      throw new Error(policyError);
+    }
+
+    const contentType = resolveAttachmentType(file);
+    const sanitizedName = file.name
+      .replace(/\s+/g, '_')
+      .replace(/[^a-zA-Z0-9._-]/g, '')
+      .toLowerCase();
+    const attachmentId = `${Date.now()}_${Math.random().toString(36).substring(2, 8)}`;
+    const path = `${this.STORAGE_PATH}/${orderId}/${folder}/${attachmentId}_${sanitizedName}`;
+
+    const snapshot = await uploadBytes(ref(storage, path), file, { contentType, customMetadata: { uploaderId } });
+    const url = await getDownloadURL(snapshot.ref);
+
+    return {
+      id: attachmentId,
+      name: file.name,
+      type: contentType,
+      size: file.size,
+      url,
+      path,
+      thumbnailUrl: null
+    };
+  }
+
+  /**
+   * Posts an order event into the order's conversation, if one was opened
+   */
+  private static async postOrderEvent(order: Order, actorId: string, content: string): Promise<void> {
+    if (order.conversationId) {
+      await ConversationService.postSystemMessage(order.conversationId, actorId, content);
+    }
+  }
+
+  private static async getOrdersBy(field: 'buyer_uid' | 'designer_uid', userId: string): Promise<Order[]> {
+    try {
+      const q = query(
+        collection(db, this.ORDERS_COLLECTION),
+        where(field, '==', userId),
+        orderBy('created_at', 'desc')
+      );
+      const querySnapshot = await getDocs(q);
+
+      return querySnapshot.docs.map(docSnap => this.fromFirestore(docSnap.id, docSnap.data()));
+    } catch (error) {
+      console.error('❌ Error fetching orders:', error);
+      throw new Error(`Failed to fetch orders: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  private static isParty(order: Order, userId: string): boolean {
+    return order.buyerId === userId || order.designerId === userId;
+  }
+
+  private static assertBuyer(order: Order, userId: string): void {
+    if (order.buyerId !== userId) {
+      throw new Error('Unauthorized: Only the buyer can do this');
+    }
+  }
+
+  private static assertDesigner(order: Order, userId: string): void {
+    if (order.designerId !== userId) {
+      throw new Error('Unauthorized: Only the package designer can do this');
+    }
+  }
+
+  /**
+   * Converts a Firestore document into an Order
+   */
+  private static fromFirestore(id: string, data: DocumentData): Order {
+    return {
+      id,
+      projectId: data.project_id,
+      projectTitle: data.project_title || '',
+      projectVersion: data.project_version || 1,
+      designerId: data.designer_uid,
+      designerName: data.designer_name || '',
+      buyerId: data.buyer_uid,
+      buyerName: data.buyer_name || '',
+      buyerAvatar: data.buyer_avatar || '',
+      price: data.price || 0,
+      deliveryTimeline: data.delivery_timeline || '',
+      deliverables: data.deliverables || '',
+      revisionsIncluded: data.revisions_included || 0,
+      meetingsIncluded: data.meetings_included || 0,
+      requirements: data.requirements || '',
+      attachments: data.attachments || [],
+      revisionsUsed: data.revisions_used || 0,
+      meetingsUsed: data.meetings_used || 0,
+      deliveries: (data.deliveries || []).map((delivery: DocumentData): OrderDelivery => ({
+        id: delivery.id,
+        message: delivery.message || '',
+        attachments: delivery.attachments || [],
+        revision: delivery.revision || 0,
+        deliveredAt: delivery.delivered_at?.toDate() || new Date()
+      })),
+      revisionRequests: (data.revision_requests || []).map((revision: DocumentData): RevisionRequest => ({
+        id: revision.id,
+        note: revision.note || '',
+        round: revision.round || 0,
+        requestedAt: revision.requested_at?.toDate() || new Date()
+      })),
+      status: data.status,
+      conversationId: data.conversation_id || null,
+      declineReason: data.decline_reason || null,
+      cancellationReason: data.cancellation_reason || null,
+      createdAt: data.created_at?.toDate() || new Date(),
+      updatedAt: data.updated_at?.toDate() || new Date(),
+      acceptedAt: data.accepted_at?.toDate() || null,
+      completedAt: data.completed_at?.toDate() || null,
+      cancelledAt: data.cancelled_at?.toDate() || null
+    };
+  }
+}
@@ -0,0 +1,116 @@
+/**
+ * Payment Provider
+ *
+ * Abstraction over the payment processor used by the escrow ledger.
+ * The escrow service only talks to this interface, so a real processor
+ * can be plugged in without touching ledger logic.
+ */
+
+import { CurrencyCode } from '../types/escrow';
+
+export interface PaymentResult {
+  providerRef: string;
+  status: 'succeeded' | 'failed';
+  failureReason?: string;
+}
+
+export interface CaptureParams {
+  amount: number;
+  currency: CurrencyCode;
+  payerId: string;
+  reference: string;
+}
+
+export interface PayoutParams {
+  amount: number;
+  currency: CurrencyCode;
+  payeeId: string;
+  reference: string;
+}
+
+export interface RefundParams {
+  amount: number;
+  currency: CurrencyCode;
+  payerId: string;
+  reference: string;
+}
+
+export interface PaymentProvider {
+  readonly name: string;
+
+  /** Collects funds from the payer into escrow */
+  capture(params: CaptureParams): Promise<PaymentResult>;
+
+  /** Pays held funds out to the payee */
+  payout(params: PayoutParams): Promise<PaymentResult>;
+
+  /** Returns held funds to the payer */
+  refund(params: RefundParams): Promise<PaymentResult>;
+}
+
+export interface LocalPaymentOperation {
+  kind: 'capture' | 'payout' | 'refund';
+  providerRef: string;
+  amount: number;
+  currency: CurrencyCode;
+  partyId: string;
+  reference: string;
+}
+
+/**
+ * In-memory provider for local development and tests
+ * Every call succeeds unless a failure has been queued with failNext()
+ */
+export class LocalPaymentProvider implements PaymentProvider {
+  readonly name = 'local';
+  readonly operations: LocalPaymentOperation[] = [];
+  private pendingFailure: string | null = null;
+  private sequence = 0;
+
+  /**
+   * Makes the next provider call fail with the given reason
+   */
+  failNext(reason: string = 'Simulated provider failure'): void {
+    this.pendingFailure = reason;
+  }
+
+  /**
+   * Clears recorded operations and queued failures
+   */
+  reset(): void {
+    this.operations.length = 0;
+    this.pendingFailure = null;
+    this.sequence = 0;
+  }
+
+  async capture(params: CaptureParams): Promise<PaymentResult> {
+    return this.record('capture', params.amount, params.currency, params.payerId, params.reference);
+  }
+
+  async payout(params: PayoutParams): Promise<PaymentResult> {
+    return this.record('payout', params.amount, params.currency, params.payeeId, params.reference);
+  }
+
+  async refund(params: RefundParams): Promise<PaymentResult> {
+    return this.record('refund', params.amount, params.currency, params.payerId, params.reference);
+  }
+
+  private record(
+    kind: LocalPaymentOperation['kind'],
+    amount: number,
+    currency: CurrencyCode,
+    partyId: string,
+    reference: string
+  ): PaymentResult {
+    const providerRef = `local_${kind}_${++this.sequence}`;
+
+    if (this.pendingFailure) {
+      const failureReason = this.pendingFailure;
+      this.pendingFailure = null;
+      return { providerRef, status: 'failed', failureReason };
+    }
+
+    this.operations.push({ kind, providerRef, amount, currency, partyId, reference });
+    return { providerRef, status: 'succeeded' };
+  }
+}
@@ -0,0 +1,206 @@
+import {
+  collection,
+  doc,
+  getDocs,
+  setDoc,
+  deleteDoc,
+  query,
+  where,
+  Timestamp,
+  DocumentData
+} from 'firebase/firestore';
+import { db } from '../config/firebase';
+import { LocalDraftStore } from './localDraftStore';
+import { ProjectDraft, ProjectDraftStatus } from '../types/projectDraft';
+
+/**
+ * Service for CreateNewProject drafts
+ * Every save goes to this device first (fields and images), then to Firestore (fields only),
+ * so a draft survives a refresh offline and can be resumed on another device without its images.
+ */
+export class ProjectDraftService {
+  private static readonly DRAFTS_COLLECTION = 'project_drafts';
+
+  /**
+   * Generates an ID for a new draft
+   * @returns string - Draft ID
+   */
+  static newDraftId(): string {
+    return doc(collection(db, this.DRAFTS_COLLECTION)).id;
+  }
+
+  /**
+   * Saves a draft locally and remotely; succeeds if either copy was written
+   * Saving moves a draft back to 'editing' until it is validated again
+   * @param draft - Draft to save
+   * @returns Promise<ProjectDraft> - Saved draft, with savedRemotely reporting the Firestore write
+   */
+  static async saveDraft(draft: ProjectDraft): Promise<ProjectDraft> {
+    try {
+      const saved: ProjectDraft = { ...draft, status: 'editing', savedRemotely: false };
+
+      let savedLocally = true;
+      try {
+        await LocalDraftStore.save(saved);
+      } catch (error) {
+        console.warn('⚠️ Draft could not be saved on this device:', error);
+        savedLocally = false;
+      }
+
+      try {
+        await setDoc(doc(db, this.DRAFTS_COLLECTION, draft.id), this.toDraftDoc(saved, 'editing'));
+        return { ...saved, savedRemotely: true };
+      } catch (error) {
+        if (!savedLocally) throw error;
+        console.warn('⚠️ Draft saved on this device only:', error);
+        return saved;
+      }
+    } catch (error) {
+      console.error('❌ ProjectDraftService: Error saving draft:', error);
+      throw new Error(`Failed to save draft: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Gets a designer's drafts from this device and Firestore, newest first
+   * When both copies exist the newer one wins; images always come from this device
+   * @param designerId - Designer's user ID
+   * @returns Promise<ProjectDraft[]> - Drafts
+   */
+  static async getDrafts(designerId: string): Promise<ProjectDraft[]> {
+    try {
+      const [localResult, remoteResult] = await Promise.allSettled([
+        LocalDraftStore.listByDesigner(designerId),
+        getDocs(query(collection(db, this.DRAFTS_COLLECTION), where('designer_uid', '==', designerId)))
+      ]);
+
+      if (localResult.status === 'rejected' && remoteResult.status === 'rejected') {
+        throw remoteResult.reason;
+      }
+      if (localResult.status === 'rejected') {
+        console.warn('⚠️ Drafts on this device could not be read:', localResult.reason);
+      }
+      if (remoteResult.status === 'rejected') {
+        console.warn('⚠️ Saved drafts could not be loaded:', remoteResult.reason);
+      }
+
+      const drafts = new Map<string, ProjectDraft>();
+      for (const draft of localResult.status === 'fulfilled' ? localResult.value : []) {
+        drafts.set(draft.id, draft);
+      }
+      for (const docSnap of remoteResult.status === 'fulfilled' ? remoteResult.value.docs : []) {
+        const remote = this.fromFirestore(docSnap.id, docSnap.data());
+        const local = drafts.get(remote.id);
+
+        if (!local || remote.updatedAt > local.updatedAt) {
+          drafts.set(remote.id, {
+            ...remote,
+            primaryImage: local?.primaryImage || null,
+            additionalImages: local?.additionalImages || []
+          });
+        } else if (remote.updatedAt.getTime() === local.updatedAt.getTime()) {
+          drafts.set(local.id, { ...local, savedRemotely: true });
+        }
+      }
+
+      return Array.from(drafts.values()).sort((a, b) => b.updatedAt.getTime() - a.updatedAt.getTime());
+    } catch (error) {
+      console.error('❌ ProjectDraftService: Error fetching drafts:', error);
+      throw new Error(`Failed to fetch drafts: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Submits a draft for server-side validation before publishing
+   * Firestore rules only accept a 'ready' draft whose fields are all valid; the projects
+   * create rule checks the published package again, including its uploaded primary image
+   * @param draft - Draft to validate
+   * @returns Promise<void> - Resolves once the server accepted the draft
+   */
+  static async validateForPublishing(draft: ProjectDraft): Promise<void> {
+    try {
+      await setDoc(doc(db, this.DRAFTS_COLLECTION, draft.id), this.toDraftDoc(draft, 'ready'));
+      console.log('✅ ProjectDraftService: Draft passed validation:', draft.id);
+    } catch (error) {
+      console.error('❌ ProjectDraftService: Draft failed validation:', error);
+      if ((error as { code?: string }).code === 'permission-denied') {
+        throw new Error('The server rejected this project. Check that every required field is filled in correctly.');
+      }
+      throw new Error(`Failed to validate draft: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Deletes a draft from this device and Firestore
+   * @param draftId - Draft ID
+   * @returns Promise<void>
+   */
+  static async deleteDraft(draftId: string): Promise<void> {
+    try {
+      try {
+        await LocalDraftStore.delete(draftId);
+      } catch (error) {
+        console.warn('⚠️ Draft could not be removed from this device:', error);
+      }
+      await deleteDoc(doc(db, this.DRAFTS_COLLECTION, draftId));
+
+      console.log('✅ ProjectDraftService: Draft deleted:', draftId);
+    } catch (error) {
+      console.error('❌ ProjectDraftService: Error deleting draft:', error);
+      throw new Error(`Failed to delete draft: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Builds the Firestore document for a draft; images stay on the device
+   */
+  private static toDraftDoc(draft: ProjectDraft, status: ProjectDraftStatus): DocumentData {
+    return {
+      designer_uid: draft.designerId,
+      title: draft.fields.title,
+      description: draft.fields.description,
+      category: draft.fields.category,
+      price: draft.fields.price,
+      delivery_timeline: draft.fields.deliveryTimeline,
+      deliverables: draft.fields.deliverables,
+      meetings_count: draft.fields.meetingsCount,
+      revisions_count: draft.fields.revisionsCount,
+      custom_tags: draft.fields.customTags,
+      current_step: draft.currentStep,
+      has_primary_image: draft.hasPrimaryImage,
+      additional_image_count: draft.additionalImageCount,
+      status,
+      // Client time, so it compares with the copy on this device
+      updated_at: Timestamp.fromDate(draft.updatedAt)
+    };
+  }
+
+  /**
+   * Converts a Firestore document into a ProjectDraft without images
+   */
+  private static fromFirestore(id: string, data: DocumentData): ProjectDraft {
+    return {
+      id,
+      designerId: data.designer_uid,
+      fields: {
+        title: data.title || '',
+        description: data.description || '',
+        category: data.category || '',
+        price: data.price || 0,
+        deliveryTimeline: data.delivery_timeline || '',
+        deliverables: data.deliverables || '',
+        meetingsCount: data.meetings_count ?? 1,
+        revisionsCount: data.revisions_count ?? 2,
+        customTags: data.custom_tags || []
+      },
+      currentStep: data.current_step || 1,
+      status: data.status || 'editing',
+      hasPrimaryImage: data.has_primary_image === true,
+      additionalImageCount: data.additional_image_count || 0,
+      primaryImage: null,
+      additionalImages: [],
+      savedRemotely: true,
+      updatedAt: data.updated_at?.toDate() || new Date()
+    };
+  }
+}
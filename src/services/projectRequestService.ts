@@ -0,0 +1,349 @@
+import {
+  collection,
+  doc,
+  setDoc,
+  getDoc,
+  getDocs,
+  updateDoc,
+  query,
+  where,
+  orderBy,
+  runTransaction,
+  serverTimestamp,
+  DocumentData
+} from 'firebase/firestore';
+import { db } from '../config/firebase';
+import { ConversationService } from './conversationService';
+import { ReviewService } from './reviewService';
+import { AvailabilityService } from './availabilityService';
+import { DesignerDirectoryService } from './designerDirectoryService';
+import { UserProfile } from '../types/user';
+import {
+  ProjectRequest,
+  ProjectRequestStatus,
+  ProjectRequestUpdate,
+  CreateProjectRequestData,
+  canTransitionRequest,
+  PROJECT_REQUEST_STATUS_LABELS
+} from '../types/projectRequest';
+import { validate, validatePartial, assertValid, projectRequestSchema, projectRequestDraftSchema } from '../utils/validation';
+
+/**
+ * Service for managing project requests (briefs) posted by service requesters
+ * Enforces the draft → active → in_progress → completed/cancelled lifecycle
+ */
+export class ProjectRequestService {
+  private static readonly REQUESTS_COLLECTION = 'project_requests';
+
+  /**
+   * Creates a new project request as a draft
+   * @param requestData - Brief details entered by the requester
+   * @param requester - Profile of the service requester posting the brief
+   * @returns Promise<ProjectRequest> - Created request
+   */
+  static async createRequest(requestData: CreateProjectRequestData, requester: UserProfile): Promise<ProjectRequest> {
+    try {
+      console.log('🔄 ProjectRequestService: Creating request for user:', requester.uid);
+
+      if (requester.user_type !== 'service_requester' && requester.user_type !== 'admin') {
+        throw new Error('Only service requesters can post project requests');
+      }
+
+      assertValid(validate(projectRequestDraftSchema, requestData));
+
+      const requestId = doc(collection(db, this.REQUESTS_COLLECTION)).id;
+
+      const requestDoc: Omit<ProjectRequest, 'id' | 'createdAt' | 'updatedAt'> = {
+        requesterId: requester.uid,
+        title: requestData.title.trim(),
+        description: requestData.description.trim(),
+        category: requestData.category,
+        budget: requestData.budget,
+        location: requestData.location.trim(),
+        timeline: requestData.timeline.trim(),
+        status: 'draft',
+        priority: requestData.priority,
+        skills: requestData.skills,
+        attachments: requestData.attachments,
+        proposals: 0,
+        views: 0,
+        deadline: requestData.deadline,
+        client: {
+          name: requester.full_name,
+          rating: 0,
+          reviewCount: 0,
+          avatar: requester.profile_picture_url || ''
+        },
+        assignedDesigner: null,
+        acceptedProposalId: null,
+        milestones: requestData.milestones || [],
+        publishedAt: null,
+        startedAt: null,
+        completedAt: null,
+        cancelledAt: null,
+        cancellationReason: null
+      };
+
+      const requestRef = doc(db, this.REQUESTS_COLLECTION, requestId);
+      await setDoc(requestRef, {
+        ...requestDoc,
+        createdAt: serverTimestamp(),
+        updatedAt: serverTimestamp()
+      });
+
+      console.log('✅ ProjectRequestService: Draft created with ID:', requestId);
+
+      return {
+        id: requestId,
+        ...requestDoc,
+        createdAt: new Date(),
+        updatedAt: new Date()
+      };
+    } catch (error) {
+      console.error('❌ ProjectRequestService: Error creating request:', error);
+      throw new Error(`Failed to create project request: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Gets a project request by ID
+   * @param requestId - Project request ID
+   * @returns Promise<ProjectRequest | null> - Request or null if not found
+   */
+  static async getRequest(requestId: string): Promise<ProjectRequest | null> {
+    try {
+      const requestRef = doc(db, this.REQUESTS_COLLECTION, requestId);
+      const requestSnap = await getDoc(requestRef);
+
+      if (requestSnap.exists()) {
+        return this.fromFirestore(requestSnap.id, requestSnap.data());
+      }
+
+      return null;
+    } catch (error) {
+      console.error('❌ Error fetching project request:', error);
+      throw new Error(`Failed to fetch project request: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Gets all requests posted by a requester, most recent first
+   * @param requesterId - Service requester user ID
+   * @returns Promise<ProjectRequest[]> - Array of the requester's briefs
+   */
+  static async getRequestsByRequester(requesterId: string): Promise<ProjectRequest[]> {
+    try {
+      const requestsRef = collection(db, this.REQUESTS_COLLECTION);
+      const q = query(
+        requestsRef,
+        where('requesterId', '==', requesterId),
+        orderBy('createdAt', 'desc')
+      );
+
+      const querySnapshot = await getDocs(q);
+      return querySnapshot.docs.map(docSnap => this.fromFirestore(docSnap.id, docSnap.data()));
+    } catch (error) {
+      console.error('❌ Error fetching requester project requests:', error);
+      throw new Error(`Failed to fetch project requests: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Gets all requests in a given status, most recent first
+   * @param status - Lifecycle status to filter by
+   * @returns Promise<ProjectRequest[]> - Array of matching briefs
+   */
+  static async getRequestsByStatus(status: ProjectRequestStatus): Promise<ProjectRequest[]> {
+    try {
+      const requestsRef = collection(db, this.REQUESTS_COLLECTION);
+      const q = query(
+        requestsRef,
+        where('status', '==', status),
+        orderBy('createdAt', 'desc')
+      );
+
+      const querySnapshot = await getDocs(q);
+      return querySnapshot.docs.map(docSnap => this.fromFirestore(docSnap.id, docSnap.data()));
+    } catch (error) {
+      console.error('❌ Error fetching project requests by status:', error);
+      throw new Error(`Failed to fetch project requests by status: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Updates the brief details of a draft or active request
+   * @param requestId - Project request ID
+   * @param updates - Fields to change
+   * @param userId - ID of the requester (for authorization)
+   * @returns Promise<void>
+   */
+  static async updateRequest(requestId: string, updates: ProjectRequestUpdate, userId: string): Promise<void> {
+    try {
+      const request = await this.getRequest(requestId);
+
+      if (!request) {
+        throw new Error('Project request not found');
+      }
+
+      if (request.requesterId !== userId) {
+        throw new Error('Unauthorized: You can only edit your own requests');
+      }
+
+      if (request.status !== 'draft' && request.status !== 'active') {
+        throw new Error(`Requests that are ${PROJECT_REQUEST_STATUS_LABELS[request.status].toLowerCase()} can no longer be edited`);
+      }
+
+      // Live requests must stay publishable; drafts only need to keep their title
+      assertValid(request.status === 'active'
+        ? validate(projectRequestSchema, { ...request, ...updates })
+        : validatePartial(projectRequestDraftSchema, updates));
+
+      const cleanedUpdates = Object.fromEntries(
+        Object.entries(updates).filter(([, value]) => value !== undefined)
+      );
+
+      const requestRef = doc(db, this.REQUESTS_COLLECTION, requestId);
+      await updateDoc(requestRef, {
+        ...cleanedUpdates,
+        updatedAt: serverTimestamp()
+      });
+    } catch (error) {
+      console.error('❌ Error updating project request:', error);
+      throw new Error(`Failed to update project request: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Publishes a draft so designers can see it
+   * @param requestId - Project request ID
+   * @param userId - ID of the requester (for authorization)
+   * @returns Promise<void>
+   */
+  static async publishRequest(requestId: string, userId: string): Promise<void> {
+    await this.transitionRequest(requestId, 'active', userId, (request) => {
+      assertValid(validate(projectRequestSchema, request));
+      return { publishedAt: serverTimestamp() };
+    });
+  }
+
+  /**
+   * Marks an in-progress request as completed
+   * @param requestId - Project request ID
+   * @param userId - ID of the requester (for authorization)
+   * @returns Promise<void>
+   */
+  static async completeRequest(requestId: string, userId: string): Promise<void> {
+    await this.transitionRequest(requestId, 'completed', userId, (request) => {
+      const openMilestones = (request.milestones || []).filter(m => m.status !== 'completed');
+      if (openMilestones.length > 0) {
+        throw new Error(`${openMilestones.length} milestone(s) are not completed yet`);
+      }
+      return { completedAt: serverTimestamp() };
+    });
+
+    await ConversationService.postRequestEvent(requestId, userId, 'The project was marked as completed.');
+  }
+
+  /**
+   * Cancels a request that has not been completed
+   * @param requestId - Project request ID
+   * @param userId - ID of the requester (for authorization)
+   * @param reason - Optional cancellation reason
+   * @returns Promise<void>
+   */
+  static async cancelRequest(requestId: string, userId: string, reason?: string): Promise<void> {
+    await this.transitionRequest(requestId, 'cancelled', userId, () => ({
+      cancelledAt: serverTimestamp(),
+      cancellationReason: reason?.trim() || null
+    }));
+
+    await ConversationService.postRequestEvent(
+      requestId,
+      userId,
+      reason?.trim() ? `The project was cancelled: ${reason.trim()}` : 'The project was cancelled.'
+    );
+  }
+
+  /**
+   * Applies a status transition atomically after validating it against the lifecycle
+   * @param requestId - Project request ID
+   * @param nextStatus - Target status
+   * @param userId - ID of the requester (for authorization)
+   * @param prepare - Validates the current request and returns extra fields to write
+   * @returns Promise<void>
+   */
+  private static async transitionRequest(
+    requestId: string,
+    nextStatus: ProjectRequestStatus,
+    userId: string,
+    prepare: (request: ProjectRequest) => DocumentData
+  ): Promise<void> {
+    try {
+      const requestRef = doc(db, this.REQUESTS_COLLECTION, requestId);
+
+      const designerId = await runTransaction(db, async (transaction) => {
+        const requestSnap = await transaction.get(requestRef);
+
+        if (!requestSnap.exists()) {
+          throw new Error('Project request not found');
+        }
+
+        const request = this.fromFirestore(requestSnap.id, requestSnap.data());
+
+        if (request.requesterId !== userId) {
+          throw new Error('Unauthorized: You can only manage your own requests');
+        }
+
+        if (!canTransitionRequest(request.status, nextStatus)) {
+          throw new Error(
+            `Cannot move request from ${PROJECT_REQUEST_STATUS_LABELS[request.status]} to ${PROJECT_REQUEST_STATUS_LABELS[nextStatus]}`
+          );
+        }
+
+        transaction.update(requestRef, {
+          ...prepare(request),
+          status: nextStatus,
+          updatedAt: serverTimestamp()
+        });
+
+        // Finished assignments count towards the completion rate and free up capacity
+        const assignedId = request.status === 'in_progress' ? request.assignedDesigner?.uid : undefined;
+        if (assignedId && (nextStatus === 'completed' || nextStatus === 'cancelled')) {
+          ReviewService.recordProjectOutcome(transaction, assignedId, requestId, nextStatus);
+          AvailabilityService.recordAssignment(transaction, assignedId, -1, { type: 'request', id: requestId });
+          return assignedId;
+        }
+
+        return null;
+      });
+
+      console.log(`✅ Project request ${requestId} moved to ${nextStatus}`);
+
+      if (designerId) {
+        await ReviewService.syncDirectoryStats(designerId);
+        await DesignerDirectoryService.refreshAvailability(designerId).catch(error => {
+          console.warn('⚠️ Directory availability could not be updated:', error);
+        });
+      }
+    } catch (error) {
+      console.error('❌ Error changing project request status:', error);
+      throw new Error(`Failed to update request status: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Converts a Firestore document into a ProjectRequest
+   */
+  private static fromFirestore(id: string, data: DocumentData): ProjectRequest {
+    return {
+      id,
+      ...data,
+      createdAt: data.createdAt?.toDate() || new Date(),
+      updatedAt: data.updatedAt?.toDate() || new Date(),
+      publishedAt: data.publishedAt?.toDate() || null,
+      startedAt: data.startedAt?.toDate() || null,
+      completedAt: data.completedAt?.toDate() || null,
+      cancelledAt: data.cancelledAt?.toDate() || null
+    } as ProjectRequest;
+  }
+}
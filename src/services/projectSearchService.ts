@@ -0,0 +1,369 @@
+import {
+  collection,
+  doc,
+  getDocs,
+  setDoc,
+  deleteDoc,
+  query,
+  where,
+  serverTimestamp,
+  DocumentData
+} from 'firebase/firestore';
+import { db } from '../config/firebase';
+import type { Project } from './projectService';
+import { PriceBand, getPriceBand } from '../types/designerDirectory';
+import { findImageRenditions, getRenditionUrl } from '../types/image';
+import {
+  FacetCount,
+  ProjectSearchEntry,
+  ProjectSearchFacets,
+  ProjectSearchFilters,
+  ProjectSearchHit,
+  ProjectSearchQuery,
+  ProjectSearchResult,
+  MATCH_SCORES,
+  MIN_PREFIX_LENGTH,
+  SUMMARY_LENGTH,
+  boundedEditDistance,
+  getTimelineBucket,
+  getTypoTolerance,
+  tokenize
+} from '../types/projectSearch';
+
+type IndexableProject = Pick<
+  Project,
+  'id' | 'title' | 'description' | 'category' | 'price' | 'deliveryTimeline' | 'customTags' | 'primaryImageUrl' | 'imageRenditions' | 'createdBy' | 'status' | 'createdAt'
+>;
+
+interface Posting {
+  entryIndex: number;
+  inTitle: boolean;
+}
+
+export interface IndexRebuildSummary {
+  indexed: number;
+  removed: number;
+  failed: Array<{ projectId: string; error: string }>;
+}
+
+interface SearchIndex {
+  entries: ProjectSearchEntry[];
+  postings: Map<string, Posting[]>; // Token -> entries containing it
+  loadedAt: number;
+}
+
+/**
+ * Service for searching published project packages
+ * Each active project has a tokenized entry in `project_search_index`; entries are loaded once,
+ * turned into an inverted index in memory and matched with prefix and typo tolerance
+ */
+export class ProjectSearchService {
+  private static readonly SEARCH_INDEX_COLLECTION = 'project_search_index';
+  private static readonly PROJECTS_COLLECTION = 'projects';
+  private static readonly CACHE_TTL_MS = 60 * 1000;
+  private static index: SearchIndex | null = null;
+
+  /**
+   * Searches active projects
+   * @param searchQuery - Free text, facet filters and sort order
+   * @returns Promise<ProjectSearchResult> - Ranked hits and facet counts
+   */
+  static async search(searchQuery: ProjectSearchQuery): Promise<ProjectSearchResult> {
+    try {
+      const index = await this.loadIndex();
+      const queryTokens = tokenize(searchQuery.text);
+
+      const matched: ProjectSearchHit[] = queryTokens.length === 0
+        ? index.entries.map(entry => ({ entry, score: 0 }))
+        : Array.from(this.scoreEntries(index, queryTokens), ([entryIndex, score]) => ({ entry: index.entries[entryIndex], score }));
+
+      const hits = matched.filter(hit => this.matchesFilters(hit.entry, searchQuery));
+      const sort = searchQuery.sort ?? (queryTokens.length > 0 ? 'relevance' : 'newest');
+
+      hits.sort((a, b) => {
+        switch (sort) {
+          case 'price_low':
+            return a.entry.price - b.entry.price;
+          case 'price_high':
+            return b.entry.price - a.entry.price;
+          case 'newest':
+            return b.entry.createdAt.getTime() - a.entry.createdAt.getTime();
+          default:
+            return b.score - a.score || b.entry.createdAt.getTime() - a.entry.createdAt.getTime();
+        }
+      });
+
+      return {
+        hits,
+        facets: this.countFacets(matched.map(hit => hit.entry), searchQuery),
+        total: hits.length
+      };
+    } catch (error) {
+      console.error('❌ ProjectSearchService: Error searching projects:', error);
+      throw new Error(`Failed to search projects: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Writes or refreshes a project's index entry; inactive projects are removed
+   * @param project - Project to index
+   * @returns Promise<void>
+   */
+  static async indexProject(project: IndexableProject): Promise<void> {
+    try {
+      if (project.status !== 'active') {
+        await this.removeProject(project.id);
+        return;
+      }
+
+      await setDoc(doc(db, this.SEARCH_INDEX_COLLECTION, project.id), this.toIndexDoc(project));
+      this.index = null;
+    } catch (error) {
+      console.error('❌ ProjectSearchService: Error indexing project:', error);
+      throw new Error(`Failed to index project: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Removes a project from the search index
+   * @param projectId - Project ID
+   * @returns Promise<void>
+   */
+  static async removeProject(projectId: string): Promise<void> {
+    try {
+      await deleteDoc(doc(db, this.SEARCH_INDEX_COLLECTION, projectId));
+      this.index = null;
+    } catch (error) {
+      console.error('❌ ProjectSearchService: Error removing project from index:', error);
+      throw new Error(`Failed to remove project from index: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Re-indexes every active project and drops entries for the rest (admin only)
+   * One project the rules reject does not stop the rest
+   * @returns Promise<IndexRebuildSummary> - Indexed and removed counts, and the projects that failed
+   */
+  static async rebuildIndex(): Promise<IndexRebuildSummary> {
+    try {
+      const [projectsSnapshot, entriesSnapshot] = await Promise.all([
+        getDocs(query(collection(db, this.PROJECTS_COLLECTION), where('status', '==', 'active'))),
+        getDocs(collection(db, this.SEARCH_INDEX_COLLECTION))
+      ]);
+
+      const activeIds = new Set(projectsSnapshot.docs.map(docSnap => docSnap.id));
+      const staleIds = entriesSnapshot.docs.map(docSnap => docSnap.id).filter(id => !activeIds.has(id));
+
+      const summary: IndexRebuildSummary = { indexed: 0, removed: 0, failed: [] };
+      for (const docSnap of projectsSnapshot.docs) {
+        const data = docSnap.data();
+        try {
+          await setDoc(doc(db, this.SEARCH_INDEX_COLLECTION, docSnap.id), this.toIndexDoc({
+            id: docSnap.id,
+            title: data.title || '',
+            description: data.description || '',
+            category: data.category || '',
+            price: data.price || 0,
+            deliveryTimeline: data.deliveryTimeline || '',
+            customTags: data.customTags || [],
+            primaryImageUrl: data.primaryImageUrl || '',
+            imageRenditions: data.imageRenditions || [],
+            createdBy: data.createdBy,
+            status: data.status,
+            createdAt: data.createdAt?.toDate() || new Date()
+          }));
+          summary.indexed++;
+        } catch (error) {
+          summary.failed.push({ projectId: docSnap.id, error: error instanceof Error ? error.message : 'Unknown error' });
+        }
+      }
+      for (const projectId of staleIds) {
+        await deleteDoc(doc(db, this.SEARCH_INDEX_COLLECTION, projectId));
+        summary.removed++;
+      }
+
+      this.index = null;
+
+      console.log(`✅ ProjectSearchService: Search index rebuilt with ${summary.indexed} projects (${summary.failed.length} failed)`);
+      return summary;
+    } catch (error) {
+      console.error('❌ ProjectSearchService: Error rebuilding search index:', error);
+      throw new Error(`Failed to rebuild search index: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Loads index entries and builds the inverted index, reusing it until it goes stale
+   */
+  private static async loadIndex(): Promise<SearchIndex> {
+    if (this.index && Date.now() - this.index.loadedAt < this.CACHE_TTL_MS) {
+      return this.index;
+    }
+
+    const snapshot = await getDocs(collection(db, this.SEARCH_INDEX_COLLECTION));
+    const entries = snapshot.docs.map(docSnap => this.fromFirestore(docSnap.id, docSnap.data()));
+    const postings = new Map<string, Posting[]>();
+
+    entries.forEach((entry, entryIndex) => {
+      const titleTokens = new Set(entry.titleTokens);
+      entry.tokens.forEach(token => {
+        const tokenPostings = postings.get(token) ?? [];
+        tokenPostings.push({ entryIndex, inTitle: titleTokens.has(token) });
+        postings.set(token, tokenPostings);
+      });
+    });
+
+    this.index = { entries, postings, loadedAt: Date.now() };
+    return this.index;
+  }
+
+  /**
+   * Scores entries that match every query token
+   * Each query token contributes its best match in the entry, doubled for title words
+   */
+  private static scoreEntries(index: SearchIndex, queryTokens: string[]): Map<number, number> {
+    let scores: Map<number, number> | null = null;
+
+    for (const queryToken of queryTokens) {
+      const tokenScores = new Map<number, number>();
+
+      index.postings.forEach((tokenPostings, token) => {
+        const matchScore = this.matchToken(queryToken, token);
+        if (matchScore === 0) return;
+
+        tokenPostings.forEach(({ entryIndex, inTitle }) => {
+          const score = inTitle ? matchScore * 2 : matchScore;
+          tokenScores.set(entryIndex, Math.max(tokenScores.get(entryIndex) ?? 0, score));
+        });
+      });
+
+      if (scores === null) {
+        scores = tokenScores;
+      } else {
+        // Keep only entries that matched every earlier token too
+        const combined = new Map<number, number>();
+        scores.forEach((score, entryIndex) => {
+          const tokenScore = tokenScores.get(entryIndex);
+          if (tokenScore !== undefined) {
+            combined.set(entryIndex, score + tokenScore);
+          }
+        });
+        scores = combined;
+      }
+
+      if (scores.size === 0) break;
+    }
+
+    return scores ?? new Map();
+  }
+
+  /**
+   * Scores how well an indexed token matches a query token (0 for no match)
+   * Typos are tolerated against the whole word and against its prefix, so partially typed words still match
+   */
+  private static matchToken(queryToken: string, token: string): number {
+    if (token === queryToken) return MATCH_SCORES.exact;
+    if (queryToken.length >= MIN_PREFIX_LENGTH && token.startsWith(queryToken)) return MATCH_SCORES.prefix;
+
+    const tolerance = getTypoTolerance(queryToken);
+    if (tolerance === 0) return 0;
+
+    if (
+      boundedEditDistance(queryToken, token, tolerance) <= tolerance ||
+      (token.length > queryToken.length && boundedEditDistance(queryToken, token.slice(0, queryToken.length), tolerance) <= tolerance)
+    ) {
+      return MATCH_SCORES.fuzzy;
+    }
+
+    return 0;
+  }
+
+  private static matchesFilters(entry: ProjectSearchEntry, filters: ProjectSearchFilters, ignore?: keyof ProjectSearchFilters): boolean {
+    return (ignore === 'category' || !filters.category || entry.category === filters.category) &&
+      (ignore === 'priceBand' || !filters.priceBand || entry.priceBand === filters.priceBand) &&
+      (ignore === 'timelineBucket' || !filters.timelineBucket || entry.timelineBucket === filters.timelineBucket);
+  }
+
+  /**
+   * Counts text matches per facet value
+   * Each facet ignores its own filter so the other values stay selectable
+   */
+  private static countFacets(entries: ProjectSearchEntry[], filters: ProjectSearchFilters): ProjectSearchFacets {
+    const count = <T extends string>(facet: keyof ProjectSearchFilters, getValue: (entry: ProjectSearchEntry) => T | null): FacetCount<T>[] => {
+      const counts = new Map<T, number>();
+      entries
+        .filter(entry => this.matchesFilters(entry, filters, facet))
+        .forEach(entry => {
+          const value = getValue(entry);
+          if (value !== null) {
+            counts.set(value, (counts.get(value) ?? 0) + 1);
+          }
+        });
+
+      return Array.from(counts, ([value, total]) => ({ value, count: total }))
+        .sort((a, b) => b.count - a.count || a.value.localeCompare(b.value));
+    };
+
+    return {
+      category: count('category', entry => entry.category || null),
+      priceBand: count('priceBand', entry => entry.priceBand),
+      timelineBucket: count('timelineBucket', entry => entry.timelineBucket)
+    };
+  }
+
+  /**
+   * Builds the index document for a project
+   */
+  private static toIndexDoc(project: IndexableProject): DocumentData {
+    const titleTokens = tokenize(project.title);
+    const primaryImage = findImageRenditions(project.imageRenditions, project.primaryImageUrl);
+
+    return {
+      project_id: project.id,
+      designer_uid: project.createdBy,
+      title: project.title,
+      summary: project.description.slice(0, SUMMARY_LENGTH),
+      category: project.category,
+      price: project.price,
+      // A numeric price always falls in a band
+      price_band: getPriceBand(project.price) as PriceBand,
+      delivery_timeline: project.deliveryTimeline,
+      timeline_bucket: getTimelineBucket(project.deliveryTimeline),
+      // Results render as cards, so the card rendition is all search needs
+      primary_image_url: getRenditionUrl(primaryImage, 'card', project.primaryImageUrl),
+      primary_image_blurhash: primaryImage?.blurhash || null,
+      title_tokens: titleTokens,
+      tokens: Array.from(new Set([
+        ...titleTokens,
+        ...tokenize(project.description),
+        ...tokenize(project.customTags.join(' ')),
+        ...tokenize(project.category)
+      ])),
+      created_at: project.createdAt,
+      updated_at: serverTimestamp()
+    };
+  }
+
+  /**
+   * Converts a Firestore document into a ProjectSearchEntry
+   */
+  private static fromFirestore(id: string, data: DocumentData): ProjectSearchEntry {
+    return {
+      id,
+      designerId: data.designer_uid || '',
+      title: data.title || '',
+      summary: data.summary || '',
+      category: data.category || '',
+      price: data.price || 0,
+      priceBand: data.price_band || 'under_1000',
+      deliveryTimeline: data.delivery_timeline || '',
+      timelineBucket: data.timeline_bucket || null,
+      primaryImageUrl: data.primary_image_url || '',
+      primaryImageBlurhash: data.primary_image_blurhash || null,
+      titleTokens: data.title_tokens || [],
+      tokens: data.tokens || [],
+      createdAt: data.created_at?.toDate() || new Date(),
+      updatedAt: data.updated_at?.toDate() || new Date()
+    };
+  }
+}
@@ -1,23 +1,37 @@
 import { 
   collection, 
+  collectionGroup,
   doc, 
-  setDoc, 
   getDoc, 
   getDocs,
   query,
   where,
   orderBy,
-  limit,
+  runTransaction,
+  writeBatch,
   serverTimestamp,
-  DocumentData 
+  deleteField,
+  Timestamp,
+  DocumentData,
+  QueryDocumentSnapshot
 } from 'firebase/firestore';
 import { 
   ref, 
   uploadBytes, 
   getDownloadURL, 
-  deleteObject 
+  getMetadata,
+  listAll,
+  deleteObject,
+  StorageReference
 } from 'firebase/storage';
 import { db, storage } from '../config/firebase';
+import { queryPaginated, PaginatedResult, DEFAULT_PAGE_SIZE } from '../utils/firestoreHelpers';
+import { isActiveOrder, OrderStatus } from '../types/order';
+import { ImageRenditions, ImageRendition, RenditionSize, RENDITION_SIZES, findImageRenditions, getRenditionUrls } from '../types/image';
+import { processImage } from '../utils/imagePipeline';
+import { validate, validatePartial, assertValid, projectSchema } from '../utils/validation';
+import { DesignerDirectoryService } from './designerDirectoryService';
+import { ProjectSearchService } from './projectSearchService';
 
 export interface Project {
   id: string;
@@ -30,16 +44,67 @@ export interface Project {
   meetingsCount: number;
   revisionsCount: number;
   customTags: string[];
-  primaryImageUrl: string;
-  additionalImageUrls: string[];
+  primaryImageUrl: string; // Full rendition
+  additionalImageUrls: string[]; // Full renditions
+  imageRenditions: ImageRenditions[]; // One entry per image URL, matched on full.url
   createdBy: string;
   createdAt: Date;
   updatedAt: Date;
-  status: 'active' | 'inactive' | 'completed';
+  status: 'active' | 'inactive' | 'completed' | 'archived';
+  archivedAt: Date | null;
   viewCount: number;
   favoriteCount: number;
+  currentVersion: number;
 }
 
+// Archived projects can be restored for this many days; after that they are purged
+export const ARCHIVE_RETENTION_DAYS = 30;
+
+// Helper functions for the archive lifecycle
+export const getArchiveExpiry = (project: Pick<Project, 'archivedAt'>): Date | null => {
+  if (!project.archivedAt) return null;
+  return new Date(project.archivedAt.getTime() + ARCHIVE_RETENTION_DAYS * 24 * 60 * 60 * 1000);
+};
+
+export const getPrimaryImageRenditions = (project: Pick<Project, 'primaryImageUrl' | 'imageRenditions'>): ImageRenditions | null => {
+  return findImageRenditions(project.imageRenditions, project.primaryImageUrl);
+};
+
+export const canRestoreProject = (project: Pick<Project, 'status' | 'archivedAt'>, now: Date = new Date()): boolean => {
+  const expiry = getArchiveExpiry(project);
+  return project.status === 'archived' && expiry !== null && expiry > now;
+};
+
+// Package fields captured in every version snapshot
+export const PROJECT_VERSIONED_FIELDS = [
+  'title',
+  'description',
+  'category',
+  'price',
+  'deliveryTimeline',
+  'deliverables',
+  'meetingsCount',
+  'revisionsCount',
+  'customTags',
+  'primaryImageUrl',
+  'additionalImageUrls'
+] as const;
+
+export type ProjectVersionedField = typeof PROJECT_VERSIONED_FIELDS[number];
+
+// Renditions follow the image URLs, so they are snapshotted but never reported as a change of their own
+type ProjectSnapshotFields = Pick<Project, ProjectVersionedField | 'imageRenditions'>;
+
+// Immutable snapshot of a package as it was published at one point in time
+export type ProjectVersion = ProjectSnapshotFields & {
+  id: string;
+  projectId: string;
+  version: number;
+  changedFields: ProjectVersionedField[];
+  createdBy: string;
+  createdAt: Date;
+};
+
 export interface CreateProjectData {
   title: string;
   description: string;
@@ -54,12 +119,36 @@ export interface CreateProjectData {
   additionalImages: File[];
 }
 
+export interface UpdateProjectData {
+  title?: string;
+  description?: string;
+  category?: string;
+  price?: number;
+  deliveryTimeline?: string;
+  deliverables?: string;
+  meetingsCount?: number;
+  revisionsCount?: number;
+  customTags?: string[];
+  primaryImage?: File; // Replaces the primary image
+  additionalImages?: File[]; // Appended to the kept additional images
+  keptAdditionalImageUrls?: string[]; // Existing additional images to keep (default: all)
+}
+
+export interface PurgeSummary {
+  purged: string[];
+  failed: { projectId: string; error: string }[];
+}
+
 /**
  * Service for managing projects in Firestore and Firebase Storage
  */
 export class ProjectService {
   private static readonly PROJECTS_COLLECTION = 'projects';
   private static readonly STORAGE_PATH = 'project-images';
+  private static readonly VERSIONS_SUBCOLLECTION = 'versions';
+  private static readonly ORDERS_COLLECTION = 'orders';
+  // Files this recent may belong to a project whose document is still being written
+  private static readonly ORPHAN_GRACE_PERIOD_MS = 24 * 60 * 60 * 1000;
 
   /**
    * Creates a new project with image uploads
@@ -70,26 +159,27 @@ export class ProjectService {
   static async createProject(projectData: CreateProjectData, userId: string): Promise<Project> {
     try {
       console.log('🔄 ProjectService: Creating project for user:', userId);
+      assertValid(validate(projectSchema, projectData));
       
       // Generate unique project ID
       const projectId = doc(collection(db, this.PROJECTS_COLLECTION)).id;
       
       // Upload primary image
       console.log('📤 Uploading primary image...');
-      const primaryImageUrl = await this.uploadImage(
+      const primaryImage = await this.uploadImage(
         projectData.primaryImage, 
         `${projectId}/primary`
       );
       
       // Upload additional images
       console.log('📤 Uploading additional images...');
-      const additionalImageUrls: string[] = [];
+      const additionalImages: ImageRenditions[] = [];
       for (let i = 0; i < projectData.additionalImages.length; i++) {
-        const imageUrl = await this.uploadImage(
+        const image = await this.uploadImage(
           projectData.additionalImages[i], 
           `${projectId}/additional-${i}`
         );
-        additionalImageUrls.push(imageUrl);
+        additionalImages.push(image);
       }
       
       // Prepare project document
@@ -103,33 +193,45 @@ export class ProjectService {
         meetingsCount: projectData.meetingsCount,
         revisionsCount: projectData.revisionsCount,
         customTags: projectData.customTags,
-        primaryImageUrl,
-        additionalImageUrls,
+        primaryImageUrl: primaryImage.full.url,
+        additionalImageUrls: additionalImages.map(image => image.full.url),
+        imageRenditions: [primaryImage, ...additionalImages],
         createdBy: userId,
         status: 'active',
+        archivedAt: null,
         viewCount: 0,
-        favoriteCount: 0
+        favoriteCount: 0,
+        currentVersion: 1
       };
       
-      // Save to Firestore
+      // Save to Firestore together with the first version snapshot
       console.log('💾 Saving project to Firestore...');
       const projectRef = doc(db, this.PROJECTS_COLLECTION, projectId);
-      await setDoc(projectRef, {
+      const batch = writeBatch(db);
+      batch.set(projectRef, {
         ...projectDoc,
         createdAt: serverTimestamp(),
         updatedAt: serverTimestamp()
       });
+      batch.set(this.versionRef(projectId, 1), this.toVersionDoc(projectDoc, 1, [], userId));
+      await batch.commit();
       
       console.log('✅ ProjectService: Project created successfully with ID:', projectId);
       
-      // Return the created project
-      return {
+      await this.refreshDirectoryListing(userId);
+      
+      const project: Project = {
         id: projectId,
         ...projectDoc,
         createdAt: new Date(),
         updatedAt: new Date()
       };
       
+      await this.refreshSearchIndex(project);
+      
+      // Return the created project
+      return project;
+      
     } catch (error) {
       console.error('❌ ProjectService: Error creating project:', error);
       throw new Error(`Failed to create project: ${error instanceof Error ? error.message : 'Unknown error'}`);
@@ -137,34 +239,139 @@ export class ProjectService {
   }
 
   /**
-   * Uploads an image to Firebase Storage
-   * @param file - Image file to upload
-   * @param path - Storage path for the image
-   * @returns Promise<string> - Download URL of uploaded image
+   * Edits a published project and records the result as a new immutable version
+   * Replaced images stay in storage because earlier versions still reference them
+   * @param projectId - Project ID
+   * @param userId - User ID (for authorization)
+   * @param updates - Changed fields and images
+   * @returns Promise<Project> - Updated project (unchanged if nothing differs)
    */
-  private static async uploadImage(file: File, path: string): Promise<string> {
+  static async updateProject(projectId: string, userId: string, updates: UpdateProjectData): Promise<Project> {
     try {
-      // Validate file type
-      if (!file.type.startsWith('image/')) {
-        throw new Error('File must be an image');
+      console.log('🔄 ProjectService: Updating project:', projectId);
+
+      const existing = await this.getProject(projectId);
+      if (!existing) {
+        throw new Error('Project not found');
       }
-      
-      // Validate file size (10MB limit)
-      if (file.size > 10 * 1024 * 1024) {
-        throw new Error('Image size must be less than 10MB');
+      if (existing.createdBy !== userId) {
+        throw new Error('Unauthorized: You can only edit your own projects');
       }
-      
-      // Create storage reference
-      const imageRef = ref(storage, `${this.STORAGE_PATH}/${path}-${Date.now()}`);
-      
-      // Upload file
-      const snapshot = await uploadBytes(imageRef, file);
-      
-      // Get download URL
-      const downloadURL = await getDownloadURL(snapshot.ref);
-      
-      console.log('✅ Image uploaded successfully:', downloadURL);
-      return downloadURL;
+      if (existing.status === 'inactive' || existing.status === 'archived') {
+        throw new Error('Deleted or archived projects cannot be edited');
+      }
+
+      assertValid(validatePartial(projectSchema, updates));
+
+      // Upload new images before the version is written so it only ever points at stored files
+      const primaryImage = updates.primaryImage
+        ? await this.uploadImage(updates.primaryImage, `${projectId}/primary`)
+        : undefined;
+      const addedImages: ImageRenditions[] = [];
+      for (let i = 0; i < (updates.additionalImages || []).length; i++) {
+        addedImages.push(await this.uploadImage(updates.additionalImages![i], `${projectId}/additional-${i}`));
+      }
+
+      const projectRef = doc(db, this.PROJECTS_COLLECTION, projectId);
+
+      const updated = await runTransaction(db, async (transaction) => {
+        const projectSnap = await transaction.get(projectRef);
+        if (!projectSnap.exists()) {
+          throw new Error('Project not found');
+        }
+
+        const current = this.fromFirestore(projectSnap.id, projectSnap.data());
+        const keptImageUrls = updates.keptAdditionalImageUrls
+          ? current.additionalImageUrls.filter(url => updates.keptAdditionalImageUrls!.includes(url))
+          : current.additionalImageUrls;
+
+        const primaryImageUrl = primaryImage?.full.url ?? current.primaryImageUrl;
+        const additionalImageUrls = [...keptImageUrls, ...addedImages.map(image => image.full.url)];
+        const imageRenditions = [
+          ...current.imageRenditions,
+          ...(primaryImage ? [primaryImage] : []),
+          ...addedImages
+        ].filter(renditions => renditions.full.url === primaryImageUrl || additionalImageUrls.includes(renditions.full.url));
+
+        const next: ProjectSnapshotFields = {
+          title: updates.title?.trim() ?? current.title,
+          description: updates.description?.trim() ?? current.description,
+          category: updates.category ?? current.category,
+          price: updates.price ?? current.price,
+          deliveryTimeline: updates.deliveryTimeline ?? current.deliveryTimeline,
+          deliverables: updates.deliverables?.trim() ?? current.deliverables,
+          meetingsCount: updates.meetingsCount ?? current.meetingsCount,
+          revisionsCount: updates.revisionsCount ?? current.revisionsCount,
+          customTags: updates.customTags ?? current.customTags,
+          primaryImageUrl,
+          additionalImageUrls,
+          imageRenditions
+        };
+
+        const changedFields = PROJECT_VERSIONED_FIELDS.filter(
+          field => JSON.stringify(next[field]) !== JSON.stringify(current[field])
+        );
+        if (changedFields.length === 0) {
+          return current;
+        }
+
+        // Projects published before versioning get their original state recorded as version 1
+        if (!projectSnap.data().currentVersion) {
+          transaction.set(this.versionRef(projectId, 1), this.toVersionDoc(current, 1, [], current.createdBy));
+        }
+
+        const version = current.currentVersion + 1;
+        transaction.update(projectRef, {
+          ...next,
+          currentVersion: version,
+          updatedAt: serverTimestamp()
+        });
+        transaction.set(this.versionRef(projectId, version), this.toVersionDoc(next, version, changedFields, userId));
+
+        return { ...current, ...next, currentVersion: version, updatedAt: new Date() };
+      });
+
+      console.log(`✅ ProjectService: Project ${projectId} is now at version ${updated.currentVersion}`);
+
+      if (updated.price !== existing.price) {
+        await this.refreshDirectoryListing(userId);
+      }
+      if (updated.currentVersion !== existing.currentVersion) {
+        await this.refreshSearchIndex(updated);
+      }
+
+      return updated;
+    } catch (error) {
+      console.error('❌ ProjectService: Error updating project:', error);
+      throw new Error(`Failed to update project: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Processes an image in the browser and uploads each rendition to Firebase Storage
+   * @param file - Image file to upload
+   * @param path - Storage path prefix for the renditions
+   * @returns Promise<ImageRenditions> - Download URLs, dimensions and blurhash
+   */
+  private static async uploadImage(file: File, path: string): Promise<ImageRenditions> {
+    try {
+      const processed = await processImage(file);
+      const extension = processed.contentType === 'image/webp' ? 'webp' : 'jpg';
+      const basePath = `${this.STORAGE_PATH}/${path}-${Date.now()}`;
+
+      const uploaded = {} as Record<RenditionSize, ImageRendition>;
+      for (const size of RENDITION_SIZES) {
+        const { blob, width, height } = processed.renditions[size];
+        const snapshot = await uploadBytes(ref(storage, `${basePath}-${size}.${extension}`), blob, {
+          contentType: processed.contentType,
+          // Rendition paths are unique per upload, so browsers can cache them indefinitely
+          cacheControl: 'public, max-age=31536000, immutable'
+        });
+        uploaded[size] = { url: await getDownloadURL(snapshot.ref), width, height };
+      }
+
+      console.log('✅ Image uploaded successfully:', uploaded.full.url);
+      return { ...uploaded, blurhash: processed.blurhash };
       
     } catch (error) {
       console.error('❌ Error uploading image:', error);
@@ -183,13 +390,7 @@ export class ProjectService {
       const projectSnap = await getDoc(projectRef);
       
       if (projectSnap.exists()) {
-        const data = projectSnap.data();
-        return {
-          id: projectSnap.id,
-          ...data,
-          createdAt: data.createdAt?.toDate() || new Date(),
-          updatedAt: data.updatedAt?.toDate() || new Date()
-        } as Project;
+        return this.fromFirestore(projectSnap.id, projectSnap.data());
       }
       
       return null;
@@ -200,33 +401,67 @@ export class ProjectService {
   }
 
   /**
-   * Gets projects by user ID
+   * Gets the version history of a project, newest first
+   * @param projectId - Project ID
+   * @returns Promise<ProjectVersion[]> - Version snapshots
+   */
+  static async getProjectVersions(projectId: string): Promise<ProjectVersion[]> {
+    try {
+      const q = query(
+        collection(db, this.PROJECTS_COLLECTION, projectId, this.VERSIONS_SUBCOLLECTION),
+        orderBy('version', 'desc')
+      );
+      const querySnapshot = await getDocs(q);
+
+      return querySnapshot.docs.map(docSnap => this.versionFromFirestore(docSnap.id, projectId, docSnap.data()));
+    } catch (error) {
+      console.error('❌ Error fetching project versions:', error);
+      throw new Error(`Failed to fetch project versions: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Gets one version of a project, e.g. the one an order was placed on
+   * @param projectId - Project ID
+   * @param version - Version number
+   * @returns Promise<ProjectVersion | null> - Snapshot or null if not found
+   */
+  static async getProjectVersion(projectId: string, version: number): Promise<ProjectVersion | null> {
+    try {
+      const versionSnap = await getDoc(this.versionRef(projectId, version));
+
+      if (versionSnap.exists()) {
+        return this.versionFromFirestore(versionSnap.id, projectId, versionSnap.data());
+      }
+
+      return null;
+    } catch (error) {
+      console.error('❌ Error fetching project version:', error);
+      throw new Error(`Failed to fetch project version: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Gets one page of a user's projects, leaving out deleted ones
    * @param userId - User ID
-   * @returns Promise<Project[]> - Array of user's projects
+   * @param cursor - Last document of the previous page
+   * @param pageSize - Number of projects per page
+   * @returns Promise<PaginatedResult<Project>> - Projects and the cursor for the next page
    */
-  static async getProjectsByUser(userId: string): Promise<Project[]> {
+  static async getProjectsByUser(
+    userId: string,
+    cursor: QueryDocumentSnapshot<DocumentData> | null = null,
+    pageSize: number = DEFAULT_PAGE_SIZE
+  ): Promise<PaginatedResult<Project>> {
     try {
-      const projectsRef = collection(db, this.PROJECTS_COLLECTION);
       const q = query(
-        projectsRef, 
+        collection(db, this.PROJECTS_COLLECTION),
         where('createdBy', '==', userId),
+        where('status', 'in', ['active', 'completed']),
         orderBy('createdAt', 'desc')
       );
       
-      const querySnapshot = await getDocs(q);
-      const projects: Project[] = [];
-      
-      querySnapshot.forEach((doc) => {
-        const data = doc.data();
-        projects.push({
-          id: doc.id,
-          ...data,
-          createdAt: data.createdAt?.toDate() || new Date(),
-          updatedAt: data.updatedAt?.toDate() || new Date()
-        } as Project);
-      });
-      
-      return projects;
+      return await queryPaginated(q, docSnap => this.fromFirestore(docSnap.id, docSnap.data()), cursor, pageSize);
     } catch (error) {
       console.error('❌ Error fetching user projects:', error);
       throw new Error(`Failed to fetch user projects: ${error instanceof Error ? error.message : 'Unknown error'}`);
@@ -234,34 +469,23 @@ export class ProjectService {
   }
 
   /**
-   * Gets all active projects
-   * @param limitCount - Number of projects to fetch (default: 20)
-   * @returns Promise<Project[]> - Array of active projects
+   * Gets one page of active projects, newest first
+   * @param cursor - Last document of the previous page
+   * @param pageSize - Number of projects per page
+   * @returns Promise<PaginatedResult<Project>> - Projects and the cursor for the next page
    */
-  static async getActiveProjects(limitCount: number = 20): Promise<Project[]> {
+  static async getActiveProjects(
+    cursor: QueryDocumentSnapshot<DocumentData> | null = null,
+    pageSize: number = DEFAULT_PAGE_SIZE
+  ): Promise<PaginatedResult<Project>> {
     try {
-      const projectsRef = collection(db, this.PROJECTS_COLLECTION);
       const q = query(
-        projectsRef,
+        collection(db, this.PROJECTS_COLLECTION),
         where('status', '==', 'active'),
-        orderBy('createdAt', 'desc'),
-        limit(limitCount)
+        orderBy('createdAt', 'desc')
       );
       
-      const querySnapshot = await getDocs(q);
-      const projects: Project[] = [];
-      
-      querySnapshot.forEach((doc) => {
-        const data = doc.data();
-        projects.push({
-          id: doc.id,
-          ...data,
-          createdAt: data.createdAt?.toDate() || new Date(),
-          updatedAt: data.updatedAt?.toDate() || new Date()
-        } as Project);
-      });
-      
-      return projects;
+      return await queryPaginated(q, docSnap => this.fromFirestore(docSnap.id, docSnap.data()), cursor, pageSize);
     } catch (error) {
       console.error('❌ Error fetching active projects:', error);
       throw new Error(`Failed to fetch active projects: ${error instanceof Error ? error.message : 'Unknown error'}`);
@@ -269,36 +493,26 @@ export class ProjectService {
   }
 
   /**
-   * Gets projects by category
+   * Gets one page of active projects in a category, newest first
    * @param category - Project category
-   * @param limitCount - Number of projects to fetch (default: 20)
-   * @returns Promise<Project[]> - Array of projects in category
+   * @param cursor - Last document of the previous page
+   * @param pageSize - Number of projects per page
+   * @returns Promise<PaginatedResult<Project>> - Projects and the cursor for the next page
    */
-  static async getProjectsByCategory(category: string, limitCount: number = 20): Promise<Project[]> {
+  static async getProjectsByCategory(
+    category: string,
+    cursor: QueryDocumentSnapshot<DocumentData> | null = null,
+    pageSize: number = DEFAULT_PAGE_SIZE
+  ): Promise<PaginatedResult<Project>> {
     try {
-      const projectsRef = collection(db, this.PROJECTS_COLLECTION);
       const q = query(
-        projectsRef,
+        collection(db, this.PROJECTS_COLLECTION),
         where('category', '==', category),
         where('status', '==', 'active'),
-        orderBy('createdAt', 'desc'),
-        limit(limitCount)
+        orderBy('createdAt', 'desc')
       );
       
-      const querySnapshot = await getDocs(q);
-      const projects: Project[] = [];
-      
-      querySnapshot.forEach((doc) => {
-        const data = doc.data();
-        projects.push({
-          id: doc.id,
-          ...data,
-          createdAt: data.createdAt?.toDate() || new Date(),
-          updatedAt: data.updatedAt?.toDate() || new Date()
-        } as Project);
-      });
-      
-      return projects;
+      return await queryPaginated(q, docSnap => this.fromFirestore(docSnap.id, docSnap.data()), cursor, pageSize);
     } catch (error) {
       console.error('❌ Error fetching projects by category:', error);
       throw new Error(`Failed to fetch projects by category: ${error instanceof Error ? error.message : 'Unknown error'}`);
@@ -306,51 +520,384 @@ export class ProjectService {
   }
 
   /**
-   * Deletes a project and its associated images
+   * Archives a project: it leaves listings and search but keeps its images and versions,
+   * so the designer can restore it within the retention window
+   * @param projectId - Project ID
+   * @param userId - User ID (for authorization)
+   * @returns Promise<Project> - Archived project
+   */
+  static async archiveProject(projectId: string, userId: string): Promise<Project> {
+    try {
+      const projectRef = doc(db, this.PROJECTS_COLLECTION, projectId);
+
+      const archived = await runTransaction(db, async (transaction) => {
+        const projectSnap = await transaction.get(projectRef);
+        if (!projectSnap.exists()) {
+          throw new Error('Project not found');
+        }
+
+        const project = this.fromFirestore(projectSnap.id, projectSnap.data());
+        if (project.createdBy !== userId) {
+          throw new Error('Unauthorized: You can only archive your own projects');
+        }
+        if (project.status === 'archived') {
+          throw new Error('Project is already archived');
+        }
+
+        transaction.update(projectRef, {
+          status: 'archived',
+          statusBeforeArchive: project.status,
+          archivedAt: serverTimestamp(),
+          updatedAt: serverTimestamp()
+        });
+
+        return { ...project, status: 'archived' as const, archivedAt: new Date(), updatedAt: new Date() };
+      });
+
+      console.log('✅ Project archived successfully:', projectId);
+
+      await this.refreshDirectoryListing(userId);
+      await this.refreshSearchIndex(archived);
+
+      return archived;
+    } catch (error) {
+      console.error('❌ Error archiving project:', error);
+      throw new Error(`Failed to archive project: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Restores an archived project to the status it had before archiving
+   * @param projectId - Project ID
+   * @param userId - User ID (for authorization)
+   * @returns Promise<Project> - Restored project
+   */
+  static async restoreProject(projectId: string, userId: string): Promise<Project> {
+    try {
+      const projectRef = doc(db, this.PROJECTS_COLLECTION, projectId);
+
+      const restored = await runTransaction(db, async (transaction) => {
+        const projectSnap = await transaction.get(projectRef);
+        if (!projectSnap.exists()) {
+          throw new Error('Project not found');
+        }
+
+        const project = this.fromFirestore(projectSnap.id, projectSnap.data());
+        if (project.createdBy !== userId) {
+          throw new Error('Unauthorized: You can only restore your own projects');
+        }
+        if (!canRestoreProject(project)) {
+          throw new Error(`Only projects archived in the last ${ARCHIVE_RETENTION_DAYS} days can be restored`);
+        }
+
+        const status: Project['status'] = projectSnap.data().statusBeforeArchive || 'active';
+        transaction.update(projectRef, {
+          status,
+          statusBeforeArchive: deleteField(),
+          archivedAt: null,
+          updatedAt: serverTimestamp()
+        });
+
+        return { ...project, status, archivedAt: null, updatedAt: new Date() };
+      });
+
+      console.log('✅ Project restored successfully:', projectId);
+
+      await this.refreshDirectoryListing(userId);
+      await this.refreshSearchIndex(restored);
+
+      return restored;
+    } catch (error) {
+      console.error('❌ Error restoring project:', error);
+      throw new Error(`Failed to restore project: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Gets a user's archived projects, most recently archived first
+   * @param userId - User ID
+   * @returns Promise<Project[]> - Archived projects
+   */
+  static async getArchivedProjects(userId: string): Promise<Project[]> {
+    try {
+      const snapshot = await getDocs(query(
+        collection(db, this.PROJECTS_COLLECTION),
+        where('createdBy', '==', userId),
+        where('status', '==', 'archived'),
+        orderBy('archivedAt', 'desc')
+      ));
+
+      return snapshot.docs.map(docSnap => this.fromFirestore(docSnap.id, docSnap.data()));
+    } catch (error) {
+      console.error('❌ Error fetching archived projects:', error);
+      throw new Error(`Failed to fetch archived projects: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Permanently removes an archived project: its images, versions and document
+   * Projects with open orders cannot be purged
    * @param projectId - Project ID
    * @param userId - User ID (for authorization)
    * @returns Promise<void>
    */
-  static async deleteProject(projectId: string, userId: string): Promise<void> {
+  static async purgeProject(projectId: string, userId: string): Promise<void> {
     try {
-      // First, get the project to verify ownership and get image URLs
       const project = await this.getProject(projectId);
-      
+
       if (!project) {
         throw new Error('Project not found');
       }
-      
       if (project.createdBy !== userId) {
         throw new Error('Unauthorized: You can only delete your own projects');
       }
-      
-      // Delete images from storage
-      try {
-        // Delete primary image
-        if (project.primaryImageUrl) {
-          const primaryImageRef = ref(storage, project.primaryImageUrl);
-          await deleteObject(primaryImageRef);
+      if (project.status !== 'archived') {
+        throw new Error('Only archived projects can be deleted permanently');
+      }
+
+      await this.purge(project);
+
+      console.log('✅ Project purged successfully:', projectId);
+    } catch (error) {
+      console.error('❌ Error purging project:', error);
+      throw new Error(`Failed to delete project: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Purges every project whose retention window has run out (admin only)
+   * One failing project does not stop the rest
+   * @returns Promise<PurgeSummary> - Purged project IDs and the ones that failed
+   */
+  static async purgeExpiredArchives(): Promise<PurgeSummary> {
+    try {
+      const cutoff = new Date(Date.now() - ARCHIVE_RETENTION_DAYS * 24 * 60 * 60 * 1000);
+      const snapshot = await getDocs(query(
+        collection(db, this.PROJECTS_COLLECTION),
+        where('status', '==', 'archived'),
+        where('archivedAt', '<=', Timestamp.fromDate(cutoff))
+      ));
+
+      const summary: PurgeSummary = { purged: [], failed: [] };
+      for (const docSnap of snapshot.docs) {
+        try {
+          await this.purge(this.fromFirestore(docSnap.id, docSnap.data()));
+          summary.purged.push(docSnap.id);
+        } catch (error) {
+          summary.failed.push({ projectId: docSnap.id, error: error instanceof Error ? error.message : 'Unknown error' });
         }
-        
-        // Delete additional images
-        for (const imageUrl of project.additionalImageUrls) {
-          const imageRef = ref(storage, imageUrl);
-          await deleteObject(imageRef);
+      }
+
+      console.log(`✅ Purged ${summary.purged.length} expired projects (${summary.failed.length} failed)`);
+      return summary;
+    } catch (error) {
+      console.error('❌ Error purging expired projects:', error);
+      throw new Error(`Failed to purge expired projects: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Finds project images in storage that no project or version references any more (admin only)
+   * @returns Promise<string[]> - Storage paths of orphaned images
+   */
+  static async findOrphanedImages(): Promise<string[]> {
+    try {
+      const [projectsSnapshot, versionsSnapshot, listing] = await Promise.all([
+        getDocs(collection(db, this.PROJECTS_COLLECTION)),
+        getDocs(collectionGroup(db, this.VERSIONS_SUBCOLLECTION)),
+        listAll(ref(storage, this.STORAGE_PATH))
+      ]);
+
+      const referencedPaths = new Set<string>();
+      for (const docSnap of [...projectsSnapshot.docs, ...versionsSnapshot.docs]) {
+        const data = docSnap.data();
+        const urls: string[] = [
+          data.primaryImageUrl,
+          ...(data.additionalImageUrls || []),
+          ...(data.imageRenditions || []).flatMap(getRenditionUrls)
+        ];
+        for (const url of urls) {
+          const path = url ? this.getStoragePath(url) : null;
+          if (path) referencedPaths.add(path);
         }
-      } catch (storageError) {
-        console.warn('⚠️ Some images could not be deleted from storage:', storageError);
-        // Continue with project deletion even if image deletion fails
       }
-      
-      // Delete project document
-      const projectRef = doc(db, this.PROJECTS_COLLECTION, projectId);
-      await setDoc(projectRef, { status: 'inactive', updatedAt: serverTimestamp() }, { merge: true });
-      
-      console.log('✅ Project deleted successfully:', projectId);
-      
+
+      const cutoff = Date.now() - this.ORPHAN_GRACE_PERIOD_MS;
+      const orphanedPaths: string[] = [];
+      for (const projectFolder of listing.prefixes) {
+        const { items } = await listAll(projectFolder);
+        for (const item of items) {
+          if (referencedPaths.has(item.fullPath)) continue;
+
+          const metadata = await getMetadata(item);
+          if (new Date(metadata.timeCreated).getTime() < cutoff) {
+            orphanedPaths.push(item.fullPath);
+          }
+        }
+      }
+
+      console.log(`✅ Found ${orphanedPaths.length} orphaned project images`);
+      return orphanedPaths;
     } catch (error) {
-      console.error('❌ Error deleting project:', error);
-      throw new Error(`Failed to delete project: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      console.error('❌ Error finding orphaned images:', error);
+      throw new Error(`Failed to find orphaned images: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Deletes orphaned project images found by findOrphanedImages (admin only)
+   * @param paths - Storage paths to delete
+   * @returns Promise<number> - Number of deleted images
+   */
+  static async deleteOrphanedImages(paths: string[]): Promise<number> {
+    try {
+      const projectPaths = paths.filter(path => path.startsWith(`${this.STORAGE_PATH}/`));
+      await this.deleteStorageObjects(projectPaths.map(path => ref(storage, path)));
+
+      console.log(`✅ Deleted ${projectPaths.length} orphaned project images`);
+      return projectPaths.length;
+    } catch (error) {
+      console.error('❌ Error deleting orphaned images:', error);
+      throw new Error(`Failed to delete orphaned images: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Removes an archived project's images, then its versions and document
+   * Storage goes first so a failed purge leaves the archived document in place to retry
+   */
+  private static async purge(project: Project): Promise<void> {
+    const ordersSnapshot = await getDocs(query(
+      collection(db, this.ORDERS_COLLECTION),
+      where('project_id', '==', project.id),
+      where('designer_uid', '==', project.createdBy)
+    ));
+    const hasOpenOrders = ordersSnapshot.docs.some(docSnap => {
+      const status = docSnap.data().status as OrderStatus;
+      return status === 'pending' || isActiveOrder({ status });
+    });
+    if (hasOpenOrders) {
+      throw new Error('Project has open orders');
+    }
+
+    const { items } = await listAll(ref(storage, `${this.STORAGE_PATH}/${project.id}`));
+    await this.deleteStorageObjects(items);
+
+    const projectRef = doc(db, this.PROJECTS_COLLECTION, project.id);
+    const versionsSnapshot = await getDocs(collection(projectRef, this.VERSIONS_SUBCOLLECTION));
+    const batch = writeBatch(db);
+    versionsSnapshot.docs.forEach(docSnap => batch.delete(docSnap.ref));
+    batch.delete(projectRef);
+    await batch.commit();
+
+    await this.refreshSearchIndex(project);
+  }
+
+  /**
+   * Deletes storage objects, treating already-missing ones as deleted
+   * Throws if any other deletion fails
+   */
+  private static async deleteStorageObjects(objectRefs: StorageReference[]): Promise<void> {
+    const failedPaths: string[] = [];
+    for (const objectRef of objectRefs) {
+      try {
+        await deleteObject(objectRef);
+      } catch (error) {
+        if ((error as { code?: string }).code !== 'storage/object-not-found') {
+          console.error('❌ Error deleting storage object:', objectRef.fullPath, error);
+          failedPaths.push(objectRef.fullPath);
+        }
+      }
+    }
+
+    if (failedPaths.length > 0) {
+      throw new Error(`${failedPaths.length} image(s) could not be deleted from storage`);
+    }
+  }
+
+  /**
+   * Resolves a download URL to its storage path, or null if it is not a storage URL
+   */
+  private static getStoragePath(url: string): string | null {
+    try {
+      return ref(storage, url).fullPath;
+    } catch {
+      return null;
+    }
+  }
+
+  private static versionRef(projectId: string, version: number) {
+    return doc(db, this.PROJECTS_COLLECTION, projectId, this.VERSIONS_SUBCOLLECTION, `v${version}`);
+  }
+
+  /**
+   * Builds the Firestore document for a version snapshot
+   */
+  private static toVersionDoc(
+    fields: ProjectSnapshotFields,
+    version: number,
+    changedFields: ProjectVersionedField[],
+    userId: string
+  ): DocumentData {
+    return {
+      ...PROJECT_VERSIONED_FIELDS.reduce((snapshot, field) => ({ ...snapshot, [field]: fields[field] }), {}),
+      imageRenditions: fields.imageRenditions,
+      version,
+      changedFields,
+      createdBy: userId,
+      createdAt: serverTimestamp()
+    };
+  }
+
+  /**
+   * Converts a Firestore document into a Project
+   */
+  private static fromFirestore(id: string, data: DocumentData): Project {
+    return {
+      id,
+      ...data,
+      currentVersion: data.currentVersion || 1,
+      archivedAt: data.archivedAt?.toDate() || null,
+      imageRenditions: data.imageRenditions || [],
+      createdAt: data.createdAt?.toDate() || new Date(),
+      updatedAt: data.updatedAt?.toDate() || new Date()
+    } as Project;
+  }
+
+  /**
+   * Converts a Firestore document into a ProjectVersion
+   */
+  private static versionFromFirestore(id: string, projectId: string, data: DocumentData): ProjectVersion {
+    return {
+      id,
+      projectId,
+      ...data,
+      changedFields: data.changedFields || [],
+      imageRenditions: data.imageRenditions || [],
+      createdAt: data.createdAt?.toDate() || new Date()
+    } as ProjectVersion;
+  }
+
+  /**
+   * Updates the designer's directory listing after their packages change
+   * The starting price shown in the directory is derived from active projects
+   */
+  private static async refreshDirectoryListing(userId: string): Promise<void> {
+    try {
+      await DesignerDirectoryService.syncDesigner(userId);
+    } catch (error) {
+      console.warn('⚠️ Directory listing could not be refreshed:', error);
+    }
+  }
+
+  /**
+   * Updates the project's search index entry after it is published, edited or removed
+   */
+  private static async refreshSearchIndex(project: Project): Promise<void> {
+    try {
+      await ProjectSearchService.indexProject(project);
+    } catch (error) {
+      console.warn('⚠️ Search index could not be refreshed:', error);
     }
   }
 }
\ No newline at end of file
@@ -0,0 +1,423 @@
+import {
+  collection,
+  doc,
+  getDoc,
+  getDocs,
+  query,
+  where,
+  orderBy,
+  runTransaction,
+  increment,
+  serverTimestamp,
+  DocumentData
+} from 'firebase/firestore';
+import { db } from '../config/firebase';
+import { ProjectRequestService } from './projectRequestService';
+import { ConversationService } from './conversationService';
+import { AvailabilityService } from './availabilityService';
+import { DesignerDirectoryService } from './designerDirectoryService';
+import { UserProfile, isVerifiedDesigner } from '../types/user';
+import { canTransitionRequest } from '../types/projectRequest';
+import {
+  Proposal,
+  ProposalStatus,
+  CreateProposalData,
+  MIN_COVER_LETTER_LENGTH,
+  isOpenProposal
+} from '../types/proposal';
+
+/**
+ * Service for proposals submitted by verified designers against project requests
+ * Handles submission, shortlisting, acceptance and decline
+ */
+export class ProposalService {
+  private static readonly PROPOSALS_COLLECTION = 'proposals';
+  private static readonly REQUESTS_COLLECTION = 'project_requests';
+
+  /**
+   * Submits a proposal against an active project request
+   * @param requestId - Project request ID
+   * @param proposalData - Price, timeline and cover letter
+   * @param designer - Profile of the designer submitting the proposal
+   * @returns Promise<Proposal> - Created proposal
+   */
+  static async submitProposal(requestId: string, proposalData: CreateProposalData, designer: UserProfile): Promise<Proposal> {
+    try {
+      console.log('🔄 ProposalService: Submitting proposal for request:', requestId);
+
+      if (!isVerifiedDesigner(designer)) {
+        throw new Error('Only verified designers can submit proposals');
+      }
+
+      const errors = this.validateProposal(proposalData);
+      if (errors.length > 0) {
+        throw new Error(errors.join(', '));
+      }
+
+      const requestRef = doc(db, this.REQUESTS_COLLECTION, requestId);
+      const proposalRef = doc(db, this.PROPOSALS_COLLECTION, this.getProposalId(requestId, designer.uid));
+
+      const proposal = await runTransaction(db, async (transaction) => {
+        const [requestSnap, existingSnap] = await Promise.all([
+          transaction.get(requestRef),
+          transaction.get(proposalRef)
+        ]);
+
+        if (!requestSnap.exists()) {
+          throw new Error('Project request not found');
+        }
+
+        // A designer has one proposal per request; a withdrawn one is replaced by the new bid
+        if (existingSnap.exists() && existingSnap.data().status !== 'withdrawn') {
+          throw new Error('You have already submitted a proposal for this request');
+        }
+
+        const request = requestSnap.data();
+        if (request.status !== 'active') {
+          throw new Error('This request is no longer accepting proposals');
+        }
+
+        if (request.requesterId === designer.uid) {
+          throw new Error('You cannot submit a proposal to your own request');
+        }
+
+        await AvailabilityService.assertCapacity(transaction, designer.uid);
+
+        const proposalDoc: Omit<Proposal, 'id' | 'createdAt' | 'updatedAt'> = {
+          requestId,
+          requestTitle: request.title,
+          requesterId: request.requesterId,
+          designerId: designer.uid,
+          designerName: designer.full_name,
+          designerAvatar: designer.profile_picture_url || '',
+          designerRating: 0,
+          price: proposalData.price,
+          timeline: proposalData.timeline.trim(),
+          coverLetter: proposalData.coverLetter.trim(),
+          status: 'submitted',
+          respondedAt: null
+        };
+
+        transaction.set(proposalRef, {
+          ...proposalDoc,
+          createdAt: serverTimestamp(),
+          updatedAt: serverTimestamp()
+        });
+        transaction.update(requestRef, {
+          proposals: increment(1),
+          updatedAt: serverTimestamp()
+        });
+
+        return proposalDoc;
+      });
+
+      console.log('✅ ProposalService: Proposal submitted with ID:', proposalRef.id);
+
+      return {
+        id: proposalRef.id,
+        ...proposal,
+        createdAt: new Date(),
+        updatedAt: new Date()
+      };
+    } catch (error) {
+      console.error('❌ ProposalService: Error submitting proposal:', error);
+      throw new Error(`Failed to submit proposal: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Gets a proposal by ID
+   * @param proposalId - Proposal ID
+   * @returns Promise<Proposal | null> - Proposal or null if not found
+   */
+  static async getProposal(proposalId: string): Promise<Proposal | null> {
+    try {
+      const proposalSnap = await getDoc(doc(db, this.PROPOSALS_COLLECTION, proposalId));
+
+      if (proposalSnap.exists()) {
+        return this.fromFirestore(proposalSnap.id, proposalSnap.data());
+      }
+
+      return null;
+    } catch (error) {
+      console.error('❌ Error fetching proposal:', error);
+      throw new Error(`Failed to fetch proposal: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Gets all proposals for a request, cheapest first for easy comparison
+   * @param requestId - Project request ID
+   * @param requesterId - ID of the requester who owns the request
+   * @returns Promise<Proposal[]> - Array of proposals
+   */
+  static async getProposalsForRequest(requestId: string, requesterId: string): Promise<Proposal[]> {
+    try {
+      const q = query(
+        collection(db, this.PROPOSALS_COLLECTION),
+        where('requestId', '==', requestId),
+        where('requesterId', '==', requesterId),
+        orderBy('price', 'asc')
+      );
+
+      const querySnapshot = await getDocs(q);
+      return querySnapshot.docs.map(docSnap => this.fromFirestore(docSnap.id, docSnap.data()));
+    } catch (error) {
+      console.error('❌ Error fetching request proposals:', error);
+      throw new Error(`Failed to fetch proposals: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Gets all proposals submitted by a designer, most recent first
+   * @param designerId - Designer user ID
+   * @returns Promise<Proposal[]> - Array of proposals
+   */
+  static async getProposalsByDesigner(designerId: string): Promise<Proposal[]> {
+    try {
+      const q = query(
+        collection(db, this.PROPOSALS_COLLECTION),
+        where('designerId', '==', designerId),
+        orderBy('createdAt', 'desc')
+      );
+
+      const querySnapshot = await getDocs(q);
+      return querySnapshot.docs.map(docSnap => this.fromFirestore(docSnap.id, docSnap.data()));
+    } catch (error) {
+      console.error('❌ Error fetching designer proposals:', error);
+      throw new Error(`Failed to fetch designer proposals: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Adds or removes a proposal from the requester's shortlist
+   * @param proposalId - Proposal ID
+   * @param userId - ID of the requester (for authorization)
+   * @param shortlisted - Whether the proposal should be shortlisted
+   * @returns Promise<void>
+   */
+  static async setShortlisted(proposalId: string, userId: string, shortlisted: boolean): Promise<void> {
+    await this.respondToProposal(proposalId, userId, shortlisted ? 'shortlisted' : 'submitted');
+  }
+
+  /**
+   * Declines a proposal
+   * @param proposalId - Proposal ID
+   * @param userId - ID of the requester (for authorization)
+   * @returns Promise<void>
+   */
+  static async declineProposal(proposalId: string, userId: string): Promise<void> {
+    await this.respondToProposal(proposalId, userId, 'declined');
+  }
+
+  /**
+   * Withdraws a proposal that has not been answered yet
+   * @param proposalId - Proposal ID
+   * @param designerId - ID of the designer (for authorization)
+   * @returns Promise<void>
+   */
+  static async withdrawProposal(proposalId: string, designerId: string): Promise<void> {
+    try {
+      const proposalRef = doc(db, this.PROPOSALS_COLLECTION, proposalId);
+
+      await runTransaction(db, async (transaction) => {
+        const proposalSnap = await transaction.get(proposalRef);
+
+        if (!proposalSnap.exists()) {
+          throw new Error('Proposal not found');
+        }
+
+        const proposal = this.fromFirestore(proposalSnap.id, proposalSnap.data());
+        if (proposal.designerId !== designerId) {
+          throw new Error('Unauthorized: You can only withdraw your own proposals');
+        }
+        if (!isOpenProposal(proposal)) {
+          throw new Error('Only open proposals can be withdrawn');
+        }
+
+        transaction.update(proposalRef, { status: 'withdrawn', updatedAt: serverTimestamp() });
+        transaction.update(doc(db, this.REQUESTS_COLLECTION, proposal.requestId), {
+          proposals: increment(-1),
+          updatedAt: serverTimestamp()
+        });
+      });
+    } catch (error) {
+      console.error('❌ Error withdrawing proposal:', error);
+      throw new Error(`Failed to withdraw proposal: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Accepts a proposal: assigns the designer, moves the request to in_progress
+   * and declines every other open proposal in the same transaction
+   * @param proposalId - Proposal ID
+   * @param userId - ID of the requester (for authorization)
+   * @returns Promise<void>
+   */
+  static async acceptProposal(proposalId: string, userId: string): Promise<void> {
+    try {
+      const proposal = await this.getProposal(proposalId);
+      if (!proposal) {
+        throw new Error('Proposal not found');
+      }
+
+      // Competing proposals are looked up first; their status is re-checked inside the transaction
+      const competing = (await this.getProposalsForRequest(proposal.requestId, userId))
+        .filter(p => p.id !== proposalId && isOpenProposal(p));
+
+      const proposalRef = doc(db, this.PROPOSALS_COLLECTION, proposalId);
+      const requestRef = doc(db, this.REQUESTS_COLLECTION, proposal.requestId);
+
+      await runTransaction(db, async (transaction) => {
+        const [proposalSnap, requestSnap] = await Promise.all([
+          transaction.get(proposalRef),
+          transaction.get(requestRef)
+        ]);
+        const competingSnaps = await Promise.all(
+          competing.map(p => transaction.get(doc(db, this.PROPOSALS_COLLECTION, p.id)))
+        );
+
+        if (!proposalSnap.exists() || !requestSnap.exists()) {
+          throw new Error('Proposal or project request not found');
+        }
+
+        const current = this.fromFirestore(proposalSnap.id, proposalSnap.data());
+        const request = requestSnap.data();
+
+        if (request.requesterId !== userId) {
+          throw new Error('Unauthorized: You can only accept proposals on your own requests');
+        }
+        if (!isOpenProposal(current)) {
+          throw new Error('This proposal is no longer open');
+        }
+        if (!canTransitionRequest(request.status, 'in_progress')) {
+          throw new Error('This request can no longer be assigned');
+        }
+
+        await AvailabilityService.assertCapacity(transaction, current.designerId);
+
+        transaction.update(proposalRef, {
+          status: 'accepted',
+          respondedAt: serverTimestamp(),
+          updatedAt: serverTimestamp()
+        });
+        transaction.update(requestRef, {
+          status: 'in_progress',
+          assignedDesigner: {
+            uid: current.designerId,
+            name: current.designerName,
+            avatar: current.designerAvatar,
+            rating: current.designerRating
+          },
+          acceptedProposalId: proposalId,
+          startedAt: serverTimestamp(),
+          updatedAt: serverTimestamp()
+        });
+        AvailabilityService.recordAssignment(transaction, current.designerId, 1, { type: 'request', id: current.requestId });
+
+        competingSnaps
+          .filter(snap => snap.exists() && isOpenProposal(this.fromFirestore(snap.id, snap.data()!)))
+          .forEach(snap => {
+            transaction.update(snap.ref, {
+              status: 'declined',
+              respondedAt: serverTimestamp(),
+              updatedAt: serverTimestamp()
+            });
+          });
+      });
+
+      console.log('✅ ProposalService: Proposal accepted:', proposalId);
+
+      await DesignerDirectoryService.refreshAvailability(proposal.designerId).catch(error => {
+        console.warn('⚠️ ProposalService: Directory availability could not be updated:', error);
+      });
+
+      const request = await ProjectRequestService.getRequest(proposal.requestId).catch(() => null);
+      if (request) {
+        await ConversationService.startRequestConversation(
+          request,
+          userId,
+          `${proposal.designerName}'s proposal was accepted. Work on "${request.title}" has started.`
+        );
+      }
+    } catch (error) {
+      console.error('❌ Error accepting proposal:', error);
+      throw new Error(`Failed to accept proposal: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Validates proposal input
+   * @param proposalData - Proposal fields to validate
+   * @returns string[] - Validation errors (empty if valid)
+   */
+  static validateProposal(proposalData: CreateProposalData): string[] {
+    const errors: string[] = [];
+
+    if (!proposalData.price || proposalData.price <= 0) {
+      errors.push('Price must be greater than zero');
+    }
+    if (!proposalData.timeline?.trim()) {
+      errors.push('Timeline is required');
+    }
+    if (!proposalData.coverLetter || proposalData.coverLetter.trim().length < MIN_COVER_LETTER_LENGTH) {
+      errors.push(`Cover letter must be at least ${MIN_COVER_LETTER_LENGTH} characters`);
+    }
+
+    return errors;
+  }
+
+  /**
+   * Builds the deterministic proposal document ID for a designer's bid on a request
+   */
+  private static getProposalId(requestId: string, designerId: string): string {
+    return `${requestId}_${designerId}`;
+  }
+
+  /**
+   * Applies a requester response (shortlist, unshortlist, decline) to an open proposal
+   */
+  private static async respondToProposal(proposalId: string, userId: string, nextStatus: ProposalStatus): Promise<void> {
+    try {
+      const proposalRef = doc(db, this.PROPOSALS_COLLECTION, proposalId);
+
+      await runTransaction(db, async (transaction) => {
+        const proposalSnap = await transaction.get(proposalRef);
+
+        if (!proposalSnap.exists()) {
+          throw new Error('Proposal not found');
+        }
+
+        const proposal = this.fromFirestore(proposalSnap.id, proposalSnap.data());
+        if (proposal.requesterId !== userId) {
+          throw new Error('Unauthorized: You can only respond to proposals on your own requests');
+        }
+        if (!isOpenProposal(proposal)) {
+          throw new Error('This proposal is no longer open');
+        }
+
+        transaction.update(proposalRef, {
+          status: nextStatus,
+          ...(nextStatus === 'declined' ? { respondedAt: serverTimestamp() } : {}),
+          updatedAt: serverTimestamp()
+        });
+      });
+    } catch (error) {
+      console.error('❌ Error responding to proposal:', error);
+      throw new Error(`Failed to update proposal: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Converts a Firestore document into a Proposal
+   */
+  private static fromFirestore(id: string, data: DocumentData): Proposal {
+    return {
+      id,
+      ...data,
+      createdAt: data.createdAt?.toDate() || new Date(),
+      updatedAt: data.updatedAt?.toDate() || new Date(),
+      respondedAt: data.respondedAt?.toDate() || null
+    } as Proposal;
+  }
+}
@@ -0,0 +1,402 @@
+import {
+  collection,
+  doc,
+  getDoc,
+  getDocs,
+  query,
+  where,
+  orderBy,
+  runTransaction,
+  increment,
+  serverTimestamp,
+  DocumentData,
+  Transaction
+} from 'firebase/firestore';
+import { db } from '../config/firebase';
+import { UserProfile, isServiceRequester } from '../types/user';
+import {
+  CreateReviewData,
+  DesignerStats,
+  ProjectOutcome,
+  Review,
+  ReviewScores,
+  MIN_REVIEW_COMMENT_LENGTH,
+  MAX_REVIEW_COMMENT_LENGTH,
+  REVIEW_CRITERIA,
+  REVIEW_CRITERION_LABELS,
+  emptyReviewScores,
+  getCompletionRate,
+  getOverallScore,
+  isValidScore
+} from '../types/review';
+import { DesignerDirectoryService } from './designerDirectoryService';
+
+/**
+ * Service for designer reviews and the reputation stats derived from them
+ * Stats in `designer_stats` are updated in the same transaction as the event that changes them
+ */
+export class ReviewService {
+  private static readonly REVIEWS_COLLECTION = 'reviews';
+  private static readonly STATS_COLLECTION = 'designer_stats';
+  private static readonly REQUESTS_COLLECTION = 'project_requests';
+
+  /**
+   * Creates a review for the designer of a completed request
+   * @param requestId - Completed project request ID
+   * @param reviewer - Requester profile
+   * @param reviewData - Scores and comment
+   * @returns Promise<Review> - Created review
+   */
+  static async createReview(requestId: string, reviewer: UserProfile, reviewData: CreateReviewData): Promise<Review> {
+    try {
+      if (!isServiceRequester(reviewer)) {
+        throw new Error('Only service requesters can write reviews');
+      }
+
+      const validationErrors = this.validateReview(reviewData);
+      if (validationErrors.length > 0) {
+        throw new Error(validationErrors.join(', '));
+      }
+
+      // One review per request and reviewer
+      const reviewRef = doc(db, this.REVIEWS_COLLECTION, `${requestId}_${reviewer.uid}`);
+      const requestRef = doc(db, this.REQUESTS_COLLECTION, requestId);
+      const overall = getOverallScore(reviewData.scores);
+      const comment = reviewData.comment.trim();
+
+      const review = await runTransaction(db, async (transaction) => {
+        const [requestSnap, reviewSnap] = await Promise.all([
+          transaction.get(requestRef),
+          transaction.get(reviewRef)
+        ]);
+
+        if (!requestSnap.exists()) {
+          throw new Error('Project request not found');
+        }
+
+        const request = requestSnap.data();
+
+        if (request.requesterId !== reviewer.uid) {
+          throw new Error('Unauthorized: You can only review your own requests');
+        }
+        if (request.status !== 'completed' || !request.assignedDesigner?.uid) {
+          throw new Error('Reviews can only be written once the request is completed');
+        }
+        if (reviewSnap.exists()) {
+          throw new Error('You have already reviewed this project');
+        }
+
+        const designerId: string = request.assignedDesigner.uid;
+        const statsRef = doc(db, this.STATS_COLLECTION, designerId);
+        const statsSnap = await transaction.get(statsRef);
+        const stats = this.statsFromFirestore(designerId, statsSnap.exists() ? statsSnap.data() : {});
+
+        const criteriaSums = { ...stats.criteriaSums };
+        REVIEW_CRITERIA.forEach(criterion => {
+          criteriaSums[criterion] += reviewData.scores[criterion];
+        });
+
+        transaction.set(reviewRef, {
+          request_id: requestId,
+          designer_uid: designerId,
+          reviewer_uid: reviewer.uid,
+          reviewer_name: reviewer.full_name,
+          reviewer_avatar: reviewer.profile_picture_url || '',
+          project_title: request.title || '',
+          scores: reviewData.scores,
+          overall,
+          comment,
+          response: null,
+          created_at: serverTimestamp(),
+          updated_at: serverTimestamp()
+        });
+
+        transaction.set(statsRef, {
+          designer_uid: designerId,
+          review_count: stats.reviewCount + 1,
+          rating_sum: stats.ratingSum + overall,
+          criteria_sums: criteriaSums,
+          last_review_id: reviewRef.id,
+          updated_at: serverTimestamp()
+        }, { merge: true });
+
+        return {
+          id: reviewRef.id,
+          requestId,
+          designerId,
+          reviewerId: reviewer.uid,
+          reviewerName: reviewer.full_name,
+          reviewerAvatar: reviewer.profile_picture_url || '',
+          projectTitle: request.title || '',
+          scores: reviewData.scores,
+          overall,
+          comment,
+          response: null,
+          createdAt: new Date(),
+          updatedAt: new Date()
+        } as Review;
+      });
+
+      console.log('✅ ReviewService: Review created:', review.id);
+      await this.syncDirectoryStats(review.designerId);
+
+      return review;
+    } catch (error) {
+      console.error('❌ ReviewService: Error creating review:', error);
+      throw new Error(`Failed to create review: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Adds the designer's public response to a review; each review accepts one response
+   * @param reviewId - Review ID
+   * @param designerId - ID of the reviewed designer
+   * @param content - Response text
+   * @returns Promise<void>
+   */
+  static async respondToReview(reviewId: string, designerId: string, content: string): Promise<void> {
+    try {
+      const trimmed = content.trim();
+      if (!trimmed) {
+        throw new Error('Response cannot be empty');
+      }
+
+      const reviewRef = doc(db, this.REVIEWS_COLLECTION, reviewId);
+
+      await runTransaction(db, async (transaction) => {
+        const reviewSnap = await transaction.get(reviewRef);
+
+        if (!reviewSnap.exists()) {
+          throw new Error('Review not found');
+        }
+        if (reviewSnap.data().designer_uid !== designerId) {
+          throw new Error('Unauthorized: You can only respond to reviews about you');
+        }
+        if (reviewSnap.data().response) {
+          throw new Error('This review already has a response');
+        }
+
+        transaction.update(reviewRef, {
+          response: { content: trimmed, responded_at: serverTimestamp() },
+          updated_at: serverTimestamp()
+        });
+      });
+
+      console.log('✅ ReviewService: Response added to review:', reviewId);
+    } catch (error) {
+      console.error('❌ ReviewService: Error responding to review:', error);
+      throw new Error(`Failed to respond to review: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Removes a review and takes it out of the designer's stats (admin only)
+   * @param reviewId - Review ID
+   * @returns Promise<void>
+   */
+  static async deleteReview(reviewId: string): Promise<void> {
+    try {
+      const reviewRef = doc(db, this.REVIEWS_COLLECTION, reviewId);
+
+      const designerId = await runTransaction(db, async (transaction) => {
+        const reviewSnap = await transaction.get(reviewRef);
+        if (!reviewSnap.exists()) {
+          throw new Error('Review not found');
+        }
+
+        const review = this.fromFirestore(reviewSnap.id, reviewSnap.data());
+        const statsRef = doc(db, this.STATS_COLLECTION, review.designerId);
+        const statsSnap = await transaction.get(statsRef);
+        const stats = this.statsFromFirestore(review.designerId, statsSnap.exists() ? statsSnap.data() : {});
+
+        const criteriaSums = { ...stats.criteriaSums };
+        REVIEW_CRITERIA.forEach(criterion => {
+          criteriaSums[criterion] = Math.max(0, criteriaSums[criterion] - review.scores[criterion]);
+        });
+
+        transaction.delete(reviewRef);
+        transaction.set(statsRef, {
+          designer_uid: review.designerId,
+          review_count: Math.max(0, stats.reviewCount - 1),
+          rating_sum: Math.max(0, stats.ratingSum - review.overall),
+          criteria_sums: criteriaSums,
+          updated_at: serverTimestamp()
+        }, { merge: true });
+
+        return review.designerId;
+      });
+
+      console.log('✅ ReviewService: Review deleted:', reviewId);
+      await this.syncDirectoryStats(designerId);
+    } catch (error) {
+      console.error('❌ ReviewService: Error deleting review:', error);
+      throw new Error(`Failed to delete review: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Gets all reviews about a designer, newest first
+   * @param designerId - Designer's user ID
+   * @returns Promise<Review[]> - Reviews
+   */
+  static async getReviewsForDesigner(designerId: string): Promise<Review[]> {
+    try {
+      const q = query(
+        collection(db, this.REVIEWS_COLLECTION),
+        where('designer_uid', '==', designerId),
+        orderBy('created_at', 'desc')
+      );
+      const querySnapshot = await getDocs(q);
+
+      return querySnapshot.docs.map(docSnap => this.fromFirestore(docSnap.id, docSnap.data()));
+    } catch (error) {
+      console.error('❌ Error fetching designer reviews:', error);
+      throw new Error(`Failed to fetch reviews: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Gets the review a requester left on a request, if any
+   * @param requestId - Project request ID
+   * @param reviewerId - Requester's user ID
+   * @returns Promise<Review | null> - Review or null if none was written
+   */
+  static async getReviewForRequest(requestId: string, reviewerId: string): Promise<Review | null> {
+    try {
+      const reviewSnap = await getDoc(doc(db, this.REVIEWS_COLLECTION, `${requestId}_${reviewerId}`));
+
+      if (reviewSnap.exists()) {
+        return this.fromFirestore(reviewSnap.id, reviewSnap.data());
+      }
+
+      return null;
+    } catch (error) {
+      console.error('❌ Error fetching review:', error);
+      throw new Error(`Failed to fetch review: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Gets a designer's aggregated reputation stats
+   * @param designerId - Designer's user ID
+   * @returns Promise<DesignerStats> - Stats (all zero for designers without history)
+   */
+  static async getDesignerStats(designerId: string): Promise<DesignerStats> {
+    try {
+      const statsSnap = await getDoc(doc(db, this.STATS_COLLECTION, designerId));
+      return this.statsFromFirestore(designerId, statsSnap.exists() ? statsSnap.data() : {});
+    } catch (error) {
+      console.error('❌ Error fetching designer stats:', error);
+      throw new Error(`Failed to fetch designer stats: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Counts a finished assignment towards the designer's completion rate
+   * Runs inside the caller's transaction so the counter moves with the request status
+   * @param transaction - Active Firestore transaction
+   * @param designerId - Assigned designer's user ID
+   * @param requestId - Project request that finished, which the security rules check the outcome against
+   * @param outcome - How the assignment ended
+   */
+  static recordProjectOutcome(transaction: Transaction, designerId: string, requestId: string, outcome: ProjectOutcome): void {
+    transaction.set(doc(db, this.STATS_COLLECTION, designerId), {
+      designer_uid: designerId,
+      [outcome === 'completed' ? 'completed_projects' : 'cancelled_projects']: increment(1),
+      last_request_id: requestId,
+      updated_at: serverTimestamp()
+    }, { merge: true });
+  }
+
+  /**
+   * Copies the designer's current stats onto their directory listing
+   * Best effort: the stats document stays the source of truth
+   * @param designerId - Designer's user ID
+   * @returns Promise<void>
+   */
+  static async syncDirectoryStats(designerId: string): Promise<void> {
+    try {
+      await DesignerDirectoryService.applyStats(await this.getDesignerStats(designerId));
+    } catch (error) {
+      console.warn('⚠️ ReviewService: Directory stats could not be updated:', error);
+    }
+  }
+
+  /**
+   * Validates review input
+   * @param reviewData - Review fields to validate
+   * @returns string[] - Validation errors (empty if valid)
+   */
+  static validateReview(reviewData: CreateReviewData): string[] {
+    const errors: string[] = [];
+
+    REVIEW_CRITERIA.forEach(criterion => {
+      if (!isValidScore(reviewData.scores?.[criterion])) {
+        errors.push(`${REVIEW_CRITERION_LABELS[criterion]} must be rated from 1 to 5`);
+      }
+    });
+    if (!reviewData.comment || reviewData.comment.trim().length < MIN_REVIEW_COMMENT_LENGTH) {
+      errors.push(`Comment must be at least ${MIN_REVIEW_COMMENT_LENGTH} characters`);
+    }
+    if (reviewData.comment && reviewData.comment.trim().length > MAX_REVIEW_COMMENT_LENGTH) {
+      errors.push(`Comment must be at most ${MAX_REVIEW_COMMENT_LENGTH} characters`);
+    }
+
+    return errors;
+  }
+
+  /**
+   * Converts a Firestore document into a Review
+   */
+  private static fromFirestore(id: string, data: DocumentData): Review {
+    return {
+      id,
+      requestId: data.request_id,
+      designerId: data.designer_uid,
+      reviewerId: data.reviewer_uid,
+      reviewerName: data.reviewer_name || '',
+      reviewerAvatar: data.reviewer_avatar || '',
+      projectTitle: data.project_title || '',
+      scores: { ...emptyReviewScores(), ...(data.scores || {}) },
+      overall: data.overall || 0,
+      comment: data.comment || '',
+      response: data.response
+        ? { content: data.response.content, respondedAt: data.response.responded_at?.toDate() || new Date() }
+        : null,
+      createdAt: data.created_at?.toDate() || new Date(),
+      updatedAt: data.updated_at?.toDate() || new Date()
+    };
+  }
+
+  /**
+   * Converts a Firestore stats document into DesignerStats with derived averages
+   */
+  private static statsFromFirestore(designerId: string, data: DocumentData): DesignerStats {
+    const reviewCount: number = data.review_count || 0;
+    const ratingSum: number = data.rating_sum || 0;
+    const criteriaSums: ReviewScores = { ...emptyReviewScores(), ...(data.criteria_sums || {}) };
+    const criteriaAverages = emptyReviewScores();
+
+    if (reviewCount > 0) {
+      REVIEW_CRITERIA.forEach(criterion => {
+        criteriaAverages[criterion] = Math.round((criteriaSums[criterion] / reviewCount) * 10) / 10;
+      });
+    }
+
+    const completedProjects: number = data.completed_projects || 0;
+    const cancelledProjects: number = data.cancelled_projects || 0;
+
+    return {
+      designerId,
+      reviewCount,
+      ratingSum,
+      rating: reviewCount > 0 ? Math.round((ratingSum / reviewCount) * 10) / 10 : 0,
+      criteriaSums,
+      criteriaAverages,
+      completedProjects,
+      cancelledProjects,
+      completionRate: getCompletionRate(completedProjects, cancelledProjects),
+      updatedAt: data.updated_at?.toDate() || new Date()
+    };
+  }
+}
@@ -0,0 +1,349 @@
+import {
+  collection,
+  doc,
+  getDoc,
+  setDoc,
+  query,
+  where,
+  getCountFromServer,
+  runTransaction,
+  serverTimestamp
+} from 'firebase/firestore';
+import { auth, db } from '../config/firebase';
+import { UserProfile } from '../types/user';
+import {
+  VerificationProcess,
+  RiskAssessment,
+  RiskFactor,
+  RiskSignal,
+  RiskWeights,
+  DocumentType,
+  VerificationStatus,
+  DEFAULT_RISK_WEIGHTS,
+  DOCUMENT_TYPE_LABELS,
+  MAX_RISK_WEIGHT,
+  RISK_SIGNALS,
+  getRiskLevel
+} from '../types/verification-management';
+
+/**
+ * What a request is compared against when it is scored
+ */
+export interface RiskContext {
+  profile: UserProfile | null; // Account of the designer who submitted the request
+  otherProcesses: VerificationProcess[]; // The same account's other processes
+  sharedAccounts: Partial<Record<FingerprintType, number>>; // Other accounts that submitted the same detail
+}
+
+// Details compared across accounts by their keyed hashes
+type FingerprintType = 'phone' | 'national_id';
+
+// How strongly a signal applies, from 0 to 1, and why
+type RiskRuleResult = { severity: number; explanation: string } | null;
+
+type RiskRule = (process: VerificationProcess, context: RiskContext) => RiskRuleResult;
+
+const REQUIRED_DOCUMENTS = [DocumentType.NATIONAL_ID, DocumentType.SAMPLE_PROJECT];
+const URL_SHORTENERS = ['bit.ly', 'tinyurl.com', 'goo.gl', 't.co', 'ow.ly', 'is.gd', 'rebrand.ly', 'cutt.ly'];
+const PHONE_DIGITS_COMPARED = 9; // Trailing digits, so country codes and trunk prefixes do not matter
+const MAX_COUNTED_REJECTIONS = 3;
+const VELOCITY_WINDOW_MS = 7 * 24 * 60 * 60 * 1000;
+
+const countLabel = (count: number, noun: string): string => `${count} ${noun}${count === 1 ? '' : 's'}`;
+
+const normalizePhone = (phone: string | undefined): string => {
+  const digits = (phone || '').replace(/\D/g, '');
+  return digits.length >= PHONE_DIGITS_COMPARED ? digits.slice(-PHONE_DIGITS_COMPARED) : '';
+};
+
+const nameTokens = (name: string | undefined): string[] => {
+  return (name || '')
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .split(/[^a-z\u0600-\u06ff]+/)
+    .filter(token => token.length > 1);
+};
+
+const toHex = (bytes: Uint8Array): string => {
+  return Array.from(bytes)
+    .map(byte => byte.toString(16).padStart(2, '0'))
+    .join('');
+};
+
+const FINGERPRINT_SOURCES: Record<FingerprintType, (process: VerificationProcess) => string> = {
+  phone: (process) => normalizePhone(process.request.phoneNumber),
+  national_id: (process) => process.request.documents.find(document => document.type === DocumentType.NATIONAL_ID)?.checksum || ''
+};
+
+const RISK_RULES: Record<RiskSignal, RiskRule> = {
+  missing_documents: (process) => {
+    const missing = REQUIRED_DOCUMENTS.filter(type => !process.request.documents.some(document => document.type === type && document.url));
+    if (missing.length === 0) return null;
+    return {
+      severity: missing.length / REQUIRED_DOCUMENTS.length,
+      explanation: `No ${missing.map(type => DOCUMENT_TYPE_LABELS[type]).join(' or ')} was uploaded`
+    };
+  },
+
+  // Links are only checked for a plausible public address; the browser cannot fetch other sites to test them
+  portfolio_url: (process) => {
+    const url = process.request.portfolioUrl?.trim();
+    if (!url) return { severity: 1, explanation: 'No portfolio URL was given' };
+
+    let parsed: URL;
+    try {
+      parsed = new URL(url);
+    } catch {
+      return { severity: 1, explanation: `"${url}" is not a valid URL` };
+    }
+
+    const host = parsed.hostname.replace(/^www\./, '');
+    if (parsed.protocol !== 'http:' && parsed.protocol !== 'https:') {
+      return { severity: 1, explanation: `The portfolio URL uses ${parsed.protocol} rather than a web address` };
+    }
+    if (!host.includes('.') || /^[\d.]+$/.test(host)) {
+      return { severity: 1, explanation: `The portfolio URL points at ${host}, which is not a public website` };
+    }
+    if (URL_SHORTENERS.includes(host)) {
+      return { severity: 0.5, explanation: `The portfolio URL is a ${host} short link that hides its destination` };
+    }
+    if (parsed.protocol === 'http:') {
+      return { severity: 0.5, explanation: 'The portfolio URL is not served over HTTPS' };
+    }
+    return null;
+  },
+
+  duplicate_phone: (process, context) => {
+    const accounts = context.sharedAccounts.phone || 0;
+    if (accounts === 0) return null;
+    return {
+      severity: 1,
+      explanation: `The phone number ${process.request.phoneNumber} was also submitted by ${countLabel(accounts, 'other account')}`
+    };
+  },
+
+  duplicate_national_id: (_, context) => {
+    const accounts = context.sharedAccounts.national_id || 0;
+    if (accounts === 0) return null;
+    return {
+      severity: 1,
+      explanation: `The same ID file was uploaded by ${countLabel(accounts, 'other account')}`
+    };
+  },
+
+  prior_rejections: (process, context) => {
+    const rejections = context.otherProcesses.filter(other =>
+      other.userId === process.userId && other.status === VerificationStatus.REJECTED
+    ).length;
+    if (rejections === 0) return null;
+    return {
+      severity: Math.min(rejections, MAX_COUNTED_REJECTIONS) / MAX_COUNTED_REJECTIONS,
+      explanation: `${countLabel(rejections, 'earlier request')} from this account ${rejections === 1 ? 'was' : 'were'} rejected`
+    };
+  },
+
+  name_mismatch: (process, context) => {
+    const formName = nameTokens(process.request.fullName);
+    const accountName = nameTokens(context.profile?.full_name);
+    if (formName.length === 0 || accountName.length === 0) return null;
+
+    const shared = formName.filter(token => accountName.includes(token)).length;
+    const expected = Math.min(formName.length, accountName.length);
+    if (shared >= expected) return null;
+    return {
+      severity: shared === 0 ? 1 : 0.5,
+      explanation: `The name "${process.request.fullName}" ${shared === 0 ? 'does not match' : 'only partly matches'} the account name "${context.profile?.full_name}"`
+    };
+  },
+
+  // One resubmission after a rejection is expected; more in the same week is not
+  submission_velocity: (process, context) => {
+    const submittedAt = process.createdAt.getTime();
+    const recent = context.otherProcesses.filter(other => {
+      const otherSubmittedAt = other.createdAt.getTime();
+      return other.userId === process.userId &&
+        otherSubmittedAt <= submittedAt &&
+        submittedAt - otherSubmittedAt <= VELOCITY_WINDOW_MS;
+    }).length;
+    if (recent < 2) return null;
+    return {
+      severity: Math.min((recent - 1) / 2, 1),
+      explanation: `${countLabel(recent + 1, 'request')} were submitted from this account within 7 days`
+    };
+  }
+};
+
+/**
+ * Service for the rule-based verification risk score and the weights admins tune it with
+ * Each rule that applies adds its weight, scaled by how strongly it applies, to a score capped at 100.
+ */
+export class RiskScoringService {
+  private static readonly SETTINGS_COLLECTION = 'system';
+  private static readonly WEIGHTS_DOCUMENT = 'verification_risk_weights';
+  private static readonly FINGERPRINT_KEY_DOCUMENT = 'verification_fingerprint_key';
+  private static readonly FINGERPRINTS_COLLECTION = 'verification_fingerprints';
+  private static fingerprintKey: Promise<CryptoKey> | null = null;
+
+  /**
+   * Gets the weights risk scores are calculated with
+   * @returns Promise<RiskWeights> - Saved weights, with defaults for signals never tuned
+   */
+  static async getWeights(): Promise<RiskWeights> {
+    try {
+      const weightsSnap = await getDoc(doc(db, this.SETTINGS_COLLECTION, this.WEIGHTS_DOCUMENT));
+      const saved = weightsSnap.exists() ? weightsSnap.data().weights || {} : {};
+      return Object.fromEntries(
+        (Object.keys(DEFAULT_RISK_WEIGHTS) as RiskSignal[]).map(signal => [
+          signal,
+          typeof saved[signal] === 'number' ? saved[signal] : DEFAULT_RISK_WEIGHTS[signal]
+        ])
+      ) as RiskWeights;
+    } catch (error) {
+      console.error('❌ Error fetching risk weights:', error);
+      throw new Error(`Failed to fetch risk weights: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Saves the weights risk scores are calculated with (admin only)
+   * Existing scores keep their old weights until the processes are assessed again.
+   * @param weights - Maximum points each signal adds
+   * @returns Promise<void>
+   */
+  static async updateWeights(weights: RiskWeights): Promise<void> {
+    try {
+      const errors = this.validateWeights(weights);
+      if (errors.length > 0) {
+        throw new Error(errors.join(', '));
+      }
+
+      await setDoc(doc(db, this.SETTINGS_COLLECTION, this.WEIGHTS_DOCUMENT), {
+        weights,
+        updatedBy: auth.currentUser?.uid || 'system',
+        updatedAt: serverTimestamp()
+      });
+      console.log('✅ Risk weights updated');
+    } catch (error) {
+      console.error('❌ Error updating risk weights:', error);
+      throw new Error(`Failed to update risk weights: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Validates risk weights
+   * @param weights - Weights to check
+   * @returns string[] - Error messages; empty when the weights are valid
+   */
+  static validateWeights(weights: RiskWeights): string[] {
+    return (Object.keys(DEFAULT_RISK_WEIGHTS) as RiskSignal[])
+      .filter(signal => !Number.isInteger(weights[signal]) || weights[signal] < 0 || weights[signal] > MAX_RISK_WEIGHT)
+      .map(signal => `${RISK_SIGNALS[signal].label} must be a whole number from 0 to ${MAX_RISK_WEIGHT}`);
+  }
+
+  /**
+   * Counts the other accounts that submitted the process's phone number or ID file (admin only)
+   * Details are compared through keyed fingerprints, registered once per account as its processes are scored.
+   * @param process - Process whose details are looked up
+   * @returns Promise<Partial<Record<FingerprintType, number>>> - Other accounts per detail
+   */
+  static async countSharedAccounts(process: VerificationProcess): Promise<Partial<Record<FingerprintType, number>>> {
+    const fingerprints = await this.getFingerprints(process);
+    const counts = await Promise.all(fingerprints.map(async ({ type, fingerprint, id }) => {
+      const [matching, own] = await Promise.all([
+        getCountFromServer(query(collection(db, this.FINGERPRINTS_COLLECTION), where('fingerprint', '==', fingerprint))),
+        getDoc(doc(db, this.FINGERPRINTS_COLLECTION, id))
+      ]);
+      return [type, matching.data().count - (own.exists() ? 1 : 0)];
+    }));
+    return Object.fromEntries(counts);
+  }
+
+  /**
+   * Records the process's phone number and ID file as used by its account (admin only)
+   * @param process - Process whose details are registered
+   * @returns Promise<void>
+   */
+  static async registerFingerprints(process: VerificationProcess): Promise<void> {
+    const fingerprints = await this.getFingerprints(process);
+    await Promise.all(fingerprints.map(({ fingerprint, id }) =>
+      setDoc(doc(db, this.FINGERPRINTS_COLLECTION, id), { fingerprint, userId: process.userId, createdAt: serverTimestamp() })
+    ));
+  }
+
+  /**
+   * Scores a verification process against every rule
+   * @param process - Process whose request is scored
+   * @param context - The designer's profile, their other processes and the accounts sharing their details
+   * @param weights - Maximum points each signal adds
+   * @returns RiskAssessment - Score, level and the factors behind them
+   */
+  static assess(process: VerificationProcess, context: RiskContext, weights: RiskWeights): RiskAssessment {
+    const factors = (Object.keys(RISK_RULES) as RiskSignal[])
+      .map((signal): RiskFactor | null => {
+        const result = RISK_RULES[signal](process, context);
+        const weight = result ? Math.round(weights[signal] * result.severity) : 0;
+        if (!result || weight === 0) return null;
+        return { signal, category: RISK_SIGNALS[signal].category, weight, explanation: result.explanation };
+      })
+      .filter((factor): factor is RiskFactor => factor !== null)
+      .sort((a, b) => b.weight - a.weight);
+
+    const score = Math.min(factors.reduce((total, factor) => total + factor.weight, 0), 100);
+
+    return {
+      ...process.riskAssessment,
+      level: getRiskLevel(score),
+      factors,
+      score,
+      lastUpdated: new Date(),
+      assessedBy: 'system'
+    };
+  }
+
+  /**
+   * Keyed hashes of a process's details; each account holds one document per detail
+   */
+  private static async getFingerprints(
+    process: VerificationProcess
+  ): Promise<{ type: FingerprintType; fingerprint: string; id: string }[]> {
+    const key = await this.getFingerprintKey();
+    const sources = (Object.keys(FINGERPRINT_SOURCES) as FingerprintType[])
+      .map(type => ({ type, value: FINGERPRINT_SOURCES[type](process) }))
+      .filter(source => source.value);
+
+    return Promise.all(sources.map(async ({ type, value }) => {
+      const signature = await crypto.subtle.sign('HMAC', key, new TextEncoder().encode(`${type}:${value}`));
+      const fingerprint = toHex(new Uint8Array(signature));
+      return { type, fingerprint, id: `${fingerprint}_${process.userId}` };
+    }));
+  }
+
+  /**
+   * HMAC key the fingerprints are hashed with, created on first use in the admin-only system
+   * collection, so phone numbers and checksums cannot be recovered by hashing guesses
+   */
+  private static getFingerprintKey(): Promise<CryptoKey> {
+    if (!this.fingerprintKey) {
+      this.fingerprintKey = this.loadFingerprintKey().catch(error => {
+        this.fingerprintKey = null;
+        throw error;
+      });
+    }
+    return this.fingerprintKey;
+  }
+
+  private static async loadFingerprintKey(): Promise<CryptoKey> {
+    const keyRef = doc(db, this.SETTINGS_COLLECTION, this.FINGERPRINT_KEY_DOCUMENT);
+    const secret = await runTransaction(db, async (transaction) => {
+      const keySnap = await transaction.get(keyRef);
+      if (keySnap.exists()) {
+        return keySnap.data().secret as string;
+      }
+      const generated = toHex(crypto.getRandomValues(new Uint8Array(32)));
+      transaction.set(keyRef, { secret: generated, createdAt: serverTimestamp() });
+      return generated;
+    });
+    return crypto.subtle.importKey('raw', new TextEncoder().encode(secret), { name: 'HMAC', hash: 'SHA-256' }, false, ['sign']);
+  }
+}
@@ -6,12 +6,33 @@ import {
   collection, 
   query, 
   where, 
-  getDocs,
+  orderBy,
+  documentId,
+  writeBatch,
+  getCountFromServer,
   serverTimestamp,
-  DocumentData 
+  DocumentData,
+  QueryConstraint,
+  QueryDocumentSnapshot,
+  Transaction
 } from 'firebase/firestore';
 import { db } from '../config/firebase';
-import { UserProfile, CreateUserProfileData, UserType, DesignerVerificationStatus } from '../types/user';
+import { queryPaginated, PaginatedResult, DEFAULT_PAGE_SIZE } from '../utils/firestoreHelpers';
+import {
+  UserProfile,
+  CreateUserProfileData,
+  UserType,
+  DesignerVerificationStatus,
+  toUserRole,
+  isLegacyUserRole
+} from '../types/user';
+import { validate, validatePartial, assertValid, userProfileSchema } from '../utils/validation';
+
+export interface ProfileMigrationSummary {
+  scanned: number;
+  migrated: number;
+  failed: string[]; // UIDs of profiles that could not be rewritten
+}
 
 /**
  * Service for managing user profiles in Firestore
@@ -19,6 +40,7 @@ import { UserProfile, CreateUserProfileData, UserType, DesignerVerificationStatu
  */
 export class UserService {
   private static readonly USERS_COLLECTION = 'users';
+  private static readonly MIGRATION_BATCH_SIZE = 400;
 
   /**
    * Creates a new user profile in Firestore
@@ -31,17 +53,7 @@ export class UserService {
       console.log('🔄 UserService: Creating profile for UID:', uid);
       console.log('📋 Profile data:', profileData);
       
-      // Validate user type
-      if (!this.isValidUserType(profileData.user_type)) {
-        throw new Error(`Invalid user type: ${profileData.user_type}`);
-      }
-
-      // Validate designer verification status if user is a designer
-      if (profileData.user_type === 'designer' && profileData.designer_verification_status) {
-        if (!this.isValidDesignerVerificationStatus(profileData.designer_verification_status)) {
-          throw new Error(`Invalid designer verification status: ${profileData.designer_verification_status}`);
-        }
-      }
+      assertValid(validate(userProfileSchema, profileData));
 
       // SOLUTION 1: Clean undefined values and use proper defaults
       const baseProfileData = {
@@ -97,13 +109,8 @@ export class UserService {
       const userSnap = await getDoc(userRef);
 
       if (userSnap.exists()) {
-        const data = userSnap.data();
         console.log('✅ UserService: Profile found for UID:', uid);
-        return {
-          ...data,
-          created_at: data.created_at?.toDate() || new Date(),
-          updated_at: data.updated_at?.toDate() || new Date()
-        } as UserProfile;
+        return this.fromFirestore(userSnap.id, userSnap.data());
       }
 
       console.log('⚠️ UserService: No profile found for UID:', uid);
@@ -122,15 +129,7 @@ export class UserService {
    */
   static async updateUserProfile(uid: string, updates: Partial<UserProfile>): Promise<void> {
     try {
-      // Validate user type if being updated
-      if (updates.user_type && !this.isValidUserType(updates.user_type)) {
-        throw new Error(`Invalid user type: ${updates.user_type}`);
-      }
-
-      // Validate designer verification status if being updated
-      if (updates.designer_verification_status && !this.isValidDesignerVerificationStatus(updates.designer_verification_status)) {
-        throw new Error(`Invalid designer verification status: ${updates.designer_verification_status}`);
-      }
+      assertValid(validatePartial(userProfileSchema, updates));
 
       // SOLUTION 3: Clean updates object before sending to Firestore
       const cleanedUpdates = this.cleanUndefinedValues(updates);
@@ -146,69 +145,173 @@ export class UserService {
   }
 
   /**
-   * Updates designer verification status (Admin only)
+   * Reads a profile inside a transaction and rejects it unless it belongs to a designer
+   * Must be called before the transaction writes anything
+   * @param transaction - Active Firestore transaction
    * @param uid - Designer user ID
+   * @returns Promise<UserProfile> - Current profile
+   */
+  static async assertDesigner(transaction: Transaction, uid: string): Promise<UserProfile> {
+    const userSnap = await transaction.get(doc(db, this.USERS_COLLECTION, uid));
+
+    if (!userSnap.exists()) {
+      throw new Error('User not found');
+    }
+
+    const profile = this.fromFirestore(uid, userSnap.data());
+    if (profile.user_type !== 'designer') {
+      throw new Error('User is not a designer');
+    }
+
+    return profile;
+  }
+
+  /**
+   * Sets a designer's verification status inside the caller's transaction
+   * @param transaction - Active Firestore transaction
+   * @param uid - Designer user ID, checked with assertDesigner first
    * @param status - New verification status
-   * @returns Promise<void>
    */
-  static async updateDesignerVerificationStatus(uid: string, status: DesignerVerificationStatus): Promise<void> {
-    try {
-      if (!this.isValidDesignerVerificationStatus(status)) {
-        throw new Error(`Invalid designer verification status: ${status}`);
-      }
+  static recordDesignerVerificationStatus(transaction: Transaction, uid: string, status: DesignerVerificationStatus): void {
+    if (!this.isValidDesignerVerificationStatus(status)) {
+      throw new Error(`Invalid designer verification status: ${status}`);
+    }
 
-      const userRef = doc(db, this.USERS_COLLECTION, uid);
-      const userSnap = await getDoc(userRef);
+    transaction.update(doc(db, this.USERS_COLLECTION, uid), {
+      // Also rewrites a legacy user type, which would otherwise contradict the new status
+      user_type: 'designer',
+      designer_verification_status: status,
+      updated_at: serverTimestamp()
+    });
+  }
 
-      if (!userSnap.exists()) {
-        throw new Error('User not found');
-      }
+  /**
+   * Gets one page of users, newest first (Admin only)
+   * @param userType - User type to filter by, or 'all'
+   * @param cursor - Last document of the previous page
+   * @param pageSize - Number of users per page
+   * @returns Promise<PaginatedResult<UserProfile>> - User profiles and the cursor for the next page
+   */
+  static async getUsersByType(
+    userType: UserType | 'all',
+    cursor: QueryDocumentSnapshot<DocumentData> | null = null,
+    pageSize: number = DEFAULT_PAGE_SIZE
+  ): Promise<PaginatedResult<UserProfile>> {
+    try {
+      const q = query(
+        collection(db, this.USERS_COLLECTION),
+        ...this.userTypeConstraints(userType),
+        orderBy('created_at', 'desc')
+      );
 
-      const userData = userSnap.data();
-      if (userData.user_type !== 'designer') {
-        throw new Error('User is not a designer');
-      }
+      return await queryPaginated(q, docSnap => this.fromFirestore(docSnap.id, docSnap.data()), cursor, pageSize);
+    } catch (error) {
+      console.error('Error fetching users by type:', error);
+      throw new Error(`Failed to fetch users by type: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
 
-      await updateDoc(userRef, {
-        designer_verification_status: status,
-        updated_at: serverTimestamp()
-      });
+  /**
+   * Counts users by type without loading them (Admin only)
+   * @param userType - User type to count, or 'all'
+   * @returns Promise<number> - Number of users
+   */
+  static async countUsersByType(userType: UserType | 'all'): Promise<number> {
+    try {
+      const q = query(collection(db, this.USERS_COLLECTION), ...this.userTypeConstraints(userType));
+      const snapshot = await getCountFromServer(q);
+      return snapshot.data().count;
     } catch (error) {
-      console.error('Error updating designer verification status:', error);
-      throw new Error(`Failed to update designer verification status: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      console.error('Error counting users by type:', error);
+      throw new Error(`Failed to count users by type: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
   }
 
   /**
-   * Gets all users by type (Admin only)
-   * @param userType - User type to filter by
-   * @returns Promise<UserProfile[]> - Array of user profiles
+   * Rewrites profiles stored in older shapes into the canonical profile (Admin only)
+   * Legacy designer types become 'designer' with a verification status, and missing fields get their defaults
+   * @returns Promise<ProfileMigrationSummary> - Profiles scanned and migrated, and UIDs that failed
    */
-  static async getUsersByType(userType: UserType): Promise<UserProfile[]> {
+  static async migrateLegacyProfiles(): Promise<ProfileMigrationSummary> {
     try {
-      if (!this.isValidUserType(userType)) {
-        throw new Error(`Invalid user type: ${userType}`);
-      }
+      const summary: ProfileMigrationSummary = { scanned: 0, migrated: 0, failed: [] };
+      // Ordered by ID so profiles missing created_at are not skipped
+      const q = query(collection(db, this.USERS_COLLECTION), orderBy(documentId()));
+      let cursor: QueryDocumentSnapshot<DocumentData> | null = null;
+      let hasMore = true;
 
-      const usersRef = collection(db, this.USERS_COLLECTION);
-      const q = query(usersRef, where('user_type', '==', userType));
-      const querySnapshot = await getDocs(q);
-
-      const users: UserProfile[] = [];
-      querySnapshot.forEach((doc) => {
-        const data = doc.data();
-        users.push({
-          ...data,
-          created_at: data.created_at?.toDate() || new Date(),
-          updated_at: data.updated_at?.toDate() || new Date()
-        } as UserProfile);
-      });
+      while (hasMore) {
+        const page: PaginatedResult<QueryDocumentSnapshot<DocumentData>> =
+          await queryPaginated(q, docSnap => docSnap, cursor, this.MIGRATION_BATCH_SIZE);
+        const legacy = page.items.filter(docSnap => this.needsMigration(docSnap.id, docSnap.data()));
+
+        if (legacy.length > 0) {
+          const batch = writeBatch(db);
+          for (const docSnap of legacy) {
+            const data = docSnap.data();
+            batch.update(docSnap.ref, {
+              uid: docSnap.id,
+              ...toUserRole(data.user_type, data.designer_verification_status),
+              is_active: data.is_active ?? true,
+              updated_at: serverTimestamp()
+            });
+          }
 
-      return users;
+          try {
+            await batch.commit();
+            summary.migrated += legacy.length;
+          } catch (error) {
+            console.error('❌ UserService: Error migrating profile batch:', error);
+            summary.failed.push(...legacy.map(docSnap => docSnap.id));
+          }
+        }
+
+        summary.scanned += page.items.length;
+        cursor = page.cursor;
+        hasMore = page.hasMore;
+      }
+
+      console.log(`✅ UserService: Migrated ${summary.migrated} of ${summary.scanned} profiles (${summary.failed.length} failed)`);
+      return summary;
     } catch (error) {
-      console.error('Error fetching users by type:', error);
-      throw new Error(`Failed to fetch users by type: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      console.error('❌ UserService: Error migrating profiles:', error);
+      throw new Error(`Failed to migrate user profiles: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Whether a stored profile differs from the canonical shape
+   */
+  private static needsMigration(uid: string, data: DocumentData): boolean {
+    return isLegacyUserRole(data.user_type, data.designer_verification_status) ||
+      data.uid !== uid ||
+      typeof data.is_active !== 'boolean';
+  }
+
+  /**
+   * Converts a Firestore document into the canonical UserProfile, whatever shape it was written in
+   */
+  private static fromFirestore(uid: string, data: DocumentData): UserProfile {
+    return {
+      uid,
+      email: data.email || '',
+      full_name: data.full_name || '',
+      ...toUserRole(data.user_type, data.designer_verification_status),
+      created_at: data.created_at?.toDate() || new Date(),
+      updated_at: data.updated_at?.toDate() || new Date(),
+      profile_picture_url: data.profile_picture_url ?? null,
+      is_active: data.is_active ?? true
+    };
+  }
+
+  private static userTypeConstraints(userType: UserType | 'all'): QueryConstraint[] {
+    if (userType === 'all') {
+      return [];
+    }
+    if (!this.isValidUserType(userType)) {
+      throw new Error(`Invalid user type: ${userType}`);
     }
+    return [where('user_type', '==', userType)];
   }
 
   /**
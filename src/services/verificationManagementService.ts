@@ -1,33 +1,75 @@
 /**
  * Verification Management Service
- * 
- * This service handles all API interactions for the verification management system,
- * including CRUD operations for verification processes, messages, and system notifications.
+ *
+ * Handles Firestore operations for the verification management system,
+ * including verification processes, system and user messages, message templates and rejection reasons.
  */
 
-import { 
-  VerificationProcess, 
-  SystemMessage, 
+import {
+  collection,
+  doc,
+  addDoc,
+  setDoc,
+  getDoc,
+  getDocs,
+  getCountFromServer,
+  updateDoc,
+  query,
+  where,
+  orderBy,
+  limit,
+  onSnapshot,
+  documentId,
+  writeBatch,
+  runTransaction,
+  serverTimestamp,
+  Timestamp,
+  DocumentData,
+  QueryConstraint,
+  QueryDocumentSnapshot
+} from 'firebase/firestore';
+import { auth, db } from '../config/firebase';
+import { queryPaginated, PaginatedResult } from '../utils/firestoreHelpers';
+import { FirestoreDataValidator } from '../utils/firestoreValidation';
+import { UserService } from './userService';
+import { DesignerDirectoryService } from './designerDirectoryService';
+import { RiskScoringService } from './riskScoringService';
+import type { VerificationSubmission, InfoResponseChanges, FileUploadResult } from './verificationService';
+import { DesignerVerificationStatus } from '../types/user';
+import { VerificationFileType, VerificationTextField, getUnlockedFields } from '../types/verification';
+import {
+  VerificationProcess,
+  InfoRequest,
+  RiskAssessment,
+  RiskWeights,
+  VerificationDocument,
+  VerificationAuditEntry,
+  SubmissionDiff,
+  SystemMessage,
   UserMessage,
-  VerificationProcessResponse,
   ApprovalRequest,
   RejectionRequest,
+  RevocationRequest,
   MoreInfoRequest,
   CreateMessageRequest,
   CreateSystemMessageRequest,
   FilterOptions,
   SortOptions,
-  PaginationOptions,
   VerificationProcessUpdate,
   MessageTemplate,
   RejectionReason,
   VerificationStatus,
-  MessageType
+  VerificationPriority,
+  RiskLevel,
+  MessageType,
+  DocumentType,
+  VERIFICATION_PRIORITIES,
+  VERIFICATION_STATUSES,
+  DEFAULT_PAGE_SIZE,
+  MAX_PAGE_SIZE,
+  diffVerificationRequests
 } from '../types/verification-management';
 
-// Mock API base URL - replace with actual API endpoint
-const API_BASE_URL = '/api/verification-management';
-
 /**
  * API Response wrapper interface
  */
@@ -38,324 +80,631 @@ interface ApiResponse<T> {
   error?: string;
 }
 
-/**
- * HTTP client wrapper with error handling
- */
-class ApiClient {
-  private async request<T>(
-    endpoint: string, 
-    options: RequestInit = {}
-  ): Promise<ApiResponse<T>> {
-    try {
-      const response = await fetch(`${API_BASE_URL}${endpoint}`, {
-        headers: {
-          'Content-Type': 'application/json',
-          ...options.headers,
-        },
-        ...options,
-      });
-
-      const data = await response.json();
-
-      if (!response.ok) {
-        throw new Error(data.message || `HTTP error! status: ${response.status}`);
-      }
-
-      return {
-        success: true,
-        data: data.data || data,
-        message: data.message,
-      };
-    } catch (error) {
-      console.error(`API request failed: ${endpoint}`, error);
-      return {
-        success: false,
-        data: {} as T,
-        error: error instanceof Error ? error.message : 'Unknown error occurred',
-      };
-    }
-  }
-
-  async get<T>(endpoint: string): Promise<ApiResponse<T>> {
-    return this.request<T>(endpoint, { method: 'GET' });
-  }
-
-  async post<T>(endpoint: string, data: any): Promise<ApiResponse<T>> {
-    return this.request<T>(endpoint, {
-      method: 'POST',
-      body: JSON.stringify(data),
-    });
-  }
+export interface VerificationMigrationSummary {
+  scanned: number;
+  migrated: number;
+  skipped: number; // Requests that already have a process
+  failed: string[]; // IDs of requests that could not be migrated
+}
 
-  async put<T>(endpoint: string, data: any): Promise<ApiResponse<T>> {
-    return this.request<T>(endpoint, {
-      method: 'PUT',
-      body: JSON.stringify(data),
-    });
-  }
+type BulkResult = { successful: string[]; failed: string[] };
 
-  async patch<T>(endpoint: string, data: any): Promise<ApiResponse<T>> {
-    return this.request<T>(endpoint, {
-      method: 'PATCH',
-      body: JSON.stringify(data),
-    });
-  }
+type DecisionNotification = Pick<CreateSystemMessageRequest, 'type' | 'subject' | 'content' | 'priority'>;
 
-  async delete<T>(endpoint: string): Promise<ApiResponse<T>> {
-    return this.request<T>(endpoint, { method: 'DELETE' });
-  }
+interface DecisionOptions {
+  allowedFrom?: VerificationStatus[]; // Statuses the process must still be in when the decision is written
+  submissionUpdates?: Record<string, unknown>; // Extra fields for the designer's verification request
 }
 
-const apiClient = new ApiClient();
-
 /**
  * Verification Management Service Class
  */
 export class VerificationManagementService {
-  
+  private static readonly PROCESSES_COLLECTION = 'verification_processes';
+  private static readonly REQUESTS_COLLECTION = 'verification_requests';
+  private static readonly AUDIT_SUBCOLLECTION = 'audit_trail';
+  private static readonly SYSTEM_MESSAGES_COLLECTION = 'system_messages';
+  private static readonly USER_MESSAGES_COLLECTION = 'user_messages';
+  private static readonly TEMPLATES_COLLECTION = 'message_templates';
+  private static readonly REJECTION_REASONS_COLLECTION = 'rejection_reasons';
+  private static readonly MIGRATION_BATCH_SIZE = 400;
+  private static readonly LIVE_UPDATES_LIMIT = 50;
+  // Statuses a process can still be decided from; approved and rejected processes are closed
+  private static readonly OPEN_STATUSES = [
+    VerificationStatus.PENDING,
+    VerificationStatus.UNDER_REVIEW,
+    VerificationStatus.REQUIRES_MORE_INFO,
+    VerificationStatus.RESUBMITTED
+  ];
+  private static readonly EXPIRED_INFO_REQUEST_NOTE = 'The requested information was not provided before the deadline.';
+
   // ===== VERIFICATION PROCESSES =====
 
   /**
-   * Fetch verification processes with filtering, sorting, and pagination
+   * Fetch one page of verification processes with filtering and sorting
+   * Status and reviewer are part of the query; the other filters span nested fields and free text,
+   * so they are applied to each page, which can then hold fewer than pageSize processes.
+   * @param filters - Status, priority, user type, risk, date, reviewer and search filters
+   * @param sort - Field to sort by, including nested fields such as 'request.fullName'
+   * @param cursor - Last document of the previous page
+   * @param pageSize - Number of processes to read per page
+   * @returns Promise<ApiResponse<PaginatedResult<VerificationProcess>>> - One page of processes and the cursor for the next
    */
   static async getVerificationProcesses(
     filters: FilterOptions = {},
     sort: SortOptions = { field: 'createdAt', direction: 'desc' },
-    pagination: PaginationOptions = { page: 1, pageSize: 25, total: 0 }
-  ): Promise<ApiResponse<VerificationProcessResponse>> {
-    const queryParams = new URLSearchParams();
-    
-    // Add filters
-    if (filters.status?.length) {
-      queryParams.append('status', filters.status.join(','));
-    }
-    if (filters.priority?.length) {
-      queryParams.append('priority', filters.priority.join(','));
-    }
-    if (filters.userType?.length) {
-      queryParams.append('userType', filters.userType.join(','));
-    }
-    if (filters.riskLevel?.length) {
-      queryParams.append('riskLevel', filters.riskLevel.join(','));
-    }
-    if (filters.dateRange) {
-      queryParams.append('startDate', filters.dateRange.start.toISOString());
-      queryParams.append('endDate', filters.dateRange.end.toISOString());
-    }
-    if (filters.assignedReviewer) {
-      queryParams.append('assignedReviewer', filters.assignedReviewer);
-    }
-    if (filters.searchQuery) {
-      queryParams.append('search', filters.searchQuery);
-    }
+    cursor: QueryDocumentSnapshot<DocumentData> | null = null,
+    pageSize: number = DEFAULT_PAGE_SIZE
+  ): Promise<ApiResponse<PaginatedResult<VerificationProcess>>> {
+    return this.respond('fetch verification processes', async () => {
+      const q = query(
+        collection(db, this.PROCESSES_COLLECTION),
+        ...this.processConstraints(filters),
+        orderBy(sort.field === 'riskAssessment' ? 'riskAssessment.score' : sort.field, sort.direction)
+      );
+      const page = await queryPaginated(
+        q,
+        docSnap => this.processFromFirestore(docSnap.id, docSnap.data()),
+        cursor,
+        Math.min(Math.max(pageSize, 1), MAX_PAGE_SIZE)
+      );
 
-    // Add sorting
-    queryParams.append('sortField', sort.field);
-    queryParams.append('sortDirection', sort.direction);
-
-    // Add pagination
-    queryParams.append('page', pagination.page.toString());
-    queryParams.append('pageSize', pagination.pageSize.toString());
+      return { ...page, items: page.items.filter(process => this.matchesFilters(process, filters)) };
+    });
+  }
 
-    return apiClient.get<VerificationProcessResponse>(`/processes?${queryParams.toString()}`);
+  /**
+   * Count the verification processes matching the status and reviewer filters
+   * @param filters - Filters; only status and reviewer are counted on the server
+   * @returns Promise<ApiResponse<number>> - Number of matching processes
+   */
+  static async countVerificationProcesses(filters: FilterOptions = {}): Promise<ApiResponse<number>> {
+    return this.respond('count verification processes', async () => {
+      const snapshot = await getCountFromServer(
+        query(collection(db, this.PROCESSES_COLLECTION), ...this.processConstraints(filters))
+      );
+      return snapshot.data().count;
+    });
   }
 
   /**
    * Get a single verification process by ID
+   * @param processId - Verification process ID
+   * @returns Promise<ApiResponse<VerificationProcess>> - The process
    */
   static async getVerificationProcess(processId: string): Promise<ApiResponse<VerificationProcess>> {
-    return apiClient.get<VerificationProcess>(`/processes/${processId}`);
+    return this.respond('fetch verification process', () => this.getProcess(processId));
+  }
+
+  /**
+   * Get the most recent verification process of a user
+   * @param userId - UID of the user who submitted it
+   * @returns Promise<ApiResponse<VerificationProcess | null>> - The latest process, or null if they never submitted one
+   */
+  static async getLatestProcessForUser(userId: string): Promise<ApiResponse<VerificationProcess | null>> {
+    return this.respond('fetch verification process', async () => {
+      const snapshot = await getDocs(query(collection(db, this.PROCESSES_COLLECTION), where('userId', '==', userId)));
+      const processes = snapshot.docs.map(docSnap => this.processFromFirestore(docSnap.id, docSnap.data()));
+      return processes.sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime())[0] || null;
+    });
   }
 
   /**
    * Update verification process
+   * @param processId - Verification process ID
+   * @param updates - Fields to change
+   * @returns Promise<ApiResponse<VerificationProcess>> - The updated process
    */
   static async updateVerificationProcess(
-    processId: string, 
+    processId: string,
     updates: VerificationProcessUpdate
   ): Promise<ApiResponse<VerificationProcess>> {
-    return apiClient.patch<VerificationProcess>(`/processes/${processId}`, updates);
+    return this.respond('update verification process', () => this.writeProcess(processId, updates));
   }
 
   /**
    * Assign reviewer to verification process
+   * @param processId - Verification process ID
+   * @param reviewerId - UID of the admin reviewing it
+   * @returns Promise<ApiResponse<VerificationProcess>> - The updated process
    */
   static async assignReviewer(
-    processId: string, 
+    processId: string,
     reviewerId: string
   ): Promise<ApiResponse<VerificationProcess>> {
-    return apiClient.patch<VerificationProcess>(`/processes/${processId}/assign`, {
+    return this.respond('assign reviewer', () => this.writeProcess(processId, {
       assignedReviewer: reviewerId,
-      reviewStartedAt: new Date().toISOString(),
+      reviewStartedAt: new Date()
+    }));
+  }
+
+  /**
+   * Compare a resubmission with the submission it replaces
+   * @param processId - Verification process ID
+   * @returns Promise<ApiResponse<SubmissionDiff | null>> - Changed fields and documents, or null for a first submission
+   */
+  static async getResubmissionDiff(processId: string): Promise<ApiResponse<SubmissionDiff | null>> {
+    return this.respond('compare resubmission', async () => {
+      const process = await this.getProcess(processId);
+      const previousProcessId = process.previousSubmissions?.[process.previousSubmissions.length - 1];
+      if (!previousProcessId) {
+        return null;
+      }
+
+      const previous = await this.getProcess(previousProcessId);
+      return {
+        previousProcessId,
+        previousStatus: previous.status,
+        ...diffVerificationRequests(previous.request, process.request)
+      };
     });
   }
 
+  /**
+   * Get the review decisions recorded for a process, newest first
+   * @param processId - Verification process ID
+   * @returns Promise<ApiResponse<VerificationAuditEntry[]>> - Audit entries
+   */
+  static async getAuditTrail(processId: string): Promise<ApiResponse<VerificationAuditEntry[]>> {
+    return this.respond('fetch audit trail', async () => {
+      const snapshot = await getDocs(query(
+        collection(db, this.PROCESSES_COLLECTION, processId, this.AUDIT_SUBCOLLECTION),
+        orderBy('createdAt', 'desc')
+      ));
+      return snapshot.docs.map(docSnap => ({
+        ...docSnap.data(),
+        id: docSnap.id,
+        createdAt: this.toDate(docSnap.data().createdAt) || new Date()
+      }) as VerificationAuditEntry);
+    });
+  }
+
+  /**
+   * Creates the process for a designer's verification submission, keyed by the submission's ID
+   * It is queued for a risk assessment, which only admins write.
+   * @param requestId - ID of the verification_requests document
+   * @param submission - The submission as written
+   * @returns Promise<VerificationProcess> - Created process
+   */
+  static async createProcessFromSubmission(
+    requestId: string,
+    submission: VerificationSubmission
+  ): Promise<VerificationProcess> {
+    try {
+      const process = this.processFromSubmission(requestId, submission);
+      const { id, ...data } = process;
+      await setDoc(doc(db, this.PROCESSES_COLLECTION, id), FirestoreDataValidator.cleanForFirestore({
+        ...data,
+        riskAssessment: undefined,
+        needsRiskAssessment: true
+      }));
+
+      console.log('✅ Verification process created:', id);
+      return process;
+    } catch (error) {
+      console.error('❌ Error creating verification process:', error);
+      throw new Error(`Failed to create verification process: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
   // ===== APPROVAL ACTIONS =====
 
   /**
-   * Approve verification request
+   * Approve verification request and mark the designer as verified
+   * The process, submission, profile, audit entry and notification are written together or not at all
+   * @param request - Approval details
+   * @returns Promise<ApiResponse<VerificationProcess>> - The approved process
    */
   static async approveVerification(request: ApprovalRequest): Promise<ApiResponse<VerificationProcess>> {
-    const response = await apiClient.post<VerificationProcess>(`/processes/${request.processId}/approve`, {
-      reviewNotes: request.reviewNotes,
-      tags: request.tags,
-      notifyUser: request.notifyUser,
-      customMessage: request.customMessage,
-      completedAt: new Date().toISOString(),
-      status: VerificationStatus.APPROVED,
-    });
-
-    // If approval successful and user notification requested, send system message
-    if (response.success && request.notifyUser) {
-      await this.createSystemMessage({
-        processId: request.processId,
-        userId: response.data.userId,
+    return this.respond('approve verification', async () => {
+      return this.decideProcess(request.processId, VerificationStatus.APPROVED, {
+        reviewNotes: request.reviewNotes,
+        tags: request.tags,
+        completedAt: new Date()
+      }, request.notifyUser ? {
         type: MessageType.APPROVAL,
         subject: 'Verification Request Approved',
         content: request.customMessage || 'Your verification request has been approved.',
-        generatedBy: 'system',
-        priority: 'high',
-        channels: ['email', 'in_app'],
-      });
-    }
-
-    return response;
+        priority: 'high'
+      } : null, { allowedFrom: this.OPEN_STATUSES });
+    });
   }
 
   /**
-   * Reject verification request
+   * Reject verification request and mark the designer as unverified
+   * The process, submission, profile, audit entry and notification are written together or not at all
+   * @param request - Rejection reasons and details
+   * @returns Promise<ApiResponse<VerificationProcess>> - The rejected process
    */
   static async rejectVerification(request: RejectionRequest): Promise<ApiResponse<VerificationProcess>> {
-    const response = await apiClient.post<VerificationProcess>(`/processes/${request.processId}/reject`, {
-      rejectionReasons: request.reasonIds,
-      rejectionDetails: request.customReason,
-      reviewNotes: request.reviewNotes,
-      requiresResubmission: request.requiresResubmission,
-      completedAt: new Date().toISOString(),
-      status: VerificationStatus.REJECTED,
-    });
-
-    // If rejection successful and user notification requested, send system message
-    if (response.success && request.notifyUser) {
-      await this.createSystemMessage({
-        processId: request.processId,
-        userId: response.data.userId,
+    return this.respond('reject verification', async () => {
+      return this.decideProcess(request.processId, VerificationStatus.REJECTED, {
+        rejectionReasons: request.reasonIds,
+        rejectionDetails: request.customReason,
+        reviewNotes: request.reviewNotes,
+        completedAt: new Date()
+      }, request.notifyUser ? {
         type: MessageType.REJECTION,
         subject: 'Verification Request Rejected',
         content: request.customMessage || 'Your verification request has been rejected.',
-        generatedBy: 'system',
-        priority: 'high',
-        channels: ['email', 'in_app'],
-      });
-    }
+        priority: 'high'
+      } : null, { allowedFrom: this.OPEN_STATUSES });
+    });
+  }
 
-    return response;
+  /**
+   * Revoke an approved verification and mark the designer as unverified
+   * The process, submission, profile, audit entry and notification are written together or not at all
+   * @param request - Reason for the revocation
+   * @returns Promise<ApiResponse<VerificationProcess>> - The rejected process
+   */
+  static async revokeVerification(request: RevocationRequest): Promise<ApiResponse<VerificationProcess>> {
+    return this.respond('revoke verification', async () => {
+      return this.decideProcess(request.processId, VerificationStatus.REJECTED, {
+        rejectionDetails: request.reason,
+        reviewNotes: request.reason,
+        completedAt: new Date()
+      }, request.notifyUser ? {
+        type: MessageType.REJECTION,
+        subject: 'Verification Revoked',
+        content: request.customMessage || `Your verification has been revoked: ${request.reason}`,
+        priority: 'high'
+      } : null, { allowedFrom: [VerificationStatus.APPROVED] });
+    });
   }
 
   /**
    * Request more information from user
+   * The request is kept on the process and mirrored onto the designer's submission, which unlocks
+   * only the requested fields in their response form until they answer or the deadline passes.
+   * @param request - Fields the user needs to provide and the message explaining why
+   * @returns Promise<ApiResponse<VerificationProcess>> - The updated process
    */
   static async requestMoreInfo(request: MoreInfoRequest): Promise<ApiResponse<VerificationProcess>> {
-    const response = await apiClient.post<VerificationProcess>(`/processes/${request.processId}/more-info`, {
-      requiredFields: request.requiredFields,
-      customMessage: request.customMessage,
-      deadline: request.deadline?.toISOString(),
-      status: VerificationStatus.REQUIRES_MORE_INFO,
-    });
+    return this.respond('request more information', async () => {
+      if (request.requiredFields.length === 0) {
+        throw new Error('At least one item must be requested');
+      }
+      if (request.deadline && request.deadline.getTime() <= Date.now()) {
+        throw new Error('Deadline must be in the future');
+      }
 
-    // If successful and user notification requested, send system message
-    if (response.success && request.notifyUser) {
-      await this.createSystemMessage({
-        processId: request.processId,
-        userId: response.data.userId,
+      const infoRequest: InfoRequest = {
+        requiredFields: request.requiredFields,
+        message: request.customMessage,
+        deadline: request.deadline,
+        requestedBy: auth.currentUser?.uid || 'system',
+        requestedAt: new Date()
+      };
+
+      return this.decideProcess(request.processId, VerificationStatus.REQUIRES_MORE_INFO, { infoRequest }, request.notifyUser ? {
         type: MessageType.MORE_INFO_REQUEST,
         subject: 'Additional Information Required',
         content: request.customMessage,
-        generatedBy: 'system',
-        priority: 'medium',
-        channels: ['email', 'in_app'],
+        priority: 'medium'
+      } : null, {
+        allowedFrom: this.OPEN_STATUSES,
+        submissionUpdates: {
+          info_request: {
+            required_fields: infoRequest.requiredFields,
+            message: infoRequest.message,
+            deadline: infoRequest.deadline,
+            requested_at: infoRequest.requestedAt
+          }
+        }
+      });
+    });
+  }
+
+  /**
+   * Record a designer's answer to a request for more information in one transaction
+   * The answer goes back into the same process, which returns to the review and risk queues, and the
+   * reviewer who asked is notified. Fields and documents that were not requested are ignored.
+   * @param processId - Process being answered, which shares its ID with the verification request
+   * @param userId - Designer answering
+   * @param changes - New values of the requested form fields
+   * @param uploads - Newly uploaded documents by type
+   * @returns Promise<VerificationProcess> - The resubmitted process
+   */
+  static async recordInfoResponse(
+    processId: string,
+    userId: string,
+    changes: InfoResponseChanges,
+    uploads: Partial<Record<VerificationFileType, FileUploadResult>>
+  ): Promise<VerificationProcess> {
+    try {
+      const processRef = doc(db, this.PROCESSES_COLLECTION, processId);
+      const requestRef = doc(db, this.REQUESTS_COLLECTION, processId);
+      const auditRef = doc(collection(processRef, this.AUDIT_SUBCOLLECTION));
+      const messageRef = doc(collection(db, this.SYSTEM_MESSAGES_COLLECTION));
+
+      const process = await runTransaction(db, async (transaction) => {
+        const processSnap = await transaction.get(processRef);
+        const requestSnap = await transaction.get(requestRef);
+        if (!processSnap.exists() || !requestSnap.exists()) {
+          throw new Error('Verification request not found');
+        }
+
+        const current = this.processFromFirestore(processSnap.id, processSnap.data());
+        const infoRequest = current.infoRequest;
+        if (current.userId !== userId) {
+          throw new Error('Only the designer who submitted this request can answer it');
+        }
+        if (current.status !== VerificationStatus.REQUIRES_MORE_INFO || !infoRequest) {
+          throw new Error('This verification request is not waiting for more information');
+        }
+        if (infoRequest.deadline && infoRequest.deadline.getTime() < Date.now()) {
+          throw new Error('The deadline for this information request has passed');
+        }
+
+        const unlocked = getUnlockedFields(infoRequest.requiredFields);
+        const fieldChanges = Object.fromEntries(
+          Object.entries(changes).filter(([field]) => unlocked.formFields.includes(field as VerificationTextField))
+        );
+        const uploaded = unlocked.files.filter(fileType => uploads[fileType]);
+        const fileUrls = Object.fromEntries(uploaded.flatMap(fileType => [
+          [`${fileType}_url`, uploads[fileType]?.url],
+          [`${fileType}_checksum`, uploads[fileType]?.checksum]
+        ]));
+        if (Object.keys(fieldChanges).length === 0 && uploaded.length === 0) {
+          throw new Error('None of the requested information was provided');
+        }
+
+        const respondedAt = new Date();
+        const answered = this.processFromSubmission(processId, { ...requestSnap.data(), ...fieldChanges, ...fileUrls }).request;
+        const documents = answered.documents.map(document => {
+          const fileType = document.type as VerificationFileType;
+          const upload = uploaded.includes(fileType) ? uploads[fileType] : undefined;
+          if (upload) {
+            return { ...document, filename: upload.filename, fileSize: upload.size, uploadedAt: respondedAt };
+          }
+          return current.request.documents.find(existing => existing.type === document.type) || document;
+        });
+        const request = {
+          ...current.request,
+          ...answered,
+          documents,
+          submittedAt: current.request.submittedAt,
+          lastModified: respondedAt
+        };
+
+        transaction.update(processRef, FirestoreDataValidator.cleanForFirestore({
+          request,
+          status: VerificationStatus.RESUBMITTED,
+          infoRequest: { ...infoRequest, respondedAt },
+          needsRiskAssessment: true,
+          updatedAt: serverTimestamp()
+        }));
+
+        transaction.update(requestRef, {
+          ...fieldChanges,
+          ...fileUrls,
+          status: 'pending',
+          updated_at: serverTimestamp()
+        });
+
+        transaction.set(messageRef, this.systemMessageDoc({
+          processId,
+          userId: infoRequest.requestedBy,
+          type: MessageType.STATUS_UPDATE,
+          subject: 'Additional Information Received',
+          content: `${request.fullName} answered your request for more information and the verification is back in the review queue.`,
+          priority: 'medium',
+          generatedBy: userId,
+          channels: ['in_app']
+        }));
+
+        transaction.set(auditRef, {
+          processId,
+          userId,
+          fromStatus: current.status,
+          toStatus: VerificationStatus.RESUBMITTED,
+          changedFields: [...Object.keys(fieldChanges), ...uploaded],
+          systemMessageId: messageRef.id,
+          actorId: userId,
+          createdAt: serverTimestamp()
+        });
+
+        return {
+          ...current,
+          request,
+          status: VerificationStatus.RESUBMITTED,
+          infoRequest: { ...infoRequest, respondedAt },
+          updatedAt: respondedAt
+        };
       });
+
+      console.log(`✅ Verification process ${processId} received the requested information`);
+      return process;
+    } catch (error) {
+      console.error('❌ Error recording information response:', error);
+      throw new Error(`Failed to submit additional information: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
+  }
+
+  /**
+   * Reject processes whose request for more information went unanswered past its deadline
+   * There is no scheduled backend, so the admin panel runs this whenever it loads.
+   * @returns Promise<ApiResponse<BulkResult>> - Which overdue processes were rejected and which could not be
+   */
+  static async expireOverdueInfoRequests(): Promise<ApiResponse<BulkResult>> {
+    return this.respond('expire overdue information requests', async () => {
+      const snapshot = await getDocs(query(
+        collection(db, this.PROCESSES_COLLECTION),
+        where('status', '==', VerificationStatus.REQUIRES_MORE_INFO)
+      ));
+      const now = Date.now();
+      const overdue = snapshot.docs
+        .map(docSnap => this.processFromFirestore(docSnap.id, docSnap.data()))
+        .filter(process => process.infoRequest?.deadline && process.infoRequest.deadline.getTime() < now);
+
+      const result: BulkResult = { successful: [], failed: [] };
+      for (const process of overdue) {
+        // Answers written since the query fail the status check instead of being rejected
+        const response = await this.respond('expire information request', () => this.decideProcess(process.id, VerificationStatus.REJECTED, {
+          rejectionDetails: this.EXPIRED_INFO_REQUEST_NOTE,
+          reviewNotes: this.EXPIRED_INFO_REQUEST_NOTE,
+          tags: [...new Set([...(process.tags || []), 'more_info_expired'])],
+          completedAt: new Date()
+        }, {
+          type: MessageType.REJECTION,
+          subject: 'Verification Request Expired',
+          content: `The information requested for your verification was not provided by ${process.infoRequest?.deadline?.toLocaleDateString()}, so the request has been closed. You can submit a new verification request at any time.`,
+          priority: 'high'
+        }, { allowedFrom: [VerificationStatus.REQUIRES_MORE_INFO] }));
+        (response.success ? result.successful : result.failed).push(process.id);
+      }
 
-    return response;
+      if (result.successful.length > 0) {
+        console.log(`✅ Rejected ${result.successful.length} verification processes with overdue information requests`);
+      }
+      return result;
+    });
+  }
+
+  // ===== RISK ASSESSMENT =====
+
+  /**
+   * Score the processes queued since the last assessment: new submissions and answered information requests
+   * Duplicate checks read other accounts' details, which only admins can do, so the admin panel runs this
+   * when it loads; designers only queue their processes.
+   * @returns Promise<ApiResponse<BulkResult>> - Which processes were scored and which could not be
+   */
+  static async assessQueuedProcesses(): Promise<ApiResponse<BulkResult>> {
+    return this.respond('assess verification risk', async () => {
+      const snapshot = await getDocs(query(
+        collection(db, this.PROCESSES_COLLECTION),
+        where('needsRiskAssessment', '==', true)
+      ));
+      return this.assessProcesses(snapshot.docs);
+    });
+  }
+
+  /**
+   * Score every open process again with the current weights
+   * Queued processes are scored when the admin panel loads, so this only runs after the weights change.
+   * @returns Promise<ApiResponse<BulkResult>> - Which processes were scored and which could not be
+   */
+  static async assessOpenProcesses(): Promise<ApiResponse<BulkResult>> {
+    return this.respond('assess verification risk', async () => {
+      const snapshot = await getDocs(query(
+        collection(db, this.PROCESSES_COLLECTION),
+        where('status', 'in', this.OPEN_STATUSES)
+      ));
+      return this.assessProcesses(snapshot.docs);
+    });
+  }
+
+  /**
+   * Score one process again with the current weights
+   * @param processId - Process to score
+   * @returns Promise<ApiResponse<VerificationProcess>> - The process with its new risk assessment
+   */
+  static async assessProcessRisk(processId: string): Promise<ApiResponse<VerificationProcess>> {
+    return this.respond('assess verification risk', async () => {
+      return this.writeRiskAssessment(await this.getProcess(processId));
+    });
   }
 
   // ===== BULK ACTIONS =====
 
   /**
-   * Bulk approve multiple verification requests
+   * Bulk approve multiple verification requests, notifying each user
+   * @param processIds - Processes to approve
+   * @param reviewNotes - Notes recorded on every process
+   * @returns Promise<ApiResponse<BulkResult>> - IDs that were and were not approved
    */
   static async bulkApprove(
-    processIds: string[], 
+    processIds: string[],
     reviewNotes?: string
-  ): Promise<ApiResponse<{ successful: string[]; failed: string[] }>> {
-    return apiClient.post<{ successful: string[]; failed: string[] }>('/processes/bulk-approve', {
-      processIds,
-      reviewNotes,
-      completedAt: new Date().toISOString(),
-    });
+  ): Promise<ApiResponse<BulkResult>> {
+    return this.respond('bulk approve verifications', () => this.runBulk(processIds, processId =>
+      this.approveVerification({ processId, reviewNotes, notifyUser: true })
+    ));
   }
 
   /**
-   * Bulk reject multiple verification requests
+   * Bulk reject multiple verification requests, notifying each user
+   * @param processIds - Processes to reject
+   * @param reasonIds - Rejection reasons recorded on every process
+   * @param customReason - Details recorded on every process
+   * @returns Promise<ApiResponse<BulkResult>> - IDs that were and were not rejected
    */
   static async bulkReject(
-    processIds: string[], 
-    reasonIds: string[], 
+    processIds: string[],
+    reasonIds: string[],
     customReason?: string
-  ): Promise<ApiResponse<{ successful: string[]; failed: string[] }>> {
-    return apiClient.post<{ successful: string[]; failed: string[] }>('/processes/bulk-reject', {
-      processIds,
-      reasonIds,
-      customReason,
-      completedAt: new Date().toISOString(),
+  ): Promise<ApiResponse<BulkResult>> {
+    return this.respond('bulk reject verifications', async () => {
+      const reasons = await this.fetchRejectionReasons();
+      const requiresResubmission = reasons.some(reason => reasonIds.includes(reason.id) && reason.requiresResubmission);
+
+      return this.runBulk(processIds, processId =>
+        this.rejectVerification({ processId, reasonIds, customReason, requiresResubmission, notifyUser: true })
+      );
     });
   }
 
   /**
    * Bulk assign reviewer to multiple processes
+   * @param processIds - Processes to assign
+   * @param reviewerId - UID of the admin reviewing them
+   * @returns Promise<ApiResponse<BulkResult>> - IDs that were and were not assigned
    */
   static async bulkAssignReviewer(
-    processIds: string[], 
+    processIds: string[],
     reviewerId: string
-  ): Promise<ApiResponse<{ successful: string[]; failed: string[] }>> {
-    return apiClient.post<{ successful: string[]; failed: string[] }>('/processes/bulk-assign', {
-      processIds,
-      assignedReviewer: reviewerId,
-      reviewStartedAt: new Date().toISOString(),
-    });
+  ): Promise<ApiResponse<BulkResult>> {
+    return this.respond('bulk assign reviewer', () => this.runBulk(processIds, processId =>
+      this.assignReviewer(processId, reviewerId)
+    ));
   }
 
   // ===== SYSTEM MESSAGES =====
 
   /**
    * Create system message
+   * @param message - Message to log for the user
+   * @returns Promise<ApiResponse<SystemMessage>> - Created message
    */
   static async createSystemMessage(
     message: CreateSystemMessageRequest
   ): Promise<ApiResponse<SystemMessage>> {
-    return apiClient.post<SystemMessage>('/system-messages', {
-      ...message,
-      createdAt: new Date().toISOString(),
-      status: 'pending',
-      deliveryAttempts: 0,
+    return this.respond('create system message', async () => {
+      const docRef = await addDoc(collection(db, this.SYSTEM_MESSAGES_COLLECTION), this.systemMessageDoc(message));
+      return { ...message, id: docRef.id, createdAt: new Date(), status: 'pending', deliveryAttempts: 0 };
     });
   }
 
   /**
-   * Get system messages for a process
+   * Get system messages for a process, oldest first
+   * @param processId - Verification process ID
+   * @returns Promise<ApiResponse<SystemMessage[]>> - Messages logged for the process
    */
   static async getSystemMessages(processId: string): Promise<ApiResponse<SystemMessage[]>> {
-    return apiClient.get<SystemMessage[]>(`/system-messages/process/${processId}`);
+    return this.respond('fetch system messages', async () => {
+      const snapshot = await getDocs(query(
+        collection(db, this.SYSTEM_MESSAGES_COLLECTION),
+        where('processId', '==', processId)
+      ));
+      return snapshot.docs
+        .map(docSnap => this.systemMessageFromFirestore(docSnap.id, docSnap.data()))
+        .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
+    });
   }
 
   /**
    * Mark system message as read
+   * @param messageId - System message ID
+   * @returns Promise<ApiResponse<SystemMessage>> - The updated message
    */
   static async markSystemMessageAsRead(messageId: string): Promise<ApiResponse<SystemMessage>> {
-    return apiClient.patch<SystemMessage>(`/system-messages/${messageId}/read`, {
-      readAt: new Date().toISOString(),
-      status: 'read',
+    return this.respond('mark system message as read', async () => {
+      const messageRef = doc(db, this.SYSTEM_MESSAGES_COLLECTION, messageId);
+      await updateDoc(messageRef, { readAt: serverTimestamp(), status: 'read' });
+
+      const messageSnap = await getDoc(messageRef);
+      return this.systemMessageFromFirestore(messageSnap.id, messageSnap.data() || {});
     });
   }
 
@@ -363,109 +712,178 @@ export class VerificationManagementService {
 
   /**
    * Create user message
+   * @param message - Message between an admin and a user
+   * @returns Promise<ApiResponse<UserMessage>> - Created message
    */
   static async createUserMessage(
     message: CreateMessageRequest
   ): Promise<ApiResponse<UserMessage>> {
-    return apiClient.post<UserMessage>('/user-messages', {
-      ...message,
-      createdAt: new Date().toISOString(),
-      status: 'sent',
-    });
+    return this.respond('create user message', () => this.addUserMessage(message));
   }
 
   /**
-   * Get user messages for a process
+   * Get user messages for a process, oldest first
+   * @param processId - Verification process ID
+   * @returns Promise<ApiResponse<UserMessage[]>> - The conversation about the process
    */
   static async getUserMessages(processId: string): Promise<ApiResponse<UserMessage[]>> {
-    return apiClient.get<UserMessage[]>(`/user-messages/process/${processId}`);
+    return this.respond('fetch user messages', async () => {
+      const snapshot = await getDocs(query(
+        collection(db, this.USER_MESSAGES_COLLECTION),
+        where('processId', '==', processId)
+      ));
+      return snapshot.docs
+        .map(docSnap => this.userMessageFromFirestore(docSnap.id, docSnap.data()))
+        .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
+    });
   }
 
   /**
-   * Reply to user message
+   * Reply to user message as an admin
+   * @param parentMessageId - Message being answered
+   * @param content - Reply text
+   * @param adminId - UID of the replying admin
+   * @returns Promise<ApiResponse<UserMessage>> - The reply
    */
   static async replyToUserMessage(
     parentMessageId: string,
     content: string,
     adminId: string
   ): Promise<ApiResponse<UserMessage>> {
-    return apiClient.post<UserMessage>(`/user-messages/${parentMessageId}/reply`, {
-      content,
-      adminId,
-      isFromAdmin: true,
-      createdAt: new Date().toISOString(),
-      status: 'sent',
+    return this.respond('reply to user message', async () => {
+      const parentRef = doc(db, this.USER_MESSAGES_COLLECTION, parentMessageId);
+      const parentSnap = await getDoc(parentRef);
+      if (!parentSnap.exists()) {
+        throw new Error('Message not found');
+      }
+
+      const parent = this.userMessageFromFirestore(parentSnap.id, parentSnap.data());
+      const reply = await this.addUserMessage({
+        processId: parent.processId,
+        userId: parent.userId,
+        adminId,
+        subject: parent.subject.startsWith('Re: ') ? parent.subject : `Re: ${parent.subject}`,
+        content,
+        isFromAdmin: true,
+        parentMessageId,
+        isUrgent: false,
+        messageType: parent.messageType
+      });
+
+      await updateDoc(parentRef, { respondedAt: serverTimestamp() });
+      return reply;
     });
   }
 
   // ===== MESSAGE TEMPLATES =====
 
   /**
-   * Get message templates by type
+   * Get message templates by type, sorted by name
+   * @param type - Only return templates of this type
+   * @returns Promise<ApiResponse<MessageTemplate[]>> - Matching templates
    */
   static async getMessageTemplates(type?: MessageType): Promise<ApiResponse<MessageTemplate[]>> {
-    const endpoint = type ? `/templates?type=${type}` : '/templates';
-    return apiClient.get<MessageTemplate[]>(endpoint);
+    return this.respond('fetch message templates', async () => {
+      const constraints: QueryConstraint[] = type ? [where('type', '==', type)] : [];
+      const snapshot = await getDocs(query(collection(db, this.TEMPLATES_COLLECTION), ...constraints));
+      return snapshot.docs
+        .map(docSnap => this.templateFromFirestore(docSnap.id, docSnap.data()))
+        .sort((a, b) => a.name.localeCompare(b.name));
+    });
   }
 
   /**
    * Create message template
+   * @param template - Template content and the variables it uses
+   * @returns Promise<ApiResponse<MessageTemplate>> - Created template
    */
   static async createMessageTemplate(
     template: Omit<MessageTemplate, 'id' | 'createdAt' | 'updatedAt'>
   ): Promise<ApiResponse<MessageTemplate>> {
-    return apiClient.post<MessageTemplate>('/templates', {
-      ...template,
-      createdAt: new Date().toISOString(),
-      updatedAt: new Date().toISOString(),
+    return this.respond('create message template', async () => {
+      const docRef = await addDoc(collection(db, this.TEMPLATES_COLLECTION), {
+        ...FirestoreDataValidator.cleanForFirestore(template),
+        createdAt: serverTimestamp(),
+        updatedAt: serverTimestamp()
+      });
+      return { ...template, id: docRef.id, createdAt: new Date(), updatedAt: new Date() };
     });
   }
 
   /**
    * Update message template
+   * @param templateId - Message template ID
+   * @param updates - Fields to change
+   * @returns Promise<ApiResponse<MessageTemplate>> - The updated template
    */
   static async updateMessageTemplate(
     templateId: string,
     updates: Partial<MessageTemplate>
   ): Promise<ApiResponse<MessageTemplate>> {
-    return apiClient.patch<MessageTemplate>(`/templates/${templateId}`, {
-      ...updates,
-      updatedAt: new Date().toISOString(),
+    return this.respond('update message template', async () => {
+      const templateRef = doc(db, this.TEMPLATES_COLLECTION, templateId);
+      await updateDoc(templateRef, {
+        ...FirestoreDataValidator.cleanForFirestore({ ...updates, id: undefined, createdAt: undefined }),
+        updatedAt: serverTimestamp()
+      });
+
+      const templateSnap = await getDoc(templateRef);
+      return this.templateFromFirestore(templateSnap.id, templateSnap.data() || {});
     });
   }
 
   // ===== REJECTION REASONS =====
 
   /**
-   * Get rejection reasons
+   * Get rejection reasons, grouped by category
+   * @returns Promise<ApiResponse<RejectionReason[]>> - All rejection reasons
    */
   static async getRejectionReasons(): Promise<ApiResponse<RejectionReason[]>> {
-    return apiClient.get<RejectionReason[]>('/rejection-reasons');
+    return this.respond('fetch rejection reasons', () => this.fetchRejectionReasons());
   }
 
   /**
    * Create rejection reason
+   * @param reason - Reason and the template sent to the user
+   * @returns Promise<ApiResponse<RejectionReason>> - Created reason
    */
   static async createRejectionReason(
     reason: Omit<RejectionReason, 'id'>
   ): Promise<ApiResponse<RejectionReason>> {
-    return apiClient.post<RejectionReason>('/rejection-reasons', reason);
+    return this.respond('create rejection reason', async () => {
+      const docRef = await addDoc(
+        collection(db, this.REJECTION_REASONS_COLLECTION),
+        FirestoreDataValidator.cleanForFirestore(reason)
+      );
+      return { ...reason, id: docRef.id };
+    });
   }
 
   /**
    * Update rejection reason
+   * @param reasonId - Rejection reason ID
+   * @param updates - Fields to change
+   * @returns Promise<ApiResponse<RejectionReason>> - The updated reason
    */
   static async updateRejectionReason(
     reasonId: string,
     updates: Partial<RejectionReason>
   ): Promise<ApiResponse<RejectionReason>> {
-    return apiClient.patch<RejectionReason>(`/rejection-reasons/${reasonId}`, updates);
+    return this.respond('update rejection reason', async () => {
+      const reasonRef = doc(db, this.REJECTION_REASONS_COLLECTION, reasonId);
+      await updateDoc(reasonRef, FirestoreDataValidator.cleanForFirestore({ ...updates, id: undefined }));
+
+      const reasonSnap = await getDoc(reasonRef);
+      return this.rejectionReasonFromFirestore(reasonSnap.id, reasonSnap.data() || {});
+    });
   }
 
   // ===== ANALYTICS & REPORTING =====
 
   /**
    * Get verification statistics
+   * @param dateRange - Only count processes created in this range
+   * @returns Promise<ApiResponse<...>> - Counts by status, priority and risk, and the average processing time in hours
    */
   static async getVerificationStats(
     dateRange?: { start: Date; end: Date }
@@ -479,55 +897,662 @@ export class VerificationManagementService {
     priorityDistribution: Record<string, number>;
     riskDistribution: Record<string, number>;
   }>> {
-    const queryParams = new URLSearchParams();
-    if (dateRange) {
-      queryParams.append('startDate', dateRange.start.toISOString());
-      queryParams.append('endDate', dateRange.end.toISOString());
-    }
-    
-    return apiClient.get(`/analytics/stats?${queryParams.toString()}`);
+    return this.respond('fetch verification stats', async () => {
+      const processes = await this.queryProcesses({ dateRange }, { field: 'createdAt', direction: 'desc' });
+
+      const statusDistribution = Object.fromEntries(
+        VERIFICATION_STATUSES.map(status => [status, 0])
+      ) as Record<VerificationStatus, number>;
+      const priorityDistribution: Record<string, number> = {};
+      const riskDistribution: Record<string, number> = {};
+      let processingHours = 0;
+      let completedCount = 0;
+
+      for (const process of processes) {
+        statusDistribution[process.status] = (statusDistribution[process.status] || 0) + 1;
+        priorityDistribution[process.priority] = (priorityDistribution[process.priority] || 0) + 1;
+        riskDistribution[process.riskAssessment.level] = (riskDistribution[process.riskAssessment.level] || 0) + 1;
+
+        if (process.completedAt) {
+          processingHours += (process.completedAt.getTime() - process.createdAt.getTime()) / (1000 * 60 * 60);
+          completedCount++;
+        }
+      }
+
+      return {
+        totalProcesses: processes.length,
+        // Resubmissions and processes under review still wait for a decision
+        pendingProcesses: statusDistribution[VerificationStatus.PENDING] +
+          statusDistribution[VerificationStatus.UNDER_REVIEW] +
+          statusDistribution[VerificationStatus.RESUBMITTED],
+        approvedProcesses: statusDistribution[VerificationStatus.APPROVED],
+        rejectedProcesses: statusDistribution[VerificationStatus.REJECTED],
+        averageProcessingTime: completedCount > 0 ? Math.round((processingHours / completedCount) * 10) / 10 : 0,
+        statusDistribution,
+        priorityDistribution,
+        riskDistribution
+      };
+    });
   }
 
   /**
-   * Export verification data
+   * Export verification data as a file the browser can download
+   * @param filters - Same filters as the process table
+   * @param format - 'csv' or 'json'; spreadsheets open the CSV export
+   * @returns Promise<ApiResponse<{ downloadUrl: string }>> - Object URL of the export, revoke it once downloaded
    */
   static async exportVerificationData(
     filters: FilterOptions,
     format: 'csv' | 'xlsx' | 'json' = 'csv'
   ): Promise<ApiResponse<{ downloadUrl: string }>> {
-    return apiClient.post<{ downloadUrl: string }>('/export', {
-      filters,
-      format,
+    return this.respond('export verification data', async () => {
+      if (format === 'xlsx') {
+        throw new Error('XLSX export is not supported, export as CSV instead');
+      }
+
+      const processes = await this.queryProcesses(filters, { field: 'createdAt', direction: 'desc' });
+      const blob = format === 'json'
+        ? new Blob([JSON.stringify(processes, null, 2)], { type: 'application/json' })
+        : new Blob([this.toCsv(processes)], { type: 'text/csv;charset=utf-8' });
+
+      return { downloadUrl: URL.createObjectURL(blob) };
     });
   }
 
   // ===== REAL-TIME UPDATES =====
 
   /**
-   * Subscribe to real-time updates for verification processes
+   * Subscribe to real-time updates for recently changed verification processes
+   * @param callback - Receives { type: 'process_updated', data: VerificationProcess } for each change
+   * @returns () => void - Unsubscribe function
    */
   static subscribeToUpdates(
-    callback: (update: { type: string; data: any }) => void
+    callback: (update: { type: 'process_updated'; data: VerificationProcess }) => void
   ): () => void {
-    // WebSocket connection for real-time updates
-    const ws = new WebSocket(`${API_BASE_URL.replace('http', 'ws')}/ws/verification-updates`);
-    
-    ws.onmessage = (event) => {
+    const q = query(
+      collection(db, this.PROCESSES_COLLECTION),
+      orderBy('updatedAt', 'desc'),
+      limit(this.LIVE_UPDATES_LIMIT)
+    );
+    let initialSnapshot = true;
+
+    return onSnapshot(
+      q,
+      snapshot => {
+        // The first snapshot lists existing processes, which callers have already fetched
+        if (initialSnapshot) {
+          initialSnapshot = false;
+          return;
+        }
+
+        snapshot.docChanges()
+          .filter(change => change.type !== 'removed')
+          .forEach(change => callback({
+            type: 'process_updated',
+            data: this.processFromFirestore(change.doc.id, change.doc.data())
+          }));
+      },
+      error => console.error('❌ Error listening to verification processes:', error)
+    );
+  }
+
+  // ===== MIGRATION =====
+
+  /**
+   * Creates a process for every verification request submitted before processes existed (Admin only)
+   * Processes share their request's ID, so requests that already have one are skipped and the migration can be rerun
+   * @returns Promise<VerificationMigrationSummary> - Requests scanned, migrated and skipped, and IDs that failed
+   */
+  static async migrateVerificationRequests(): Promise<VerificationMigrationSummary> {
+    try {
+      const summary: VerificationMigrationSummary = { scanned: 0, migrated: 0, skipped: 0, failed: [] };
+      const q = query(collection(db, this.REQUESTS_COLLECTION), orderBy(documentId()));
+      let cursor: QueryDocumentSnapshot<DocumentData> | null = null;
+      let hasMore = true;
+
+      while (hasMore) {
+        const page: PaginatedResult<QueryDocumentSnapshot<DocumentData>> =
+          await queryPaginated(q, docSnap => docSnap, cursor, this.MIGRATION_BATCH_SIZE);
+        const existing = await Promise.all(
+          page.items.map(docSnap => getDoc(doc(db, this.PROCESSES_COLLECTION, docSnap.id)))
+        );
+        const pending = page.items.filter((_, index) => !existing[index].exists());
+
+        if (pending.length > 0) {
+          const batch = writeBatch(db);
+          for (const docSnap of pending) {
+            const { id, ...data } = this.processFromSubmission(docSnap.id, docSnap.data());
+            batch.set(doc(db, this.PROCESSES_COLLECTION, id), FirestoreDataValidator.cleanForFirestore({
+              ...data,
+              needsRiskAssessment: this.OPEN_STATUSES.includes(data.status)
+            }));
+          }
+
+          try {
+            await batch.commit();
+            summary.migrated += pending.length;
+          } catch (error) {
+            console.error('❌ Error migrating verification request batch:', error);
+            summary.failed.push(...pending.map(docSnap => docSnap.id));
+          }
+        }
+
+        summary.scanned += page.items.length;
+        summary.skipped += page.items.length - pending.length;
+        cursor = page.cursor;
+        hasMore = page.hasMore;
+      }
+
+      console.log(`✅ Migrated ${summary.migrated} of ${summary.scanned} verification requests (${summary.skipped} skipped, ${summary.failed.length} failed)`);
+      return summary;
+    } catch (error) {
+      console.error('❌ Error migrating verification requests:', error);
+      throw new Error(`Failed to migrate verification requests: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  // ===== HELPERS =====
+
+  /**
+   * Runs an operation and wraps its outcome in an ApiResponse, so callers check success instead of catching
+   */
+  private static async respond<T>(action: string, operation: () => Promise<T>): Promise<ApiResponse<T>> {
+    try {
+      return { success: true, data: await operation() };
+    } catch (error) {
+      console.error(`❌ Failed to ${action}:`, error);
+      return {
+        success: false,
+        data: {} as T,
+        error: `Failed to ${action}: ${error instanceof Error ? error.message : 'Unknown error'}`
+      };
+    }
+  }
+
+  /**
+   * Runs an action for each process in turn and records which ones succeeded
+   */
+  private static async runBulk(
+    processIds: string[],
+    action: (processId: string) => Promise<ApiResponse<unknown>>
+  ): Promise<BulkResult> {
+    const result: BulkResult = { successful: [], failed: [] };
+    for (const processId of processIds) {
+      const response = await action(processId);
+      (response.success ? result.successful : result.failed).push(processId);
+    }
+    return result;
+  }
+
+  /**
+   * Loads the processes matching the filters, sorted
+   * Only status and reviewer are queried; the other filters span nested fields and free text that
+   * Firestore cannot combine in one query, so they are applied to the result.
+   */
+  private static async queryProcesses(filters: FilterOptions, sort: SortOptions): Promise<VerificationProcess[]> {
+    const snapshot = await getDocs(query(collection(db, this.PROCESSES_COLLECTION), ...this.processConstraints(filters)));
+    const direction = sort.direction === 'asc' ? 1 : -1;
+
+    return snapshot.docs
+      .map(docSnap => this.processFromFirestore(docSnap.id, docSnap.data()))
+      .filter(process => this.matchesFilters(process, filters))
+      .sort((a, b) => {
+        const left = this.sortValue(a, sort.field);
+        const right = this.sortValue(b, sort.field);
+        const order = typeof left === 'number' && typeof right === 'number'
+          ? left - right
+          : String(left).localeCompare(String(right));
+        return order * direction;
+      });
+  }
+
+  /**
+   * Query constraints for the filters Firestore can apply: status and reviewer
+   */
+  private static processConstraints(filters: FilterOptions): QueryConstraint[] {
+    const constraints: QueryConstraint[] = [];
+    if (filters.status?.length) {
+      constraints.push(where('status', 'in', filters.status));
+    }
+    if (filters.assignedReviewer) {
+      constraints.push(where('assignedReviewer', '==', filters.assignedReviewer));
+    }
+    return constraints;
+  }
+
+  private static matchesFilters(process: VerificationProcess, filters: FilterOptions): boolean {
+    if (filters.priority?.length && !filters.priority.includes(process.priority)) return false;
+    if (filters.userType?.length && !filters.userType.includes(process.userType)) return false;
+    if (filters.riskLevel?.length && !filters.riskLevel.includes(process.riskAssessment.level)) return false;
+    if (filters.dateRange && (process.createdAt < filters.dateRange.start || process.createdAt > filters.dateRange.end)) {
+      return false;
+    }
+
+    const search = filters.searchQuery?.trim().toLowerCase();
+    if (search) {
+      return [process.request.fullName, process.request.email, process.request.specialization]
+        .some(value => value.toLowerCase().includes(search));
+    }
+    return true;
+  }
+
+  /**
+   * Value a process is sorted by; priorities sort by urgency and risk by score
+   */
+  private static sortValue(process: VerificationProcess, field: string): string | number {
+    if (field === 'priority') return VERIFICATION_PRIORITIES.indexOf(process.priority);
+    if (field === 'riskAssessment') return process.riskAssessment.score;
+
+    const value = field.split('.').reduce<unknown>(
+      (current, key) => (current as Record<string, unknown> | undefined)?.[key],
+      process
+    );
+    if (value instanceof Date) return value.getTime();
+    return typeof value === 'number' ? value : String(value ?? '');
+  }
+
+  private static async getProcess(processId: string): Promise<VerificationProcess> {
+    const processSnap = await getDoc(doc(db, this.PROCESSES_COLLECTION, processId));
+    if (!processSnap.exists()) {
+      throw new Error('Verification process not found');
+    }
+    return this.processFromFirestore(processSnap.id, processSnap.data());
+  }
+
+  private static async writeProcess(processId: string, updates: Record<string, unknown>): Promise<VerificationProcess> {
+    await updateDoc(doc(db, this.PROCESSES_COLLECTION, processId), {
+      ...FirestoreDataValidator.cleanForFirestore(updates),
+      updatedAt: serverTimestamp()
+    });
+    return this.getProcess(processId);
+  }
+
+  /**
+   * Scores a process against the account's other processes and the accounts sharing its details
+   */
+  private static async assessRisk(process: VerificationProcess, weights?: RiskWeights): Promise<RiskAssessment> {
+    const [profile, snapshot, sharedAccounts, currentWeights] = await Promise.all([
+      UserService.getUserProfile(process.userId),
+      getDocs(query(collection(db, this.PROCESSES_COLLECTION), where('userId', '==', process.userId))),
+      RiskScoringService.countSharedAccounts(process),
+      weights || RiskScoringService.getWeights()
+    ]);
+    const otherProcesses = snapshot.docs
+      .filter(docSnap => docSnap.id !== process.id)
+      .map(docSnap => this.processFromFirestore(docSnap.id, docSnap.data()));
+
+    return RiskScoringService.assess(process, { profile, otherProcesses, sharedAccounts }, currentWeights);
+  }
+
+  private static async assessProcesses(docs: QueryDocumentSnapshot<DocumentData>[]): Promise<BulkResult> {
+    const weights = await RiskScoringService.getWeights();
+    const result: BulkResult = { successful: [], failed: [] };
+    for (const docSnap of docs) {
       try {
-        const update = JSON.parse(event.data);
-        callback(update);
+        await this.writeRiskAssessment(this.processFromFirestore(docSnap.id, docSnap.data()), weights);
+        result.successful.push(docSnap.id);
       } catch (error) {
-        console.error('Failed to parse WebSocket message:', error);
+        console.warn(`⚠️ Risk of verification process ${docSnap.id} could not be assessed:`, error);
+        result.failed.push(docSnap.id);
       }
-    };
+    }
+
+    if (result.successful.length > 0) {
+      console.log(`✅ Assessed risk of ${result.successful.length} verification processes`);
+    }
+    return result;
+  }
+
+  /**
+   * Registers a process's details, scores it and saves the result; processes migrated from
+   * verification requests are registered the first time they are scored
+   * A request answered while it was being scored stays queued for another assessment.
+   */
+  private static async writeRiskAssessment(process: VerificationProcess, weights?: RiskWeights): Promise<VerificationProcess> {
+    await RiskScoringService.registerFingerprints(process);
+    const riskAssessment = await this.assessRisk(process, weights);
+    const processRef = doc(db, this.PROCESSES_COLLECTION, process.id);
+
+    await runTransaction(db, async (transaction) => {
+      const processSnap = await transaction.get(processRef);
+      if (!processSnap.exists()) {
+        throw new Error('Verification process not found');
+      }
+      const current = this.processFromFirestore(processSnap.id, processSnap.data());
+      transaction.update(processRef, {
+        riskAssessment: FirestoreDataValidator.cleanForFirestore(riskAssessment),
+        needsRiskAssessment: current.request.lastModified.getTime() !== process.request.lastModified.getTime(),
+        updatedAt: serverTimestamp()
+      });
+    });
+    return this.getProcess(process.id);
+  }
+
+  /**
+   * Records a review decision in one transaction: the process, the designer's original submission
+   * (which their dashboard reads), their profile, an audit entry and the optional system message
+   */
+  private static async decideProcess(
+    processId: string,
+    status: VerificationStatus,
+    updates: Record<string, unknown>,
+    notification: DecisionNotification | null,
+    options: DecisionOptions = {}
+  ): Promise<VerificationProcess> {
+    const processRef = doc(db, this.PROCESSES_COLLECTION, processId);
+    const requestRef = doc(db, this.REQUESTS_COLLECTION, processId);
+    const auditRef = doc(collection(processRef, this.AUDIT_SUBCOLLECTION));
+    const messageRef = doc(collection(db, this.SYSTEM_MESSAGES_COLLECTION));
+    const actorId = auth.currentUser?.uid || 'system';
+    const changes = FirestoreDataValidator.cleanForFirestore(updates);
+
+    const process = await runTransaction(db, async (transaction) => {
+      const processSnap = await transaction.get(processRef);
+      if (!processSnap.exists()) {
+        throw new Error('Verification process not found');
+      }
+
+      const current = this.processFromFirestore(processSnap.id, processSnap.data());
+      const isFinal = status === VerificationStatus.APPROVED || status === VerificationStatus.REJECTED;
+      if (isFinal && current.status === status) {
+        throw new Error(`Verification process is already ${status}`);
+      }
+      if (options.allowedFrom && !options.allowedFrom.includes(current.status)) {
+        throw new Error(`Verification process is ${current.status.replace(/_/g, ' ')}`);
+      }
+
+      const requestSnap = await transaction.get(requestRef);
+      const designerStatus: DesignerVerificationStatus | undefined = isFinal && current.userType === 'designer'
+        ? (status === VerificationStatus.APPROVED ? 'verified' : 'unverified')
+        : undefined;
+      if (designerStatus) {
+        await UserService.assertDesigner(transaction, current.userId);
+      }
+
+      transaction.update(processRef, { ...changes, status, updatedAt: serverTimestamp() });
+
+      if (requestSnap.exists()) {
+        transaction.update(requestRef, {
+          status: this.toSubmissionStatus(status),
+          review_notes: (changes.reviewNotes as string | undefined) || '',
+          reviewed_at: serverTimestamp(),
+          updated_at: serverTimestamp(),
+          ...FirestoreDataValidator.cleanForFirestore(options.submissionUpdates || {})
+        });
+      }
+
+      if (designerStatus) {
+        UserService.recordDesignerVerificationStatus(transaction, current.userId, designerStatus);
+      }
+
+      if (notification) {
+        transaction.set(messageRef, this.systemMessageDoc({
+          ...notification,
+          processId,
+          userId: current.userId,
+          generatedBy: actorId,
+          channels: ['email', 'in_app']
+        }));
+      }
+
+      transaction.set(auditRef, FirestoreDataValidator.cleanForFirestore({
+        processId,
+        userId: current.userId,
+        fromStatus: current.status,
+        toStatus: status,
+        reviewNotes: changes.reviewNotes,
+        designerVerificationStatus: designerStatus,
+        systemMessageId: notification ? messageRef.id : undefined,
+        actorId,
+        createdAt: serverTimestamp()
+      }));
+
+      return { ...current, ...changes, status, updatedAt: new Date() } as VerificationProcess;
+    });
+
+    // The directory is rebuilt from profiles, so it can catch up after a failed sync
+    if (process.userType === 'designer' && (status === VerificationStatus.APPROVED || status === VerificationStatus.REJECTED)) {
+      try {
+        await DesignerDirectoryService.syncDesigner(process.userId);
+      } catch (directoryError) {
+        console.warn('⚠️ Designer directory could not be updated:', directoryError);
+      }
+    }
 
-    ws.onerror = (error) => {
-      console.error('WebSocket error:', error);
+    console.log(`✅ Verification process ${processId} moved to ${status}`);
+    return process;
+  }
+
+  /**
+   * Builds the Firestore document for a new system message
+   */
+  private static systemMessageDoc(message: CreateSystemMessageRequest): DocumentData {
+    return FirestoreDataValidator.cleanForFirestore({
+      ...message,
+      createdAt: serverTimestamp(),
+      status: 'pending',
+      deliveryAttempts: 0
+    });
+  }
+
+  private static async addUserMessage(message: CreateMessageRequest): Promise<UserMessage> {
+    const created = { ...message, createdAt: new Date(), status: 'sent' as const };
+    const docRef = await addDoc(
+      collection(db, this.USER_MESSAGES_COLLECTION),
+      FirestoreDataValidator.cleanForFirestore({ ...created, createdAt: serverTimestamp() })
+    );
+    return { ...created, id: docRef.id };
+  }
+
+  private static async fetchRejectionReasons(): Promise<RejectionReason[]> {
+    const snapshot = await getDocs(collection(db, this.REJECTION_REASONS_COLLECTION));
+    return snapshot.docs
+      .map(docSnap => this.rejectionReasonFromFirestore(docSnap.id, docSnap.data()))
+      .sort((a, b) => a.category.localeCompare(b.category) || a.reason.localeCompare(b.reason));
+  }
+
+  private static toSubmissionStatus(status: VerificationStatus): VerificationSubmission['status'] {
+    switch (status) {
+      case VerificationStatus.APPROVED:
+      case VerificationStatus.REJECTED:
+      case VerificationStatus.REQUIRES_MORE_INFO:
+        return status;
+      default:
+        return 'pending';
+    }
+  }
+
+  private static fromSubmissionStatus(status: unknown, isResubmission: boolean): VerificationStatus {
+    if (status === 'pending' || !VERIFICATION_STATUSES.includes(status as VerificationStatus)) {
+      return isResubmission ? VerificationStatus.RESUBMITTED : VerificationStatus.PENDING;
+    }
+    return status as VerificationStatus;
+  }
+
+  private static toCsv(processes: VerificationProcess[]): string {
+    const header = ['ID', 'Name', 'Email', 'User Type', 'Status', 'Priority', 'Risk Level', 'Risk Score', 'Submitted', 'Completed', 'Reviewer'];
+    const rows = processes.map(process => [
+      process.id,
+      process.request.fullName,
+      process.request.email,
+      process.userType,
+      process.status,
+      process.priority,
+      process.riskAssessment.level,
+      String(process.riskAssessment.score),
+      process.createdAt.toISOString(),
+      process.completedAt?.toISOString() || '',
+      process.assignedReviewer || ''
+    ]);
+
+    return [header, ...rows]
+      .map(row => row.map(cell => `"${cell.replace(/"/g, '""')}"`).join(','))
+      .join('\r\n');
+  }
+
+  // ===== FIRESTORE CONVERSION =====
+
+  private static toDate(value: unknown): Date | undefined {
+    if (value instanceof Timestamp) return value.toDate();
+    return value instanceof Date ? value : undefined;
+  }
+
+  /**
+   * Builds a process from a designer's verification request, which is stored in snake_case
+   */
+  private static processFromSubmission(requestId: string, data: DocumentData): VerificationProcess {
+    // Pending server timestamps have no value yet
+    const submittedAt = this.toDate(data.submitted_at) || new Date();
+    const updatedAt = this.toDate(data.updated_at) || submittedAt;
+    const previousSubmissions: string[] = data.previous_request_ids || [];
+    const status = this.fromSubmissionStatus(data.status, previousSubmissions.length > 0);
+    const decided = status === VerificationStatus.APPROVED || status === VerificationStatus.REJECTED;
+
+    const documents: VerificationDocument[] = [
+      { type: DocumentType.NATIONAL_ID, url: data.national_id_url, checksum: data.national_id_checksum },
+      { type: DocumentType.SAMPLE_PROJECT, url: data.sample_project_url, checksum: data.sample_project_checksum }
+    ]
+      .filter((document): document is { type: DocumentType; url: string; checksum: string | undefined } => !!document.url)
+      .map(document => ({
+        id: document.type,
+        type: document.type,
+        filename: decodeURIComponent(document.url.split('?')[0]).split('/').pop() || document.type,
+        url: document.url,
+        uploadedAt: submittedAt,
+        // Submissions did not record file metadata
+        fileSize: 0,
+        mimeType: '',
+        // Documents nested in arrays are not cleaned of undefined values
+        ...(document.checksum && { checksum: document.checksum }),
+        verified: false
+      }));
+
+    return {
+      id: requestId,
+      userId: data.userId,
+      userType: 'designer',
+      request: {
+        fullName: data.full_name || '',
+        email: data.userEmail || '',
+        phoneNumber: data.phone_number || '',
+        address: data.detailed_address || '',
+        specialization: data.specialization || '',
+        specializationDescription: data.specialization_description || '',
+        experienceYears: data.experience_years || '',
+        softwareProficiency: Array.isArray(data.software_proficiency) ? data.software_proficiency : [],
+        portfolioUrl: data.portfolio_url || undefined,
+        certifications: data.certifications || undefined,
+        education: data.education || '',
+        additionalInfo: [data.additional_info, data.project_description && `Sample project: ${data.project_description}`]
+          .filter(Boolean)
+          .join('\n\n') || undefined,
+        documents,
+        submittedAt,
+        lastModified: updatedAt
+      },
+      status,
+      priority: VERIFICATION_PRIORITIES.includes(data.priority) ? data.priority : VerificationPriority.MEDIUM,
+      createdAt: submittedAt,
+      updatedAt,
+      completedAt: decided ? this.toDate(data.reviewed_at) || updatedAt : undefined,
+      reviewNotes: data.review_notes || undefined,
+      riskAssessment: {
+        level: RiskLevel.LOW,
+        factors: [],
+        score: 0,
+        lastUpdated: submittedAt
+      },
+      resubmissionCount: data.resubmission_count ?? previousSubmissions.length,
+      previousSubmissions
     };
+  }
+
+  private static processFromFirestore(id: string, data: DocumentData): VerificationProcess {
+    const request = data.request || {};
+    const riskAssessment = data.riskAssessment || {};
+    const createdAt = this.toDate(data.createdAt) || new Date();
+
+    return {
+      ...data,
+      id,
+      userId: data.userId,
+      userType: data.userType || 'designer',
+      request: {
+        ...request,
+        fullName: request.fullName || '',
+        email: request.email || '',
+        specialization: request.specialization || '',
+        softwareProficiency: request.softwareProficiency || [],
+        documents: (request.documents || []).map((document: DocumentData) => ({
+          ...document,
+          uploadedAt: this.toDate(document.uploadedAt) || createdAt
+        })),
+        submittedAt: this.toDate(request.submittedAt) || createdAt,
+        lastModified: this.toDate(request.lastModified) || createdAt
+      },
+      status: data.status || VerificationStatus.PENDING,
+      priority: data.priority || VerificationPriority.MEDIUM,
+      createdAt,
+      updatedAt: this.toDate(data.updatedAt) || createdAt,
+      reviewStartedAt: this.toDate(data.reviewStartedAt),
+      completedAt: this.toDate(data.completedAt),
+      infoRequest: data.infoRequest ? {
+        ...data.infoRequest,
+        deadline: this.toDate(data.infoRequest.deadline),
+        requestedAt: this.toDate(data.infoRequest.requestedAt) || createdAt,
+        respondedAt: this.toDate(data.infoRequest.respondedAt)
+      } : undefined,
+      riskAssessment: {
+        ...riskAssessment,
+        level: riskAssessment.level || RiskLevel.LOW,
+        factors: riskAssessment.factors || [],
+        score: riskAssessment.score ?? 0,
+        lastUpdated: this.toDate(riskAssessment.lastUpdated) || createdAt
+      },
+      resubmissionCount: data.resubmissionCount ?? 0
+    } as VerificationProcess;
+  }
+
+  private static systemMessageFromFirestore(id: string, data: DocumentData): SystemMessage {
+    return {
+      ...data,
+      id,
+      createdAt: this.toDate(data.createdAt) || new Date(),
+      sentAt: this.toDate(data.sentAt),
+      deliveredAt: this.toDate(data.deliveredAt),
+      readAt: this.toDate(data.readAt)
+    } as SystemMessage;
+  }
+
+  private static userMessageFromFirestore(id: string, data: DocumentData): UserMessage {
+    return {
+      ...data,
+      id,
+      createdAt: this.toDate(data.createdAt) || new Date(),
+      readAt: this.toDate(data.readAt),
+      respondedAt: this.toDate(data.respondedAt)
+    } as UserMessage;
+  }
+
+  private static templateFromFirestore(id: string, data: DocumentData): MessageTemplate {
+    return {
+      ...data,
+      id,
+      variables: data.variables || [],
+      isActive: data.isActive ?? true,
+      createdAt: this.toDate(data.createdAt) || new Date(),
+      updatedAt: this.toDate(data.updatedAt) || new Date()
+    } as MessageTemplate;
+  }
 
-    // Return cleanup function
-    return () => {
-      ws.close();
+  private static rejectionReasonFromFirestore(id: string, data: DocumentData): RejectionReason {
+    return {
+      id,
+      category: data.category || 'Other',
+      reason: data.reason || '',
+      template: data.template || '',
+      requiresResubmission: data.requiresResubmission ?? false,
+      isActive: data.isActive ?? true
     };
   }
 }
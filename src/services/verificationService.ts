@@ -24,6 +24,25 @@ import {
   deleteObject 
 } from 'firebase/storage';
 import { db, storage } from '../config/firebase';
+import { DesignerDirectoryService } from './designerDirectoryService';
+import { VerificationManagementService } from './verificationManagementService';
+import {
+  VerificationFileType,
+  VerificationFormData,
+  VerificationTextField,
+  VERIFICATION_FORM_LABELS,
+  VERIFICATION_FILE_LABELS,
+  getUnlockedFields
+} from '../types/verification';
+import {
+  validate,
+  validatePartial,
+  getErrorMessages,
+  validateVerificationFile,
+  verificationFormSchema,
+  verificationSubmissionSchema,
+  verificationResubmissionSchema
+} from '../utils/validation';
 
 // Types for verification data
 export interface VerificationSubmission {
@@ -51,21 +70,59 @@ export interface VerificationSubmission {
   // File URLs (after upload)
   national_id_url?: string;
   sample_project_url?: string;
+  national_id_checksum?: string;
+  sample_project_checksum?: string;
   
   // Metadata
   status: 'pending' | 'approved' | 'rejected' | 'requires_more_info';
   priority: 'low' | 'medium' | 'high' | 'urgent';
   submitted_at: Timestamp;
   updated_at: Timestamp;
+  review_notes?: string;
   
   // Terms
   terms_accepted: boolean;
+
+  // Resubmissions, oldest previous request first
+  previous_request_ids?: string[];
+  resubmission_count?: number;
+
+  // Set while a reviewer waits for more information, mirrored from the review process
+  info_request?: VerificationInfoRequest;
+}
+
+export interface VerificationInfoRequest {
+  required_fields: string[]; // Keys of MORE_INFO_FIELDS
+  message: string;
+  deadline?: Timestamp;
+  requested_at: Timestamp;
 }
 
+export type VerificationSubmissionRecord = VerificationSubmission & { id: string };
+
+export type InfoResponseChanges = Partial<Pick<VerificationFormData, VerificationTextField>>;
+
+// A reviewer's rejection lets the designer submit again; requests for more information are answered in place
+export const RESUBMITTABLE_STATUSES: VerificationSubmission['status'][] = ['rejected'];
+
+// Whether the designer answers this request through the more-information form
+export const hasOpenInfoRequest = (
+  verification: VerificationSubmissionRecord
+): verification is VerificationSubmissionRecord & { info_request: VerificationInfoRequest } => {
+  return verification.status === 'requires_more_info' && !!verification.info_request;
+};
+
+// Requests returned for more information before reviewers listed what they need are resubmitted in full
+export const canResubmit = (verification: VerificationSubmissionRecord): boolean => {
+  return RESUBMITTABLE_STATUSES.includes(verification.status) ||
+    (verification.status === 'requires_more_info' && !verification.info_request);
+};
+
 export interface FileUploadResult {
   url: string;
   filename: string;
   size: number;
+  checksum: string; // SHA-256 of the file contents
 }
 
 class VerificationService {
@@ -102,6 +159,11 @@ class VerificationService {
         throw new Error('User ID mismatch - cannot upload files for another user');
       }
 
+      const fileError = validateVerificationFile(file, fileType);
+      if (fileError) {
+        throw new Error(fileError);
+      }
+
       console.log(`📤 Starting ${fileType} upload for user:`, userId);
       console.log('📁 File details:', {
         name: file.name,
@@ -144,7 +206,8 @@ class VerificationService {
       return {
         url: downloadURL,
         filename: filename,
-        size: file.size
+        size: file.size,
+        checksum: await this.getChecksum(file)
       };
     } catch (error) {
       console.error(`❌ Error uploading ${fileType}:`, error);
@@ -159,11 +222,13 @@ class VerificationService {
 
   /**
    * Submit verification request to Firestore
+   * A resubmission links to the request it replaces and keeps its documents unless new files are picked
    */
   async submitVerificationRequest(
     formData: any, 
     userId: string, 
-    userEmail: string
+    userEmail: string,
+    previous: VerificationSubmissionRecord | null = null
   ): Promise<{ success: boolean; id?: string; error?: string }> {
     try {
       console.log('🔄 Starting verification submission for user:', userId);
@@ -175,10 +240,27 @@ class VerificationService {
         hasSampleProject: formData.sample_project instanceof File,
         softwareProficiency: formData.software_proficiency?.length || 0
       });
+
+      if (previous && (previous.userId !== userId || !canResubmit(previous))) {
+        return {
+          success: false,
+          error: 'This verification request cannot be resubmitted'
+        };
+      }
+
+      const validation = validate(previous ? verificationResubmissionSchema : verificationSubmissionSchema, formData);
+      if (!validation.isValid) {
+        return {
+          success: false,
+          error: getErrorMessages(validation.errors).join(', ')
+        };
+      }
       
       // Upload files first
-      let national_id_url = '';
-      let sample_project_url = '';
+      let national_id_url = previous?.national_id_url || '';
+      let sample_project_url = previous?.sample_project_url || '';
+      let national_id_checksum = previous?.national_id_checksum;
+      let sample_project_checksum = previous?.sample_project_checksum;
       
       if (formData.national_id instanceof File) {
         console.log('📤 Uploading national ID file:', {
@@ -188,6 +270,7 @@ class VerificationService {
         });
         const nationalIdResult = await this.uploadFile(formData.national_id, userId, 'national_id');
         national_id_url = nationalIdResult.url;
+        national_id_checksum = nationalIdResult.checksum;
         console.log('✅ National ID uploaded successfully:', national_id_url);
       }
       
@@ -199,6 +282,7 @@ class VerificationService {
         });
         const sampleProjectResult = await this.uploadFile(formData.sample_project, userId, 'sample_project');
         sample_project_url = sampleProjectResult.url;
+        sample_project_checksum = sampleProjectResult.checksum;
         console.log('✅ Sample project uploaded successfully:', sample_project_url);
       }
       
@@ -228,6 +312,8 @@ class VerificationService {
         // File URLs
         national_id_url,
         sample_project_url,
+        ...(national_id_checksum && { national_id_checksum }),
+        ...(sample_project_checksum && { sample_project_checksum }),
         
         // Metadata
         status: 'pending',
@@ -236,7 +322,12 @@ class VerificationService {
         updated_at: serverTimestamp() as Timestamp,
         
         // Terms
-        terms_accepted: formData.terms_accepted || false
+        terms_accepted: formData.terms_accepted || false,
+
+        ...(previous && {
+          previous_request_ids: [...(previous.previous_request_ids || []), previous.id],
+          resubmission_count: (previous.resubmission_count || 0) + 1
+        })
       };
       
       console.log('💾 Saving verification data to Firestore...');
@@ -256,6 +347,13 @@ class VerificationService {
       
       console.log('✅ Verification request saved successfully with ID:', docRef.id);
       console.log('📊 Document saved to collection: verification_requests');
+
+      // Open the review process admins work from; rerunning the migration picks up any that fail here
+      try {
+        await VerificationManagementService.createProcessFromSubmission(docRef.id, verificationData);
+      } catch (processError) {
+        console.warn('⚠️ Verification process could not be created:', processError);
+      }
       
       // Also update user profile to indicate verification is pending
       await this.updateUserVerificationStatus(userId, 'pending');
@@ -287,8 +385,9 @@ class VerificationService {
   async updateUserVerificationStatus(userId: string, status: 'pending' | 'approved' | 'rejected'): Promise<void> {
     try {
       const userRef = doc(db, 'users', userId);
+      // Profiles only distinguish verified from unverified designers
       await updateDoc(userRef, {
-        designer_verification_status: status,
+        designer_verification_status: status === 'approved' ? 'verified' : 'unverified',
         verification_updated_at: serverTimestamp()
       });
       console.log('✅ User verification status updated to:', status);
@@ -301,7 +400,7 @@ class VerificationService {
   /**
    * Get verification request by user ID
    */
-  async getVerificationByUserId(userId: string): Promise<VerificationSubmission | null> {
+  async getVerificationByUserId(userId: string): Promise<VerificationSubmissionRecord | null> {
     try {
       console.log('🔍 Searching for verification request for user:', userId);
       
@@ -320,7 +419,7 @@ class VerificationService {
         const docs = querySnapshot.docs.map(doc => ({
           ...doc.data(),
           id: doc.id
-        })) as (VerificationSubmission & { id: string })[];
+        })) as VerificationSubmissionRecord[];
         
         // Sort by submitted_at descending (most recent first)
         docs.sort((a, b) => {
@@ -330,7 +429,7 @@ class VerificationService {
         });
         
         console.log('✅ Found verification request:', docs[0].id);
-        return docs[0] as VerificationSubmission & { id: string };
+        return docs[0];
       }
       
       console.log('❌ No verification request found for user');
@@ -343,24 +442,76 @@ class VerificationService {
   }
 
   /**
-   * Get all verification requests (admin only)
+   * Get the user's latest verification request if a reviewer returned it for resubmission
+   */
+  async getResubmittableVerification(userId: string): Promise<VerificationSubmissionRecord | null> {
+    const verification = await this.getVerificationByUserId(userId);
+    return verification && canResubmit(verification) ? verification : null;
+  }
+
+  /**
+   * Answer a reviewer's request for more information on the same request
+   * Only the fields and documents the reviewer asked for are taken from the form, and every one is required
    */
-  async getAllVerificationRequests(): Promise<VerificationSubmission[]> {
+  async respondToInfoRequest(
+    verification: VerificationSubmissionRecord,
+    formData: InfoResponseChanges,
+    files: Partial<Record<VerificationFileType, File | null>>,
+    userId: string
+  ): Promise<{ success: boolean; error?: string }> {
     try {
-      const q = query(
-        collection(db, 'verification_requests'),
-        orderBy('submitted_at', 'desc')
-      );
-      
-      const querySnapshot = await getDocs(q);
-      
-      return querySnapshot.docs.map(doc => ({
-        ...doc.data(),
-                id: doc.id
-      })) as (VerificationSubmission & { id: string })[];
+      if (verification.userId !== userId || !hasOpenInfoRequest(verification)) {
+        return {
+          success: false,
+          error: 'This verification request is not waiting for more information'
+        };
+      }
+
+      const unlocked = getUnlockedFields(verification.info_request.required_fields);
+      const changes: InfoResponseChanges = {};
+      const errors: string[] = [];
+
+      for (const field of unlocked.formFields) {
+        const value = formData[field];
+        const isEmpty = Array.isArray(value) ? value.length === 0 : !value?.trim();
+        if (isEmpty) {
+          errors.push(`${VERIFICATION_FORM_LABELS[field]} is required`);
+        } else {
+          Object.assign(changes, { [field]: value });
+        }
+      }
+
+      for (const fileType of unlocked.files) {
+        const file = files[fileType];
+        const fileError = file ? validateVerificationFile(file, fileType) : `Please upload your ${VERIFICATION_FILE_LABELS[fileType]}`;
+        if (fileError) {
+          errors.push(fileError);
+        }
+      }
+
+      errors.push(...getErrorMessages(validatePartial<VerificationFormData>(verificationFormSchema, changes).errors));
+      if (errors.length > 0) {
+        return {
+          success: false,
+          error: errors.join(', ')
+        };
+      }
+
+      const uploads: Partial<Record<VerificationFileType, FileUploadResult>> = {};
+      for (const fileType of unlocked.files) {
+        uploads[fileType] = await this.uploadFile(files[fileType] as File, userId, fileType);
+      }
+
+      await VerificationManagementService.recordInfoResponse(verification.id, userId, changes, uploads);
+
+      console.log('✅ Additional information submitted for verification request:', verification.id);
+      return { success: true };
     } catch (error) {
-      console.error('Error fetching verification requests:', error);
-      throw error;
+      console.error('❌ Error responding to information request:', error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to submit additional information'
+      };
     }
   }
 
@@ -387,6 +538,12 @@ class VerificationService {
       if (verificationDoc.exists()) {
         const data = verificationDoc.data();
         await this.updateUserVerificationStatus(data.userId, status === 'approved' ? 'approved' : status === 'rejected' ? 'rejected' : 'pending');
+
+        try {
+          await DesignerDirectoryService.syncDesigner(data.userId);
+        } catch (directoryError) {
+          console.warn('⚠️ Designer directory could not be updated:', directoryError);
+        }
       }
       
       console.log('✅ Verification status updated to:', status);
@@ -514,56 +671,12 @@ class VerificationService {
     }
   }
 
-  /**
-   * Get verification requests by status (admin only)
-   */
-  async getVerificationRequestsByStatus(status: 'pending' | 'approved' | 'rejected' | 'requires_more_info'): Promise<VerificationSubmission[]> {
-    try {
-      const q = query(
-        collection(db, 'verification_requests'),
-        where('status', '==', status),
-        orderBy('submitted_at', 'desc')
-      );
-      
-      const querySnapshot = await getDocs(q);
-      
-      return querySnapshot.docs.map(doc => ({
-        ...doc.data(),
-        id: doc.id
-      })) as (VerificationSubmission & { id: string })[];
-    } catch (error) {
-      console.error('❌ Error fetching verification requests by status:', error);
-      throw error;
-    }
-  }
-
   /**
    * Validate file before upload
    */
-  validateFile(file: File, fileType: 'national_id' | 'sample_project'): { isValid: boolean; error?: string } {
-    // Check file size (max 10MB)
-    const maxSize = 10 * 1024 * 1024; // 10MB
-    if (file.size > maxSize) {
-      return {
-        isValid: false,
-        error: 'File size must be less than 10MB'
-      };
-    }
-
-    // Check file type
-    const allowedTypes = {
-      national_id: ['image/jpeg', 'image/jpg', 'image/png', 'application/pdf'],
-      sample_project: ['image/jpeg', 'image/jpg', 'image/png', 'application/pdf', 'application/zip', 'application/x-zip-compressed']
-    };
-
-    if (!allowedTypes[fileType].includes(file.type)) {
-      return {
-        isValid: false,
-        error: `Invalid file type. Allowed types: ${allowedTypes[fileType].join(', ')}`
-      };
-    }
-
-    return { isValid: true };
+  validateFile(file: File, fileType: VerificationFileType): { isValid: boolean; error?: string } {
+    const error = validateVerificationFile(file, fileType);
+    return error ? { isValid: false, error } : { isValid: true };
   }
 
   /**
@@ -579,6 +692,16 @@ class VerificationService {
     return parseFloat((bytes / Math.pow(k, i)).toFixed(2)) + ' ' + sizes[i];
   }
 
+  /**
+   * SHA-256 of a file, so reviewers can spot the same document submitted by different accounts
+   */
+  private async getChecksum(file: File): Promise<string> {
+    const digest = await crypto.subtle.digest('SHA-256', await file.arrayBuffer());
+    return Array.from(new Uint8Array(digest))
+      .map(byte => byte.toString(16).padStart(2, '0'))
+      .join('');
+  }
+
   /**
    * Get file extension from filename
    */
@@ -0,0 +1,81 @@
+// Designer availability schedule and capacity definitions
+import { DesignerAvailability } from './designerDirectory';
+
+export type Weekday = 'monday' | 'tuesday' | 'wednesday' | 'thursday' | 'friday' | 'saturday' | 'sunday';
+
+export interface WorkingHours {
+  enabled: boolean;
+  start: string; // 'HH:MM'
+  end: string; // 'HH:MM'
+}
+
+export type WeeklySchedule = Record<Weekday, WorkingHours>;
+
+export interface TimeOffBlock {
+  id: string;
+  start: Date;
+  end: Date;
+  reason: string;
+}
+
+export interface AvailabilitySettings {
+  designerId: string;
+  schedule: WeeklySchedule;
+  timeOff: TimeOffBlock[];
+  maxConcurrentProjects: number;
+  activeProjects: number; // In-progress assignments, maintained with request status changes
+  updatedAt: Date;
+}
+
+// The request or order whose status change moved the active project counter
+export interface AssignmentSource {
+  type: 'request' | 'order';
+  id: string;
+}
+
+export interface CreateTimeOffData {
+  start: Date;
+  end: Date;
+  reason: string;
+}
+
+export const DEFAULT_MAX_CONCURRENT_PROJECTS = 3;
+export const MAX_CONCURRENT_PROJECTS_LIMIT = 20;
+
+export const WEEKDAYS: Weekday[] = ['monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday', 'sunday'];
+
+export const WEEKDAY_LABELS: Record<Weekday, string> = {
+  monday: 'Monday',
+  tuesday: 'Tuesday',
+  wednesday: 'Wednesday',
+  thursday: 'Thursday',
+  friday: 'Friday',
+  saturday: 'Saturday',
+  sunday: 'Sunday'
+};
+
+// Helper functions for availability
+export const defaultWeeklySchedule = (): WeeklySchedule => {
+  return WEEKDAYS.reduce((schedule, day) => ({
+    ...schedule,
+    [day]: { enabled: day !== 'saturday' && day !== 'sunday', start: '09:00', end: '17:00' }
+  }), {} as WeeklySchedule);
+};
+
+export const isOnTimeOff = (timeOff: TimeOffBlock[], at: Date = new Date()): boolean => {
+  return timeOff.some(block => block.start <= at && at <= block.end);
+};
+
+export const hasCapacity = (settings: AvailabilitySettings): boolean => {
+  return settings.activeProjects < settings.maxConcurrentProjects;
+};
+
+/**
+ * Derives the directory availability label from the schedule, time off and active assignments
+ */
+export const computeAvailability = (settings: AvailabilitySettings, at: Date = new Date()): DesignerAvailability => {
+  if (isOnTimeOff(settings.timeOff, at) || !WEEKDAYS.some(day => settings.schedule[day].enabled)) {
+    return 'unavailable';
+  }
+  return hasCapacity(settings) ? 'available' : 'busy';
+};
@@ -0,0 +1,231 @@
+// Conversation and message definitions for real-time messaging
+
+import { UserProfile, USER_TYPE_LABELS } from './user';
+
+export type MessageType = 'text' | 'image' | 'file' | 'system';
+
+export type MessageStatus = 'sent' | 'delivered' | 'read';
+
+export interface ConversationParticipant {
+  id: string;
+  name: string;
+  avatar: string;
+  role: string;
+}
+
+export interface MessageAttachment {
+  id: string;
+  name: string;
+  type: string;
+  size: number;
+  url: string;
+  path?: string;
+  thumbnailUrl?: string | null;
+}
+
+export interface AttachmentUploadProgress {
+  fileName: string;
+  bytesTransferred: number;
+  totalBytes: number;
+  progress: number; // 0-100
+}
+
+// Snapshot of the parent taken when the reply is sent, so the quote survives later edits or deletion
+export interface MessageReplyTo {
+  id: string;
+  content: string;
+  senderName: string;
+  senderId?: string;
+  type?: MessageType;
+}
+
+export type QuoteState = 'original' | 'edited' | 'deleted' | 'unavailable';
+
+export interface ResolvedQuote {
+  content: string;
+  senderName: string;
+  state: QuoteState;
+}
+
+export interface Message {
+  id: string;
+  conversationId: string;
+  content: string;
+  timestamp: Date;
+  senderId: string;
+  senderName: string;
+  senderAvatar: string;
+  type: MessageType;
+  deliveredTo: string[];
+  readBy: string[];
+  attachments?: MessageAttachment[];
+  replyTo?: MessageReplyTo | null;
+  replyCount: number;
+  editedAt?: Date | null;
+  deletedAt?: Date | null;
+}
+
+export interface ConversationLastMessage {
+  content: string;
+  timestamp: Date;
+  senderId: string;
+}
+
+export interface Conversation {
+  id: string;
+  participantIds: string[];
+  participants: ConversationParticipant[];
+  lastMessage: ConversationLastMessage | null;
+  unreadCounts: Record<string, number>;
+  pinnedBy: string[];
+  archivedBy: string[];
+  projectId?: string | null;
+  projectTitle?: string | null;
+  createdBy: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface CreateConversationOptions {
+  conversationId?: string; // Fixed ID for conversations that must exist at most once
+  projectId?: string;
+  projectTitle?: string;
+}
+
+export interface SendMessageOptions {
+  type?: MessageType;
+  attachments?: MessageAttachment[];
+  replyToId?: string | null;
+}
+
+export const MAX_QUOTE_LENGTH = 200;
+
+// Attachment policy - keep in sync with the conversations block in storage.rules
+export const MAX_ATTACHMENT_SIZE = 25 * 1024 * 1024; // 25MB
+export const MAX_ATTACHMENTS_PER_MESSAGE = 5;
+
+export const ALLOWED_ATTACHMENT_TYPES: Record<string, string> = {
+  'image/jpeg': 'JPEG image',
+  'image/png': 'PNG image',
+  'image/gif': 'GIF image',
+  'image/webp': 'WebP image',
+  'application/pdf': 'PDF document',
+  'application/zip': 'ZIP archive',
+  'application/x-zip-compressed': 'ZIP archive',
+  'application/acad': 'AutoCAD drawing',
+  'application/x-acad': 'AutoCAD drawing',
+  'image/vnd.dwg': 'AutoCAD drawing',
+  'application/dxf': 'DXF drawing',
+  'image/vnd.dxf': 'DXF drawing'
+};
+
+// Browsers usually report CAD files with an empty or generic type, so these are resolved by extension
+export const CAD_ATTACHMENT_TYPES: Record<string, string> = {
+  dwg: 'image/vnd.dwg',
+  dxf: 'image/vnd.dxf'
+};
+
+export const ATTACHMENT_ACCEPT = [
+  ...Object.keys(ALLOWED_ATTACHMENT_TYPES),
+  ...Object.keys(CAD_ATTACHMENT_TYPES).map(ext => `.${ext}`)
+].join(',');
+
+/**
+ * Resolves the content type used for a file, falling back to its extension for CAD formats
+ */
+export const resolveAttachmentType = (file: File): string => {
+  if (file.type && file.type !== 'application/octet-stream') {
+    return file.type;
+  }
+  const extension = file.name.split('.').pop()?.toLowerCase() || '';
+  return CAD_ATTACHMENT_TYPES[extension] || file.type || 'application/octet-stream';
+};
+
+/**
+ * Checks a file against the attachment policy
+ * @returns An error message, or null when the file is allowed
+ */
+export const validateAttachment = (file: File): string | null => {
+  if (file.size === 0) {
+    return `${file.name} is empty`;
+  }
+  if (file.size > MAX_ATTACHMENT_SIZE) {
+    return `${file.name} exceeds the ${formatFileSize(MAX_ATTACHMENT_SIZE)} limit`;
+  }
+  if (!ALLOWED_ATTACHMENT_TYPES[resolveAttachmentType(file)]) {
+    return `${file.name} is not a supported file type`;
+  }
+  return null;
+};
+
+export const isImageAttachment = (attachment: Pick<MessageAttachment, 'type'>): boolean => {
+  return attachment.type.startsWith('image/') && !Object.values(CAD_ATTACHMENT_TYPES).includes(attachment.type);
+};
+
+export const formatFileSize = (bytes: number): string => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+};
+
+// Helper functions for per-participant conversation state
+export const getUnreadCount = (conversation: Conversation, userId: string): number => {
+  return conversation.unreadCounts[userId] || 0;
+};
+
+export const isPinnedBy = (conversation: Conversation, userId: string): boolean => {
+  return conversation.pinnedBy.includes(userId);
+};
+
+export const isArchivedBy = (conversation: Conversation, userId: string): boolean => {
+  return conversation.archivedBy.includes(userId);
+};
+
+export const getOtherParticipants = (conversation: Conversation, userId: string): ConversationParticipant[] => {
+  return conversation.participants.filter(p => p.id !== userId);
+};
+
+/**
+ * Status of a message as seen by its sender:
+ * read once every other participant has read it, delivered once every other participant received it
+ */
+export const getMessageStatus = (message: Message, conversation: Conversation): MessageStatus => {
+  const recipients = conversation.participantIds.filter(id => id !== message.senderId);
+
+  if (recipients.length > 0 && recipients.every(id => message.readBy.includes(id))) {
+    return 'read';
+  }
+  if (recipients.length > 0 && recipients.every(id => message.deliveredTo.includes(id))) {
+    return 'delivered';
+  }
+  return 'sent';
+};
+
+export const toConversationParticipant = (profile: UserProfile): ConversationParticipant => ({
+  id: profile.uid,
+  name: profile.full_name,
+  avatar: profile.profile_picture_url || '',
+  role: USER_TYPE_LABELS[profile.user_type]
+});
+
+export const isDeletedMessage = (message: Message): boolean => {
+  return !!message.deletedAt;
+};
+
+/**
+ * Builds the quote shown above a reply
+ * Prefers the live parent when it is loaded and falls back to the snapshot taken at reply time,
+ * which is blanked when the parent is deleted
+ */
+export const resolveQuote = (replyTo: MessageReplyTo, parent?: Message): ResolvedQuote => {
+  if ((parent && isDeletedMessage(parent)) || !replyTo.content) {
+    return { content: 'This message was deleted', senderName: replyTo.senderName, state: 'deleted' };
+  }
+  if (parent && parent.editedAt) {
+    return { content: replyTo.content, senderName: replyTo.senderName, state: 'edited' };
+  }
+  if (!parent) {
+    return { content: replyTo.content, senderName: replyTo.senderName, state: 'unavailable' };
+  }
+  return { content: replyTo.content, senderName: replyTo.senderName, state: 'original' };
+};
@@ -0,0 +1,107 @@
+// Designer directory definitions
+// Entries are denormalized from `users` and approved `verification_requests` so they can be filtered server-side
+
+export type ExperienceBand = '0-1' | '2-5' | '6-10' | '11-15' | '16+';
+
+export type DesignerAvailability = 'available' | 'busy' | 'unavailable';
+
+export type PriceBand = 'under_1000' | '1000_5000' | '5000_20000' | '20000_plus';
+
+export type DirectorySort = 'rating' | 'price' | 'experience';
+
+export interface DesignerDirectoryEntry {
+  id: string; // Designer's user ID
+  name: string;
+  avatar: string;
+  specialization: string;
+  specializationDescription: string;
+  experienceBand: ExperienceBand | null;
+  experienceYears: number; // Lower bound of the band, used for sorting
+  software: string[];
+  portfolioUrl: string;
+  education: string;
+  certifications: string;
+  rating: number;
+  reviewCount: number;
+  completedProjects: number;
+  completionRate: number | null; // Mirrored from designer stats
+  startingPrice: number | null; // Cheapest active project package
+  priceBand: PriceBand | null;
+  availability: DesignerAvailability;
+  verifiedAt: Date;
+  updatedAt: Date;
+}
+
+export interface DesignerDirectoryFilters {
+  specialization?: string;
+  experienceBand?: ExperienceBand;
+  software?: string;
+  priceBand?: PriceBand;
+  availability?: DesignerAvailability;
+}
+
+export const DIRECTORY_PAGE_SIZE = 12;
+
+// Specializations offered on the verification form
+export const DESIGNER_SPECIALIZATIONS: Record<string, string> = {
+  residential: 'Residential Architecture',
+  commercial: 'Commercial Architecture',
+  industrial: 'Industrial Architecture',
+  landscape: 'Landscape Architecture',
+  interior: 'Interior Design',
+  urban_planning: 'Urban Planning',
+  sustainable: 'Sustainable Design',
+  restoration: 'Historic Restoration',
+  other: 'Other'
+};
+
+// Software offered on the verification form
+export const DESIGNER_SOFTWARE = [
+  'AutoCAD', 'Revit', 'SketchUp', '3ds Max',
+  'Rhino', 'ArchiCAD', 'Lumion', 'V-Ray',
+  'Photoshop', 'Illustrator', 'InDesign', 'Blender'
+];
+
+export const EXPERIENCE_BAND_LABELS: Record<ExperienceBand, string> = {
+  '0-1': '0-1 years',
+  '2-5': '2-5 years',
+  '6-10': '6-10 years',
+  '11-15': '11-15 years',
+  '16+': '16+ years'
+};
+
+export const PRICE_BAND_LABELS: Record<PriceBand, string> = {
+  under_1000: 'Under $1,000',
+  '1000_5000': '$1,000 - $5,000',
+  '5000_20000': '$5,000 - $20,000',
+  '20000_plus': '$20,000+'
+};
+
+export const AVAILABILITY_LABELS: Record<DesignerAvailability, string> = {
+  available: 'Available',
+  busy: 'Busy',
+  unavailable: 'Unavailable'
+};
+
+export const SORT_LABELS: Record<DirectorySort, string> = {
+  rating: 'Highest rated',
+  price: 'Lowest price',
+  experience: 'Most experienced'
+};
+
+// Helper functions for deriving directory fields
+export const isExperienceBand = (value: string): value is ExperienceBand => {
+  return value in EXPERIENCE_BAND_LABELS;
+};
+
+export const getExperienceYears = (band: ExperienceBand | null): number => {
+  return band ? parseInt(band, 10) : 0;
+};
+
+export const getPriceBand = (price: number | null): PriceBand | null => {
+  if (price === null) return null;
+  if (price < 1000) return 'under_1000';
+  if (price < 5000) return '1000_5000';
+  if (price < 20000) return '5000_20000';
+  return '20000_plus';
+};
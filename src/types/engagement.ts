@@ -0,0 +1,28 @@
+// Project engagement definitions
+// Views are counted once per viewer per day; favorites double as the buyer's wishlist
+
+export interface FavoriteProject {
+  id: string; // `${userId}_${projectId}`
+  userId: string;
+  projectId: string;
+  // Copied when favorited so the list renders without loading every project
+  projectTitle: string;
+  primaryImageUrl: string; // Card rendition when available
+  primaryImageBlurhash: string | null;
+  category: string;
+  price: number;
+  createdAt: Date;
+}
+
+// Helper functions for engagement document IDs
+export const getViewDay = (date: Date): string => {
+  return date.toISOString().slice(0, 10);
+};
+
+export const getProjectViewId = (projectId: string, viewerId: string, day: string): string => {
+  return `${projectId}_${viewerId}_${day}`;
+};
+
+export const getFavoriteId = (userId: string, projectId: string): string => {
+  return `${userId}_${projectId}`;
+};
@@ -0,0 +1,90 @@
+// Escrow ledger definitions for milestone payments on project requests
+// All amounts are integers in minor currency units (e.g. cents)
+
+export type EscrowTransactionType = 'fund' | 'release' | 'refund';
+
+export type CurrencyCode = 'USD';
+
+export const DEFAULT_CURRENCY: CurrencyCode = 'USD';
+
+export interface EscrowTransaction {
+  id: string;
+  requestId: string;
+  milestoneId: string;
+  requesterId: string;
+  designerId: string;
+  type: EscrowTransactionType;
+  amount: number;
+  currency: CurrencyCode;
+  provider: string;
+  providerRef: string;
+  actorId: string;
+  note?: string | null;
+  balanceAfter: EscrowBalance;
+  createdAt: Date;
+}
+
+export interface EscrowBalance {
+  funded: number;
+  released: number;
+  refunded: number;
+}
+
+// A provider movement checked against the balance but not yet settled on the ledger
+// While one is set no other movement can start on the milestone, until it goes stale
+export interface EscrowReservation {
+  type: EscrowTransactionType;
+  amount: number;
+  actorId: string;
+  reference: string;
+  reservedAt: Date;
+}
+
+// How long a reservation blocks the milestone before another movement may replace it
+// Must match the duration checked in the escrow_accounts rules
+export const ESCROW_RESERVATION_TIMEOUT_MS = 15 * 60 * 1000;
+
+// Running totals per milestone, derived from the ledger and kept in sync inside each write
+export interface EscrowAccount extends EscrowBalance {
+  id: string;
+  requestId: string;
+  milestoneId: string;
+  requesterId: string;
+  designerId: string;
+  currency: CurrencyCode;
+  milestoneAmount: number;
+  pending?: EscrowReservation | null;
+  lastTransactionId?: string | null;
+  updatedAt: Date;
+}
+
+// Which side of a request a ledger reader is on
+export type EscrowParty = 'requester' | 'designer';
+
+export interface EscrowRevenueSummary {
+  totalFunded: number;
+  totalReleased: number;
+  totalRefunded: number;
+  heldBalance: number;
+  releasedLast30Days: number;
+  fundedMilestones: number;
+  releasedMilestones: number;
+  requestsWithReleases: number;
+}
+
+// Helper functions for working with integer amounts
+export const toMinorUnits = (amount: number): number => Math.round(amount * 100);
+
+export const fromMinorUnits = (amount: number): number => amount / 100;
+
+export const getHeldBalance = (balance: EscrowBalance): number => {
+  return balance.funded - balance.released - balance.refunded;
+};
+
+export const isReservationStale = (reservation: EscrowReservation, now: number = Date.now()): boolean => {
+  return now - reservation.reservedAt.getTime() > ESCROW_RESERVATION_TIMEOUT_MS;
+};
+
+export const isValidAmount = (amount: number): boolean => {
+  return Number.isInteger(amount) && amount > 0;
+};
@@ -0,0 +1,45 @@
+// Project image definitions
+// Uploaded images are re-encoded in the browser into fixed renditions; the original file is never stored
+
+export type RenditionSize = 'thumbnail' | 'card' | 'full';
+
+export interface ImageRendition {
+  url: string;
+  width: number;
+  height: number;
+}
+
+export interface ImageRenditions {
+  thumbnail: ImageRendition;
+  card: ImageRendition;
+  full: ImageRendition;
+  blurhash: string; // Placeholder shown while a rendition loads
+}
+
+export const RENDITION_SIZES: RenditionSize[] = ['full', 'card', 'thumbnail'];
+
+// Longest edge in pixels; smaller images are never upscaled
+export const RENDITION_MAX_DIMENSIONS: Record<RenditionSize, number> = {
+  thumbnail: 320,
+  card: 800,
+  full: 2048
+};
+
+export const RENDITION_QUALITY = 0.82;
+
+// Originals can be large because only the renditions are uploaded
+export const MAX_SOURCE_IMAGE_SIZE = 25 * 1024 * 1024;
+
+// Helper functions for picking renditions
+export const findImageRenditions = (renditions: ImageRenditions[] | undefined, url: string): ImageRenditions | null => {
+  return renditions?.find(r => r.full.url === url) || null;
+};
+
+// Images uploaded before the pipeline only have their original URL
+export const getRenditionUrl = (renditions: ImageRenditions | null, size: RenditionSize, fallbackUrl: string): string => {
+  return renditions?.[size].url || fallbackUrl;
+};
+
+export const getRenditionUrls = (renditions: ImageRenditions): string[] => {
+  return RENDITION_SIZES.map(size => renditions[size].url);
+};
@@ -0,0 +1,105 @@
+// Order definitions for purchased project packages
+import { MessageAttachment } from './conversation';
+
+export type OrderStatus =
+  | 'pending'
+  | 'declined'
+  | 'in_progress'
+  | 'delivered'
+  | 'revision_requested'
+  | 'completed'
+  | 'cancelled';
+
+export interface OrderDelivery {
+  id: string;
+  message: string;
+  attachments: MessageAttachment[];
+  revision: number; // 0 for the first delivery, then the revision round it answers
+  deliveredAt: Date;
+}
+
+export interface RevisionRequest {
+  id: string;
+  note: string;
+  round: number;
+  requestedAt: Date;
+}
+
+export interface Order {
+  id: string;
+  projectId: string;
+  projectTitle: string;
+  projectVersion: number; // Package version the order was placed on
+  designerId: string;
+  designerName: string;
+  buyerId: string;
+  buyerName: string;
+  buyerAvatar: string;
+  // Terms of the purchased version are copied so later package edits don't change the order
+  price: number;
+  deliveryTimeline: string;
+  deliverables: string;
+  revisionsIncluded: number;
+  meetingsIncluded: number;
+  requirements: string;
+  attachments: MessageAttachment[];
+  revisionsUsed: number;
+  meetingsUsed: number;
+  deliveries: OrderDelivery[];
+  revisionRequests: RevisionRequest[];
+  status: OrderStatus;
+  conversationId: string | null;
+  declineReason: string | null;
+  cancellationReason: string | null;
+  createdAt: Date;
+  updatedAt: Date;
+  acceptedAt: Date | null;
+  completedAt: Date | null;
+  cancelledAt: Date | null;
+}
+
+export interface CreateOrderData {
+  requirements: string;
+  attachments: File[];
+}
+
+export const MIN_REQUIREMENTS_LENGTH = 20;
+
+// Allowed lifecycle transitions; declined, completed and cancelled are terminal
+export const ORDER_TRANSITIONS: Record<OrderStatus, OrderStatus[]> = {
+  pending: ['in_progress', 'declined', 'cancelled'],
+  declined: [],
+  in_progress: ['delivered', 'cancelled'],
+  delivered: ['revision_requested', 'completed'],
+  revision_requested: ['delivered', 'cancelled'],
+  completed: [],
+  cancelled: []
+};
+
+export const ORDER_STATUS_LABELS: Record<OrderStatus, string> = {
+  pending: 'Awaiting Designer',
+  declined: 'Declined',
+  in_progress: 'In Progress',
+  delivered: 'Delivered',
+  revision_requested: 'Revision Requested',
+  completed: 'Completed',
+  cancelled: 'Cancelled'
+};
+
+// Helper functions for lifecycle checks
+export const canTransitionOrder = (from: OrderStatus, to: OrderStatus): boolean => {
+  return ORDER_TRANSITIONS[from].includes(to);
+};
+
+// Orders the designer has accepted and not yet finished count against their capacity
+export const isActiveOrder = (order: Pick<Order, 'status'>): boolean => {
+  return order.status === 'in_progress' || order.status === 'delivered' || order.status === 'revision_requested';
+};
+
+export const getRemainingRevisions = (order: Order): number => {
+  return Math.max(0, order.revisionsIncluded - order.revisionsUsed);
+};
+
+export const getRemainingMeetings = (order: Order): number => {
+  return Math.max(0, order.meetingsIncluded - order.meetingsUsed);
+};
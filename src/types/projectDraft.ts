@@ -0,0 +1,58 @@
+// Project draft definitions
+// Drafts of the CreateNewProject wizard, kept on the device (with images) and in Firestore (fields only)
+
+export type ProjectDraftStatus = 'editing' | 'ready';
+
+export interface ProjectDraftFields {
+  title: string;
+  description: string;
+  category: string;
+  price: number;
+  deliveryTimeline: string;
+  deliverables: string;
+  meetingsCount: number;
+  revisionsCount: number;
+  customTags: string[];
+}
+
+export interface ProjectDraft {
+  id: string;
+  designerId: string;
+  fields: ProjectDraftFields;
+  currentStep: number;
+  status: ProjectDraftStatus; // 'ready' once the server accepted it for publishing
+  hasPrimaryImage: boolean;
+  additionalImageCount: number;
+  // Images only exist on the device that selected them
+  primaryImage: File | null;
+  additionalImages: File[];
+  savedRemotely: boolean;
+  updatedAt: Date;
+}
+
+export const EMPTY_DRAFT_FIELDS: ProjectDraftFields = {
+  title: '',
+  description: '',
+  category: '',
+  price: 0,
+  deliveryTimeline: '',
+  deliverables: '',
+  meetingsCount: 1,
+  revisionsCount: 2,
+  customTags: []
+};
+
+export const DRAFT_AUTOSAVE_DELAY_MS = 1000;
+
+// Helper functions for drafts
+export const getDraftTitle = (draft: Pick<ProjectDraft, 'fields'>): string => {
+  return draft.fields.title.trim() || 'Untitled project';
+};
+
+export const isDraftEmpty = (fields: ProjectDraftFields, imageCount: number): boolean => {
+  return imageCount === 0 && JSON.stringify(fields) === JSON.stringify(EMPTY_DRAFT_FIELDS);
+};
+
+export const hasMissingImages = (draft: ProjectDraft): boolean => {
+  return (draft.hasPrimaryImage && !draft.primaryImage) || draft.additionalImages.length < draft.additionalImageCount;
+};
@@ -0,0 +1,119 @@
+// Project request (brief) definitions for the service requester marketplace
+
+export type ProjectRequestStatus = 'draft' | 'active' | 'in_progress' | 'completed' | 'cancelled';
+
+export type ProjectRequestPriority = 'low' | 'medium' | 'high' | 'urgent';
+
+export type MilestoneStatus = 'pending' | 'in_progress' | 'completed';
+
+export interface ProjectRequestBudget {
+  min: number;
+  max: number;
+  type: 'fixed' | 'hourly';
+}
+
+export interface ProjectRequestMilestone {
+  id: string;
+  title: string;
+  status: MilestoneStatus;
+  dueDate: string;
+  amount: number;
+}
+
+export interface ProjectRequestClient {
+  name: string;
+  rating: number;
+  reviewCount: number;
+  avatar: string;
+}
+
+export interface AssignedDesigner {
+  uid: string;
+  name: string;
+  avatar: string;
+  rating: number;
+}
+
+export interface ProjectRequest {
+  id: string;
+  requesterId: string;
+  title: string;
+  description: string;
+  category: string;
+  budget: ProjectRequestBudget;
+  location: string;
+  timeline: string;
+  status: ProjectRequestStatus;
+  priority: ProjectRequestPriority;
+  skills: string[];
+  attachments: string[];
+  proposals: number;
+  views: number;
+  deadline: string;
+  client: ProjectRequestClient;
+  assignedDesigner?: AssignedDesigner | null;
+  acceptedProposalId?: string | null;
+  milestones?: ProjectRequestMilestone[];
+  createdAt: Date;
+  updatedAt: Date;
+  publishedAt?: Date | null;
+  startedAt?: Date | null;
+  completedAt?: Date | null;
+  cancelledAt?: Date | null;
+  cancellationReason?: string | null;
+}
+
+export interface CreateProjectRequestData {
+  title: string;
+  description: string;
+  category: string;
+  budget: ProjectRequestBudget;
+  location: string;
+  timeline: string;
+  priority: ProjectRequestPriority;
+  skills: string[];
+  attachments: string[];
+  deadline: string;
+  milestones?: ProjectRequestMilestone[];
+}
+
+// Fields a requester may still change once the request has been created
+export type ProjectRequestUpdate = Partial<CreateProjectRequestData>;
+
+// Allowed lifecycle transitions; completed and cancelled are terminal
+export const PROJECT_REQUEST_TRANSITIONS: Record<ProjectRequestStatus, ProjectRequestStatus[]> = {
+  draft: ['active', 'cancelled'],
+  active: ['in_progress', 'cancelled'],
+  in_progress: ['completed', 'cancelled'],
+  completed: [],
+  cancelled: []
+};
+
+export const PROJECT_REQUEST_STATUS_LABELS: Record<ProjectRequestStatus, string> = {
+  draft: 'Draft',
+  active: 'Active',
+  in_progress: 'In Progress',
+  completed: 'Completed',
+  cancelled: 'Cancelled'
+};
+
+export const PROJECT_REQUEST_CATEGORIES = [
+  'Residential',
+  'Commercial',
+  'Public',
+  'Industrial',
+  'Hospitality'
+] as const;
+
+// Helper functions for lifecycle checks
+export const canTransitionRequest = (from: ProjectRequestStatus, to: ProjectRequestStatus): boolean => {
+  return PROJECT_REQUEST_TRANSITIONS[from].includes(to);
+};
+
+export const isEditableRequest = (request: ProjectRequest | null): boolean => {
+  return request?.status === 'draft' || request?.status === 'active';
+};
+
+export const isTerminalRequest = (request: ProjectRequest | null): boolean => {
+  return request?.status === 'completed' || request?.status === 'cancelled';
+};
@@ -0,0 +1,159 @@
+// Project search definitions
+// Published packages are tokenized into `project_search_index` and matched client-side,
+// so search needs nothing beyond Firestore and runs the same against the emulator
+import { PriceBand } from './designerDirectory';
+
+export type TimelineBucket = 'up_to_1_week' | '1_2_weeks' | '2_4_weeks' | '1_3_months' | '3_months_plus';
+
+export type ProjectSearchSort = 'relevance' | 'newest' | 'price_low' | 'price_high';
+
+export interface ProjectSearchEntry {
+  id: string; // Project ID
+  designerId: string;
+  title: string;
+  summary: string; // Start of the description, for result cards
+  category: string;
+  price: number;
+  priceBand: PriceBand;
+  deliveryTimeline: string;
+  timelineBucket: TimelineBucket | null; // null when the free-text timeline can't be parsed
+  primaryImageUrl: string; // Card rendition when available
+  primaryImageBlurhash: string | null;
+  titleTokens: string[];
+  tokens: string[]; // Title, description, tags and category
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface ProjectSearchFilters {
+  category?: string;
+  priceBand?: PriceBand;
+  timelineBucket?: TimelineBucket;
+}
+
+export interface ProjectSearchQuery extends ProjectSearchFilters {
+  text: string;
+  sort?: ProjectSearchSort;
+}
+
+export interface ProjectSearchHit {
+  entry: ProjectSearchEntry;
+  score: number;
+}
+
+export interface FacetCount<T extends string = string> {
+  value: T;
+  count: number;
+}
+
+export interface ProjectSearchFacets {
+  category: FacetCount[];
+  priceBand: FacetCount<PriceBand>[];
+  timelineBucket: FacetCount<TimelineBucket>[];
+}
+
+export interface ProjectSearchResult {
+  hits: ProjectSearchHit[];
+  facets: ProjectSearchFacets;
+  total: number;
+}
+
+export const MIN_PREFIX_LENGTH = 2;
+export const SUMMARY_LENGTH = 160;
+
+// Match weights: a title hit counts double
+export const MATCH_SCORES = {
+  exact: 3,
+  prefix: 2,
+  fuzzy: 1
+} as const;
+
+export const TIMELINE_BUCKET_LABELS: Record<TimelineBucket, string> = {
+  up_to_1_week: 'Up to 1 week',
+  '1_2_weeks': '1-2 weeks',
+  '2_4_weeks': '2-4 weeks',
+  '1_3_months': '1-3 months',
+  '3_months_plus': '3+ months'
+};
+
+export const SEARCH_SORT_LABELS: Record<ProjectSearchSort, string> = {
+  relevance: 'Best match',
+  newest: 'Newest',
+  price_low: 'Lowest price',
+  price_high: 'Highest price'
+};
+
+// Words too common to help ranking
+const STOP_WORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'by', 'for', 'from', 'in', 'is',
+  'it', 'of', 'on', 'or', 'the', 'to', 'with', 'your', 'our', 'we', 'you'
+]);
+
+const TIMELINE_UNIT_DAYS: Record<string, number> = {
+  day: 1,
+  week: 7,
+  month: 30
+};
+
+// Helper functions for building and matching the index
+export const tokenize = (text: string): string[] => {
+  const tokens = text
+    .toLowerCase()
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .split(/[^a-z0-9]+/)
+    .filter(token => token.length > 0 && !STOP_WORDS.has(token));
+
+  return Array.from(new Set(tokens));
+};
+
+// Typos allowed per query token; short words must match exactly or by prefix
+export const getTypoTolerance = (token: string): number => {
+  if (token.length >= 8) return 2;
+  if (token.length >= 4) return 1;
+  return 0;
+};
+
+// Edit distance counting swapped neighbours as one typo; gives up once it exceeds maxDistance
+export const boundedEditDistance = (a: string, b: string, maxDistance: number): number => {
+  if (Math.abs(a.length - b.length) > maxDistance) return maxDistance + 1;
+
+  let beforePrevious: number[] = [];
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    let rowMin = i;
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost);
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        current[j] = Math.min(current[j], beforePrevious[j - 2] + 1);
+      }
+      rowMin = Math.min(rowMin, current[j]);
+    }
+    if (rowMin > maxDistance) return maxDistance + 1;
+    beforePrevious = previous;
+    previous = current;
+  }
+
+  return previous[b.length];
+};
+
+// Parses "7 days", "2-3 weeks" or "1 month" into days, using the upper end of a range
+export const parseTimelineDays = (timeline: string): number | null => {
+  const match = timeline.toLowerCase().match(/(\d+)(?:\s*-\s*(\d+))?\s*(day|week|month)/);
+  if (!match) return null;
+
+  const amount = parseInt(match[2] ?? match[1], 10);
+  return amount * TIMELINE_UNIT_DAYS[match[3]];
+};
+
+export const getTimelineBucket = (timeline: string): TimelineBucket | null => {
+  const days = parseTimelineDays(timeline);
+  if (days === null) return null;
+  if (days <= 7) return 'up_to_1_week';
+  if (days <= 14) return '1_2_weeks';
+  if (days <= 30) return '2_4_weeks';
+  if (days <= 90) return '1_3_months';
+  return '3_months_plus';
+};
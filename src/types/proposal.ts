@@ -0,0 +1,42 @@
+// Proposal definitions for designers bidding on project requests
+
+export type ProposalStatus = 'submitted' | 'shortlisted' | 'accepted' | 'declined' | 'withdrawn';
+
+export interface Proposal {
+  id: string;
+  requestId: string;
+  requestTitle: string;
+  requesterId: string;
+  designerId: string;
+  designerName: string;
+  designerAvatar: string;
+  designerRating: number;
+  price: number;
+  timeline: string;
+  coverLetter: string;
+  status: ProposalStatus;
+  createdAt: Date;
+  updatedAt: Date;
+  respondedAt?: Date | null;
+}
+
+export interface CreateProposalData {
+  price: number;
+  timeline: string;
+  coverLetter: string;
+}
+
+export const PROPOSAL_STATUS_LABELS: Record<ProposalStatus, string> = {
+  submitted: 'Submitted',
+  shortlisted: 'Shortlisted',
+  accepted: 'Accepted',
+  declined: 'Declined',
+  withdrawn: 'Withdrawn'
+};
+
+export const MIN_COVER_LETTER_LENGTH = 50;
+
+// Helper functions for proposal state checks
+export const isOpenProposal = (proposal: Proposal | null): boolean => {
+  return proposal?.status === 'submitted' || proposal?.status === 'shortlisted';
+};
@@ -0,0 +1,83 @@
+// Review and designer reputation definitions
+
+export type ReviewCriterion = 'quality' | 'communication' | 'timeliness' | 'value';
+
+export type ReviewScores = Record<ReviewCriterion, number>;
+
+export type ProjectOutcome = 'completed' | 'cancelled';
+
+export interface ReviewResponse {
+  content: string;
+  respondedAt: Date;
+}
+
+export interface Review {
+  id: string;
+  requestId: string;
+  designerId: string;
+  reviewerId: string;
+  reviewerName: string;
+  reviewerAvatar: string;
+  projectTitle: string;
+  scores: ReviewScores;
+  overall: number;
+  comment: string;
+  response: ReviewResponse | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface CreateReviewData {
+  scores: ReviewScores;
+  comment: string;
+}
+
+// Running totals kept per designer; averages are derived from the sums on read
+export interface DesignerStats {
+  designerId: string;
+  reviewCount: number;
+  ratingSum: number;
+  rating: number;
+  criteriaSums: ReviewScores;
+  criteriaAverages: ReviewScores;
+  completedProjects: number;
+  cancelledProjects: number;
+  completionRate: number | null; // Percentage of assigned projects that were completed
+  updatedAt: Date;
+}
+
+export const MIN_REVIEW_SCORE = 1;
+export const MAX_REVIEW_SCORE = 5;
+export const MIN_REVIEW_COMMENT_LENGTH = 20;
+export const MAX_REVIEW_COMMENT_LENGTH = 2000;
+
+export const REVIEW_CRITERIA: ReviewCriterion[] = ['quality', 'communication', 'timeliness', 'value'];
+
+export const REVIEW_CRITERION_LABELS: Record<ReviewCriterion, string> = {
+  quality: 'Quality of work',
+  communication: 'Communication',
+  timeliness: 'Timeliness',
+  value: 'Value for money'
+};
+
+// Helper functions for scoring
+export const isValidScore = (score: number): boolean => {
+  return Number.isInteger(score) && score >= MIN_REVIEW_SCORE && score <= MAX_REVIEW_SCORE;
+};
+
+export const getOverallScore = (scores: ReviewScores): number => {
+  const total = REVIEW_CRITERIA.reduce((sum, criterion) => sum + scores[criterion], 0);
+  return Math.round((total / REVIEW_CRITERIA.length) * 100) / 100;
+};
+
+export const getCompletionRate = (completed: number, cancelled: number): number | null => {
+  const finished = completed + cancelled;
+  return finished > 0 ? Math.round((completed / finished) * 100) : null;
+};
+
+export const emptyReviewScores = (): ReviewScores => ({
+  quality: 0,
+  communication: 0,
+  timeliness: 0,
+  value: 0
+});
@@ -23,6 +23,27 @@ export interface CreateUserProfileData {
   designer_verification_status?: DesignerVerificationStatus | null; // Explicitly allow null
 }
 
+// A role as stored on a profile: the type plus, for designers only, their verification status
+export interface UserRole {
+  user_type: UserType;
+  designer_verification_status: DesignerVerificationStatus | null;
+}
+
+export interface SignUpFormData {
+  fullName: string;
+  email: string;
+  password: string;
+  confirmPassword: string;
+  userType: UserType;
+  agreeToTerms: boolean;
+}
+
+export interface SignInFormData {
+  email: string;
+  password: string;
+  rememberMe: boolean;
+}
+
 // Role display configurations
 export const USER_TYPE_LABELS: Record<UserType, string> = {
   admin: 'Administrator',
@@ -67,4 +88,29 @@ export const canRequestServices = (userProfile: UserProfile | null): boolean =>
 
 export const canViewAnalytics = (userProfile: UserProfile | null): boolean => {
   return isAdmin(userProfile);
+};
+
+// Converters for profiles written in older shapes
+// Early clients stored verification inside user_type instead of designer_verification_status
+const LEGACY_DESIGNER_TYPES = new Map<unknown, DesignerVerificationStatus>([
+  ['designer_verified', 'verified'],
+  ['designer_unverified', 'unverified']
+]);
+
+export const toUserRole = (userType: unknown, verificationStatus?: unknown): UserRole => {
+  const legacyStatus = LEGACY_DESIGNER_TYPES.get(userType);
+  if (userType === 'designer' || legacyStatus) {
+    // A status written after the legacy type takes precedence over it
+    const status = verificationStatus === 'verified' || verificationStatus === 'unverified'
+      ? verificationStatus
+      : legacyStatus || 'unverified';
+    return { user_type: 'designer', designer_verification_status: status };
+  }
+  // Unknown types get the least privileged role
+  return { user_type: userType === 'admin' ? 'admin' : 'service_requester', designer_verification_status: null };
+};
+
+export const isLegacyUserRole = (userType: unknown, verificationStatus?: unknown): boolean => {
+  const role = toUserRole(userType, verificationStatus);
+  return role.user_type !== userType || role.designer_verification_status !== (verificationStatus ?? null);
 };
\ No newline at end of file
@@ -5,6 +5,11 @@
  * including database schemas for the three collections: verification_processes, system_messages, and user_messages
  */
 
+import { UserType, DesignerVerificationStatus, USER_TYPE_LABELS } from './user';
+
+// User types come from the canonical profile model
+export type { UserType };
+
 // ===== ENUMS =====
 
 export enum VerificationStatus {
@@ -23,12 +28,6 @@ export enum VerificationPriority {
   URGENT = 'urgent'
 }
 
-export enum UserType {
-  DESIGNER = 'designer',
-  SERVICE_REQUESTER = 'service_requester',
-  ADMIN = 'admin'
-}
-
 export enum RiskLevel {
   LOW = 'low',
   MEDIUM = 'medium',
@@ -63,19 +62,45 @@ export interface VerificationDocument {
   uploadedAt: Date;
   fileSize: number;
   mimeType: string;
+  checksum?: string; // SHA-256 of the file, used to spot the same document on several accounts
   verified: boolean;
   verificationNotes?: string;
 }
 
 export interface RiskAssessment {
   level: RiskLevel;
-  factors: string[];
+  factors: RiskFactor[];
   score: number; // 0-100
   lastUpdated: Date;
   assessedBy?: string;
   notes?: string;
 }
 
+/**
+ * Rule the risk scoring engine checks each request against
+ */
+export type RiskSignal =
+  | 'missing_documents'
+  | 'portfolio_url'
+  | 'duplicate_phone'
+  | 'duplicate_national_id'
+  | 'prior_rejections'
+  | 'name_mismatch'
+  | 'submission_velocity';
+
+/**
+ * A signal found on a request and the points it adds to the risk score
+ */
+export interface RiskFactor {
+  signal: RiskSignal;
+  category: typeof RISK_FACTORS[number];
+  weight: number; // Points added, the signal's configured weight scaled by how strongly it applies
+  explanation: string;
+}
+
+// Maximum points each signal can add; admins tune them
+export type RiskWeights = Record<RiskSignal, number>;
+
 export interface VerificationRequest {
   // Personal Information
   fullName: string;
@@ -105,6 +130,18 @@ export interface VerificationRequest {
   userAgent?: string;
 }
 
+/**
+ * A request for more information, kept on the process until the designer answers or the deadline passes
+ */
+export interface InfoRequest {
+  requiredFields: string[]; // Keys of MORE_INFO_FIELDS
+  message: string;
+  deadline?: Date;
+  requestedBy: string; // Admin user ID, notified when the designer answers
+  requestedAt: Date;
+  respondedAt?: Date;
+}
+
 export interface RejectionReason {
   id: string;
   category: string;
@@ -143,6 +180,7 @@ export interface VerificationProcess {
   reviewNotes?: string;
   rejectionReasons?: string[];
   rejectionDetails?: string;
+  infoRequest?: InfoRequest;
   
   // Risk Assessment
   riskAssessment: RiskAssessment;
@@ -224,6 +262,69 @@ export interface UserMessage {
   tags?: string[];
 }
 
+/**
+ * Subcollection: verification_processes/{processId}/audit_trail
+ * Immutable record of each review decision, written in the same transaction as the decision
+ */
+export interface VerificationAuditEntry {
+  id: string;
+  processId: string;
+  userId: string;
+  
+  // Decision
+  fromStatus: VerificationStatus;
+  toStatus: VerificationStatus;
+  reviewNotes?: string;
+  
+  // Side effects written with the decision
+  designerVerificationStatus?: DesignerVerificationStatus;
+  systemMessageId?: string;
+  changedFields?: string[]; // Form fields and documents a designer updated when answering a request for more information
+  
+  // Metadata
+  actorId: string; // admin user ID, the answering designer's ID, or 'system'
+  createdAt: Date;
+}
+
+// ===== RESUBMISSIONS =====
+
+export type ComparedVerificationField =
+  | 'fullName'
+  | 'email'
+  | 'phoneNumber'
+  | 'address'
+  | 'specialization'
+  | 'specializationDescription'
+  | 'experienceYears'
+  | 'softwareProficiency'
+  | 'portfolioUrl'
+  | 'certifications'
+  | 'education'
+  | 'additionalInfo';
+
+export interface VerificationFieldChange {
+  field: ComparedVerificationField;
+  previous: string;
+  current: string;
+}
+
+export interface VerificationDocumentChange {
+  type: DocumentType;
+  change: 'added' | 'removed' | 'replaced';
+  previous?: VerificationDocument;
+  current?: VerificationDocument;
+}
+
+/**
+ * What changed between a resubmission and the submission it replaces
+ */
+export interface SubmissionDiff {
+  previousProcessId: string;
+  previousStatus: VerificationStatus;
+  fields: VerificationFieldChange[];
+  documents: VerificationDocumentChange[];
+}
+
 // ===== COMPONENT INTERFACES =====
 
 export interface VerificationTableColumn {
@@ -252,12 +353,6 @@ export interface SortOptions {
   direction: 'asc' | 'desc';
 }
 
-export interface PaginationOptions {
-  page: number;
-  pageSize: number;
-  total: number;
-}
-
 export interface VerificationAction {
   id: string;
   label: string;
@@ -270,18 +365,6 @@ export interface VerificationAction {
 
 // ===== API INTERFACES =====
 
-export interface VerificationProcessResponse {
-  processes: VerificationProcess[];
-  pagination: {
-    total: number;
-    page: number;
-    pageSize: number;
-    totalPages: number;
-  };
-  filters: FilterOptions;
-  sort: SortOptions;
-}
-
 export interface ApprovalRequest {
   processId: string;
   reviewNotes?: string;
@@ -300,6 +383,13 @@ export interface RejectionRequest {
   customMessage?: string;
 }
 
+export interface RevocationRequest {
+  processId: string;
+  reason: string;
+  notifyUser: boolean;
+  customMessage?: string;
+}
+
 export interface MoreInfoRequest {
   processId: string;
   requiredFields: string[];
@@ -324,23 +414,23 @@ export interface MessageTemplate {
 
 export interface VerificationManagementState {
   // Data
-  processes: VerificationProcess[];
   selectedProcesses: string[];
   
   // UI State
-  loading: boolean;
   error: string | null;
   
   // Table State
   filters: FilterOptions;
   sort: SortOptions;
-  pagination: PaginationOptions;
   
   // Modal States
   showApprovalModal: boolean;
   showRejectionModal: boolean;
   showMoreInfoModal: boolean;
   showMessageModal: boolean;
+  showDiffModal: boolean;
+  showRiskModal: boolean;
+  showRiskWeightsModal: boolean;
   
   // Current Actions
   currentProcess: VerificationProcess | null;
@@ -361,7 +451,7 @@ export type CreateSystemMessageRequest = Omit<SystemMessage, 'id' | 'createdAt'
 
 export const VERIFICATION_STATUSES = Object.values(VerificationStatus);
 export const VERIFICATION_PRIORITIES = Object.values(VerificationPriority);
-export const USER_TYPES = Object.values(UserType);
+export const USER_TYPES = Object.keys(USER_TYPE_LABELS) as UserType[];
 export const RISK_LEVELS = Object.values(RiskLevel);
 export const MESSAGE_TYPES = Object.values(MessageType);
 
@@ -378,6 +468,30 @@ export const REJECTION_REASON_CATEGORIES = [
   'Other'
 ] as const;
 
+export const VERIFICATION_FIELD_LABELS: Record<ComparedVerificationField, string> = {
+  fullName: 'Full Name',
+  email: 'Email',
+  phoneNumber: 'Phone Number',
+  address: 'Address',
+  specialization: 'Specialization',
+  specializationDescription: 'Specialization Description',
+  experienceYears: 'Years of Experience',
+  softwareProficiency: 'Software Proficiency',
+  portfolioUrl: 'Portfolio URL',
+  certifications: 'Certifications',
+  education: 'Education',
+  additionalInfo: 'Additional Information'
+};
+
+export const DOCUMENT_TYPE_LABELS: Record<DocumentType, string> = {
+  [DocumentType.NATIONAL_ID]: 'National ID',
+  [DocumentType.PASSPORT]: 'Passport',
+  [DocumentType.PORTFOLIO]: 'Portfolio',
+  [DocumentType.CERTIFICATE]: 'Certificate',
+  [DocumentType.SAMPLE_PROJECT]: 'Sample Project',
+  [DocumentType.SUPPORTING_DOCUMENT]: 'Supporting Document'
+};
+
 export const RISK_FACTORS = [
   'Incomplete documentation',
   'Suspicious identity documents',
@@ -387,4 +501,103 @@ export const RISK_FACTORS = [
   'Unusual submission patterns',
   'Missing professional credentials',
   'Poor portfolio quality'
-] as const;
\ No newline at end of file
+] as const;
+
+export const RISK_SIGNALS: Record<RiskSignal, { label: string; description: string; category: typeof RISK_FACTORS[number] }> = {
+  missing_documents: {
+    label: 'Missing documents',
+    description: 'The ID or sample project was not uploaded',
+    category: 'Incomplete documentation'
+  },
+  portfolio_url: {
+    label: 'Portfolio URL',
+    description: 'The portfolio link is missing, malformed, shortened or not a public HTTPS site',
+    category: 'Poor portfolio quality'
+  },
+  duplicate_phone: {
+    label: 'Shared phone number',
+    description: 'Another account submitted the same phone number',
+    category: 'Inconsistent information'
+  },
+  duplicate_national_id: {
+    label: 'Shared ID document',
+    description: 'Another account uploaded the same ID file',
+    category: 'Suspicious identity documents'
+  },
+  prior_rejections: {
+    label: 'Prior rejections',
+    description: 'Earlier requests from this account were rejected',
+    category: 'Previous rejections'
+  },
+  name_mismatch: {
+    label: 'Name mismatch',
+    description: 'The name on the form differs from the account name',
+    category: 'Inconsistent information'
+  },
+  submission_velocity: {
+    label: 'Submission velocity',
+    description: 'Several requests were submitted within a week',
+    category: 'Unusual submission patterns'
+  }
+};
+
+export const DEFAULT_RISK_WEIGHTS: RiskWeights = {
+  missing_documents: 30,
+  portfolio_url: 15,
+  duplicate_phone: 35,
+  duplicate_national_id: 50,
+  prior_rejections: 20,
+  name_mismatch: 25,
+  submission_velocity: 15
+};
+
+export const MAX_RISK_WEIGHT = 100;
+
+// Lowest score of each level above low
+export const RISK_LEVEL_THRESHOLDS: Record<Exclude<RiskLevel, RiskLevel.LOW>, number> = {
+  [RiskLevel.MEDIUM]: 25,
+  [RiskLevel.HIGH]: 50,
+  [RiskLevel.CRITICAL]: 75
+};
+
+// ===== HELPER FUNCTIONS =====
+
+export const getRiskLevel = (score: number): RiskLevel => {
+  if (score >= RISK_LEVEL_THRESHOLDS[RiskLevel.CRITICAL]) return RiskLevel.CRITICAL;
+  if (score >= RISK_LEVEL_THRESHOLDS[RiskLevel.HIGH]) return RiskLevel.HIGH;
+  if (score >= RISK_LEVEL_THRESHOLDS[RiskLevel.MEDIUM]) return RiskLevel.MEDIUM;
+  return RiskLevel.LOW;
+};
+
+const formatRequestValue = (value: unknown): string => {
+  // Software lists are compared regardless of the order they were ticked in
+  if (Array.isArray(value)) return [...value].sort().join(', ');
+  return String(value ?? '').trim();
+};
+
+/**
+ * Compares two submissions field by field, and their documents by type
+ */
+export const diffVerificationRequests = (
+  previous: VerificationRequest,
+  current: VerificationRequest
+): Pick<SubmissionDiff, 'fields' | 'documents'> => {
+  const fields = (Object.keys(VERIFICATION_FIELD_LABELS) as ComparedVerificationField[])
+    .map(field => ({
+      field,
+      previous: formatRequestValue(previous[field]),
+      current: formatRequestValue(current[field])
+    }))
+    .filter(change => change.previous !== change.current);
+
+  const documentTypes = [...new Set([...previous.documents, ...current.documents].map(document => document.type))];
+  const documents = documentTypes.flatMap((type): VerificationDocumentChange[] => {
+    const before = previous.documents.find(document => document.type === type);
+    const after = current.documents.find(document => document.type === type);
+    if (before?.url === after?.url) return [];
+
+    return [{ type, change: !before ? 'added' : !after ? 'removed' : 'replaced', previous: before, current: after }];
+  });
+
+  return { fields, documents };
+};
\ No newline at end of file
@@ -19,6 +19,108 @@ export interface UploadedFiles {
   sample_project: File | null;
 }
 
+export type VerificationFileType = keyof UploadedFiles;
+
+export const MAX_VERIFICATION_FILE_SIZE = 10 * 1024 * 1024; // 10MB
+
+// Drawings are matched by extension because browsers rarely report a MIME type for them
+export const VERIFICATION_FILE_TYPES: Record<VerificationFileType, { mimeTypes: string[]; extensions: string[]; label: string }> = {
+  national_id: {
+    mimeTypes: ['image/jpeg', 'image/jpg', 'image/png', 'application/pdf'],
+    extensions: ['.jpg', '.jpeg', '.png', '.pdf'],
+    label: 'an image (JPG, PNG) or PDF file'
+  },
+  sample_project: {
+    mimeTypes: ['image/jpeg', 'image/jpg', 'image/png', 'application/pdf', 'application/zip', 'application/x-zip-compressed'],
+    extensions: ['.jpg', '.jpeg', '.png', '.pdf', '.zip', '.dwg', '.dxf'],
+    label: 'a PDF, DWG, DXF, ZIP or image file'
+  }
+};
+
+// Choices offered by the verification form
+export const SPECIALIZATION_OPTIONS = [
+  { value: 'residential', label: 'Residential Architecture' },
+  { value: 'commercial', label: 'Commercial Architecture' },
+  { value: 'industrial', label: 'Industrial Architecture' },
+  { value: 'landscape', label: 'Landscape Architecture' },
+  { value: 'interior', label: 'Interior Design' },
+  { value: 'urban_planning', label: 'Urban Planning' },
+  { value: 'sustainable', label: 'Sustainable Design' },
+  { value: 'restoration', label: 'Historic Restoration' },
+  { value: 'other', label: 'Other' }
+];
+
+export const EXPERIENCE_OPTIONS = [
+  { value: '0-1', label: '0-1 years (Entry Level)' },
+  { value: '2-5', label: '2-5 years (Junior)' },
+  { value: '6-10', label: '6-10 years (Mid-Level)' },
+  { value: '11-15', label: '11-15 years (Senior)' },
+  { value: '16+', label: '16+ years (Expert)' }
+];
+
+export const SOFTWARE_OPTIONS = [
+  'AutoCAD', 'Revit', 'SketchUp', '3ds Max',
+  'Rhino', 'ArchiCAD', 'Lumion', 'V-Ray',
+  'Photoshop', 'Illustrator', 'InDesign', 'Blender'
+];
+
+export type VerificationTextField = Exclude<keyof VerificationFormData, 'terms_accepted'>;
+
+export const VERIFICATION_FORM_LABELS: Record<VerificationTextField, string> = {
+  full_name: 'Full Legal Name',
+  phone_number: 'Phone Number',
+  detailed_address: 'Detailed Address',
+  specialization: 'Specialization',
+  experience_years: 'Years of Experience',
+  specialization_description: 'Specialization Description',
+  software_proficiency: 'Software Proficiency',
+  portfolio_url: 'Portfolio URL',
+  project_description: 'Project Description',
+  certifications: 'Certifications',
+  education: 'Education',
+  additional_info: 'Additional Information'
+};
+
+export const VERIFICATION_FILE_LABELS: Record<VerificationFileType, string> = {
+  national_id: 'National ID / Passport',
+  sample_project: 'Sample Project Files'
+};
+
+// ===== MORE INFORMATION REQUESTS =====
+
+export interface MoreInfoField {
+  label: string;
+  category: string;
+  // What the designer may change when answering
+  formFields: VerificationTextField[];
+  files: VerificationFileType[];
+}
+
+// Information reviewers can ask for, and the parts of the form each one unlocks
+export const MORE_INFO_FIELDS: Record<string, MoreInfoField> = {
+  national_id: { label: 'National ID / Passport', category: 'Identity', formFields: [], files: ['national_id'] },
+  address_proof: { label: 'Address Verification', category: 'Identity', formFields: ['detailed_address'], files: [] },
+  portfolio_samples: { label: 'Additional Portfolio Samples', category: 'Professional', formFields: ['portfolio_url'], files: ['sample_project'] },
+  certifications: { label: 'Professional Certifications', category: 'Professional', formFields: ['certifications'], files: [] },
+  education_transcripts: { label: 'Education Transcripts', category: 'Professional', formFields: ['education'], files: [] },
+  work_experience: { label: 'Work Experience Details', category: 'Professional', formFields: ['experience_years', 'specialization_description'], files: [] },
+  references: { label: 'Professional References', category: 'Professional', formFields: ['additional_info'], files: [] },
+  project_details: { label: 'Detailed Project Information', category: 'Portfolio', formFields: ['project_description'], files: ['sample_project'] },
+  software_proof: { label: 'Software Proficiency Evidence', category: 'Technical', formFields: ['software_proficiency'], files: [] },
+  license_verification: { label: 'Professional License Verification', category: 'Legal', formFields: ['certifications'], files: [] }
+};
+
+// Form fields and documents unlocked by a set of requested items, without duplicates
+export const getUnlockedFields = (requiredFields: string[]): Pick<MoreInfoField, 'formFields' | 'files'> => {
+  const fields = requiredFields
+    .filter(field => Object.prototype.hasOwnProperty.call(MORE_INFO_FIELDS, field))
+    .map(field => MORE_INFO_FIELDS[field]);
+  return {
+    formFields: [...new Set(fields.flatMap(field => field.formFields))],
+    files: [...new Set(fields.flatMap(field => field.files))]
+  };
+};
+
 export interface VerificationApplication {
   id: string;
   user_id: string;
@@ -0,0 +1,175 @@
+/**
+ * BlurHash encoding and decoding
+ * A blurhash is a short string describing the colors of an image, decoded into a blurred
+ * placeholder while the real image loads. See https://blurha.sh for the format.
+ */
+
+const BASE83_CHARACTERS = '0123456789ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz#$%*+,-.:;=?@[]^_{|}~';
+
+type Color = [number, number, number];
+
+const encodeBase83 = (value: number, length: number): string => {
+  let result = '';
+  for (let i = 1; i <= length; i++) {
+    const digit = Math.floor(value / Math.pow(83, length - i)) % 83;
+    result += BASE83_CHARACTERS[digit];
+  }
+  return result;
+};
+
+const decodeBase83 = (str: string): number => {
+  let value = 0;
+  for (const character of str) {
+    const digit = BASE83_CHARACTERS.indexOf(character);
+    if (digit === -1) {
+      throw new Error('Invalid blurhash character');
+    }
+    value = value * 83 + digit;
+  }
+  return value;
+};
+
+const sRGBToLinear = (value: number): number => {
+  const v = value / 255;
+  return v <= 0.04045 ? v / 12.92 : Math.pow((v + 0.055) / 1.055, 2.4);
+};
+
+const linearToSRGB = (value: number): number => {
+  const v = Math.max(0, Math.min(1, value));
+  return v <= 0.0031308
+    ? Math.trunc(v * 12.92 * 255 + 0.5)
+    : Math.trunc((1.055 * Math.pow(v, 1 / 2.4) - 0.055) * 255 + 0.5);
+};
+
+const signPow = (value: number, exponent: number): number => {
+  return Math.sign(value) * Math.pow(Math.abs(value), exponent);
+};
+
+/**
+ * Encodes RGBA pixels into a blurhash
+ * Keep the image small (around 32px): encoding cost grows with pixels × components
+ * @param pixels - RGBA pixel data, as returned by getImageData
+ * @param width - Image width in pixels
+ * @param height - Image height in pixels
+ * @param componentsX - Horizontal detail, 1-9
+ * @param componentsY - Vertical detail, 1-9
+ * @returns string - Blurhash
+ */
+export const encodeBlurhash = (
+  pixels: Uint8ClampedArray,
+  width: number,
+  height: number,
+  componentsX: number = 4,
+  componentsY: number = 3
+): string => {
+  if (componentsX < 1 || componentsX > 9 || componentsY < 1 || componentsY > 9) {
+    throw new Error('Blurhash components must be between 1 and 9');
+  }
+  if (pixels.length !== width * height * 4) {
+    throw new Error('Pixel data does not match the image size');
+  }
+
+  const factors: Color[] = [];
+  for (let y = 0; y < componentsY; y++) {
+    for (let x = 0; x < componentsX; x++) {
+      const normalisation = x === 0 && y === 0 ? 1 : 2;
+      const factor: Color = [0, 0, 0];
+      for (let py = 0; py < height; py++) {
+        for (let px = 0; px < width; px++) {
+          const basis = normalisation * Math.cos((Math.PI * x * px) / width) * Math.cos((Math.PI * y * py) / height);
+          const offset = 4 * (px + py * width);
+          factor[0] += basis * sRGBToLinear(pixels[offset]);
+          factor[1] += basis * sRGBToLinear(pixels[offset + 1]);
+          factor[2] += basis * sRGBToLinear(pixels[offset + 2]);
+        }
+      }
+      const scale = 1 / (width * height);
+      factors.push([factor[0] * scale, factor[1] * scale, factor[2] * scale]);
+    }
+  }
+
+  const [dc, ...ac] = factors;
+  let hash = encodeBase83(componentsX - 1 + (componentsY - 1) * 9, 1);
+
+  let maximumValue = 1;
+  if (ac.length > 0) {
+    const actualMaximum = Math.max(...ac.map(color => Math.max(...color.map(Math.abs))));
+    const quantisedMaximum = Math.max(0, Math.min(82, Math.floor(actualMaximum * 166 - 0.5)));
+    maximumValue = (quantisedMaximum + 1) / 166;
+    hash += encodeBase83(quantisedMaximum, 1);
+  } else {
+    hash += encodeBase83(0, 1);
+  }
+
+  hash += encodeBase83((linearToSRGB(dc[0]) << 16) + (linearToSRGB(dc[1]) << 8) + linearToSRGB(dc[2]), 4);
+
+  for (const color of ac) {
+    const [r, g, b] = color.map(value =>
+      Math.max(0, Math.min(18, Math.floor(signPow(value / maximumValue, 0.5) * 9 + 9.5)))
+    );
+    hash += encodeBase83(r * 19 * 19 + g * 19 + b, 2);
+  }
+
+  return hash;
+};
+
+/**
+ * Decodes a blurhash into RGBA pixels
+ * @param hash - Blurhash
+ * @param width - Output width in pixels
+ * @param height - Output height in pixels
+ * @returns Uint8ClampedArray - RGBA pixel data, ready for an ImageData
+ */
+export const decodeBlurhash = (hash: string, width: number, height: number): Uint8ClampedArray => {
+  if (hash.length < 6) {
+    throw new Error('Blurhash is too short');
+  }
+
+  const sizeFlag = decodeBase83(hash[0]);
+  const componentsY = Math.floor(sizeFlag / 9) + 1;
+  const componentsX = (sizeFlag % 9) + 1;
+  if (hash.length !== 4 + 2 * componentsX * componentsY) {
+    throw new Error('Blurhash length does not match its size flag');
+  }
+
+  const maximumValue = (decodeBase83(hash[1]) + 1) / 166;
+  const colors: Color[] = [];
+  for (let i = 0; i < componentsX * componentsY; i++) {
+    if (i === 0) {
+      const value = decodeBase83(hash.substring(2, 6));
+      colors.push([sRGBToLinear(value >> 16), sRGBToLinear((value >> 8) & 255), sRGBToLinear(value & 255)]);
+    } else {
+      const value = decodeBase83(hash.substring(4 + i * 2, 6 + i * 2));
+      colors.push([
+        signPow((Math.floor(value / (19 * 19)) - 9) / 9, 2) * maximumValue,
+        signPow(((Math.floor(value / 19) % 19) - 9) / 9, 2) * maximumValue,
+        signPow(((value % 19) - 9) / 9, 2) * maximumValue
+      ]);
+    }
+  }
+
+  const pixels = new Uint8ClampedArray(width * height * 4);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      let r = 0;
+      let g = 0;
+      let b = 0;
+      for (let j = 0; j < componentsY; j++) {
+        for (let i = 0; i < componentsX; i++) {
+          const basis = Math.cos((Math.PI * x * i) / width) * Math.cos((Math.PI * y * j) / height);
+          const color = colors[i + j * componentsX];
+          r += color[0] * basis;
+          g += color[1] * basis;
+          b += color[2] * basis;
+        }
+      }
+      const offset = 4 * (x + y * width);
+      pixels[offset] = linearToSRGB(r);
+      pixels[offset + 1] = linearToSRGB(g);
+      pixels[offset + 2] = linearToSRGB(b);
+      pixels[offset + 3] = 255;
+    }
+  }
+
+  return pixels;
+};
@@ -8,8 +8,13 @@ import {
   query,
   where,
   getDocs,
+  limit,
+  startAfter,
+  DocumentData,
   DocumentReference,
   DocumentSnapshot,
+  Query,
+  QueryDocumentSnapshot,
   QuerySnapshot,
   serverTimestamp
 } from 'firebase/firestore';
@@ -17,7 +22,7 @@ import { db } from '../config/firebase';
 
 /**
  * Utility functions for common Firestore operations
- * These helpers make it easier to work with user profiles and other collections
+ * User profiles are read and written through UserService, which converts legacy shapes
  */
 
 /**
@@ -116,6 +121,48 @@ export async function queryDocuments<T>(
   }
 }
 
+/**
+ * One page of a cursor-paginated query
+ */
+export interface PaginatedResult<T> {
+  items: T[];
+  cursor: QueryDocumentSnapshot<DocumentData> | null; // Last document of this page
+  hasMore: boolean;
+}
+
+export const DEFAULT_PAGE_SIZE = 20;
+
+/**
+ * Generic function to fetch one page of an ordered query
+ * Pages continue after the previous page's last document rather than an offset, so documents
+ * inserted or removed elsewhere in the list never shift or repeat the remaining pages.
+ * Firestore breaks ties in the last orderBy by document ID, which keeps the cursor unambiguous.
+ */
+export async function queryPaginated<T>(
+  baseQuery: Query<DocumentData>,
+  mapDocument: (docSnap: QueryDocumentSnapshot<DocumentData>) => T,
+  cursor: QueryDocumentSnapshot<DocumentData> | null = null,
+  pageSize: number = DEFAULT_PAGE_SIZE
+): Promise<PaginatedResult<T>> {
+  try {
+    const pageQuery = cursor
+      ? query(baseQuery, startAfter(cursor), limit(pageSize + 1))
+      : query(baseQuery, limit(pageSize + 1));
+    // One extra document tells us whether another page exists
+    const querySnapshot = await getDocs(pageQuery);
+    const docs = querySnapshot.docs.slice(0, pageSize);
+
+    return {
+      items: docs.map(mapDocument),
+      cursor: docs.length > 0 ? docs[docs.length - 1] : cursor,
+      hasMore: querySnapshot.docs.length > pageSize
+    };
+  } catch (error) {
+    console.error('Error fetching paginated query:', error);
+    throw error;
+  }
+}
+
 /**
  * Check if a document exists in a collection
  */
@@ -130,62 +177,6 @@ export async function documentExists(collectionName: string, documentId: string)
   }
 }
 
-/**
- * Specific helper for user profiles
- */
-export interface UserProfile {
-  uid: string;
-  email: string;
-  full_name: string;
-  user_type: 'admin' | 'designer_verified' | 'designer_unverified' | 'service_requester';
-  designer_verification_status: 'verified' | 'unverified' | null;
-  created_at: any;
-  updated_at: any;
-  is_active: boolean;
-}
-
-/**
- * Get user profile from Firestore
- */
-export async function getUserProfile(uid: string): Promise<UserProfile | null> {
-  return await getDocument<UserProfile>('users', uid);
-}
-
-/**
- * Create or update user profile in Firestore
- */
-export async function setUserProfile(uid: string, profile: Partial<UserProfile>): Promise<void> {
-  await setDocument('users', uid, profile, true);
-}
-
-/**
- * Update user profile in Firestore
- */
-export async function updateUserProfile(uid: string, updates: Partial<UserProfile>): Promise<void> {
-  await updateDocument('users', uid, updates);
-}
-
-/**
- * Check if user profile exists in Firestore
- */
-export async function userProfileExists(uid: string): Promise<boolean> {
-  return await documentExists('users', uid);
-}
-
-/**
- * Get users by type
- */
-export async function getUsersByType(userType: string): Promise<UserProfile[]> {
-  return await queryDocuments<UserProfile>('users', 'user_type', '==', userType);
-}
-
-/**
- * Get all active users
- */
-export async function getActiveUsers(): Promise<UserProfile[]> {
-  return await queryDocuments<UserProfile>('users', 'is_active', '==', true);
-}
-
 /**
  * Batch operations helper (for future use)
  */
@@ -137,14 +137,4 @@ export const prepareUserProfileForFirestore = (profileData: any) => {
       ? (profileData.designer_verification_status || 'unverified')
       : null
   }, true); // Convert undefined to null for consistency
-};
-
-/**
- * Validation rules for user profile fields
- */
-export const USER_PROFILE_VALIDATION_RULES = {
-  user_type: (value: string) => ['admin', 'designer', 'service_requester'].includes(value),
-  designer_verification_status: (value: string) => value === null || ['verified', 'unverified'].includes(value),
-  email: (value: string) => typeof value === 'string' && value.includes('@'),
-  full_name: (value: string) => typeof value === 'string' && value.trim().length > 0
 };
\ No newline at end of file
@@ -0,0 +1,137 @@
+/**
+ * Browser-side image processing for project uploads
+ * Images are decoded with their EXIF orientation applied, then redrawn on a canvas. Re-encoding
+ * from a canvas writes no metadata, so GPS coordinates and other EXIF fields never leave the device.
+ */
+
+import { encodeBlurhash } from './blurhash';
+import {
+  RenditionSize,
+  RENDITION_SIZES,
+  RENDITION_MAX_DIMENSIONS,
+  RENDITION_QUALITY,
+  MAX_SOURCE_IMAGE_SIZE
+} from '../types/image';
+
+export interface ProcessedRendition {
+  blob: Blob;
+  width: number;
+  height: number;
+}
+
+export interface ProcessedImage {
+  renditions: Record<RenditionSize, ProcessedRendition>;
+  contentType: 'image/webp' | 'image/jpeg';
+  blurhash: string;
+}
+
+// Blurhash cost grows with pixel count, and the placeholder is blurred anyway
+const BLURHASH_MAX_DIMENSION = 32;
+
+type DrawingSurface = HTMLCanvasElement | OffscreenCanvas;
+
+const createSurface = (width: number, height: number): DrawingSurface => {
+  if (typeof OffscreenCanvas !== 'undefined') {
+    return new OffscreenCanvas(width, height);
+  }
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  return canvas;
+};
+
+const getContext = (surface: DrawingSurface) => {
+  const context = surface.getContext('2d') as CanvasRenderingContext2D | OffscreenCanvasRenderingContext2D | null;
+  if (!context) {
+    throw new Error('Image processing is not supported in this browser');
+  }
+  context.imageSmoothingEnabled = true;
+  context.imageSmoothingQuality = 'high';
+  return context;
+};
+
+const encodeSurface = async (surface: DrawingSurface, type: string): Promise<Blob> => {
+  if (surface instanceof HTMLCanvasElement) {
+    return new Promise((resolve, reject) => {
+      surface.toBlob(
+        blob => blob ? resolve(blob) : reject(new Error('Image could not be encoded')),
+        type,
+        RENDITION_QUALITY
+      );
+    });
+  }
+  return surface.convertToBlob({ type, quality: RENDITION_QUALITY });
+};
+
+const fitWithin = (width: number, height: number, maxDimension: number) => {
+  const scale = Math.min(1, maxDimension / Math.max(width, height));
+  return {
+    width: Math.max(1, Math.round(width * scale)),
+    height: Math.max(1, Math.round(height * scale))
+  };
+};
+
+// Browsers without a WebP encoder silently return PNG
+const supportsWebpEncoding = async (): Promise<boolean> => {
+  const blob = await encodeSurface(createSurface(1, 1), 'image/webp');
+  return blob.type === 'image/webp';
+};
+
+/**
+ * Decodes an image file with its EXIF orientation applied
+ */
+const decodeImage = async (file: File): Promise<ImageBitmap> => {
+  try {
+    return await createImageBitmap(file, { imageOrientation: 'from-image' });
+  } catch {
+    throw new Error('Image could not be read. Use a JPEG, PNG or WebP file.');
+  }
+};
+
+/**
+ * Resizes an image into every rendition, encodes them as WebP and computes a blurhash
+ * Falls back to JPEG in browsers that cannot encode WebP.
+ * @param file - Image selected by the user
+ * @returns Promise<ProcessedImage> - Encoded renditions ready for upload
+ */
+export const processImage = async (file: File): Promise<ProcessedImage> => {
+  if (!file.type.startsWith('image/')) {
+    throw new Error('File must be an image');
+  }
+  if (file.size > MAX_SOURCE_IMAGE_SIZE) {
+    throw new Error(`Image size must be less than ${MAX_SOURCE_IMAGE_SIZE / (1024 * 1024)}MB`);
+  }
+
+  const bitmap = await decodeImage(file);
+  try {
+    const contentType: ProcessedImage['contentType'] = await supportsWebpEncoding() ? 'image/webp' : 'image/jpeg';
+    const renditions = {} as Record<RenditionSize, ProcessedRendition>;
+
+    // Largest first, each rendition drawn from the previous one, so big originals are only scaled once
+    let source: CanvasImageSource = bitmap;
+    for (const size of RENDITION_SIZES) {
+      const { width, height } = fitWithin(bitmap.width, bitmap.height, RENDITION_MAX_DIMENSIONS[size]);
+      const surface = createSurface(width, height);
+      const context = getContext(surface);
+      if (contentType === 'image/jpeg') {
+        // JPEG has no transparency, which would otherwise turn black
+        context.fillStyle = '#ffffff';
+        context.fillRect(0, 0, width, height);
+      }
+      context.drawImage(source, 0, 0, width, height);
+
+      renditions[size] = { blob: await encodeSurface(surface, contentType), width, height };
+      source = surface;
+    }
+
+    const { width, height } = fitWithin(bitmap.width, bitmap.height, BLURHASH_MAX_DIMENSION);
+    const surface = createSurface(width, height);
+    const context = getContext(surface);
+    context.drawImage(bitmap, 0, 0, width, height);
+    const blurhash = encodeBlurhash(context.getImageData(0, 0, width, height).data, width, height);
+
+    return { renditions, contentType, blurhash };
+  } finally {
+    bitmap.close();
+  }
+};
@@ -0,0 +1,261 @@
+/**
+ * Declarative validation schemas shared by forms and services
+ * A schema lists the rules of each field; the first failing rule gives that field's error.
+ * Forms and the services behind them validate with the same schema, so they never disagree.
+ */
+
+import type { CreateProjectData } from '../services/projectService';
+import { MAX_SOURCE_IMAGE_SIZE } from '../types/image';
+import {
+  CreateUserProfileData,
+  SignInFormData,
+  SignUpFormData,
+  UserType,
+  USER_TYPE_LABELS
+} from '../types/user';
+import { CreateProjectRequestData } from '../types/projectRequest';
+import {
+  UploadedFiles,
+  VerificationFileType,
+  VerificationFormData,
+  MAX_VERIFICATION_FILE_SIZE,
+  VERIFICATION_FILE_TYPES
+} from '../types/verification';
+
+// ===== SCHEMA TYPES =====
+
+export type FieldRule<T, K extends keyof T = keyof T> = (value: T[K], data: T) => string | null;
+
+export type Schema<T> = { [K in keyof T]?: FieldRule<T, K>[] };
+
+export type FieldErrors<T> = Partial<Record<keyof T, string>>;
+
+export interface ValidationResult<T> {
+  isValid: boolean;
+  errors: FieldErrors<T>;
+}
+
+/**
+ * Validates every field in a schema
+ * @param schema - Schema to validate against
+ * @param data - Values to validate
+ * @returns ValidationResult<T> - One error message per invalid field
+ */
+export const validate = <T>(schema: Schema<T>, data: T): ValidationResult<T> => {
+  const errors: FieldErrors<T> = {};
+
+  for (const field of Object.keys(schema) as (keyof T)[]) {
+    for (const rule of schema[field] || []) {
+      const message = rule(data[field], data);
+      if (message) {
+        errors[field] = message;
+        break;
+      }
+    }
+  }
+
+  return { isValid: Object.keys(errors).length === 0, errors };
+};
+
+/**
+ * Validates only the fields present in a partial update
+ * @param schema - Schema to validate against
+ * @param data - Changed values; undefined fields are left out
+ * @returns ValidationResult<T> - One error message per invalid field
+ */
+export const validatePartial = <T>(schema: Schema<T>, data: Partial<T>): ValidationResult<T> => {
+  const present = Object.fromEntries(
+    Object.entries(schema).filter(([field]) => data[field as keyof T] !== undefined)
+  ) as Schema<T>;
+  return validate(present, data as T);
+};
+
+/**
+ * Lists the error messages of a validation result in schema order
+ */
+export const getErrorMessages = <T>(errors: FieldErrors<T>): string[] => {
+  return Object.values(errors).filter((message): message is string => typeof message === 'string');
+};
+
+/**
+ * Throws with every error message joined, for services rejecting invalid writes
+ */
+export const assertValid = <T>(result: ValidationResult<T>): void => {
+  if (!result.isValid) {
+    throw new Error(getErrorMessages(result.errors).join(', '));
+  }
+};
+
+// ===== RULES =====
+
+export const required = (message: string) => (value: unknown): string | null => {
+  if (value === null || value === undefined) return message;
+  if (typeof value === 'string' && !value.trim()) return message;
+  if (Array.isArray(value) && value.length === 0) return message;
+  return null;
+};
+
+export const minLength = (length: number, message: string) => (value: string): string | null => {
+  return (value || '').trim().length < length ? message : null;
+};
+
+export const isEmail = (message: string) => (value: string): string | null => {
+  return /\S+@\S+\.\S+/.test(value || '') ? null : message;
+};
+
+export const oneOf = <V>(values: readonly V[], message: string) => (value: V): string | null => {
+  return values.includes(value) ? null : message;
+};
+
+export const positive = (message: string) => (value: number): string | null => {
+  return typeof value === 'number' && value > 0 ? null : message;
+};
+
+export const wholeNumber = (message: string) => (value: number): string | null => {
+  return Number.isInteger(value) && value >= 0 ? null : message;
+};
+
+export const accepted = (message: string) => (value: boolean): string | null => {
+  return value === true ? null : message;
+};
+
+export const maxFileSize = (bytes: number, message: string) => (value: File | File[] | null): string | null => {
+  const files = Array.isArray(value) ? value : value ? [value] : [];
+  return files.some(file => file.size > bytes) ? message : null;
+};
+
+/**
+ * Checks a verification document against the size and types allowed for its purpose
+ * @param file - Selected file
+ * @param fileType - What the file is uploaded as
+ * @returns string | null - Error message, or null if the file is allowed
+ */
+export const validateVerificationFile = (file: File, fileType: VerificationFileType): string | null => {
+  if (file.size > MAX_VERIFICATION_FILE_SIZE) {
+    return `File size must be less than ${MAX_VERIFICATION_FILE_SIZE / (1024 * 1024)}MB`;
+  }
+
+  const allowed = VERIFICATION_FILE_TYPES[fileType];
+  const name = file.name.toLowerCase();
+  if (!allowed.mimeTypes.includes(file.type) && !allowed.extensions.some(extension => name.endsWith(extension))) {
+    return `File must be ${allowed.label}`;
+  }
+
+  return null;
+};
+
+const verificationFile = (fileType: VerificationFileType) => (value: File | null): string | null => {
+  return value ? validateVerificationFile(value, fileType) : null;
+};
+
+// ===== USER PROFILES AND AUTH FORMS =====
+
+const fullNameRules = [required('Full name is required')];
+const emailRules = [required('Email is required'), isEmail('Email is invalid')];
+const userTypeRules = [oneOf(Object.keys(USER_TYPE_LABELS) as UserType[], 'Please select an account type')];
+
+export const userProfileSchema: Schema<CreateUserProfileData> = {
+  email: emailRules,
+  full_name: fullNameRules,
+  user_type: userTypeRules,
+  designer_verification_status: [
+    (value, data) => {
+      if (value === null || value === undefined) return null;
+      if (data.user_type && data.user_type !== 'designer') return 'Only designers have a verification status';
+      return value === 'verified' || value === 'unverified' ? null : 'Invalid verification status';
+    }
+  ]
+};
+
+export const signUpSchema: Schema<SignUpFormData> = {
+  fullName: fullNameRules,
+  email: emailRules,
+  password: [required('Password is required'), minLength(8, 'Password must be at least 8 characters')],
+  confirmPassword: [(value, data) => (value === data.password ? null : 'Passwords do not match')],
+  userType: userTypeRules,
+  agreeToTerms: [accepted('You must agree to the terms')]
+};
+
+export const signInSchema: Schema<SignInFormData> = {
+  email: emailRules,
+  password: [required('Password is required')]
+};
+
+// ===== PROJECT PACKAGES =====
+
+// Forms hold the primary image as null until one is picked
+export type ProjectInput = Omit<CreateProjectData, 'primaryImage'> & { primaryImage: File | null };
+
+const imageSizeMessage = `Images must be smaller than ${MAX_SOURCE_IMAGE_SIZE / (1024 * 1024)}MB`;
+
+export const projectSchema: Schema<ProjectInput> = {
+  title: [required('Project title is required')],
+  category: [required('Please select a project category')],
+  deliveryTimeline: [required('Please specify delivery timeline')],
+  deliverables: [required('Please describe the deliverables')],
+  description: [required('Project description is required')],
+  price: [positive('Price must be greater than zero')],
+  meetingsCount: [wholeNumber('Meetings must be a whole number')],
+  revisionsCount: [wholeNumber('Revisions must be a whole number')],
+  customTags: [required('Please add at least one tag')],
+  primaryImage: [required('Primary image is required'), maxFileSize(MAX_SOURCE_IMAGE_SIZE, imageSizeMessage)],
+  additionalImages: [maxFileSize(MAX_SOURCE_IMAGE_SIZE, imageSizeMessage)]
+};
+
+// ===== PROJECT REQUESTS =====
+
+// A draft only needs a title; everything else is checked when it is published
+export const projectRequestDraftSchema: Schema<CreateProjectRequestData> = {
+  title: [required('Title is required')]
+};
+
+export const projectRequestSchema: Schema<CreateProjectRequestData> = {
+  ...projectRequestDraftSchema,
+  description: [minLength(20, 'Description must be at least 20 characters')],
+  category: [required('Category is required')],
+  timeline: [required('Timeline is required')],
+  budget: [
+    (budget) => {
+      if (!budget || !(budget.min > 0) || !(budget.max > 0)) return 'Budget must be greater than zero';
+      return budget.min > budget.max ? 'Minimum budget cannot exceed maximum budget' : null;
+    }
+  ],
+  deadline: [
+    (deadline) => {
+      const time = new Date(deadline || '').getTime();
+      if (isNaN(time)) return 'A valid deadline is required';
+      return time < Date.now() ? 'Deadline must be in the future' : null;
+    }
+  ]
+};
+
+// ===== DESIGNER VERIFICATION =====
+
+export const verificationFormSchema: Schema<VerificationFormData> = {
+  full_name: [required('Full legal name is required')],
+  detailed_address: [required('Address is required')],
+  phone_number: [required('Phone number is required')],
+  specialization: [required('Please select your specialization')],
+  specialization_description: [required('Please describe your specialization')],
+  experience_years: [required('Please select your years of experience')],
+  portfolio_url: [required('Portfolio URL is required')],
+  software_proficiency: [required('Please select at least one software you are proficient in')],
+  terms_accepted: [accepted('Please accept the terms and conditions')]
+};
+
+export const verificationFilesSchema: Schema<UploadedFiles> = {
+  national_id: [required('Please upload your National ID or Passport'), verificationFile('national_id')],
+  sample_project: [required('Please upload a sample project file'), verificationFile('sample_project')]
+};
+
+export const verificationSubmissionSchema: Schema<VerificationFormData & UploadedFiles> = {
+  ...verificationFormSchema,
+  ...verificationFilesSchema
+};
+
+// A resubmission keeps the previous documents unless new ones are picked
+export const verificationResubmissionSchema: Schema<VerificationFormData & UploadedFiles> = {
+  ...verificationFormSchema,
+  national_id: [verificationFile('national_id')],
+  sample_project: [verificationFile('sample_project')]
+};